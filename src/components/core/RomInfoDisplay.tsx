@@ -1,7 +1,25 @@
 import {useState} from 'react';
-import {loadRomFile, exportRomFile, useAppDispatch, useAppSelector} from '../../store';
+import {loadRomFile, exportRomFile, exportRomPatch, importRomPatch, upgradeRom, useAppDispatch, useAppSelector} from '../../store';
+import {RomPatchFormat} from '../../services/file/RomPatch';
+import {RomHeader, RomChecksum} from '../../services/binary/RomHeader';
+import {toHex} from '../../utils/tracker-utils';
 import './RomInfoDisplay.css';
 
+/**
+ * Format a size in bytes as KB, or Unknown for an unknown size code
+ */
+function formatSize(size: number | null, code: number): string {
+  return `${size === null ? 'Unknown' : `${size / 1024} KB`} (0x${toHex(code)})`;
+}
+
+/**
+ * Format a checksum and whether it matches the ROM
+ */
+function formatChecksum(checksum: RomChecksum, digits: number): string {
+  const hex = (value: number) => `0x${value.toString(16).toUpperCase().padStart(digits, '0')}`;
+  return checksum.valid ? `${hex(checksum.stored)} (Valid)` : `${hex(checksum.stored)} (Invalid, should be ${hex(checksum.computed)})`;
+}
+
 /**
  * Component for displaying ROM file information
  * This is a minimal UI to demonstrate file loading and basic ROM information display
@@ -11,7 +29,11 @@ export function RomInfoDisplay() {
   const romInfo = useAppSelector(state => state.rom.romInfo);
   const isLoading = useAppSelector(state => state.rom.isLoading);
   const error = useAppSelector(state => state.rom.error);
+  const upgradeReport = useAppSelector(state => state.rom.upgradeReport);
+  const patchReport = useAppSelector(state => state.rom.patchReport);
   const [isExpanded, setIsExpanded] = useState(false);
+  const header = romInfo?.header ?? null;
+  const headerProblems = header && romInfo ? RomHeader.describeProblems(header, romInfo.size) : [];
 
   /**
    * Handle file selection and load ROM information
@@ -20,11 +42,47 @@ export function RomInfoDisplay() {
     dispatch(loadRomFile());
   }
 
+  /**
+   * Ask before exporting a ROM whose checksums were invalid when it was loaded
+   * The checksums are fixed on export, which would hide that the loaded ROM was already broken
+   */
+  function confirmChecksumFix(): boolean {
+    if (header && (!header.headerChecksum.valid || !header.globalChecksum.valid)) {
+      return window.confirm('The checksums of the loaded ROM were already invalid before editing. Export with fixed checksums anyway?');
+    }
+    return true;
+  }
+
   /**
    * Handle export button click and export ROM file
    */
   async function handleExportRom() {
-    dispatch(exportRomFile());
+    if (confirmChecksumFix()) {
+      dispatch(exportRomFile());
+    }
+  }
+
+  /**
+   * Handle export patch button click and export the changes to the loaded ROM as a patch
+   */
+  async function handleExportPatch(format: RomPatchFormat) {
+    if (confirmChecksumFix()) {
+      dispatch(exportRomPatch(format));
+    }
+  }
+
+  /**
+   * Handle apply patch button click and apply an IPS or BPS patch to the loaded ROM
+   */
+  async function handleImportPatch() {
+    dispatch(importRomPatch());
+  }
+
+  /**
+   * Handle upgrade button click and move the customizations to a newer ROM
+   */
+  async function handleUpgradeRom() {
+    dispatch(upgradeRom());
   }
 
   /**
@@ -62,6 +120,47 @@ export function RomInfoDisplay() {
             {isLoading ? 'Exporting...' : 'Export ROM File'}
           </button>
         )}
+
+        {romInfo && (
+          <button 
+            onClick={handleUpgradeRom}
+            disabled={isLoading}
+            className="file-upgrade-button"
+            aria-label="Copy kits, fonts and palettes to a newer ROM file"
+            aria-busy={isLoading}
+          >
+            Upgrade ROM
+          </button>
+        )}
+
+        {romInfo && (
+          <>
+            <button
+              onClick={() => handleExportPatch('ips')}
+              disabled={isLoading}
+              className="file-patch-button"
+              aria-label="Export the changes to the ROM as an IPS patch"
+            >
+              Export IPS Patch
+            </button>
+            <button
+              onClick={() => handleExportPatch('bps')}
+              disabled={isLoading}
+              className="file-patch-button"
+              aria-label="Export the changes to the ROM as a BPS patch"
+            >
+              Export BPS Patch
+            </button>
+            <button
+              onClick={handleImportPatch}
+              disabled={isLoading}
+              className="file-patch-button"
+              aria-label="Apply an IPS or BPS patch to the ROM"
+            >
+              Apply Patch
+            </button>
+          </>
+        )}
       </div>
 
       {error && (
@@ -70,6 +169,43 @@ export function RomInfoDisplay() {
         </div>
       )}
 
+      {upgradeReport && (
+        <div className="rom-upgrade-report" role="status" aria-live="polite">
+          <h3>Upgraded ROM</h3>
+          <p>
+            Copied {upgradeReport.kits.length} kit{upgradeReport.kits.length === 1 ? '' : 's'},{' '}
+            {upgradeReport.fonts} font{upgradeReport.fonts === 1 ? '' : 's'} and{' '}
+            {upgradeReport.palettes} palette{upgradeReport.palettes === 1 ? '' : 's'}.
+          </p>
+          {upgradeReport.kits.length > 0 && (
+            <ul>
+              {upgradeReport.kits.map(kit => (
+                <li key={kit.targetBank}>{kit.name || 'Unnamed kit'}: bank {kit.sourceBank} to bank {kit.targetBank}</li>
+              ))}
+            </ul>
+          )}
+          {upgradeReport.unmapped.length > 0 && (
+            <>
+              <p>Not copied:</p>
+              <ul>
+                {upgradeReport.unmapped.map((message, i) => <li key={i}>{message}</li>)}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+
+      {patchReport && (
+        <div className="rom-upgrade-report" role="status" aria-live="polite">
+          <p>
+            Applied {patchReport.format.toUpperCase()} patch.{' '}
+            {patchReport.sourceVerified
+              ? 'The patch was made from this ROM.'
+              : 'IPS patches have no checksum, so make sure it was made for this LSDj version.'}
+          </p>
+        </div>
+      )}
+
       {romInfo && (
         <div className="rom-info" role="region" aria-label="ROM file details">
           <div className="rom-info-header">
@@ -94,11 +230,24 @@ export function RomInfoDisplay() {
             </button>
           </div>
 
+          {headerProblems.length > 0 && (
+            <div className="rom-header-warning" role="status" aria-live="polite">
+              <p>Cartridge header problems:</p>
+              <ul>
+                {headerProblems.map((problem, i) => <li key={i}>{problem}</li>)}
+              </ul>
+            </div>
+          )}
+
           {isExpanded && (
             <table className="rom-info-table" aria-labelledby="rom-title">
               <tbody>
                 <tr>
-                  <th scope="row">Version:</th>
+                  <th scope="row">LSDj Version:</th>
+                  <td>{romInfo.lsdjVersion ?? 'Unknown'}</td>
+                </tr>
+                <tr>
+                  <th scope="row">Header Version:</th>
                   <td>{romInfo.version}</td>
                 </tr>
                 <tr>
@@ -121,6 +270,38 @@ export function RomInfoDisplay() {
                   <th scope="row">Valid ROM:</th>
                   <td>{romInfo.isValid ? 'Yes' : 'No'}</td>
                 </tr>
+                {header && (
+                  <>
+                    <tr>
+                      <th scope="row">Nintendo Logo:</th>
+                      <td>{header.logoValid ? 'Valid' : 'Invalid'}</td>
+                    </tr>
+                    <tr>
+                      <th scope="row">CGB Flag:</th>
+                      <td>{header.cgbSupport} (0x{toHex(header.cgbFlag)})</td>
+                    </tr>
+                    <tr>
+                      <th scope="row">Cartridge Type:</th>
+                      <td>{header.cartridgeTypeName ?? 'Unknown'} (0x{toHex(header.cartridgeType)})</td>
+                    </tr>
+                    <tr>
+                      <th scope="row">Header ROM Size:</th>
+                      <td>{formatSize(header.romSize, header.romSizeCode)}{header.romSizeMatches ? '' : ', file size differs'}</td>
+                    </tr>
+                    <tr>
+                      <th scope="row">Header RAM Size:</th>
+                      <td>{formatSize(header.ramSize, header.ramSizeCode)}</td>
+                    </tr>
+                    <tr>
+                      <th scope="row">Header Checksum:</th>
+                      <td>{formatChecksum(header.headerChecksum, 2)}</td>
+                    </tr>
+                    <tr>
+                      <th scope="row">Global Checksum:</th>
+                      <td>{formatChecksum(header.globalChecksum, 4)}</td>
+                    </tr>
+                  </>
+                )}
               </tbody>
             </table>
           )}
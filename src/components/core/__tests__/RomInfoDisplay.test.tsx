@@ -2,6 +2,7 @@ import {beforeEach, describe, expect, it, vi} from 'vitest';
 import {screen, fireEvent} from '@testing-library/react';
 import {RomInfoDisplay} from '../RomInfoDisplay';
 import {renderWithRedux} from '../../../utils/test-utils';
+import {exportRomFile, exportRomPatch} from '../../../store';
 
 // Mock the Redux store and actions
 vi.mock('../../../store', async () => {
@@ -10,6 +11,7 @@ vi.mock('../../../store', async () => {
   // Create mock functions
   const loadRomFileMock = vi.fn();
   const exportRomFileMock = vi.fn();
+  const exportRomPatchMock = vi.fn();
 
   // Set up return values
   loadRomFileMock.mockReturnValue({
@@ -18,6 +20,7 @@ vi.mock('../../../store', async () => {
       romInfo: {
         title: 'LSDJ v8.5.1',
         version: 'v85',
+        lsdjVersion: '8.5.1',
         isValid: true,
         size: 524288, // 512 KB
         banks: 32,
@@ -37,6 +40,7 @@ vi.mock('../../../store', async () => {
     ...actual,
     loadRomFile: loadRomFileMock,
     exportRomFile: exportRomFileMock,
+    exportRomPatch: exportRomPatchMock,
   };
 });
 
@@ -44,6 +48,7 @@ describe('RomInfoDisplay', () => {
   const mockRomInfo = {
     title: 'LSDJ v8.5.1',
     version: 'v85',
+    lsdjVersion: '8.5.1',
     isValid: true,
     size: 524288, // 512 KB
     banks: 32,
@@ -100,6 +105,7 @@ describe('RomInfoDisplay', () => {
 
     // Now check that the details are visible
     expect(screen.getByText(mockRomInfo.version)).toBeInTheDocument();
+    expect(screen.getByText(mockRomInfo.lsdjVersion)).toBeInTheDocument();
     expect(screen.getByText('512.00 KB')).toBeInTheDocument();
     expect(screen.getByText('32')).toBeInTheDocument();
     // Check for "Yes" values in the table (there are multiple)
@@ -223,4 +229,77 @@ describe('RomInfoDisplay', () => {
     expect(exportButton).toBeInTheDocument();
     expect(exportButton).not.toBeDisabled();
   });
+
+  it('reports the cartridge header and warns before exporting a ROM with invalid checksums', () => {
+    const header = {
+      logoValid: true,
+      cgbFlag: 0x80,
+      cgbSupport: 'CGB compatible',
+      cartridgeType: 0x1B,
+      cartridgeTypeName: 'MBC5+RAM+BATTERY',
+      romSizeCode: 0x04,
+      romSize: 524288,
+      romSizeMatches: true,
+      ramSizeCode: 0x04,
+      ramSize: 131072,
+      headerChecksum: { stored: 0x12, computed: 0x34, valid: false },
+      globalChecksum: { stored: 0xBEEF, computed: 0xBEEF, valid: true },
+    };
+    renderWithRedux(<RomInfoDisplay />, {
+      preloadedState: {
+        rom: {
+          romInfo: { ...mockRomInfo, header },
+          romData: mockArrayBuffer,
+          isLoading: false,
+          error: null,
+        },
+        saveFile: {},
+        ui: {},
+      },
+    });
+
+    expect(screen.getByText('The header checksum is invalid')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: /show details/i }));
+    expect(screen.getByText('MBC5+RAM+BATTERY (0x1B)')).toBeInTheDocument();
+    expect(screen.getByText('512 KB (0x04)')).toBeInTheDocument();
+    expect(screen.getByText('0x12 (Invalid, should be 0x34)')).toBeInTheDocument();
+    expect(screen.getByText('0xBEEF (Valid)')).toBeInTheDocument();
+
+    // Declining the warning keeps the ROM from being exported
+    vi.mocked(exportRomFile).mockReturnValue({ type: 'rom/exportRomFile/pending' } as never);
+    const confirmSpy = vi.spyOn(window, 'confirm').mockReturnValue(false);
+    fireEvent.click(screen.getByText('Export ROM File'));
+    expect(confirmSpy).toHaveBeenCalled();
+    expect(exportRomFile).not.toHaveBeenCalled();
+
+    confirmSpy.mockReturnValue(true);
+    fireEvent.click(screen.getByText('Export ROM File'));
+    expect(exportRomFile).toHaveBeenCalledTimes(1);
+    confirmSpy.mockRestore();
+  });
+
+  it('exports patches and reports an applied one', () => {
+    renderWithRedux(<RomInfoDisplay />, {
+      preloadedState: {
+        rom: {
+          romInfo: mockRomInfo,
+          romData: mockArrayBuffer,
+          patchReport: { format: 'ips', sourceVerified: false },
+          isLoading: false,
+          error: null,
+        },
+        saveFile: {},
+        ui: {},
+      },
+    });
+
+    expect(screen.getByText(/Applied IPS patch/)).toBeInTheDocument();
+    expect(screen.getByText(/IPS patches have no checksum/)).toBeInTheDocument();
+    expect(screen.getByText('Apply Patch')).toBeInTheDocument();
+
+    vi.mocked(exportRomPatch).mockReturnValue({ type: 'rom/exportRomPatch/pending' } as never);
+    fireEvent.click(screen.getByText('Export BPS Patch'));
+    expect(exportRomPatch).toHaveBeenCalledWith('bps');
+  });
 });
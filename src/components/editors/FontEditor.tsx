@@ -7,6 +7,7 @@ import { ColorSelector } from './ColorSelector';
 import { DropdownSelector } from '../common/DropdownSelector';
 import { FontColor, FONT_CONSTANTS } from '../../types/font';
 import { FontProcessor } from '../../services/binary/FontProcessor';
+import { LsdjCharset } from '../../services/binary/LsdjCharset';
 import { BinaryProcessor } from '../../services/binary';
 import { RomProcessor } from '../../services/binary';
 import { RootState } from '../../store';
@@ -129,7 +130,7 @@ export function FontEditor() {
 
     // Read font names from the ROM
     for (let i = 0; i < FONT_CONSTANTS.FONT_COUNT; i++) {
-      const name = processor.readAsciiString(nameOffset + i * fontNameSize, FONT_CONSTANTS.FONT_NAME_LENGTH);
+      const name = LsdjCharset.decode(processor.readUint8Array(nameOffset + i * fontNameSize, FONT_CONSTANTS.FONT_NAME_LENGTH));
       names.push(name || `FONT${i + 1}`); // Use a default name if the read fails
     }
 
@@ -17,6 +17,7 @@ import {
 import { SampleEditor } from './SampleEditor';
 import { BankNameSelector } from '../common/BankNameSelector';
 import { Sample } from '../../services/audio';
+import { sanitizeLSDJInput } from '../../utils/sample-utils';
 import './KitEditor.css';
 
 export function KitEditor() {
@@ -94,11 +95,6 @@ export function KitEditor() {
     dispatch(setGbaPolarity(!useGbaPolarity));
   }, [dispatch, useGbaPolarity]);
 
-  // Function to sanitize input for LSDj compatibility
-  const sanitizeLSDJInput = (input: string): string => {
-    return input.toUpperCase().replace(/[^A-Z0-9 -]/g, '');
-  };
-
   // Handler for renaming a kit - now automatically called when input changes
   const handleRenameKit = useCallback((newName: string) => {
     const sanitizedName = sanitizeLSDJInput(newName);
@@ -0,0 +1,192 @@
+import { useMemo, useState } from 'react';
+import { DropdownSelector } from '../common/DropdownSelector';
+import { useAppSelector } from '../../store';
+import { BinaryProcessor } from '../../services/binary';
+import { SaveFileProcessor } from '../../services/binary/SaveFileProcessor';
+import { SongProcessor } from '../../services/binary/SongProcessor';
+import { SongModel } from '../../types/song';
+import {
+  formatChainScreen,
+  formatGrooveScreen,
+  formatInstrumentScreen,
+  formatPhraseScreen,
+  formatSongScreen,
+  formatTableScreen,
+  toHex,
+} from '../../utils/tracker-utils';
+import './SongDiffPanel.css';
+
+interface SongDiffPanelProps {
+  songId: number;
+}
+
+/**
+ * A song to compare against, from this save file or the second one
+ */
+interface DiffTarget {
+  label: string;
+  data: ArrayBuffer;
+  songId: number;
+}
+
+/**
+ * A changed entry and how to show it
+ */
+interface DiffItem {
+  label: string;
+  format: (song: SongModel) => string[];
+}
+
+// Decode a song of a save file, or null if it can't be unpacked
+function decodeSong(saveFileData: ArrayBuffer, songId: number): SongModel | null {
+  try {
+    const raw = SaveFileProcessor.getRawSong(new BinaryProcessor(saveFileData), songId);
+    return raw ? SongProcessor.parseSong(raw) : null;
+  } catch (err) {
+    console.error('Error decoding song:', err);
+    return null;
+  }
+}
+
+/**
+ * SongDiffPanel component for comparing a song with another song
+ * The other song can be in another slot or in the second save file loaded for merging
+ */
+export function SongDiffPanel({ songId }: SongDiffPanelProps) {
+  const saveFileInfo = useAppSelector(state => state.saveFile.saveFileInfo);
+  const saveFileData = useAppSelector(state => state.saveFile.saveFileData);
+  const mergeSourceInfo = useAppSelector(state => state.saveFile.mergeSourceInfo);
+  const mergeSourceData = useAppSelector(state => state.saveFile.mergeSourceData);
+
+  const [targetIndex, setTargetIndex] = useState(0);
+  const [itemIndex, setItemIndex] = useState(0);
+
+  // List the other valid songs of this save file, then those of the second save file
+  const targets = useMemo((): DiffTarget[] => {
+    const list: DiffTarget[] = [];
+    if (saveFileInfo && saveFileData) {
+      saveFileInfo.songs
+        .filter(song => song.isValid && song.id !== songId)
+        .forEach(song => list.push({ label: `${song.id} ${song.name || '<unnamed>'} (${song.version})`, data: saveFileData, songId: song.id }));
+    }
+    if (mergeSourceInfo && mergeSourceData) {
+      mergeSourceInfo.songs
+        .filter(song => song.isValid)
+        .forEach(song => list.push({ label: `Second save: ${song.id} ${song.name || '<unnamed>'} (${song.version})`, data: mergeSourceData, songId: song.id }));
+    }
+    return list;
+  }, [saveFileInfo, saveFileData, mergeSourceInfo, mergeSourceData, songId]);
+
+  const target = targets[Math.min(targetIndex, targets.length - 1)] ?? null;
+
+  // Decode both songs. The save data is modified in place, so the song list is a dependency
+  // to pick up changes.
+  const song = useMemo(
+    () => (saveFileInfo && saveFileData ? decodeSong(saveFileData, songId) : null),
+    [saveFileInfo, saveFileData, songId]
+  );
+  const otherSong = useMemo(
+    () => (target ? decodeSong(target.data, target.songId) : null),
+    [target]
+  );
+
+  const diff = useMemo(
+    () => (song && otherSong ? SongProcessor.diffSongs(otherSong, song) : null),
+    [song, otherSong]
+  );
+
+  // List the changed entries, the song screen first
+  const items = useMemo((): DiffItem[] => {
+    if (!diff) return [];
+
+    const list: DiffItem[] = [];
+    if (diff.sequenceRows.length > 0) {
+      list.push({ label: `SONG (${diff.sequenceRows.length} rows)`, format: formatSongScreen });
+    }
+    diff.chains.forEach(i => list.push({ label: `CHAIN ${toHex(i)}`, format: s => formatChainScreen(s, i) }));
+    diff.phrases.forEach(i => list.push({ label: `PHRASE ${toHex(i)}`, format: s => formatPhraseScreen(s, i) }));
+    diff.instruments.forEach(i => list.push({ label: `INSTR ${toHex(i)}`, format: s => formatInstrumentScreen(s, i) }));
+    diff.tables.forEach(i => list.push({ label: `TABLE ${toHex(i)}`, format: s => formatTableScreen(s, i) }));
+    diff.grooves.forEach(i => list.push({ label: `GROOVE ${toHex(i)}`, format: s => formatGrooveScreen(s, i) }));
+    return list;
+  }, [diff]);
+
+  const item = items[Math.min(itemIndex, items.length - 1)] ?? null;
+  const otherLines = item && otherSong ? item.format(otherSong) : [];
+  const lines = item && song ? item.format(song) : [];
+
+  // Handle target selection
+  const handleTargetChange = (index: number) => {
+    setTargetIndex(index);
+    setItemIndex(0);
+  };
+
+  // Draw the lines of one side, marking the ones that differ from the other side
+  const renderScreen = (screenLines: string[], compareLines: string[], label: string) => (
+    <pre className="song-diff-screen" aria-label={label}>
+      {screenLines.map((line, i) => (
+        <span key={i} className={line !== compareLines[i] ? 'song-diff-changed' : undefined}>
+          {line}{'\n'}
+        </span>
+      ))}
+    </pre>
+  );
+
+  if (targets.length === 0) return null;
+
+  return (
+    <div className="song-diff" role="region" aria-labelledby="song-diff-title">
+      <h3 id="song-diff-title">Compare Songs</h3>
+      <div className="song-diff-controls">
+        <span>Compare with</span>
+        <DropdownSelector
+          selectedIndex={Math.min(targetIndex, targets.length - 1)}
+          options={targets.map(t => t.label)}
+          onSelect={handleTargetChange}
+          showIndexPrefix={false}
+        />
+      </div>
+      {!diff ? (
+        <p className="error-message" role="alert">Could not unpack one of the songs</p>
+      ) : (
+        <>
+          <div className="memory-stats" role="status" aria-live="polite">
+            <span>Rows: {diff.sequenceRows.length}</span>
+            <span>Chains: {diff.chains.length}</span>
+            <span>Phrases: {diff.phrases.length}</span>
+            <span>Instruments: {diff.instruments.length}</span>
+            <span>Tables: {diff.tables.length}</span>
+            <span>Grooves: {diff.grooves.length}</span>
+          </div>
+          {diff.tempoChanged && song && otherSong && (
+            <p>Tempo: {SongProcessor.getBpm(otherSong)} to {SongProcessor.getBpm(song)} BPM</p>
+          )}
+          {items.length === 0 ? (
+            <p>{diff.tempoChanged ? 'Nothing else changed.' : 'The songs are the same.'}</p>
+          ) : (
+            <>
+              <div className="song-diff-controls">
+                <DropdownSelector
+                  selectedIndex={Math.min(itemIndex, items.length - 1)}
+                  options={items.map(i => i.label)}
+                  onSelect={setItemIndex}
+                  showIndexPrefix={false}
+                />
+              </div>
+              <div className="song-diff-columns">
+                <div>
+                  <h4>{target?.label}</h4>
+                  {renderScreen(otherLines, lines, 'Compared song')}
+                </div>
+                <div>
+                  <h4>Selected song</h4>
+                  {renderScreen(lines, otherLines, 'Selected song')}
+                </div>
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
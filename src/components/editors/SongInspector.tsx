@@ -0,0 +1,258 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { DropdownSelector } from '../common/DropdownSelector';
+import { TrackerScreen } from './TrackerScreen';
+import { exportSongWav, useAppDispatch, useAppSelector } from '../../store';
+import { AudioService, SongRenderer } from '../../services/audio';
+import { BinaryProcessor, RomProcessor } from '../../services/binary';
+import { FontProcessor } from '../../services/binary/FontProcessor';
+import { PaletteProcessor } from '../../services/binary/PaletteProcessor';
+import { SaveFileProcessor } from '../../services/binary/SaveFileProcessor';
+import { SongProcessor } from '../../services/binary/SongProcessor';
+import { FONT_CONSTANTS } from '../../types/font';
+import { rgb555ToHex } from '../../types/palette';
+import { SongModel } from '../../types/song';
+import {
+  formatChainScreen,
+  formatInstrumentScreen,
+  formatName,
+  formatPhraseScreen,
+  formatSongScreen,
+  formatTableScreen,
+  toHex,
+} from '../../utils/tracker-utils';
+import './SongInspector.css';
+
+const SCREENS = ['SONG', 'CHAIN', 'PHRASE', 'INSTR', 'TABLE'];
+
+// Length of the preview render, so a preview starts quickly even for a long song
+const PREVIEW_SECONDS = 30;
+const PREVIEW_SAMPLE_RATE = 22050;
+
+interface SongInspectorProps {
+  songId: number;
+}
+
+/**
+ * SongInspector component for viewing a song in LSDj's screen layout
+ * Draws the screens with the ROM font and palette the song is set to use
+ */
+export function SongInspector({ songId }: SongInspectorProps) {
+  const dispatch = useAppDispatch();
+  const saveFileInfo = useAppSelector(state => state.saveFile.saveFileInfo);
+  const saveFileData = useAppSelector(state => state.saveFile.saveFileData);
+  const romData = useAppSelector(state => state.rom.romData);
+  const romInfo = useAppSelector(state => state.rom.romInfo);
+  const wavExportProgress = useAppSelector(state => state.saveFile.wavExportProgress);
+
+  const [screen, setScreen] = useState(0);
+  const [item, setItem] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isRendering, setIsRendering] = useState(false);
+
+  // Decode the selected song. The save data is modified in place, so the song list
+  // is a dependency to pick up changes.
+  const { song, error } = useMemo((): { song: SongModel | null; error: string | null } => {
+    if (!saveFileInfo || !saveFileData) {
+      return { song: null, error: null };
+    }
+
+    try {
+      const raw = SaveFileProcessor.getRawSong(new BinaryProcessor(saveFileData), songId);
+      if (!raw) {
+        return { song: null, error: 'Could not unpack this song' };
+      }
+      return { song: SongProcessor.parseSong(raw), error: null };
+    } catch (err) {
+      return { song: null, error: err instanceof Error ? err.message : 'Could not decode this song' };
+    }
+  }, [saveFileInfo, saveFileData, songId]);
+
+  // Load the font tiles of the font the song uses
+  const fontData = useMemo((): number[][][] | null => {
+    if (!romData || !romInfo?.hasFonts || !song) return null;
+
+    const processor = new BinaryProcessor(romData);
+    const fontOffset = RomProcessor.findFontOffset(processor);
+    const gfxFontOffset = RomProcessor.findGfxFontOffset(processor);
+    if (fontOffset === -1 || gfxFontOffset === -1) {
+      console.error('Could not find font data in ROM');
+      return null;
+    }
+
+    // Fonts are stored in reverse order, see FontEditor
+    const adjustedIndex = (song.settings.font % FONT_CONSTANTS.FONT_COUNT + 1) % FONT_CONSTANTS.FONT_COUNT;
+    const fontProcessor = new FontProcessor(
+      romData,
+      fontOffset + adjustedIndex * FONT_CONSTANTS.FONT_SIZE + FONT_CONSTANTS.FONT_HEADER_SIZE,
+      gfxFontOffset
+    );
+
+    const data: number[][][] = [];
+    for (let tile = 0; tile < FONT_CONSTANTS.TILE_COUNT; tile++) {
+      const tileData: number[][] = [];
+      for (let y = 0; y < 8; y++) {
+        const row: number[] = [];
+        for (let x = 0; x < 8; x++) {
+          row.push(fontProcessor.getTilePixel(tile, x, y));
+        }
+        tileData.push(row);
+      }
+      data.push(tileData);
+    }
+    return data;
+  }, [romData, romInfo, song]);
+
+  // Get the normal colors of the palette the song uses, indexed by font color
+  const colors = useMemo((): string[] | null => {
+    if (!romData || !romInfo?.hasPalettes || !song) return null;
+
+    try {
+      const paletteProcessor = new PaletteProcessor(romData);
+      const paletteIndex = song.settings.colorSet < paletteProcessor.getNumberOfPalettes()
+        ? song.settings.colorSet
+        : 0;
+      const { background, mid, foreground } = paletteProcessor.getPalette(paletteIndex).normal;
+      return [background, background, mid, foreground].map(rgb555ToHex);
+    } catch (err) {
+      console.error('Error loading palette:', err);
+      return null;
+    }
+  }, [romData, romInfo, song]);
+
+  // List the entries of the selected screen, marking the ones in use
+  const itemOptions = useMemo((): string[] => {
+    if (!song) return [];
+
+    switch (SCREENS[screen]) {
+      case 'CHAIN':
+        return song.chains.map((chain, i) => `${toHex(i)}${chain.allocated ? '' : ' -'}`);
+      case 'PHRASE':
+        return song.phrases.map((phrase, i) => `${toHex(i)}${phrase.allocated ? '' : ' -'}`);
+      case 'INSTR':
+        return song.instruments.map((instrument, i) =>
+          `${toHex(i)} ${instrument.allocated ? formatName(instrument.name) : '-'}`);
+      case 'TABLE':
+        return song.tables.map((table, i) => `${toHex(i)}${table.allocated ? '' : ' -'}`);
+      default:
+        return [];
+    }
+  }, [song, screen]);
+
+  // Format the selected screen
+  const lines = useMemo((): string[] => {
+    if (!song) return [];
+
+    switch (SCREENS[screen]) {
+      case 'CHAIN':
+        return formatChainScreen(song, item);
+      case 'PHRASE':
+        return formatPhraseScreen(song, item);
+      case 'INSTR':
+        return formatInstrumentScreen(song, item);
+      case 'TABLE':
+        return formatTableScreen(song, item);
+      default:
+        return formatSongScreen(song);
+    }
+  }, [song, screen, item]);
+
+  // Stop the preview when switching to another song or leaving the inspector
+  useEffect(() => {
+    return () => AudioService.stopAll();
+  }, [songId]);
+
+  // Handler for previewing the start of the song
+  const handlePreview = useCallback(async () => {
+    if (!song) return;
+
+    try {
+      AudioService.stopAll();
+      setIsRendering(true);
+      const samples = await SongRenderer.renderAsync(song, {
+        sampleRate: PREVIEW_SAMPLE_RATE,
+        maxSeconds: PREVIEW_SECONDS,
+        romData,
+      });
+      setIsRendering(false);
+      setIsPlaying(true);
+      await AudioService.playAudioBuffer(samples.buffer as ArrayBuffer, {}, PREVIEW_SAMPLE_RATE);
+    } catch (err) {
+      console.error('Error playing song preview:', err);
+    } finally {
+      setIsRendering(false);
+      setIsPlaying(false);
+    }
+  }, [song, romData]);
+
+  // Handler for stopping the preview
+  const handleStop = useCallback(() => {
+    AudioService.stopAll();
+    setIsPlaying(false);
+  }, []);
+
+  // Handle screen selection
+  const handleScreenChange = (index: number) => {
+    setScreen(index);
+    setItem(0);
+  };
+
+  if (error) {
+    return (
+      <div className="song-inspector" role="region" aria-label="Song inspector">
+        <p className="error-message" role="alert">{error}</p>
+      </div>
+    );
+  }
+
+  if (!song) return null;
+
+  return (
+    <div className="song-inspector" role="region" aria-label="Song inspector">
+      <h3>Song Inspector</h3>
+      <div className="song-inspector-info">
+        <span>Tempo: {SongProcessor.getBpm(song)} BPM</span>
+        <span>Format version: {toHex(song.formatVersion)}</span>
+      </div>
+      <div className="song-inspector-controls">
+        {isPlaying ? (
+          <button onClick={handleStop} aria-label="Stop song preview">
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={handlePreview}
+            disabled={isRendering}
+            aria-label={`Preview the first ${PREVIEW_SECONDS} seconds of the song`}
+          >
+            {isRendering ? 'Rendering...' : 'Preview'}
+          </button>
+        )}
+        <button
+          onClick={() => dispatch(exportSongWav(songId))}
+          disabled={wavExportProgress !== null}
+          aria-label="Export song as WAV"
+          aria-busy={wavExportProgress !== null}
+        >
+          {wavExportProgress === null ? 'Export WAV' : `Rendering ${Math.round(wavExportProgress * 100)}%`}
+        </button>
+      </div>
+      <div className="song-inspector-controls">
+        <DropdownSelector
+          selectedIndex={screen}
+          options={SCREENS}
+          onSelect={handleScreenChange}
+          showIndexPrefix={false}
+        />
+        {itemOptions.length > 0 && (
+          <DropdownSelector
+            selectedIndex={item}
+            options={itemOptions}
+            onSelect={setItem}
+            showIndexPrefix={false}
+          />
+        )}
+      </div>
+      <TrackerScreen lines={lines} fontData={fontData} colors={colors} />
+    </div>
+  );
+}
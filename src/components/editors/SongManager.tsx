@@ -1,14 +1,119 @@
-import React, {useCallback} from 'react';
-import {exportSaveFile, exportSong, importSong, loadSaveFile, removeSong, selectSong, useAppDispatch, useAppSelector} from '../../store';
-import {SongInfo} from '../../services/binary/SaveFileProcessor';
+import React, {useCallback, useMemo, useState} from 'react';
+import {cleanSong, clearMergeSource, clearPendingImport, defragmentSaveFile, exportAllSongs, exportInstrument, exportSaveFile, exportSong, exportSongMidi, importInstrument, importSong, importSongFiles, loadImportFiles, loadMergeSource, loadSaveFile, loadSongToWorkingMemory, mergeSongs, moveSong, removeSong, renameSong, repairSaveFile, saveWorkingSong, selectSong, swapSongs, useAppDispatch, useAppSelector, verifySaveFile} from '../../store';
+import {SAV_CONSTANTS, SaveFileProcessor, SaveFileVariant, SongFileFormat, SongInfo} from '../../services/binary/SaveFileProcessor';
+import {BinaryProcessor} from '../../services/binary';
+import {SongProcessor} from '../../services/binary/SongProcessor';
+import {formatName, toHex} from '../../utils/tracker-utils';
+import {DropdownSelector} from '../common/DropdownSelector';
+import {SongInspector} from './SongInspector';
+import {SongDiffPanel} from './SongDiffPanel';
 import './SongManager.css';
 
+// Describe how a save file was stored, for saves that aren't a plain 128KB file
+function describeSaveFileVariant(variant: SaveFileVariant): string | null {
+  const parts: string[] = [];
+  if (variant.sramSize !== SAV_CONSTANTS.SAV_FILE_SIZE) {
+    parts.push(`${variant.sramSize / 1024}KB save`);
+  }
+  if (variant.paddingSize > 0) {
+    parts.push(`padded to ${(variant.sramSize + variant.paddingSize) / 1024}KB`);
+  }
+  if (variant.trailer.length > 0) {
+    parts.push(`${variant.trailer.length}-byte RTC trailer`);
+  }
+  return parts.length > 0 ? parts.join(', ') : null;
+}
+
+// Layouts the save file can be exported as, matching the to64kb argument of exportSaveFile
+const EXPORT_LAYOUTS: { label: string; to64kb?: boolean }[] = [
+  { label: 'As loaded' },
+  { label: '64KB SRAM', to64kb: true },
+  { label: '128KB SRAM', to64kb: false },
+];
+
 export function SongManager() {
   const dispatch = useAppDispatch();
   const saveFileInfo = useAppSelector(state => state.saveFile.saveFileInfo);
   const isLoading = useAppSelector(state => state.saveFile.isLoading);
   const error = useAppSelector(state => state.saveFile.error);
   const selectedSongId = useAppSelector(state => state.saveFile.selectedSongId);
+  const defragmentResult = useAppSelector(state => state.saveFile.defragmentResult);
+  const cleanSongResult = useAppSelector(state => state.saveFile.cleanSongResult);
+  const verifyIssues = useAppSelector(state => state.saveFile.verifyIssues);
+  const repairedIssues = useAppSelector(state => state.saveFile.repairedIssues);
+  const saveFileData = useAppSelector(state => state.saveFile.saveFileData);
+  const saveFileVariant = useAppSelector(state => state.saveFile.saveFileVariant);
+  const selectedSong = saveFileInfo?.songs.find(song => song.id === selectedSongId);
+  const mergeSourceInfo = useAppSelector(state => state.saveFile.mergeSourceInfo);
+  const mergeSourceData = useAppSelector(state => state.saveFile.mergeSourceData);
+  const pendingImport = useAppSelector(state => state.saveFile.pendingImport);
+  const [selectedInstrument, setSelectedInstrument] = useState(0);
+  const [mergeSelection, setMergeSelection] = useState<number[]>([]);
+  const [importSelection, setImportSelection] = useState<number[]>([]);
+  const [editingSongId, setEditingSongId] = useState<number | null>(null);
+  const [editName, setEditName] = useState('');
+  const [editVersion, setEditVersion] = useState('');
+  const [dragSlot, setDragSlot] = useState<number | null>(null);
+  const [dropSlot, setDropSlot] = useState<number | null>(null);
+  const [exportLayout, setExportLayout] = useState(0);
+
+  // Check whether the songs fit into the SRAM layout picked for export
+  const layoutPlan = useMemo(() => {
+    const { to64kb } = EXPORT_LAYOUTS[exportLayout];
+    if (!saveFileInfo || !saveFileData || to64kb === undefined || to64kb === saveFileInfo.is64kb) return null;
+
+    return SaveFileProcessor.planLayoutConversion(new BinaryProcessor(saveFileData), to64kb);
+  }, [saveFileInfo, saveFileData, exportLayout]);
+
+  // Check whether the songs picked from the merge source fit in the loaded save file
+  const mergePlan = useMemo(() => {
+    if (!saveFileInfo || !saveFileData || !mergeSourceData || mergeSelection.length === 0) return null;
+
+    return SaveFileProcessor.planMerge(
+      new BinaryProcessor(saveFileData),
+      new BinaryProcessor(mergeSourceData),
+      mergeSelection
+    );
+  }, [saveFileInfo, saveFileData, mergeSourceData, mergeSelection]);
+
+  // Check whether the picked song files fit in the loaded save file
+  const importPlan = useMemo(() => {
+    if (!saveFileInfo || !saveFileData || !pendingImport || importSelection.length === 0) return null;
+
+    return SaveFileProcessor.planImport(
+      new BinaryProcessor(saveFileData),
+      importSelection.map(index => pendingImport[index])
+    );
+  }, [saveFileInfo, saveFileData, pendingImport, importSelection]);
+
+  // List the instruments of the selected song by name
+  const instrumentNames = useMemo((): string[] => {
+    if (!saveFileInfo || !saveFileData || !selectedSong?.isValid) return [];
+
+    try {
+      const rawSong = SaveFileProcessor.getRawSong(new BinaryProcessor(saveFileData), selectedSong.id);
+      if (!rawSong) return [];
+      return SongProcessor.parseSong(rawSong).instruments.map((instrument, i) =>
+        `${toHex(i)} ${instrument.allocated ? formatName(instrument.name) : '-'}`);
+    } catch (err) {
+      console.error('Error listing instruments:', err);
+      return [];
+    }
+  }, [saveFileInfo, saveFileData, selectedSong]);
+
+  // Find the data the selected song never plays
+  const songUsage = useMemo(() => {
+    if (!saveFileInfo || !saveFileData || !selectedSong?.isValid) return null;
+
+    try {
+      const rawSong = SaveFileProcessor.getRawSong(new BinaryProcessor(saveFileData), selectedSong.id);
+      if (!rawSong) return null;
+      return SongProcessor.analyzeUsage(SongProcessor.parseSong(rawSong));
+    } catch (err) {
+      console.error('Error analyzing song usage:', err);
+      return null;
+    }
+  }, [saveFileInfo, saveFileData, selectedSong]);
 
   // Handler for loading a save file
   const handleLoadSaveFile = useCallback(() => {
@@ -16,8 +121,13 @@ export function SongManager() {
   }, [dispatch]);
 
   // Handler for exporting a song
-  const handleExportSong = useCallback((songId: number) => {
-    dispatch(exportSong(songId));
+  const handleExportSong = useCallback((songId: number, format: SongFileFormat) => {
+    dispatch(exportSong({ songId, format }));
+  }, [dispatch]);
+
+  // Handler for exporting a song as a MIDI file
+  const handleExportSongMidi = useCallback((songId: number) => {
+    dispatch(exportSongMidi(songId));
   }, [dispatch]);
 
   // Handler for removing a song
@@ -27,9 +137,26 @@ export function SongManager() {
     }
   }, [dispatch]);
 
+  // Handler for saving the working song into a free slot
+  const handleSaveWorkingSong = useCallback(() => {
+    dispatch(saveWorkingSong());
+  }, [dispatch]);
+
+  // Handler for loading a song into working memory
+  const handleLoadToWorkingMemory = useCallback((songId: number) => {
+    if (window.confirm(`Load song ${songId} into working memory? The current working song will be replaced.`)) {
+      dispatch(loadSongToWorkingMemory(songId));
+    }
+  }, [dispatch]);
+
   // Handler for exporting the save file
   const handleExportSaveFile = useCallback(() => {
-    dispatch(exportSaveFile());
+    dispatch(exportSaveFile({ to64kb: EXPORT_LAYOUTS[exportLayout].to64kb }));
+  }, [dispatch, exportLayout]);
+
+  // Handler for exporting every song as a zip archive
+  const handleExportAllSongs = useCallback(() => {
+    dispatch(exportAllSongs());
   }, [dispatch]);
 
   // Handler for importing a song
@@ -37,12 +164,387 @@ export function SongManager() {
     dispatch(importSong());
   }, [dispatch]);
 
+  // Handler for defragmenting the save file
+  const handleDefragment = useCallback(() => {
+    dispatch(defragmentSaveFile());
+  }, [dispatch]);
+
+  // Handler for checking the save file
+  const handleVerify = useCallback(() => {
+    dispatch(verifySaveFile());
+  }, [dispatch]);
+
+  // Handler for repairing the save file
+  const handleRepair = useCallback(() => {
+    dispatch(repairSaveFile());
+  }, [dispatch]);
+
+  // Check the name and version being edited, the version is two hex digits
+  const editProblem = useMemo((): string | null => {
+    if (editingSongId === null) return null;
+    if (!/^[0-9A-F]{1,2}$/.test(editVersion)) {
+      return 'Versions are one or two hex digits (00-FF)';
+    }
+    return SaveFileProcessor.validateFileName(editName);
+  }, [editingSongId, editName, editVersion]);
+
+  // Handler for starting to edit the name and version of a song
+  const handleStartEdit = useCallback((song: SongInfo) => {
+    setEditingSongId(song.id);
+    setEditName(song.name);
+    setEditVersion(song.version);
+  }, []);
+
+  // Handler for saving the edited name and version
+  const handleSaveEdit = useCallback(() => {
+    if (editingSongId === null || editProblem) return;
+    dispatch(renameSong({ songId: editingSongId, name: editName, version: parseInt(editVersion, 16) }));
+    setEditingSongId(null);
+  }, [dispatch, editingSongId, editProblem, editName, editVersion]);
+
+  // Handler for keys in the name and version inputs
+  const handleEditKeyDown = useCallback((e: React.KeyboardEvent<HTMLInputElement>) => {
+    e.stopPropagation();
+    if (e.key === 'Enter') {
+      handleSaveEdit();
+    } else if (e.key === 'Escape') {
+      setEditingSongId(null);
+    }
+  }, [handleSaveEdit]);
+
+  // Handler for dropping a dragged song onto another song. Holding shift swaps the two songs.
+  const handleDropSong = useCallback((toSlot: number, swap: boolean) => {
+    if (dragSlot !== null && dragSlot !== toSlot) {
+      dispatch(swap ? swapSongs({ fromSlot: dragSlot, toSlot }) : moveSong({ fromSlot: dragSlot, toSlot }));
+    }
+    setDragSlot(null);
+    setDropSlot(null);
+  }, [dispatch, dragSlot]);
+
+  // Handler for loading a second save file to merge songs from
+  const handleLoadMergeSource = useCallback(() => {
+    setMergeSelection([]);
+    dispatch(loadMergeSource());
+  }, [dispatch]);
+
+  // Handler for picking a song of the merge source
+  const handleToggleMergeSong = useCallback((songId: number) => {
+    setMergeSelection(selection => selection.includes(songId)
+      ? selection.filter(id => id !== songId)
+      : [...selection, songId].sort((a, b) => a - b));
+  }, []);
+
+  // Handler for copying the picked songs into the loaded save file
+  const handleMergeSongs = useCallback(async () => {
+    const result = await dispatch(mergeSongs(mergeSelection));
+    if (mergeSongs.fulfilled.match(result)) {
+      setMergeSelection([]);
+    }
+  }, [dispatch, mergeSelection]);
+
+  // Handler for closing the merge source
+  const handleCloseMergeSource = useCallback(() => {
+    setMergeSelection([]);
+    dispatch(clearMergeSource());
+  }, [dispatch]);
+
+  // Handler for picking several song files or zip archives to import
+  const handleLoadImportFiles = useCallback(async () => {
+    const result = await dispatch(loadImportFiles());
+    if (loadImportFiles.fulfilled.match(result) && result.payload.files) {
+      // Start with every file picked
+      setImportSelection(result.payload.files.map((_, index) => index));
+    }
+  }, [dispatch]);
+
+  // Handler for picking a file to import
+  const handleToggleImportFile = useCallback((index: number) => {
+    setImportSelection(selection => selection.includes(index)
+      ? selection.filter(i => i !== index)
+      : [...selection, index].sort((a, b) => a - b));
+  }, []);
+
+  // Handler for importing the picked files into the loaded save file
+  const handleImportSongFiles = useCallback(async () => {
+    const result = await dispatch(importSongFiles(importSelection));
+    if (importSongFiles.fulfilled.match(result)) {
+      setImportSelection([]);
+    }
+  }, [dispatch, importSelection]);
+
+  // Handler for closing the files to import
+  const handleClosePendingImport = useCallback(() => {
+    setImportSelection([]);
+    dispatch(clearPendingImport());
+  }, [dispatch]);
+
+  // Handler for exporting the selected instrument
+  const handleExportInstrument = useCallback((songId: number) => {
+    dispatch(exportInstrument({ songId, instrument: selectedInstrument }));
+  }, [dispatch, selectedInstrument]);
+
+  // Handler for importing an instrument over the selected instrument
+  const handleImportInstrument = useCallback((songId: number) => {
+    if (window.confirm(`Replace instrument ${toHex(selectedInstrument)} of song ${songId}?`)) {
+      dispatch(importInstrument({ songId, instrument: selectedInstrument }));
+    }
+  }, [dispatch, selectedInstrument]);
+
+  // Render the instrument picker for the selected song
+  const renderInstrumentPicker = () => {
+    if (!selectedSong || instrumentNames.length === 0) return null;
+
+    return (
+      <div className="instrument-picker" role="group" aria-label="Instruments">
+        <h3>Instruments</h3>
+        <div className="controls">
+          <DropdownSelector
+            selectedIndex={selectedInstrument}
+            options={instrumentNames}
+            onSelect={setSelectedInstrument}
+            showIndexPrefix={false}
+          />
+          <button
+            onClick={() => handleExportInstrument(selectedSong.id)}
+            disabled={isLoading}
+            aria-label={`Export instrument ${toHex(selectedInstrument)}`}
+          >
+            Export .lsdinst
+          </button>
+          <button
+            onClick={() => handleImportInstrument(selectedSong.id)}
+            disabled={isLoading}
+            aria-label={`Import instrument into slot ${toHex(selectedInstrument)}`}
+          >
+            Import .lsdinst
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  // Handler for clearing the data the selected song never plays
+  const handleCleanSong = useCallback((songId: number) => {
+    if (window.confirm(`Remove the unused chains, phrases, instruments, tables and grooves of song ${songId}?`)) {
+      dispatch(cleanSong(songId));
+    }
+  }, [dispatch]);
+
+  // Render the unused data of the selected song
+  const renderSongCleanup = () => {
+    if (!selectedSong || !songUsage) return null;
+
+    const rows: [string, number[]][] = [
+      ['Chains', songUsage.unusedChains],
+      ['Phrases', songUsage.unusedPhrases],
+      ['Instruments', songUsage.unusedInstruments],
+      ['Tables', songUsage.unusedTables],
+      ['Grooves', songUsage.unusedGrooves],
+    ];
+    const unusedCount = rows.reduce((count, [, entries]) => count + entries.length, 0);
+
+    return (
+      <div className="song-cleanup" role="group" aria-label="Song cleanup">
+        <h3>Unused Data</h3>
+        {unusedCount === 0 ? (
+          <p>Everything in this song is in use.</p>
+        ) : (
+          <ul>
+            {rows.filter(([, entries]) => entries.length > 0).map(([label, entries]) => (
+              <li key={label}>
+                {label} ({entries.length}): {entries.map(toHex).join(' ')}
+              </li>
+            ))}
+          </ul>
+        )}
+        {cleanSongResult?.songId === selectedSong.id && (
+          <div className="memory-stats" role="status" aria-live="polite">
+            <span>
+              Cleaned: {cleanSongResult.blocksBefore} blocks before, {cleanSongResult.blocksAfter} after
+            </span>
+          </div>
+        )}
+        <div className="controls">
+          <button
+            onClick={() => handleCleanSong(selectedSong.id)}
+            disabled={unusedCount === 0 || isLoading}
+            aria-label={`Remove unused data from song ${selectedSong.id} and repack it`}
+          >
+            Clean and Repack
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  // Render the songs of the merge source with the space they need
+  const renderMergeSource = () => {
+    if (!mergeSourceInfo) return null;
+
+    // The working song can be saved to a slot first, so only list saved songs
+    const sourceSongs = mergeSourceInfo.songs.filter(song => song.id !== SAV_CONSTANTS.WORKING_SONG_ID);
+    const collisions = mergePlan?.songs.filter(song => song.nameCollision) ?? [];
+
+    return (
+      <div className="merge-source" role="region" aria-labelledby="merge-source-title">
+        <h3 id="merge-source-title">Merge Songs ({sourceSongs.length} in second save)</h3>
+        {sourceSongs.length === 0 ? (
+          <p>No songs found in this save file.</p>
+        ) : (
+          <table role="grid" aria-label="Merge source song list">
+            <thead>
+              <tr role="row">
+                <th role="columnheader" scope="col">Copy</th>
+                <th role="columnheader" scope="col">ID</th>
+                <th role="columnheader" scope="col">Name</th>
+                <th role="columnheader" scope="col">Version</th>
+                <th role="columnheader" scope="col">Blocks</th>
+                <th role="columnheader" scope="col">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sourceSongs.map((song: SongInfo) => {
+                const songPlan = mergePlan?.songs.find(plan => plan.sourceId === song.id);
+                return (
+                  <tr key={song.id} role="row">
+                    <td role="gridcell">
+                      <input
+                        type="checkbox"
+                        checked={mergeSelection.includes(song.id)}
+                        onChange={() => handleToggleMergeSong(song.id)}
+                        disabled={!song.isValid || isLoading}
+                        aria-label={`Copy song ${song.name || 'untitled'}`}
+                      />
+                    </td>
+                    <td role="gridcell">{song.id}</td>
+                    <td role="gridcell">{song.name || '<unnamed>'}</td>
+                    <td role="gridcell">{song.version}</td>
+                    <td role="gridcell">{songPlan?.blocksNeeded ?? song.blocksUsed}</td>
+                    <td role="gridcell">
+                      {!song.isValid ? 'Invalid' : songPlan && !songPlan.fits ? 'Does not fit' : 'Valid'}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+        {mergePlan && (
+          <div className="memory-stats" role="status" aria-live="polite">
+            <span>Needs {mergePlan.songs.length} of {mergePlan.freeSlots} free slots</span>
+            <span>Needs {mergePlan.blocksNeeded} of {mergePlan.freeBlocks} free blocks</span>
+          </div>
+        )}
+        {collisions.length > 0 && (
+          <p className="merge-warning" role="status">
+            Already in this save file: {collisions.map(song => song.name).join(', ')}
+          </p>
+        )}
+        <div className="controls">
+          <button
+            onClick={handleMergeSongs}
+            disabled={!mergePlan?.canMerge || isLoading}
+            aria-label="Copy selected songs into this save file"
+          >
+            Merge Selected
+          </button>
+          <button
+            onClick={handleCloseMergeSource}
+            disabled={isLoading}
+            aria-label="Close merge source"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  // Render the song files picked for import with the space they need
+  const renderPendingImport = () => {
+    if (!pendingImport) return null;
+
+    const collisions = importPlan?.songs.filter(song => song.nameCollision) ?? [];
+
+    return (
+      <div className="merge-source" role="region" aria-labelledby="pending-import-title">
+        <h3 id="pending-import-title">Import Songs ({pendingImport.length} files)</h3>
+        <table role="grid" aria-label="Song files to import">
+          <thead>
+            <tr role="row">
+              <th role="columnheader" scope="col">Import</th>
+              <th role="columnheader" scope="col">File</th>
+              <th role="columnheader" scope="col">Name</th>
+              <th role="columnheader" scope="col">Version</th>
+              <th role="columnheader" scope="col">Blocks</th>
+              <th role="columnheader" scope="col">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {pendingImport.map((file, index) => {
+              const position = importSelection.indexOf(index);
+              const songPlan = position === -1 ? undefined : importPlan?.songs[position];
+              return (
+                <tr key={index} role="row">
+                  <td role="gridcell">
+                    <input
+                      type="checkbox"
+                      checked={position !== -1}
+                      onChange={() => handleToggleImportFile(index)}
+                      disabled={isLoading}
+                      aria-label={`Import ${file.fileName}`}
+                    />
+                  </td>
+                  <td role="gridcell">{file.fileName}</td>
+                  <td role="gridcell">{songPlan ? songPlan.name || '<unnamed>' : ''}</td>
+                  <td role="gridcell">{songPlan?.version ?? ''}</td>
+                  <td role="gridcell">{songPlan?.blocksNeeded ?? ''}</td>
+                  <td role="gridcell">
+                    {!songPlan ? 'Skipped' : songPlan.error ?? (songPlan.fits ? 'Fits' : 'Does not fit')}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {importPlan && (
+          <div className="memory-stats" role="status" aria-live="polite">
+            <span>Needs {importPlan.songs.length} of {importPlan.freeSlots} free slots</span>
+            <span>Needs {importPlan.blocksNeeded} of {importPlan.freeBlocks} free blocks</span>
+          </div>
+        )}
+        {collisions.length > 0 && (
+          <p className="merge-warning" role="status">
+            Same name as another song: {collisions.map(song => song.name).join(', ')}
+          </p>
+        )}
+        <div className="controls">
+          <button
+            onClick={handleImportSongFiles}
+            disabled={!importPlan?.canImport || isLoading}
+            aria-label="Import selected song files into this save file"
+          >
+            Import Selected
+          </button>
+          <button
+            onClick={handleClosePendingImport}
+            disabled={isLoading}
+            aria-label="Close song files to import"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    );
+  };
+
   // Render memory usage information
   const renderMemoryUsage = () => {
     if (!saveFileInfo) return null;
 
     const { totalBlocks, usedBlocks, freeBlocks } = saveFileInfo;
     const usedPercentage = Math.round((usedBlocks / totalBlocks) * 100);
+    const variantDescription = saveFileVariant && describeSaveFileVariant(saveFileVariant);
     const memoryBarId = `memory-bar-${Math.random().toString(36).substr(2, 9)}`;
 
     return (
@@ -70,6 +572,83 @@ export function SongManager() {
           <span>Free: {freeBlocks} blocks ({100 - usedPercentage}%)</span>
           <span>Total: {totalBlocks} blocks</span>
         </div>
+        {variantDescription && (
+          <div className="memory-stats" role="status">
+            <span>Loaded as {variantDescription}, exported the same way</span>
+          </div>
+        )}
+        {saveFileVariant?.sramSize === SAV_CONSTANTS.BANK_SIZE && (
+          <p className="merge-warning" role="status">
+            This 32KB save only holds the working song. Export as 64KB or 128KB SRAM to keep songs saved to slots.
+          </p>
+        )}
+        {layoutPlan && (
+          <div className="memory-stats" role="status" aria-live="polite">
+            <span>
+              Exported as {EXPORT_LAYOUTS[exportLayout].label}: needs {layoutPlan.blocksNeeded} of{' '}
+              {layoutPlan.totalBlocks} blocks
+            </span>
+          </div>
+        )}
+        {layoutPlan && !layoutPlan.canConvert && (
+          <p className="merge-warning" role="status">
+            Does not fit:{' '}
+            {layoutPlan.songs
+              .filter(song => !song.fits)
+              .map(song => `${song.songId} ${song.name || '<unnamed>'} (${song.blocksNeeded === null ? 'invalid' : `${song.blocksNeeded} blocks`})`)
+              .join(', ')}
+          </p>
+        )}
+        {defragmentResult && (
+          <div className="memory-stats" role="status" aria-live="polite">
+            <span>
+              Defragmented: {defragmentResult.freeBlocksBefore} free blocks before,{' '}
+              {defragmentResult.freeBlocksAfter} after
+            </span>
+            {defragmentResult.skippedSongs.length > 0 && (
+              <span>Skipped invalid songs: {defragmentResult.skippedSongs.join(', ')}</span>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  // Render the integrity report
+  const renderVerifyReport = () => {
+    if (!verifyIssues) return null;
+
+    const repairableCount = verifyIssues.filter(issue => issue.repairable).length;
+
+    return (
+      <div className="verify-report" role="region" aria-labelledby="verify-report-title">
+        <h3 id="verify-report-title">Integrity Check</h3>
+        {repairedIssues && repairedIssues.length > 0 && (
+          <p role="status">Repaired {repairedIssues.length} issue{repairedIssues.length === 1 ? '' : 's'}.</p>
+        )}
+        {verifyIssues.length === 0 ? (
+          <p role="status">No problems found.</p>
+        ) : (
+          <>
+            <ul>
+              {verifyIssues.map((issue, i) => (
+                <li key={i} className={issue.repairable ? 'repairable' : 'unrepairable'}>
+                  {issue.message}
+                  {!issue.repairable && ' (cannot be repaired automatically)'}
+                </li>
+              ))}
+            </ul>
+            {repairableCount > 0 && (
+              <button
+                onClick={handleRepair}
+                disabled={isLoading}
+                aria-label="Repair save file"
+              >
+                Repair {repairableCount} issue{repairableCount === 1 ? '' : 's'}
+              </button>
+            )}
+          </>
+        )}
       </div>
     );
   };
@@ -85,6 +664,7 @@ export function SongManager() {
     return (
       <div className="song-list" role="region" aria-labelledby={songListId}>
         <h3 id={songListId}>Songs ({saveFileInfo.songs.length})</h3>
+        <p className="song-list-hint">Drag a song onto another to move it there, hold shift while dropping to swap them.</p>
         <table role="grid" aria-label="Song list">
           <thead>
             <tr role="row">
@@ -97,50 +677,202 @@ export function SongManager() {
             </tr>
           </thead>
           <tbody>
-            {saveFileInfo.songs.map((song: SongInfo) => (
-              <tr 
-                key={song.id}
-                className={selectedSongId === song.id ? 'selected' : ''}
-                onClick={() => dispatch(selectSong(song.id))}
-                role="row"
-                aria-selected={selectedSongId === song.id}
-                tabIndex={selectedSongId === song.id ? 0 : -1}
-                onKeyDown={(e) => {
-                  if (e.key === 'Enter' || e.key === ' ') {
-                    dispatch(selectSong(song.id));
+            {saveFileInfo.songs.map((song: SongInfo) => {
+              const isWorkingSong = song.id === SAV_CONSTANTS.WORKING_SONG_ID;
+              const rowClasses = [
+                selectedSongId === song.id ? 'selected' : '',
+                dropSlot === song.id ? 'drop-target' : '',
+              ].filter(Boolean).join(' ');
+              return (
+                <tr 
+                  key={song.id}
+                  className={rowClasses}
+                  onClick={() => dispatch(selectSong(song.id))}
+                  draggable={!isWorkingSong && !isLoading && editingSongId !== song.id}
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move';
+                    setDragSlot(song.id);
+                  }}
+                  onDragEnd={() => {
+                    setDragSlot(null);
+                    setDropSlot(null);
+                  }}
+                  onDragOver={(e) => {
+                    if (dragSlot === null || isWorkingSong) return;
                     e.preventDefault();
-                  }
-                }}
-              >
-                <td role="gridcell">{song.id}</td>
-                <td role="gridcell">{song.name || '<unnamed>'}</td>
-                <td role="gridcell">{song.version}</td>
-                <td role="gridcell">{song.blocksUsed}</td>
-                <td role="gridcell">{song.isValid ? 'Valid' : 'Invalid'}</td>
-                <td role="gridcell">
-                  <button 
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      handleExportSong(song.id);
-                    }}
-                    disabled={!song.isValid || isLoading}
-                    aria-label={`Export song ${song.name || 'untitled'}`}
-                  >
-                    Export
-                  </button>
-                  <button 
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      handleRemoveSong(song.id);
-                    }}
-                    disabled={isLoading}
-                    aria-label={`Remove song ${song.name || 'untitled'}`}
-                  >
-                    Remove
-                  </button>
-                </td>
-              </tr>
-            ))}
+                    setDropSlot(song.id);
+                  }}
+                  onDragLeave={() => setDropSlot(null)}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    if (!isWorkingSong) {
+                      handleDropSong(song.id, e.shiftKey);
+                    }
+                  }}
+                  role="row"
+                  aria-selected={selectedSongId === song.id}
+                  tabIndex={selectedSongId === song.id ? 0 : -1}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' || e.key === ' ') {
+                      dispatch(selectSong(song.id));
+                      e.preventDefault();
+                    }
+                  }}
+                >
+                  <td role="gridcell">{isWorkingSong ? 'Working' : song.id}</td>
+                  {editingSongId === song.id ? (
+                    <>
+                      <td role="gridcell">
+                        <input
+                          type="text"
+                          value={editName}
+                          maxLength={SAV_CONSTANTS.FILE_NAME_LENGTH}
+                          onChange={(e) => setEditName(e.target.value.toUpperCase())}
+                          onKeyDown={handleEditKeyDown}
+                          onClick={(e) => e.stopPropagation()}
+                          aria-label="Song name"
+                          aria-invalid={editProblem !== null}
+                          autoFocus
+                        />
+                        {editProblem && <div className="edit-error" role="alert">{editProblem}</div>}
+                      </td>
+                      <td role="gridcell">
+                        <input
+                          type="text"
+                          value={editVersion}
+                          maxLength={2}
+                          size={2}
+                          onChange={(e) => setEditVersion(e.target.value.toUpperCase())}
+                          onKeyDown={handleEditKeyDown}
+                          onClick={(e) => e.stopPropagation()}
+                          aria-label="Song version"
+                        />
+                      </td>
+                    </>
+                  ) : (
+                    <>
+                      <td
+                        role="gridcell"
+                        onDoubleClick={() => !isWorkingSong && handleStartEdit(song)}
+                        title={isWorkingSong ? undefined : 'Double-click to edit'}
+                      >
+                        {song.name || '<unnamed>'}
+                      </td>
+                      <td
+                        role="gridcell"
+                        onDoubleClick={() => !isWorkingSong && handleStartEdit(song)}
+                        title={isWorkingSong ? undefined : 'Double-click to edit'}
+                      >
+                        {song.version}
+                      </td>
+                    </>
+                  )}
+                  <td role="gridcell">{isWorkingSong ? '-' : song.blocksUsed}</td>
+                  <td role="gridcell">{song.isValid ? 'Valid' : 'Invalid'}</td>
+                  <td role="gridcell">
+                    <button 
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleExportSong(song.id, 'lsdprj');
+                      }}
+                      disabled={!song.isValid || isLoading}
+                      aria-label={`Export song ${song.name || 'untitled'}`}
+                    >
+                      Export
+                    </button>
+                    <button 
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleExportSong(song.id, 'lsdsng');
+                      }}
+                      disabled={!song.isValid || isLoading}
+                      aria-label={`Export song ${song.name || 'untitled'} as .lsdsng`}
+                    >
+                      .lsdsng
+                    </button>
+                    <button 
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleExportSongMidi(song.id);
+                      }}
+                      disabled={!song.isValid || isLoading}
+                      aria-label={`Export song ${song.name || 'untitled'} as MIDI`}
+                    >
+                      .mid
+                    </button>
+                    {isWorkingSong ? (
+                      <button 
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleSaveWorkingSong();
+                        }}
+                        disabled={isLoading}
+                        aria-label="Save working song to a free slot"
+                      >
+                        Save to Slot
+                      </button>
+                    ) : (
+                      <>
+                        <button 
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleLoadToWorkingMemory(song.id);
+                          }}
+                          disabled={!song.isValid || isLoading}
+                          aria-label={`Load song ${song.name || 'untitled'} into working memory`}
+                        >
+                          Load
+                        </button>
+                        {editingSongId === song.id ? (
+                          <>
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleSaveEdit();
+                              }}
+                              disabled={editProblem !== null || isLoading}
+                              aria-label={`Save name and version of song ${song.id}`}
+                            >
+                              Save
+                            </button>
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setEditingSongId(null);
+                              }}
+                              aria-label="Cancel editing"
+                            >
+                              Cancel
+                            </button>
+                          </>
+                        ) : (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleStartEdit(song);
+                            }}
+                            disabled={isLoading}
+                            aria-label={`Rename song ${song.name || 'untitled'}`}
+                          >
+                            Rename
+                          </button>
+                        )}
+                        <button 
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleRemoveSong(song.id);
+                          }}
+                          disabled={isLoading}
+                          aria-label={`Remove song ${song.name || 'untitled'}`}
+                        >
+                          Remove
+                        </button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
           </tbody>
         </table>
       </div>
@@ -162,12 +894,27 @@ export function SongManager() {
           <>
             <button 
               onClick={handleExportSaveFile} 
-              disabled={isLoading}
+              disabled={isLoading || (layoutPlan !== null && !layoutPlan.canConvert)}
               aria-busy={isLoading}
               aria-label="Export Save File"
             >
               {isLoading ? 'Exporting...' : 'Export Save'}
             </button>
+            <DropdownSelector
+              selectedIndex={exportLayout}
+              options={EXPORT_LAYOUTS.map(layout => layout.label)}
+              onSelect={setExportLayout}
+              disabled={isLoading}
+              showIndexPrefix={false}
+            />
+            <button 
+              onClick={handleExportAllSongs} 
+              disabled={isLoading || !saveFileInfo.songs.some(song => song.isValid)}
+              aria-busy={isLoading}
+              aria-label="Export all songs as a zip archive"
+            >
+              Export All
+            </button>
             <button 
               onClick={handleImportSong} 
               disabled={isLoading}
@@ -176,6 +923,38 @@ export function SongManager() {
             >
               {isLoading ? 'Importing...' : 'Import Song'}
             </button>
+            <button 
+              onClick={handleLoadImportFiles} 
+              disabled={isLoading}
+              aria-busy={isLoading}
+              aria-label="Import several song files or zip archives"
+            >
+              Import Songs
+            </button>
+            <button 
+              onClick={handleDefragment} 
+              disabled={isLoading}
+              aria-busy={isLoading}
+              aria-label="Defragment Save File"
+            >
+              Defragment
+            </button>
+            <button 
+              onClick={handleVerify} 
+              disabled={isLoading}
+              aria-busy={isLoading}
+              aria-label="Verify Save File"
+            >
+              Verify
+            </button>
+            <button 
+              onClick={handleLoadMergeSource} 
+              disabled={isLoading}
+              aria-busy={isLoading}
+              aria-label="Load a second save file to merge songs from"
+            >
+              Merge From Save
+            </button>
           </>
         )}
       </div>
@@ -193,7 +972,14 @@ export function SongManager() {
       {saveFileInfo && (
         <>
           {renderMemoryUsage()}
+          {renderVerifyReport()}
           {renderSongList()}
+          {renderMergeSource()}
+          {renderPendingImport()}
+          {renderInstrumentPicker()}
+          {renderSongCleanup()}
+          {selectedSong?.isValid && <SongInspector songId={selectedSong.id} />}
+          {selectedSong?.isValid && <SongDiffPanel songId={selectedSong.id} />}
         </>
       )}
 
@@ -0,0 +1,72 @@
+import { useRef, useEffect } from 'react';
+import { FONT_CHARACTER_TILES } from '../../types/font';
+
+interface TrackerScreenProps {
+  lines: string[];
+  fontData: number[][][] | null;
+  colors: string[] | null;
+  scale?: number;
+  className?: string;
+}
+
+/**
+ * TrackerScreen component for drawing text with the LSDj font
+ * Falls back to plain text when no font is available
+ */
+export function TrackerScreen({
+  lines,
+  fontData,
+  colors,
+  scale = 2,
+  className = ''
+}: TrackerScreenProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const columns = Math.max(1, ...lines.map(line => line.length));
+
+  // Draw the lines on the canvas, one font tile per character
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !fontData || !colors) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const tileSize = 8 * scale;
+    ctx.fillStyle = colors[0];
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    lines.forEach((line, row) => {
+      for (let column = 0; column < line.length; column++) {
+        const tile = fontData[FONT_CHARACTER_TILES[line[column]] ?? 0];
+        if (!tile) continue;
+
+        for (let y = 0; y < 8; y++) {
+          for (let x = 0; x < 8; x++) {
+            ctx.fillStyle = colors[tile[y][x]];
+            ctx.fillRect(column * tileSize + x * scale, row * tileSize + y * scale, scale, scale);
+          }
+        }
+      }
+    });
+  }, [lines, fontData, colors, scale]);
+
+  if (!fontData || !colors) {
+    return (
+      <pre className={`tracker-screen ${className}`} aria-label="Tracker screen">
+        {lines.join('\n')}
+      </pre>
+    );
+  }
+
+  return (
+    <div className={`tracker-screen ${className}`}>
+      <canvas
+        ref={canvasRef}
+        width={columns * 8 * scale}
+        height={lines.length * 8 * scale}
+        role="img"
+        aria-label={lines.join('\n')}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,533 @@
+/**
+ * GameBoyApu.ts
+ *
+ * A model of the original Game Boy (DMG) audio processing unit. It is driven through the
+ * sound registers (NR10-NR52 and wave RAM) like the real hardware, and every channel timer
+ * runs on the 4.19 MHz CPU clock. Output samples are the average level over the clock cycles
+ * they cover, followed by the high-pass filter of the DMG output stage.
+ */
+
+/**
+ * Constants for the DMG APU
+ */
+export const APU_CONSTANTS = {
+  CPU_CLOCK: 4194304,
+  FRAME_SEQUENCER_PERIOD: 8192, // CPU cycles per 512 Hz frame sequencer step
+  WAVE_RAM_SIZE: 16,
+
+  // Register addresses
+  NR10: 0xff10,
+  NR11: 0xff11,
+  NR12: 0xff12,
+  NR13: 0xff13,
+  NR14: 0xff14,
+  NR21: 0xff16,
+  NR22: 0xff17,
+  NR23: 0xff18,
+  NR24: 0xff19,
+  NR30: 0xff1a,
+  NR31: 0xff1b,
+  NR32: 0xff1c,
+  NR33: 0xff1d,
+  NR34: 0xff1e,
+  NR41: 0xff20,
+  NR42: 0xff21,
+  NR43: 0xff22,
+  NR44: 0xff23,
+  NR50: 0xff24,
+  NR51: 0xff25,
+  NR52: 0xff26,
+  WAVE_RAM: 0xff30,
+};
+
+const DUTY_PATTERNS = [
+  [0, 0, 0, 0, 0, 0, 0, 1], // 12.5%
+  [1, 0, 0, 0, 0, 0, 0, 1], // 25%
+  [1, 0, 0, 0, 0, 1, 1, 1], // 50%
+  [0, 1, 1, 1, 1, 1, 1, 0], // 75%
+];
+const NOISE_DIVISORS = [8, 16, 32, 48, 64, 80, 96, 112];
+const WAVE_VOLUME_SHIFTS = [4, 0, 1, 2]; // Mute, 100%, 50%, 25%
+
+// Charge factor of the output capacitor per CPU cycle
+const HIGH_PASS_CHARGE_PER_CYCLE = 0.999958;
+
+/**
+ * Volume envelope shared by the pulse and noise channels
+ */
+class Envelope {
+  initialVolume = 0;
+  increase = false;
+  period = 0;
+  volume = 0;
+  private timer = 0;
+
+  write(value: number): void {
+    this.initialVolume = value >> 4;
+    this.increase = (value & 0x08) !== 0;
+    this.period = value & 0x07;
+  }
+
+  trigger(): void {
+    this.volume = this.initialVolume;
+    this.timer = this.period;
+  }
+
+  clock(): void {
+    if (this.period === 0 || --this.timer > 0) {
+      return;
+    }
+    this.timer = this.period;
+    if (this.increase && this.volume < 15) {
+      this.volume++;
+    } else if (!this.increase && this.volume > 0) {
+      this.volume--;
+    }
+  }
+}
+
+/**
+ * State shared by all four channels: the on/off flags, the length counter and the timer
+ */
+abstract class Channel {
+  enabled = false;
+  dacEnabled = false;
+  lengthEnabled = false;
+  lengthCounter = 0;
+  protected timer = 0;
+
+  constructor(private readonly maxLength: number) {}
+
+  /** CPU cycles between two steps of the waveform */
+  protected abstract period(): number;
+
+  /** Advance the waveform by one step */
+  protected abstract step(): void;
+
+  /** The current digital output, 0-15 */
+  protected abstract level(): number;
+
+  setLength(lengthData: number): void {
+    this.lengthCounter = this.maxLength - lengthData;
+  }
+
+  trigger(): void {
+    this.enabled = this.dacEnabled;
+    if (this.lengthCounter === 0) {
+      this.lengthCounter = this.maxLength;
+    }
+    this.timer = this.period();
+  }
+
+  clockLength(): void {
+    if (this.lengthEnabled && this.lengthCounter > 0 && --this.lengthCounter === 0) {
+      this.enabled = false;
+    }
+  }
+
+  /**
+   * Run the channel for a number of CPU cycles
+   *
+   * @returns The sum of the analog output (-1 to 1) over those cycles
+   */
+  run(cycles: number): number {
+    let sum = 0;
+    let remaining = cycles;
+    while (remaining > 0) {
+      const span = Math.min(remaining, this.timer);
+      sum += span * this.output();
+      this.timer -= span;
+      remaining -= span;
+      if (this.timer === 0) {
+        this.timer = this.period();
+        this.step();
+      }
+    }
+    return sum;
+  }
+
+  // The DAC turns 0-15 into a voltage. A disabled channel outputs 0, which the DAC still converts.
+  private output(): number {
+    if (!this.dacEnabled) {
+      return 0;
+    }
+    return 1 - (this.enabled ? this.level() : 0) / 7.5;
+  }
+}
+
+/**
+ * Pulse channel, with the frequency sweep on channel 1
+ */
+class PulseChannel extends Channel {
+  readonly envelope = new Envelope();
+  duty = 0;
+  frequency = 0;
+  private dutyPosition = 0;
+
+  // Sweep, only written on channel 1
+  sweepPeriod = 0;
+  sweepNegate = false;
+  sweepShift = 0;
+  private sweepTimer = 0;
+  private sweepEnabled = false;
+  private shadowFrequency = 0;
+
+  constructor() {
+    super(64);
+  }
+
+  protected period(): number {
+    return (2048 - this.frequency) * 4;
+  }
+
+  protected step(): void {
+    this.dutyPosition = (this.dutyPosition + 1) & 7;
+  }
+
+  protected level(): number {
+    return DUTY_PATTERNS[this.duty][this.dutyPosition] * this.envelope.volume;
+  }
+
+  trigger(): void {
+    super.trigger();
+    this.envelope.trigger();
+
+    this.shadowFrequency = this.frequency;
+    this.sweepTimer = this.sweepPeriod || 8;
+    this.sweepEnabled = this.sweepPeriod !== 0 || this.sweepShift !== 0;
+    if (this.sweepShift !== 0) {
+      this.nextSweepFrequency();
+    }
+  }
+
+  clockSweep(): void {
+    if (--this.sweepTimer > 0) {
+      return;
+    }
+    this.sweepTimer = this.sweepPeriod || 8;
+    if (!this.sweepEnabled || this.sweepPeriod === 0) {
+      return;
+    }
+
+    const frequency = this.nextSweepFrequency();
+    if (frequency <= 2047 && this.sweepShift !== 0) {
+      this.shadowFrequency = frequency;
+      this.frequency = frequency;
+      this.nextSweepFrequency();
+    }
+  }
+
+  // Calculate the next sweep frequency, disabling the channel when it overflows
+  private nextSweepFrequency(): number {
+    const delta = this.shadowFrequency >> this.sweepShift;
+    const frequency = this.sweepNegate ? this.shadowFrequency - delta : this.shadowFrequency + delta;
+    if (frequency > 2047) {
+      this.enabled = false;
+    }
+    return frequency;
+  }
+}
+
+/**
+ * Wave channel, playing the 32 4-bit samples in wave RAM
+ */
+class WaveChannel extends Channel {
+  readonly waveRam = new Uint8Array(APU_CONSTANTS.WAVE_RAM_SIZE);
+  volumeCode = 0;
+  frequency = 0;
+  private position = 0;
+  private sample = 0;
+
+  constructor() {
+    super(256);
+  }
+
+  protected period(): number {
+    return (2048 - this.frequency) * 2;
+  }
+
+  protected step(): void {
+    this.position = (this.position + 1) & 31;
+    const byte = this.waveRam[this.position >> 1];
+    this.sample = this.position & 1 ? byte & 0x0f : byte >> 4;
+  }
+
+  protected level(): number {
+    return this.sample >> WAVE_VOLUME_SHIFTS[this.volumeCode];
+  }
+
+  trigger(): void {
+    super.trigger();
+    // Like the hardware, the sample buffer isn't refreshed on trigger, so the first new sample
+    // is the second one in wave RAM. Kits from LSDj 9.2.0 on are rotated to make up for it.
+    this.position = 0;
+  }
+}
+
+/**
+ * Noise channel, clocking a linear feedback shift register
+ */
+class NoiseChannel extends Channel {
+  readonly envelope = new Envelope();
+  clockShift = 0;
+  narrow = false;
+  divisorCode = 0;
+  private lfsr = 0x7fff;
+
+  constructor() {
+    super(64);
+  }
+
+  protected period(): number {
+    return NOISE_DIVISORS[this.divisorCode] << this.clockShift;
+  }
+
+  protected step(): void {
+    const bit = (this.lfsr ^ (this.lfsr >> 1)) & 1;
+    this.lfsr = (this.lfsr >> 1) | (bit << 14);
+    if (this.narrow) {
+      this.lfsr = (this.lfsr & ~0x40) | (bit << 6);
+    }
+  }
+
+  protected level(): number {
+    return (~this.lfsr & 1) * this.envelope.volume;
+  }
+
+  trigger(): void {
+    super.trigger();
+    this.envelope.trigger();
+    this.lfsr = 0x7fff;
+  }
+}
+
+/**
+ * The DMG audio processing unit
+ */
+export class GameBoyApu {
+  private readonly pulse1 = new PulseChannel();
+  private readonly pulse2 = new PulseChannel();
+  private readonly wave = new WaveChannel();
+  private readonly noise = new NoiseChannel();
+  private readonly channels: Channel[] = [this.pulse1, this.pulse2, this.wave, this.noise];
+  private readonly cyclesPerSample: number;
+  private readonly highPassCharge: number;
+
+  private poweredOn = true;
+  private masterVolume = 0x77; // NR50
+  private panning = 0xff; // NR51
+  private frameSequencerTimer = APU_CONSTANTS.FRAME_SEQUENCER_PERIOD;
+  private frameSequencerStep = 0;
+  private cycleRemainder = 0;
+  private capacitor = 0;
+
+  /**
+   * Creates a new APU
+   *
+   * @param sampleRate - The output sample rate in Hz
+   */
+  constructor(readonly sampleRate: number) {
+    this.cyclesPerSample = APU_CONSTANTS.CPU_CLOCK / sampleRate;
+    this.highPassCharge = Math.pow(HIGH_PASS_CHARGE_PER_CYCLE, this.cyclesPerSample);
+  }
+
+  /**
+   * Write a sound register or a byte of wave RAM
+   *
+   * @param address - The register address (0xFF10-0xFF3F)
+   * @param value - The byte to write
+   */
+  writeRegister(address: number, value: number): void {
+    const { NR10, NR11, NR12, NR13, NR14, NR21, NR22, NR23, NR24, NR30, NR31, NR32, NR33, NR34,
+      NR41, NR42, NR43, NR44, NR50, NR51, NR52, WAVE_RAM, WAVE_RAM_SIZE } = APU_CONSTANTS;
+
+    if (address >= WAVE_RAM && address < WAVE_RAM + WAVE_RAM_SIZE) {
+      this.wave.waveRam[address - WAVE_RAM] = value;
+      return;
+    }
+    if (address === NR52) {
+      this.setPower((value & 0x80) !== 0);
+      return;
+    }
+    if (!this.poweredOn) {
+      return;
+    }
+
+    switch (address) {
+      case NR10:
+        this.pulse1.sweepPeriod = (value >> 4) & 0x07;
+        this.pulse1.sweepNegate = (value & 0x08) !== 0;
+        this.pulse1.sweepShift = value & 0x07;
+        break;
+      case NR11:
+      case NR21: {
+        const pulse = address === NR11 ? this.pulse1 : this.pulse2;
+        pulse.duty = value >> 6;
+        pulse.setLength(value & 0x3f);
+        break;
+      }
+      case NR12:
+      case NR22:
+      case NR42: {
+        const channel = address === NR12 ? this.pulse1 : address === NR22 ? this.pulse2 : this.noise;
+        channel.envelope.write(value);
+        channel.dacEnabled = (value & 0xf8) !== 0;
+        channel.enabled &&= channel.dacEnabled;
+        break;
+      }
+      case NR13:
+      case NR23: {
+        const pulse = address === NR13 ? this.pulse1 : this.pulse2;
+        pulse.frequency = (pulse.frequency & 0x700) | value;
+        break;
+      }
+      case NR14:
+      case NR24: {
+        const pulse = address === NR14 ? this.pulse1 : this.pulse2;
+        pulse.frequency = (pulse.frequency & 0xff) | ((value & 0x07) << 8);
+        this.writeControl(pulse, value);
+        break;
+      }
+      case NR30:
+        this.wave.dacEnabled = (value & 0x80) !== 0;
+        this.wave.enabled &&= this.wave.dacEnabled;
+        break;
+      case NR31:
+        this.wave.setLength(value);
+        break;
+      case NR32:
+        this.wave.volumeCode = (value >> 5) & 0x03;
+        break;
+      case NR33:
+        this.wave.frequency = (this.wave.frequency & 0x700) | value;
+        break;
+      case NR34:
+        this.wave.frequency = (this.wave.frequency & 0xff) | ((value & 0x07) << 8);
+        this.writeControl(this.wave, value);
+        break;
+      case NR41:
+        this.noise.setLength(value & 0x3f);
+        break;
+      case NR43:
+        this.noise.clockShift = value >> 4;
+        this.noise.narrow = (value & 0x08) !== 0;
+        this.noise.divisorCode = value & 0x07;
+        break;
+      case NR44:
+        this.writeControl(this.noise, value);
+        break;
+      case NR50:
+        this.masterVolume = value;
+        break;
+      case NR51:
+        this.panning = value;
+        break;
+    }
+  }
+
+  /**
+   * Check whether a channel is playing, like the low bits of NR52
+   *
+   * @param channel - The channel number (0-3)
+   * @returns True if the channel is enabled
+   */
+  isChannelEnabled(channel: number): boolean {
+    return this.channels[channel].enabled;
+  }
+
+  /**
+   * Run the APU and mix the channels down to mono
+   *
+   * @param output - The buffer to write samples to, from -1 to 1
+   * @param start - The first sample to write
+   * @param count - The number of samples to write
+   */
+  render(output: Float32Array, start: number, count: number): void {
+    for (let i = start; i < start + count; i++) {
+      this.cycleRemainder += this.cyclesPerSample;
+      let cycles = Math.floor(this.cycleRemainder);
+      this.cycleRemainder -= cycles;
+
+      const sums = [0, 0, 0, 0];
+      const sampleCycles = cycles;
+      while (cycles > 0) {
+        // Run up to the next frame sequencer step, which can change lengths, sweeps and volumes
+        const span = Math.min(cycles, this.frameSequencerTimer);
+        this.channels.forEach((channel, c) => {
+          sums[c] += channel.run(span);
+        });
+        cycles -= span;
+        this.frameSequencerTimer -= span;
+        if (this.frameSequencerTimer === 0) {
+          this.frameSequencerTimer = APU_CONSTANTS.FRAME_SEQUENCER_PERIOD;
+          this.clockFrameSequencer();
+        }
+      }
+
+      output[i] = this.highPass(sampleCycles > 0 ? this.mix(sums) / sampleCycles : 0);
+    }
+  }
+
+  // Handle a write to NRx4: the length enable flag and the trigger bit
+  private writeControl(channel: Channel, value: number): void {
+    channel.lengthEnabled = (value & 0x40) !== 0;
+    if (value & 0x80) {
+      channel.trigger();
+    }
+  }
+
+  // Turning the APU off clears every register except wave RAM
+  private setPower(on: boolean): void {
+    if (!on) {
+      for (let address = APU_CONSTANTS.NR10; address < APU_CONSTANTS.NR52; address++) {
+        this.writeRegister(address, 0);
+      }
+      this.channels.forEach(channel => {
+        channel.enabled = false;
+        channel.lengthCounter = 0;
+      });
+    } else if (!this.poweredOn) {
+      this.frameSequencerStep = 0;
+    }
+    this.poweredOn = on;
+  }
+
+  // Steps 0, 2, 4 and 6 clock the length counters, 2 and 6 the sweep and 7 the envelopes
+  private clockFrameSequencer(): void {
+    const step = this.frameSequencerStep;
+    if (step % 2 === 0) {
+      this.channels.forEach(channel => channel.clockLength());
+    }
+    if (step === 2 || step === 6) {
+      this.pulse1.clockSweep();
+    }
+    if (step === 7) {
+      this.pulse1.envelope.clock();
+      this.pulse2.envelope.clock();
+      this.noise.envelope.clock();
+    }
+    this.frameSequencerStep = (step + 1) & 7;
+  }
+
+  // Mix the channels routed to either side (NR51) and apply the louder master volume (NR50)
+  private mix(sums: number[]): number {
+    if (!this.poweredOn) {
+      return 0;
+    }
+    let mixed = 0;
+    sums.forEach((sum, c) => {
+      if (this.panning & ((0x11) << c)) {
+        mixed += sum;
+      }
+    });
+    const volume = Math.max((this.masterVolume >> 4) & 0x07, this.masterVolume & 0x07) + 1;
+    return (mixed / 4) * (volume / 8);
+  }
+
+  // The output capacitor removes the DC offset of the DACs
+  private highPass(input: number): number {
+    const output = input - this.capacitor;
+    this.capacitor = input - output * this.highPassCharge;
+    return output;
+  }
+}
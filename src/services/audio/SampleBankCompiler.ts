@@ -6,6 +6,8 @@
  */
 
 import { Sample } from './sample';
+import { LSDJ_KIT_NAME_CHARACTERS, LsdjCharset } from '../binary/LsdjCharset';
+import { LsdjVersion } from '../binary/LsdjVersion';
 
 /**
  * Service for compiling samples into the format required by the LSDj ROM
@@ -37,19 +39,20 @@ export const SampleBankCompiler = {
     }
 
     // Read the kit name
-    const processor = new BinaryProcessor(romData);
-    return processor.readAsciiString(bankOffset + 0x52, 6).trim();
+    return LsdjCharset.decode(romView.subarray(bankOffset + 0x52, bankOffset + 0x58)).trim();
   },
   /**
    * Compile samples into the format required by the LSDj ROM
    * 
    * @param samples - The samples to compile
    * @param gameBoyAdvancePolarity - Whether to use Game Boy Advance polarity
+   * @param lsdjVersion - The LSDj version of the ROM, or null for the newest
    * @returns An object containing the compiled data and byte lengths
    */
   compile(
     samples: (Sample | null)[],
-    gameBoyAdvancePolarity: boolean = false
+    gameBoyAdvancePolarity: boolean = false,
+    lsdjVersion: string | null = null
   ): { data: Uint8Array; byteLengths: number[] } {
     // Create a buffer for the compiled data (one bank size)
     const BANK_SIZE = 0x4000; // 16,384 bytes
@@ -64,6 +67,10 @@ export const SampleBankCompiler = {
     // Array to store the byte length of each sample
     const byteLengths = new Array(samples.length).fill(0);
 
+    // Starting from LSDj 9.2.0, first sample is skipped to compensate for wave refresh bug.
+    // This rotates the wave frame rightwards.
+    const rotation = LsdjVersion.supports(lsdjVersion, 'WAVE_REFRESH_ROTATION') ? 1 : 0;
+
     for (let sampleIt = 0; sampleIt < samples.length; sampleIt++) {
       const sample = samples[sampleIt];
       if (!sample) {
@@ -89,9 +96,7 @@ export const SampleBankCompiler = {
           s = 0xf - s;
         }
 
-        // Starting from LSDj 9.2.0, first sample is skipped to compensate for wave refresh bug.
-        // This rotates the wave frame rightwards.
-        outputBuffer[(outputCounter + 1) % 32] = s;
+        outputBuffer[(outputCounter + rotation) % 32] = s;
 
         if (outputCounter === 31) {
           for (let j = 0; j < 32; j += 2) {
@@ -152,6 +157,7 @@ export const SampleBankCompiler = {
    * @param samples - The samples to write
    * @param kitName - The name of the kit
    * @param gameBoyAdvancePolarity - Whether to use Game Boy Advance polarity
+   * @param lsdjVersion - The LSDj version of the ROM, or null for the newest
    * @returns The updated ROM data
    */
   writeToRomBank(
@@ -159,17 +165,19 @@ export const SampleBankCompiler = {
     bankIndex: number,
     samples: (Sample | null)[],
     kitName: string,
-    gameBoyAdvancePolarity: boolean = false
+    gameBoyAdvancePolarity: boolean = false,
+    lsdjVersion: string | null = null
   ): ArrayBuffer {
     const BANK_SIZE = 0x4000; // 16,384 bytes
     const MAX_SAMPLES = 15;
-    const KIT_VERSION_1 = 1;
+    const KIT_VERSION_0 = 0;
+    const KIT_VERSION_1 = 1; // Rotated samples, read back with unswizzle
 
     // Create a view of the ROM data
     const romView = new Uint8Array(romData);
 
     // Compile the samples
-    const { data, byteLengths } = this.compile(samples, gameBoyAdvancePolarity);
+    const { data, byteLengths } = this.compile(samples, gameBoyAdvancePolarity, lsdjVersion);
 
     // Calculate the bank offset
     const bankOffset = bankIndex * BANK_SIZE;
@@ -203,13 +211,11 @@ export const SampleBankCompiler = {
     romView[bankOffset + 0x5d] = 0;
 
     // Set version number
-    romView[bankOffset + 0x5f] = KIT_VERSION_1;
+    romView[bankOffset + 0x5f] = LsdjVersion.supports(lsdjVersion, 'WAVE_REFRESH_ROTATION') ? KIT_VERSION_1 : KIT_VERSION_0;
 
     // Update kit name
-    const kitNamePadded = (kitName.toUpperCase() + '      ').substring(0, 6);
-    for (let i = 0; i < 6; i++) {
-      romView[bankOffset + 0x52 + i] = kitNamePadded.charCodeAt(i);
-    }
+    const kitNamePadded = LsdjCharset.sanitize(kitName, LSDJ_KIT_NAME_CHARACTERS).padEnd(6, ' ').substring(0, 6);
+    romView.set(LsdjCharset.encode(kitNamePadded, 6), bankOffset + 0x52);
 
     // Update sample names
     for (let i = 0; i < MAX_SAMPLES; i++) {
@@ -217,18 +223,11 @@ export const SampleBankCompiler = {
       const nameOffset = bankOffset + 0x22 + i * 3;
 
       if (sample) {
-        const name = sample.getName();
-        for (let j = 0; j < 3; j++) {
-          if (j < name.length) {
-            romView[nameOffset + j] = name.charCodeAt(j);
-          } else {
-            romView[nameOffset + j] = '-'.charCodeAt(0);
-          }
-        }
+        const name = LsdjCharset.sanitize(sample.getName(), LSDJ_KIT_NAME_CHARACTERS).padEnd(3, '-').substring(0, 3);
+        romView.set(LsdjCharset.encode(name, 3), nameOffset);
       } else {
         romView[nameOffset] = 0;
-        romView[nameOffset + 1] = '-'.charCodeAt(0);
-        romView[nameOffset + 2] = '-'.charCodeAt(0);
+        romView.set(LsdjCharset.encode('--', 2), nameOffset + 1);
       }
     }
 
@@ -251,7 +250,6 @@ export const SampleBankCompiler = {
 
     // Create a view of the ROM data
     const romView = new Uint8Array(romData);
-    const processor = new BinaryProcessor(romData);
 
     // Calculate the bank offset
     const bankOffset = bankIndex * BANK_SIZE;
@@ -263,7 +261,7 @@ export const SampleBankCompiler = {
     }
 
     // Read the kit name
-    const kitName = processor.readAsciiString(bankOffset + 0x52, 6).trim();
+    const kitName = LsdjCharset.decode(romView.subarray(bankOffset + 0x52, bankOffset + 0x58)).trim();
 
     // Create an array to store the samples
     const samples: (Sample | null)[] = new Array(MAX_SAMPLES).fill(null);
@@ -272,14 +270,7 @@ export const SampleBankCompiler = {
     for (let sampleIt = 0; sampleIt < MAX_SAMPLES; sampleIt++) {
       // Read the sample name
       const nameOffset = bankOffset + 0x22 + sampleIt * 3;
-      let name = '';
-      for (let i = 0; i < 3; i++) {
-        const charCode = romView[nameOffset + i];
-        if (charCode === 0) {
-          break;
-        }
-        name += String.fromCharCode(charCode);
-      }
+      const name = LsdjCharset.decode(romView.subarray(nameOffset, nameOffset + 3));
 
       // Read the sample data
       const offsetIndex = bankOffset + sampleIt * 2;
@@ -315,25 +306,3 @@ export const SampleBankCompiler = {
     return { samples, kitName };
   }
 };
-
-/**
- * Helper class for BinaryProcessor (used in extractFromRomBank)
- */
-class BinaryProcessor {
-  private dataView: DataView;
-
-  constructor(buffer: ArrayBuffer) {
-    this.dataView = new DataView(buffer);
-  }
-
-  public readAsciiString(offset: number, maxLength: number): string {
-    const bytes = new Uint8Array(this.dataView.buffer, offset, maxLength);
-    let endIndex = bytes.findIndex(byte => byte === 0);
-
-    if (endIndex === -1) {
-      endIndex = maxLength;
-    }
-
-    return String.fromCharCode(...bytes.slice(0, endIndex));
-  }
-}
@@ -0,0 +1,219 @@
+/**
+ * SongMidiExporter.ts
+ *
+ * Converts a decoded LSDj song to a Standard MIDI File for use in a DAW. Each song channel
+ * gets its own track, after a first track holding the tempo. MIDI ticks follow LSDj ticks, with
+ * the resolution set so the steps of groove 0 land on 16th notes at the song tempo. Other
+ * grooves and swing keep their timing relative to that grid.
+ *
+ * Kit hits on the wave channel are written to the General MIDI drum channel, mapped by
+ * sample name when the ROM holding the kits is given.
+ */
+
+import { SongProcessor } from '../binary/SongProcessor';
+import { LsdjCharset } from '../binary/LsdjCharset';
+import { MIDI_META_EVENTS, MidiEvent, MidiTrack, MidiWriter } from '../file/MidiWriter';
+import { SongRenderer } from './SongRenderer';
+import { SongSequencer, SongStep } from './SongSequencer';
+import { COMMAND_TYPES, Instrument, INSTRUMENT_TYPES, SongModel } from '../../types/song';
+
+/**
+ * Interface for MIDI export options
+ */
+export interface SongMidiOptions {
+  /**
+   * The name of the first track, usually the song name
+   */
+  name?: string;
+
+  /**
+   * The ROM to read kit sample names from. Without it kit hits get a drum note per sample.
+   */
+  romData?: ArrayBuffer | null;
+}
+
+const CHANNEL_NAMES = ['PU1', 'PU2', 'WAV', 'NOI'];
+const WAVE_CHANNEL = 2;
+const NOISE_CHANNEL = 3;
+const DRUM_CHANNEL = 9;
+const NOTE_ON = 0x90;
+const NOTE_OFF = 0x80;
+const NOTE_OFFSET = 35; // LSDj note 1 is C-3 at 65.4Hz, MIDI note 36
+const TICKS_PER_BEAT = 24;
+const STEPS_PER_BEAT = 4;
+const MAX_TEMPO = 0xffffff;
+const KIT_SAMPLE_COUNT = 15;
+const KIT_NAMES_OFFSET = 0x22;
+const KIT_NAME_LENGTH = 3;
+const DEFAULT_DRUM_NOTE = 60; // Followed by one note per kit sample, from the bongos up
+
+/**
+ * General MIDI drum notes for the start of common kit sample names
+ */
+const DRUM_NOTES: [string, number][] = [
+  ['BD', 36], ['KI', 36], ['KK', 36],
+  ['RS', 37], ['RI', 37],
+  ['SD', 38], ['SN', 38],
+  ['CL', 39], ['CP', 39],
+  ['CH', 42], ['HH', 42],
+  ['PH', 44],
+  ['LT', 45], ['MT', 47], ['TO', 47], ['HT', 50],
+  ['OH', 46],
+  ['CY', 49], ['CR', 49],
+  ['RD', 51], ['RC', 51],
+  ['TA', 54],
+  ['CB', 56], ['CO', 56],
+  ['SH', 70], ['MA', 70],
+];
+
+/**
+ * A note sounding on a track
+ */
+interface SoundingNote {
+  midiChannel: number;
+  key: number;
+  offTick: number;
+}
+
+// Get the tick lengths of a groove up to its first 0
+function grooveTicks(groove: number[]): number[] {
+  const end = groove.indexOf(0);
+  const ticks = end === -1 ? groove : groove.slice(0, end);
+  return ticks.length > 0 ? ticks : [6];
+}
+
+// Get the velocity of an instrument from its starting volume, or 0 if it is silent
+function noteVelocity(instrument: Instrument): number {
+  const { params, type } = instrument;
+  // Pulse and noise start at the envelope volume (0-15), wave and kit at volume 0-3
+  const volume = type === INSTRUMENT_TYPES.PULSE || type === INSTRUMENT_TYPES.NOISE
+    ? (params[0] >> 4) / 15
+    : ((params[0] >> 5) & 0x03) / 3;
+  return Math.round(volume * 127);
+}
+
+// Check that an instrument can play on a channel, as LSDj leaves the others silent
+function playsOnChannel(instrument: Instrument, channel: number): boolean {
+  switch (instrument.type) {
+    case INSTRUMENT_TYPES.PULSE:
+      return channel < WAVE_CHANNEL;
+    case INSTRUMENT_TYPES.WAVE:
+    case INSTRUMENT_TYPES.KIT:
+      return channel === WAVE_CHANNEL;
+    case INSTRUMENT_TYPES.NOISE:
+      return channel === NOISE_CHANNEL;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Service for exporting songs as MIDI
+ */
+export const SongMidiExporter = {
+  /**
+   * Get the General MIDI drum note for a kit sample
+   *
+   * @param name - The sample name, if known
+   * @param slot - The sample slot the note plays (0-29, the second kit from 15)
+   * @returns The drum note
+   */
+  getDrumNote(name: string | null, slot: number): number {
+    const upperName = name?.trim().toUpperCase() ?? '';
+    const match = DRUM_NOTES.find(([prefix]) => upperName.startsWith(prefix));
+    return match ? match[1] : DEFAULT_DRUM_NOTE + slot;
+  },
+
+  /**
+   * Create a MIDI file from a song
+   *
+   * @param song - The song model
+   * @param options - Options for the export
+   * @returns The MIDI file data
+   */
+  createMidi(song: SongModel, options: SongMidiOptions = {}): Uint8Array {
+    const { name = 'LSDj', romData = null } = options;
+    const kitBanks = romData ? SongRenderer.findKitBanks(romData) : [];
+    const sequence = SongSequencer.sequence(song);
+
+    // Make groove 0 steps 16th notes: each LSDj tick is as many MIDI ticks as the groove has
+    // steps, so a beat of four steps is four times the groove's total
+    const groove = grooveTicks(song.grooves[0]);
+    const grooveTotal = groove.reduce((total, ticks) => total + ticks, 0);
+    const midiTicksPerTick = groove.length;
+    const midiTicksPerBeat = STEPS_PER_BEAT * grooveTotal;
+    const ticksPerSecond = SongProcessor.getBpm(song) * TICKS_PER_BEAT / 60;
+    const beatMicroseconds = Math.min(MAX_TEMPO, Math.round(1e6 * grooveTotal * STEPS_PER_BEAT / groove.length / ticksPerSecond));
+
+    const tempoTrack: MidiTrack = {
+      name,
+      events: [
+        { tick: 0, data: [0xff, MIDI_META_EVENTS.TEMPO, beatMicroseconds >> 16, (beatMicroseconds >> 8) & 0xff, beatMicroseconds & 0xff] },
+        { tick: 0, data: [0xff, MIDI_META_EVENTS.TIME_SIGNATURE, 4, 2, 24, 8] },
+      ],
+    };
+
+    // Get the sample name of a kit hit from the ROM
+    const kitSampleName = (instrument: Instrument, slot: number): string | null => {
+      const bank = kitBanks[(slot < KIT_SAMPLE_COUNT ? instrument.params[1] : instrument.params[8]) & 0x3f];
+      if (!bank || !SongRenderer.getKitSample(bank, slot % KIT_SAMPLE_COUNT)) {
+        return null;
+      }
+      const offset = KIT_NAMES_OFFSET + (slot % KIT_SAMPLE_COUNT) * KIT_NAME_LENGTH;
+      return LsdjCharset.decode(bank.subarray(offset, offset + KIT_NAME_LENGTH));
+    };
+
+    const channelTracks = CHANNEL_NAMES.map((channelName, channel): MidiTrack => {
+      const events: MidiEvent[] = [];
+      let sounding: SoundingNote | null = null;
+
+      const stopNote = (tick: number) => {
+        if (sounding) {
+          const offTick = Math.min(tick, sounding.offTick);
+          events.push({ tick: offTick * midiTicksPerTick, data: [NOTE_OFF | sounding.midiChannel, sounding.key, 0] });
+          sounding = null;
+        }
+      };
+
+      const playStep = (step: SongStep) => {
+        const instrument = step.instrument !== null ? song.instruments[step.instrument] : null;
+        if (step.note !== 0 && instrument && playsOnChannel(instrument, channel)) {
+          stopNote(step.tick);
+          const velocity = noteVelocity(instrument);
+          if (velocity > 0) {
+            let midiChannel = channel;
+            let key: number;
+            if (instrument.type === INSTRUMENT_TYPES.KIT) {
+              const slot = step.note - 1;
+              midiChannel = DRUM_CHANNEL;
+              key = this.getDrumNote(kitSampleName(instrument, slot), slot);
+            } else {
+              key = Math.max(0, Math.min(127, ((step.note + step.transpose) & 0xff) + NOTE_OFFSET));
+            }
+
+            // Pulse instruments can set a sound length, in 256ths of a second
+            let offTick = Infinity;
+            if (instrument.type === INSTRUMENT_TYPES.PULSE && (instrument.params[2] & 0x40)) {
+              const seconds = (64 - (instrument.params[2] & 0x3f)) / 256;
+              offTick = step.tick + Math.max(1, Math.round(seconds * ticksPerSecond));
+            }
+
+            events.push({ tick: step.tick * midiTicksPerTick, data: [NOTE_ON | midiChannel, key, velocity] });
+            sounding = { midiChannel, key, offTick };
+          }
+        }
+
+        if (step.command === COMMAND_TYPES.KILL && sounding) {
+          sounding.offTick = Math.min(sounding.offTick, step.tick + step.commandValue);
+        }
+      };
+
+      sequence.steps.filter(step => step.channel === channel).forEach(playStep);
+      stopNote(sequence.channelEnds[channel]);
+
+      return { name: channelName, events };
+    });
+
+    return MidiWriter.createMidi([tempoTrack, ...channelTracks], midiTicksPerBeat);
+  },
+};
@@ -0,0 +1,710 @@
+/**
+ * SongRenderer.ts
+ *
+ * Plays a decoded LSDj song through the DMG APU model and returns the audio. The song
+ * sequence, chains, phrases, grooves and instruments drive the sound registers once per tick,
+ * along with the instrument tables, the soft synth frames of wave instruments and the pulse
+ * sweep. Kits stream their samples from the ROM through wave RAM. Rendering is deterministic:
+ * the same song and options always give the same samples.
+ *
+ * Of the phrase and table commands A, C, E, G, H (in tables), K, P, S (pulse 1) and W (pulse)
+ * are played; the others are ignored.
+ */
+
+import { APU_CONSTANTS, GameBoyApu } from './GameBoyApu';
+import { BinaryProcessor } from '../binary/BinaryProcessor';
+import { RomLayout } from '../binary/RomLayout';
+import { SongProcessor } from '../binary/SongProcessor';
+import { SongSequence, SongSequencer, SongStep } from './SongSequencer';
+import { WavWriter } from '../file/WavWriter';
+import { COMMAND_TYPES, Instrument, INSTRUMENT_TYPES, SONG_CONSTANTS, SongModel, Table } from '../../types/song';
+
+/**
+ * Interface for song rendering options
+ */
+export interface SongRenderOptions {
+  /**
+   * The output sample rate in Hz
+   * Default is 44100
+   */
+  sampleRate?: number;
+
+  /**
+   * The longest audio to render, in seconds. Songs that loop are cut off here.
+   * Default is 180
+   */
+  maxSeconds?: number;
+
+  /**
+   * The ROM to read kit samples from. Kits are silent without it.
+   */
+  romData?: ArrayBuffer | null;
+}
+
+const DEFAULT_SAMPLE_RATE = 44100;
+const DEFAULT_MAX_SECONDS = 180;
+const TICKS_PER_BEAT = 24;
+const C3_FREQUENCY = 65.406; // Note 1, the lowest note LSDj plays
+const BANK_SIZE = 0x4000;
+const KIT_SAMPLE_COUNT = 15;
+const KIT_SAMPLE_RATE = 11468;
+const KIT_WAVE_FREQUENCY = 2048 - Math.round(APU_CONSTANTS.CPU_CLOCK / 2 / KIT_SAMPLE_RATE);
+const KIT_FRAME_SIZE = APU_CONSTANTS.WAVE_RAM_SIZE;
+const WAVE_VOLUME_CODES = [0, 3, 2, 1]; // Instrument volume 0-3 to the NR32 volume code
+const SYNTH_WAVE_COUNT = 16; // Frames of a soft synth
+const SYNTH_ONCE = 0; // Soft synth play modes
+const SYNTH_LOOP = 1;
+const SYNTH_MANUAL = 3;
+const RENDER_CHUNK_SECONDS = 2; // Audio rendered between yields to the page by renderAsync
+
+/**
+ * Registers of each song channel: pulse 1, pulse 2, wave and noise
+ */
+const CHANNEL_REGISTERS = [
+  { length: APU_CONSTANTS.NR11, envelope: APU_CONSTANTS.NR12, low: APU_CONSTANTS.NR13, high: APU_CONSTANTS.NR14 },
+  { length: APU_CONSTANTS.NR21, envelope: APU_CONSTANTS.NR22, low: APU_CONSTANTS.NR23, high: APU_CONSTANTS.NR24 },
+  { length: APU_CONSTANTS.NR31, envelope: APU_CONSTANTS.NR30, low: APU_CONSTANTS.NR33, high: APU_CONSTANTS.NR34 },
+  { length: APU_CONSTANTS.NR41, envelope: APU_CONSTANTS.NR42, low: APU_CONSTANTS.NR43, high: APU_CONSTANTS.NR44 },
+];
+const WAVE_CHANNEL = 2;
+const NOISE_CHANNEL = 3;
+
+/**
+ * A kit sample streaming through wave RAM
+ */
+interface KitPlayback {
+  data: Uint8Array;
+  position: number;
+  volumeCode: number;
+}
+
+/**
+ * A table stepping once per tick on a channel
+ */
+interface TablePlayback {
+  table: Table;
+  step: number;
+  hopsLeft: (number | null)[]; // Hops left for the H command on each step, null until it first hops
+}
+
+/**
+ * The soft synth frames of a wave instrument, stepped through wave RAM
+ */
+interface SynthPlayback {
+  firstWave: number;
+  frame: number;
+  lastFrame: number;
+  repeatFrame: number;
+  playMode: number;
+  direction: number;
+  speed: number; // Ticks per frame
+  ticksLeft: number;
+}
+
+/**
+ * The note a channel is playing and the effects on it
+ */
+interface ChannelState {
+  instrument: Instrument;
+  note: number; // With the chain transpose
+  tableTranspose: number;
+  chord: number[]; // Semitones the C command cycles through, one a tick
+  chordStep: number;
+  bend: number; // Frequency register offset built up by the P command
+  bendSpeed: number;
+  frequency: number; // The frequency register value last written
+  lengthDuty: number; // NRx1 of a pulse note
+  control: number; // The length enable bit of NRx4
+  table: TablePlayback | null;
+  synth: SynthPlayback | null;
+}
+
+/**
+ * Get the pulse channel frequency register value for a note
+ */
+function pulseFrequency(note: number): number {
+  const hz = C3_FREQUENCY * Math.pow(2, (note - 1) / 12);
+  return Math.min(2047, Math.max(0, Math.round(2048 - APU_CONSTANTS.CPU_CLOCK / 32 / hz)));
+}
+
+/**
+ * Get the wave channel frequency register value for a note. A wave cycle is 32 samples
+ * instead of 8 steps, so the same pitch needs a value an octave lower.
+ */
+function waveFrequency(note: number): number {
+  const hz = C3_FREQUENCY * Math.pow(2, (note - 1) / 12);
+  return Math.min(2047, Math.max(0, Math.round(2048 - APU_CONSTANTS.CPU_CLOCK / 64 / hz)));
+}
+
+/**
+ * Get the NR43 value for a noise note, higher notes clocking the shift register faster
+ */
+function noisePolynomial(note: number): number {
+  const index = Math.max(0, note - 1);
+  const clockShift = Math.max(0, 13 - (index >> 3));
+  return (clockShift << 4) | (7 - (index & 7));
+}
+
+/**
+ * Read a byte as a signed value
+ */
+function toSigned(value: number): number {
+  return (value << 24) >> 24;
+}
+
+/**
+ * Plays the song on an APU, one tick at a time
+ */
+class SongPlayer {
+  private readonly channels: (ChannelState | null)[];
+  private readonly killTicks: (number | null)[];
+  private kit: KitPlayback | null = null;
+  private tickCount = 0;
+  private nextStep = 0;
+
+  // Set when a kit note starts, so the renderer can time the following frames from it
+  kitStarted = false;
+
+  constructor(
+    private readonly song: SongModel,
+    private readonly sequence: SongSequence,
+    private readonly apu: GameBoyApu,
+    private readonly kitBanks: Uint8Array[]
+  ) {
+    this.channels = CHANNEL_REGISTERS.map(() => null);
+    this.killTicks = CHANNEL_REGISTERS.map(() => null);
+  }
+
+  get finished(): boolean {
+    return this.tickCount >= this.sequence.length;
+  }
+
+  get kitPlaying(): boolean {
+    return this.kit !== null;
+  }
+
+  get progress(): number {
+    return this.sequence.length === 0 ? 1 : Math.min(1, this.tickCount / this.sequence.length);
+  }
+
+  /**
+   * Run one tick: play the steps that are due, count down the kill commands, then step the
+   * tables, soft synths and pitch effects of the notes playing
+   */
+  tick(): void {
+    const { steps, channelEnds } = this.sequence;
+    CHANNEL_REGISTERS.forEach((_, index) => {
+      if (this.tickCount > channelEnds[index]) {
+        return;
+      }
+      if (this.tickCount === channelEnds[index]) {
+        this.silence(index);
+        return;
+      }
+      while (this.nextStep < steps.length && steps[this.nextStep].tick === this.tickCount && steps[this.nextStep].channel === index) {
+        this.playStep(steps[this.nextStep++]);
+      }
+
+      const killTicks = this.killTicks[index];
+      if (killTicks !== null) {
+        if (killTicks === 0) {
+          this.silence(index);
+          this.killTicks[index] = null;
+        } else {
+          this.killTicks[index] = killTicks - 1;
+        }
+      }
+
+      this.update(index);
+    });
+    this.tickCount++;
+  }
+
+  /**
+   * Copy the next 16 bytes of the playing kit sample into wave RAM and restart the wave channel
+   */
+  nextKitFrame(): void {
+    const kit = this.kit;
+    if (!kit) {
+      return;
+    }
+    if (kit.position + KIT_FRAME_SIZE > kit.data.length) {
+      this.silence(WAVE_CHANNEL);
+      return;
+    }
+
+    this.loadWave(kit.data.subarray(kit.position, kit.position + KIT_FRAME_SIZE), KIT_WAVE_FREQUENCY);
+    kit.position += KIT_FRAME_SIZE;
+    this.apu.writeRegister(APU_CONSTANTS.NR32, kit.volumeCode << 5);
+  }
+
+  // Play one phrase step on its channel
+  private playStep(step: SongStep): void {
+    if (step.note !== 0 && step.instrument !== null) {
+      this.playNote(step.channel, (step.note + step.transpose) & 0xff, this.song.instruments[step.instrument]);
+      this.killTicks[step.channel] = null;
+    }
+    this.runCommand(step.channel, step.command, step.commandValue);
+  }
+
+  // Start a note and the instrument's table. Instruments of the wrong type for the channel
+  // are not played.
+  private playNote(index: number, note: number, instrument: Instrument): void {
+    const registers = CHANNEL_REGISTERS[index];
+    const { params } = instrument;
+    const tableIndex = SongProcessor.getInstrumentTable(instrument);
+    const state: ChannelState = {
+      instrument,
+      note,
+      tableTranspose: 0,
+      chord: [],
+      chordStep: 0,
+      bend: 0,
+      bendSpeed: 0,
+      frequency: 0,
+      lengthDuty: 0,
+      control: 0,
+      table: tableIndex === null ? null : this.startTable(tableIndex),
+      synth: null,
+    };
+
+    if (index < WAVE_CHANNEL && instrument.type === INSTRUMENT_TYPES.PULSE) {
+      // Byte 3 holds the sound length when bit 6 is set, byte 7 the pulse width in bits 6-7
+      const hasLength = (params[2] & 0x40) !== 0;
+      state.frequency = pulseFrequency(note);
+      state.lengthDuty = (params[6] & 0xc0) | (hasLength ? params[2] & 0x3f : 0);
+      state.control = hasLength ? 0x40 : 0;
+      if (index === 0) {
+        // Byte 5 holds the sweep as NR10 takes it. New instruments have 0xFF, for no sweep.
+        this.apu.writeRegister(APU_CONSTANTS.NR10, params[3] === 0xff ? 0x00 : params[3]);
+      }
+      this.apu.writeRegister(registers.length, state.lengthDuty);
+      this.apu.writeRegister(registers.envelope, params[0]);
+      this.apu.writeRegister(registers.low, state.frequency & 0xff);
+      this.apu.writeRegister(registers.high, 0x80 | state.control | (state.frequency >> 8));
+    } else if (index === WAVE_CHANNEL && instrument.type === INSTRUMENT_TYPES.WAVE) {
+      this.kit = null;
+      state.frequency = waveFrequency(note);
+      state.synth = this.startSynth(instrument);
+      this.apu.writeRegister(APU_CONSTANTS.NR32, WAVE_VOLUME_CODES[(params[0] >> 5) & 0x03] << 5);
+      this.apu.writeRegister(registers.low, state.frequency & 0xff);
+      this.loadWave(this.song.waves[state.synth.firstWave], state.frequency);
+    } else if (index === WAVE_CHANNEL && instrument.type === INSTRUMENT_TYPES.KIT) {
+      // Notes 1-15 play the samples of the first kit (byte 2), 16-30 those of the second (byte 9)
+      const sample = note - 1;
+      const kitBank = this.kitBanks[(sample < KIT_SAMPLE_COUNT ? params[1] : params[8]) & 0x3f];
+      const data = kitBank && SongRenderer.getKitSample(kitBank, sample % KIT_SAMPLE_COUNT);
+      if (!data) {
+        this.silence(index);
+        return;
+      }
+      this.kit = { data, position: 0, volumeCode: WAVE_VOLUME_CODES[(params[0] >> 5) & 0x03] };
+      this.kitStarted = true;
+      this.nextKitFrame();
+    } else if (index === NOISE_CHANNEL && instrument.type === INSTRUMENT_TYPES.NOISE) {
+      state.frequency = noisePolynomial(note);
+      this.apu.writeRegister(registers.envelope, params[0]);
+      this.apu.writeRegister(registers.low, state.frequency);
+      this.apu.writeRegister(registers.high, 0x80);
+    } else {
+      return;
+    }
+
+    this.channels[index] = state;
+  }
+
+  // Start a table from its first step
+  private startTable(tableIndex: number): TablePlayback {
+    return { table: this.song.tables[tableIndex], step: 0, hopsLeft: new Array(SONG_CONSTANTS.STEP_COUNT).fill(null) };
+  }
+
+  // Start the soft synth of a wave instrument from its first frame
+  private startSynth(instrument: Instrument): SynthPlayback {
+    const { params } = instrument;
+    // Byte 2 holds the synth in its high nibble and the frame a loop repeats from in the low
+    // one. Byte 9 holds the play mode in bits 0-1, byte 10 the last frame counted down from
+    // 15 in its high nibble and the ticks per frame minus 1 in the low one.
+    const speed = (params[9] & 0x0f) + 1;
+    return {
+      firstWave: (params[1] >> 4) * SYNTH_WAVE_COUNT,
+      frame: 0,
+      lastFrame: 0x0f - (params[9] >> 4),
+      repeatFrame: params[1] & 0x0f,
+      playMode: params[8] & 0x03,
+      direction: 1,
+      speed,
+      ticksLeft: speed,
+    };
+  }
+
+  // Run a phrase or table command on a channel
+  private runCommand(index: number, command: number, value: number): void {
+    if (command === COMMAND_TYPES.KILL) {
+      this.killTicks[index] = value;
+      return;
+    }
+
+    const state = this.channels[index];
+    if (!state) {
+      return;
+    }
+    switch (command) {
+      case COMMAND_TYPES.TABLE:
+        if (value < SONG_CONSTANTS.TABLE_COUNT) {
+          state.table = this.startTable(value);
+        }
+        break;
+      case COMMAND_TYPES.CHORD:
+        // Cxy plays the note, then x semitones up, then y semitones up, C00 stops
+        state.chord = value === 0 ? [] : [0, value >> 4, ...(value & 0x0f ? [value & 0x0f] : [])];
+        state.chordStep = 0;
+        break;
+      case COMMAND_TYPES.ENVELOPE:
+        this.setVolume(index, state, value);
+        break;
+      case COMMAND_TYPES.PITCH:
+        state.bendSpeed = toSigned(value);
+        break;
+      case COMMAND_TYPES.SWEEP:
+        if (index === 0) {
+          this.apu.writeRegister(APU_CONSTANTS.NR10, value);
+        }
+        break;
+      case COMMAND_TYPES.WAVE:
+        if (index < WAVE_CHANNEL) {
+          state.lengthDuty = ((value & 0x03) << 6) | (state.lengthDuty & 0x3f);
+          this.apu.writeRegister(CHANNEL_REGISTERS[index].length, state.lengthDuty);
+        }
+        break;
+    }
+  }
+
+  // Set the volume envelope of a pulse or noise note, restarting it like LSDj does, or the
+  // volume of a wave or kit note, which is taken from bits 5-6 like the instrument's
+  private setVolume(index: number, state: ChannelState, value: number): void {
+    const registers = CHANNEL_REGISTERS[index];
+    if (index === WAVE_CHANNEL) {
+      const volumeCode = WAVE_VOLUME_CODES[(value >> 5) & 0x03];
+      if (this.kit) {
+        this.kit.volumeCode = volumeCode;
+      }
+      this.apu.writeRegister(APU_CONSTANTS.NR32, volumeCode << 5);
+      return;
+    }
+    this.apu.writeRegister(registers.envelope, value);
+    this.apu.writeRegister(registers.high, 0x80 | state.control | (index === NOISE_CHANNEL ? 0 : state.frequency >> 8));
+  }
+
+  // Step the table, soft synth and pitch effects of the note a channel is playing
+  private update(index: number): void {
+    const state = this.channels[index];
+    if (!state) {
+      return;
+    }
+    if (state.table) {
+      this.stepTable(index, state, state.table);
+      if (this.channels[index] !== state) {
+        return;
+      }
+    }
+    if (state.synth) {
+      this.stepSynth(state, state.synth);
+    }
+
+    const chordOffset = state.chord.length > 0 ? state.chord[state.chordStep] : 0;
+    state.chordStep = state.chord.length > 0 ? (state.chordStep + 1) % state.chord.length : 0;
+    state.bend += state.bendSpeed;
+    this.writePitch(index, state, Math.max(0, state.note + state.tableTranspose + chordOffset));
+  }
+
+  // Play a table step: its volume, transpose and both commands, then move to the next step.
+  // A volume of 0 leaves the volume as it is.
+  private stepTable(index: number, state: ChannelState, playback: TablePlayback): void {
+    const { table, step } = playback;
+    if (table.volumes[step] !== 0) {
+      this.setVolume(index, state, table.volumes[step]);
+    }
+    state.tableTranspose = toSigned(table.transposes[step]);
+
+    let nextStep = (step + 1) % SONG_CONSTANTS.STEP_COUNT;
+    const commands = [[table.commands1[step], table.commandValues1[step]], [table.commands2[step], table.commandValues2[step]]];
+    for (const [command, value] of commands) {
+      if (command !== COMMAND_TYPES.HOP) {
+        this.runCommand(index, command, value);
+        continue;
+      }
+      // Hxy jumps to step y, x times before going on, or always when x is 0
+      const hops = value >> 4;
+      const hopsLeft = playback.hopsLeft[step] ?? hops;
+      if (hops === 0 || hopsLeft > 0) {
+        playback.hopsLeft[step] = hopsLeft - 1;
+        nextStep = value & 0x0f;
+      } else {
+        playback.hopsLeft[step] = null;
+      }
+    }
+    playback.step = nextStep;
+  }
+
+  // Move the soft synth on to its next frame when it is due. Frames play once and stay on the
+  // last one, loop from the repeat frame, or go back and forth. Manual mode stays on frame 0.
+  private stepSynth(state: ChannelState, synth: SynthPlayback): void {
+    if (synth.playMode === SYNTH_MANUAL || synth.lastFrame === 0 || --synth.ticksLeft > 0) {
+      return;
+    }
+    synth.ticksLeft = synth.speed;
+
+    let frame = synth.frame + synth.direction;
+    if (frame > synth.lastFrame || frame < 0) {
+      if (synth.playMode === SYNTH_ONCE) {
+        return;
+      }
+      if (synth.playMode === SYNTH_LOOP) {
+        frame = Math.min(synth.repeatFrame, synth.lastFrame);
+      } else {
+        synth.direction = -synth.direction;
+        frame = synth.frame + synth.direction;
+      }
+    }
+    if (frame !== synth.frame) {
+      synth.frame = frame;
+      this.loadWave(this.song.waves[synth.firstWave + frame], state.frequency);
+    }
+  }
+
+  // Write the frequency of a note when it changed, without restarting it
+  private writePitch(index: number, state: ChannelState, note: number): void {
+    const registers = CHANNEL_REGISTERS[index];
+    let frequency: number;
+    if (index < WAVE_CHANNEL) {
+      frequency = Math.min(2047, Math.max(0, pulseFrequency(note) + state.bend));
+    } else if (index === WAVE_CHANNEL && !this.kit) {
+      frequency = Math.min(2047, Math.max(0, waveFrequency(note) + state.bend));
+    } else if (index === NOISE_CHANNEL) {
+      frequency = noisePolynomial(note);
+    } else {
+      return;
+    }
+    if (frequency === state.frequency) {
+      return;
+    }
+
+    state.frequency = frequency;
+    if (index === NOISE_CHANNEL) {
+      this.apu.writeRegister(registers.low, frequency);
+    } else {
+      this.apu.writeRegister(registers.low, frequency & 0xff);
+      this.apu.writeRegister(registers.high, state.control | (frequency >> 8));
+    }
+  }
+
+  // Copy a wave into wave RAM and restart the wave channel with it
+  private loadWave(wave: ArrayLike<number>, frequency: number): void {
+    this.apu.writeRegister(APU_CONSTANTS.NR30, 0x00);
+    for (let i = 0; i < APU_CONSTANTS.WAVE_RAM_SIZE; i++) {
+      this.apu.writeRegister(APU_CONSTANTS.WAVE_RAM + i, wave[i]);
+    }
+    this.apu.writeRegister(APU_CONSTANTS.NR30, 0x80);
+    this.apu.writeRegister(APU_CONSTANTS.NR33, frequency & 0xff);
+    this.apu.writeRegister(APU_CONSTANTS.NR34, 0x80 | (frequency >> 8));
+  }
+
+  // Stop the sound of a channel by turning its DAC off
+  private silence(index: number): void {
+    if (index === WAVE_CHANNEL) {
+      this.kit = null;
+    }
+    this.channels[index] = null;
+    this.apu.writeRegister(CHANNEL_REGISTERS[index].envelope, 0x00);
+  }
+}
+
+/**
+ * Renders a song into a buffer a chunk at a time, so a long render can pause in between
+ */
+class SongRenderJob {
+  private readonly apu: GameBoyApu;
+  private readonly player: SongPlayer;
+  private readonly output: Float32Array;
+  private readonly samplesPerTick: number;
+  private readonly samplesPerKitFrame: number;
+  private position = 0;
+  private nextTick = 0;
+  private nextKitFrame = 0;
+  private songEnded = false;
+
+  constructor(song: SongModel, options: SongRenderOptions) {
+    const { sampleRate = DEFAULT_SAMPLE_RATE, maxSeconds = DEFAULT_MAX_SECONDS, romData = null } = options;
+
+    this.apu = new GameBoyApu(sampleRate);
+    this.apu.writeRegister(APU_CONSTANTS.NR52, 0x80);
+    this.apu.writeRegister(APU_CONSTANTS.NR50, 0x77);
+    this.apu.writeRegister(APU_CONSTANTS.NR51, 0xff);
+
+    this.samplesPerTick = sampleRate * 60 / (SongProcessor.getBpm(song) * TICKS_PER_BEAT);
+    this.samplesPerKitFrame = sampleRate * KIT_FRAME_SIZE * 2 / KIT_SAMPLE_RATE;
+    this.output = new Float32Array(Math.round(maxSeconds * sampleRate));
+    const sequence = SongSequencer.sequence(song, Math.ceil(this.output.length / this.samplesPerTick) + 1);
+    this.player = new SongPlayer(song, sequence, this.apu, romData ? SongRenderer.findKitBanks(romData) : []);
+  }
+
+  get finished(): boolean {
+    return this.songEnded || this.position >= this.output.length;
+  }
+
+  // How far the render is, from 0 to 1
+  get progress(): number {
+    return this.finished ? 1 : Math.max(this.position / this.output.length, this.player.progress);
+  }
+
+  /**
+   * Render up to `sampleCount` more samples, stopping early when the song ends
+   */
+  renderChunk(sampleCount: number): void {
+    const { apu, player } = this;
+    const chunkEnd = Math.min(this.output.length, this.position + sampleCount);
+
+    while (this.position < chunkEnd) {
+      if (this.position >= this.nextTick) {
+        if (player.finished) {
+          this.songEnded = true;
+          return;
+        }
+        player.tick();
+        this.nextTick += this.samplesPerTick;
+        // A kit note loads its first frame straight away
+        if (player.kitStarted) {
+          player.kitStarted = false;
+          this.nextKitFrame = this.position + this.samplesPerKitFrame;
+        }
+      }
+      if (player.kitPlaying && this.position >= this.nextKitFrame) {
+        player.nextKitFrame();
+        this.nextKitFrame += this.samplesPerKitFrame;
+      }
+
+      const nextEvent = player.kitPlaying ? Math.min(this.nextTick, this.nextKitFrame) : this.nextTick;
+      const end = Math.min(chunkEnd, Math.max(this.position + 1, Math.ceil(nextEvent)));
+      apu.render(this.output, this.position, end - this.position);
+      this.position = end;
+    }
+  }
+
+  /**
+   * Convert the samples rendered so far to 16 bits
+   */
+  getSamples(): Int16Array {
+    const samples = new Int16Array(this.position);
+    for (let i = 0; i < this.position; i++) {
+      samples[i] = Math.max(-32768, Math.min(32767, Math.round(this.output[i] * 32767)));
+    }
+    return samples;
+  }
+}
+
+/**
+ * Service for rendering songs to audio
+ */
+export const SongRenderer = {
+  /**
+   * Find the kit banks of a ROM in the order LSDj numbers them. Empty kit slots are banks
+   * filled with 0xFF and are counted too.
+   *
+   * @param romData - The ROM data
+   * @returns The data of each kit bank, by kit number
+   */
+  findKitBanks(romData: ArrayBuffer): Uint8Array[] {
+    const rom = new Uint8Array(romData);
+    const kits = RomLayout.locateKits(new BinaryProcessor(romData));
+    return kits.found ? kits.slots.map(bankIndex => rom.subarray(bankIndex * BANK_SIZE, (bankIndex + 1) * BANK_SIZE)) : [];
+  },
+
+  /**
+   * Get the packed 4-bit data of a kit sample, as it is copied to wave RAM
+   *
+   * @param bank - The kit bank
+   * @param sample - The sample number (0-14)
+   * @returns The sample data, or null if the bank is not a kit or the sample is empty
+   */
+  getKitSample(bank: Uint8Array, sample: number): Uint8Array | null {
+    if (bank[0] !== 0x60 || bank[1] !== 0x40) {
+      return null;
+    }
+    // The bank starts with the addresses where the samples start, 0x4060 for the first one,
+    // followed by where the last one ends
+    const start = bank[sample * 2] | (bank[sample * 2 + 1] << 8);
+    const end = bank[sample * 2 + 2] | (bank[sample * 2 + 3] << 8);
+    if (start < 0x4060 || end <= start || end - BANK_SIZE > BANK_SIZE) {
+      return null;
+    }
+    return bank.subarray(start - BANK_SIZE, end - BANK_SIZE);
+  },
+
+  /**
+   * Render a song from the first row until every channel reaches an empty row
+   *
+   * @param song - The song model
+   * @param options - Options for rendering
+   * @returns Mono 16-bit samples
+   */
+  render(song: SongModel, options: SongRenderOptions = {}): Int16Array {
+    const job = new SongRenderJob(song, options);
+    while (!job.finished) {
+      job.renderChunk(Infinity);
+    }
+    return job.getSamples();
+  },
+
+  /**
+   * Render a song like render, a couple of seconds of audio at a time, giving the page
+   * a chance to update in between
+   *
+   * @param song - The song model
+   * @param options - Options for rendering
+   * @param onProgress - Called after every chunk with how far the render is, from 0 to 1
+   * @returns A promise that resolves to mono 16-bit samples
+   */
+  async renderAsync(
+    song: SongModel,
+    options: SongRenderOptions = {},
+    onProgress?: (progress: number) => void
+  ): Promise<Int16Array> {
+    const { sampleRate = DEFAULT_SAMPLE_RATE } = options;
+    const job = new SongRenderJob(song, options);
+    while (!job.finished) {
+      job.renderChunk(RENDER_CHUNK_SECONDS * sampleRate);
+      onProgress?.(job.progress);
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+    return job.getSamples();
+  },
+
+  /**
+   * Render a song as a mono 16-bit WAV file
+   *
+   * @param song - The song model
+   * @param options - Options for rendering
+   * @returns The WAV file data
+   */
+  renderWav(song: SongModel, options: SongRenderOptions = {}): Uint8Array {
+    const { sampleRate = DEFAULT_SAMPLE_RATE } = options;
+    return WavWriter.createWav(this.render(song, options), sampleRate);
+  },
+
+  /**
+   * Render a song as a mono 16-bit WAV file, a chunk at a time like renderAsync
+   *
+   * @param song - The song model
+   * @param options - Options for rendering
+   * @param onProgress - Called after every chunk with how far the render is, from 0 to 1
+   * @returns A promise that resolves to the WAV file data
+   */
+  async renderWavAsync(
+    song: SongModel,
+    options: SongRenderOptions = {},
+    onProgress?: (progress: number) => void
+  ): Promise<Uint8Array> {
+    const { sampleRate = DEFAULT_SAMPLE_RATE } = options;
+    return WavWriter.createWav(await this.renderAsync(song, options, onProgress), sampleRate);
+  },
+};
@@ -0,0 +1,183 @@
+/**
+ * SongSequencer.ts
+ *
+ * Works out when each phrase step of a decoded LSDj song plays. Every channel walks its
+ * column of the song sequence, through the chains and phrases, taking the length of each step
+ * from its groove. This is shared by the renderers, which only have to act on the steps.
+ */
+
+import { COMMAND_TYPES, SONG_CONSTANTS, SongModel } from '../../types/song';
+
+const DEFAULT_GROOVE_TICKS = 6;
+
+/**
+ * A phrase step played on one channel
+ */
+export interface SongStep {
+  /**
+   * The tick the step starts on, counted from the start of the song
+   */
+  tick: number;
+
+  /**
+   * The number of ticks until the channel's next step
+   */
+  ticks: number;
+
+  /**
+   * The song channel (0-3: pulse 1, pulse 2, wave, noise)
+   */
+  channel: number;
+
+  /**
+   * The note, 0 for none
+   */
+  note: number;
+
+  /**
+   * The transpose of the chain step playing the phrase
+   */
+  transpose: number;
+
+  /**
+   * The instrument the channel plays with: the one on this step or the last one before it,
+   * or null if the channel has had none yet
+   */
+  instrument: number | null;
+
+  command: number;
+  commandValue: number;
+}
+
+/**
+ * The steps of a song in playing order
+ */
+export interface SongSequence {
+  /**
+   * The steps, sorted by tick and then by channel
+   */
+  steps: SongStep[];
+
+  /**
+   * The tick on which each channel reaches an empty song row and stops
+   */
+  channelEnds: number[];
+
+  /**
+   * The tick on which the last channel stops
+   */
+  length: number;
+}
+
+/**
+ * Playback position of one song channel
+ */
+interface ChannelPosition {
+  row: number;
+  chainStep: number;
+  phraseStep: number;
+  groove: number;
+  grooveStep: number;
+  instrument: number | null;
+}
+
+// Find the phrase the channel plays next, moving on to the next chain or song row when the
+// current one has ended. Returns null at an empty song row, where the channel stops.
+function locatePhrase(song: SongModel, position: ChannelPosition, channel: number): { phrase: number; transpose: number } | null {
+  const { EMPTY_VALUE, STEP_COUNT } = SONG_CONSTANTS;
+  while (position.row < SONG_CONSTANTS.ROW_COUNT) {
+    const chain = song.sequence[position.row][channel];
+    if (chain === EMPTY_VALUE || chain >= SONG_CONSTANTS.CHAIN_COUNT) {
+      return null;
+    }
+    if (position.chainStep < STEP_COUNT) {
+      const { phrases, transposes } = song.chains[chain];
+      const phrase = phrases[position.chainStep];
+      if (phrase !== EMPTY_VALUE && phrase < SONG_CONSTANTS.PHRASE_COUNT) {
+        return { phrase, transpose: transposes[position.chainStep] };
+      }
+    }
+    position.row++;
+    position.chainStep = 0;
+  }
+  return null;
+}
+
+// Get the length of the next step from the channel's groove. A groove ends at its first 0.
+function nextGrooveTicks(song: SongModel, position: ChannelPosition): number {
+  const groove = song.grooves[position.groove];
+  const ticks = groove[position.grooveStep];
+  position.grooveStep++;
+  if (position.grooveStep === groove.length || groove[position.grooveStep] === 0) {
+    position.grooveStep = 0;
+  }
+  return ticks || DEFAULT_GROOVE_TICKS;
+}
+
+/**
+ * Service for sequencing songs
+ */
+export const SongSequencer = {
+  /**
+   * List the steps of a song from the first row until every channel reaches an empty row
+   *
+   * @param song - The song model
+   * @param maxTicks - The tick to stop at, for songs that play for longer
+   * @returns The steps and the length of the song in ticks
+   */
+  sequence(song: SongModel, maxTicks: number = Infinity): SongSequence {
+    const steps: SongStep[] = [];
+    const channelEnds: number[] = [];
+
+    for (let channel = 0; channel < SONG_CONSTANTS.CHANNEL_COUNT; channel++) {
+      const position: ChannelPosition = { row: 0, chainStep: 0, phraseStep: 0, groove: 0, grooveStep: 0, instrument: null };
+      let tick = 0;
+
+      while (tick < maxTicks) {
+        const location = locatePhrase(song, position, channel);
+        if (!location) {
+          break;
+        }
+
+        const phrase = song.phrases[location.phrase];
+        const step = position.phraseStep;
+        const command = phrase.commands[step];
+        const commandValue = phrase.commandValues[step];
+
+        if (phrase.instruments[step] < SONG_CONSTANTS.INSTRUMENT_COUNT) {
+          position.instrument = phrase.instruments[step];
+        }
+        // A groove command applies to the step it is on
+        if (command === COMMAND_TYPES.GROOVE && commandValue < SONG_CONSTANTS.GROOVE_COUNT) {
+          position.groove = commandValue;
+          position.grooveStep = 0;
+        }
+
+        const ticks = nextGrooveTicks(song, position);
+        steps.push({
+          tick,
+          ticks,
+          channel,
+          note: phrase.notes[step],
+          transpose: location.transpose,
+          instrument: position.instrument,
+          command,
+          commandValue,
+        });
+        tick += ticks;
+
+        position.phraseStep++;
+        if (position.phraseStep === SONG_CONSTANTS.STEP_COUNT) {
+          position.phraseStep = 0;
+          position.chainStep++;
+        }
+      }
+
+      channelEnds.push(Math.min(tick, maxTicks));
+    }
+
+    // Sort keeps the channel order of steps on the same tick
+    steps.sort((a, b) => a.tick - b.tick);
+    return { steps, channelEnds, length: Math.max(...channelEnds) };
+  },
+};
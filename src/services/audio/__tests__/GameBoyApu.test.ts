@@ -0,0 +1,95 @@
+import {describe, expect, it} from 'vitest';
+import {APU_CONSTANTS, GameBoyApu} from '../GameBoyApu';
+
+describe('GameBoyApu', () => {
+  const SAMPLE_RATE = 44100;
+
+  // Create a powered on APU with every channel routed to the output
+  const createApu = (): GameBoyApu => {
+    const apu = new GameBoyApu(SAMPLE_RATE);
+    apu.writeRegister(APU_CONSTANTS.NR52, 0x80);
+    apu.writeRegister(APU_CONSTANTS.NR50, 0x77);
+    apu.writeRegister(APU_CONSTANTS.NR51, 0xff);
+    return apu;
+  };
+
+  const render = (apu: GameBoyApu, seconds: number): Float32Array => {
+    const output = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+    apu.render(output, 0, output.length);
+    return output;
+  };
+
+  const countRisingEdges = (output: Float32Array): number =>
+    output.reduce((count, sample, i) => count + (i > 0 && output[i - 1] < 0 && sample >= 0 ? 1 : 0), 0);
+
+  const peak = (output: Float32Array): number => output.reduce((max, sample) => Math.max(max, Math.abs(sample)), 0);
+
+  it('should play a square wave at the pulse frequency', () => {
+    const apu = createApu();
+    // 131072 / (2048 - 1920) = 1024 Hz
+    apu.writeRegister(APU_CONSTANTS.NR21, 0x80);
+    apu.writeRegister(APU_CONSTANTS.NR22, 0xf0);
+    apu.writeRegister(APU_CONSTANTS.NR23, 1920 & 0xff);
+    apu.writeRegister(APU_CONSTANTS.NR24, 0x80 | (1920 >> 8));
+
+    const output = render(apu, 1);
+    expect(countRisingEdges(output)).toBeGreaterThanOrEqual(1022);
+    expect(countRisingEdges(output)).toBeLessThanOrEqual(1025);
+    expect(apu.isChannelEnabled(1)).toBe(true);
+  });
+
+  it('should play wave RAM at half the pulse frequency for the same register value', () => {
+    const apu = createApu();
+    for (let i = 0; i < APU_CONSTANTS.WAVE_RAM_SIZE; i++) {
+      apu.writeRegister(APU_CONSTANTS.WAVE_RAM + i, i < 8 ? 0xff : 0x00);
+    }
+    apu.writeRegister(APU_CONSTANTS.NR30, 0x80);
+    apu.writeRegister(APU_CONSTANTS.NR32, 0x20);
+    apu.writeRegister(APU_CONSTANTS.NR33, 1920 & 0xff);
+    apu.writeRegister(APU_CONSTANTS.NR34, 0x80 | (1920 >> 8));
+
+    const edges = countRisingEdges(render(apu, 1));
+    expect(edges).toBeGreaterThanOrEqual(510);
+    expect(edges).toBeLessThanOrEqual(513);
+  });
+
+  it('should stop a channel when its length runs out', () => {
+    const apu = createApu();
+    apu.writeRegister(APU_CONSTANTS.NR11, 0x80 | 0x3e); // 2 length clocks, 1/128 s
+    apu.writeRegister(APU_CONSTANTS.NR12, 0xf0);
+    apu.writeRegister(APU_CONSTANTS.NR14, 0xc7);
+    expect(apu.isChannelEnabled(0)).toBe(true);
+
+    render(apu, 0.02);
+    expect(apu.isChannelEnabled(0)).toBe(false);
+  });
+
+  it('should fade out with the volume envelope', () => {
+    const apu = createApu();
+    apu.writeRegister(APU_CONSTANTS.NR42, 0xf1); // Volume 15, one step down every 1/64 s
+    apu.writeRegister(APU_CONSTANTS.NR43, 0x20);
+    apu.writeRegister(APU_CONSTANTS.NR44, 0x80);
+
+    const start = render(apu, 0.05);
+    render(apu, 0.1);
+    const end = render(apu, 0.05);
+    expect(peak(end)).toBeLessThan(peak(start) / 2);
+  });
+
+  it('should be silent when powered off and give the same output for the same writes', () => {
+    const play = (powerOff: boolean): Float32Array => {
+      const apu = createApu();
+      apu.writeRegister(APU_CONSTANTS.NR42, 0xf0);
+      apu.writeRegister(APU_CONSTANTS.NR43, 0x31);
+      apu.writeRegister(APU_CONSTANTS.NR44, 0x80);
+      if (powerOff) {
+        apu.writeRegister(APU_CONSTANTS.NR52, 0x00);
+      }
+      return render(apu, 0.1);
+    };
+
+    expect(play(false)).toEqual(play(false));
+    expect(peak(play(false))).toBeGreaterThan(0.1);
+    expect(peak(play(true))).toBe(0);
+  });
+});
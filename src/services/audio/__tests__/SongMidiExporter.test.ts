@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import { SongMidiExporter } from '../SongMidiExporter';
+import { COMMAND_TYPES, INSTRUMENT_TYPES, SongModel } from '../../../types/song';
+import { createEmptySong } from '../../../utils/song-test-utils';
+
+interface ParsedEvent {
+  tick: number;
+  data: number[];
+}
+
+interface ParsedMidi {
+  ticksPerBeat: number;
+  tracks: ParsedEvent[][];
+}
+
+// Read back a MIDI file as written by MidiWriter, which doesn't use running status
+const parseMidi = (midi: Uint8Array): ParsedMidi => {
+  const view = new DataView(midi.buffer, midi.byteOffset, midi.byteLength);
+  const tracks: ParsedEvent[][] = [];
+  let offset = 14;
+  while (offset < midi.length) {
+    const end = offset + 8 + view.getUint32(offset + 4);
+    const events: ParsedEvent[] = [];
+    let tick = 0;
+    offset += 8;
+
+    const readLength = () => {
+      let value = 0;
+      let byte;
+      do {
+        byte = midi[offset++];
+        value = (value << 7) | (byte & 0x7f);
+      } while (byte & 0x80);
+      return value;
+    };
+
+    while (offset < end) {
+      tick += readLength();
+      if (midi[offset] === 0xff) {
+        const type = midi[offset + 1];
+        offset += 2;
+        const length = readLength();
+        events.push({ tick, data: [0xff, type, ...midi.subarray(offset, offset + length)] });
+        offset += length;
+      } else {
+        events.push({ tick, data: Array.from(midi.subarray(offset, offset + 3)) });
+        offset += 3;
+      }
+    }
+    tracks.push(events);
+  }
+  return { ticksPerBeat: view.getUint16(12), tracks };
+};
+
+const noteEvents = (events: ParsedEvent[]) => events.filter(event => event.data[0] < 0xf0);
+
+describe('SongMidiExporter', () => {
+  // Create a song at 125 BPM whose sequence plays chain 0 on one channel, holding phrase 0
+  // with a note on the first step played by instrument 0
+  const createSong = (channel: number, type: number, note: number): SongModel => {
+    const song = createEmptySong();
+    song.tempo = 125;
+    song.grooves[0][0] = 6;
+    song.grooves[0][1] = 6;
+
+    song.sequence[0][channel] = 0;
+    song.chains[0].phrases[0] = 0;
+    song.phrases[0].notes[0] = note;
+    song.phrases[0].instruments[0] = 0;
+    song.instruments[0].type = type;
+    song.instruments[0].params[0] = 0xf0;
+    return song;
+  };
+
+  it('should write a tempo track and one track per channel', () => {
+    const midi = parseMidi(SongMidiExporter.createMidi(createSong(0, INSTRUMENT_TYPES.PULSE, 34), { name: 'TRI' }));
+
+    expect(midi.tracks).toHaveLength(5);
+    const names = midi.tracks.map(track => new TextDecoder().decode(new Uint8Array(track[0].data.slice(2))));
+    expect(names).toEqual(['TRI', 'PU1', 'PU2', 'WAV', 'NOI']);
+
+    // A groove of 6 and 6 ticks puts steps on 16th notes, 12 MIDI ticks apart
+    expect(midi.ticksPerBeat).toBe(48);
+    const tempo = midi.tracks[0].find(event => event.data[1] === 0x51)!.data.slice(2);
+    expect((tempo[0] << 16) | (tempo[1] << 8) | tempo[2]).toBe(480000);
+  });
+
+  it('should play phrase notes with chain transposes until the next note, a kill or the end', () => {
+    const song = createSong(1, INSTRUMENT_TYPES.PULSE, 34);
+    song.chains[0].transposes[0] = 12;
+    song.phrases[0].notes[4] = 37;
+    song.phrases[0].commands[6] = COMMAND_TYPES.KILL;
+    song.phrases[0].commandValues[6] = 3;
+    song.phrases[0].notes[8] = 34;
+    song.instruments[0].params[0] = 0x80;
+
+    const midi = parseMidi(SongMidiExporter.createMidi(song));
+    expect(noteEvents(midi.tracks[1])).toHaveLength(0);
+    expect(noteEvents(midi.tracks[2])).toEqual([
+      { tick: 0, data: [0x91, 81, 68] },
+      { tick: 48, data: [0x81, 81, 0] },
+      { tick: 48, data: [0x91, 84, 68] },
+      { tick: 78, data: [0x81, 84, 0] },
+      { tick: 96, data: [0x91, 81, 68] },
+      { tick: 192, data: [0x81, 81, 0] },
+    ]);
+  });
+
+  it('should keep groove timing on the 16th note grid', () => {
+    const song = createSong(3, INSTRUMENT_TYPES.NOISE, 1);
+    song.grooves[0][0] = 8;
+    song.grooves[0][1] = 4;
+    song.phrases[0].notes[1] = 1;
+    song.phrases[0].notes[2] = 1;
+
+    const midi = parseMidi(SongMidiExporter.createMidi(song));
+    expect(midi.ticksPerBeat).toBe(48);
+    expect(noteEvents(midi.tracks[4]).filter(event => event.data[0] === 0x93).map(event => event.tick)).toEqual([0, 16, 24]);
+  });
+
+  it('should map kit hits to drum notes by sample name', () => {
+    // Bank 1 holds a kit with a sample named BD- in the first slot and an unnamed one after it
+    const romData = new ArrayBuffer(0x8000);
+    const bank = new Uint8Array(romData, 0x4000, 0x4000);
+    bank.set([0x60, 0x40, 0x60, 0x41, 0x60, 0x42]);
+    bank.set([0x42, 0x44, 0x2d], 0x22);
+
+    const song = createSong(2, INSTRUMENT_TYPES.KIT, 1);
+    song.instruments[0].params[0] = 0x60;
+    song.instruments[0].params[1] = 0;
+    song.phrases[0].notes[4] = 2;
+
+    const drumNotes = (midi: ParsedMidi) => noteEvents(midi.tracks[3])
+      .filter(event => event.data[0] === 0x99)
+      .map(event => event.data[1]);
+    expect(drumNotes(parseMidi(SongMidiExporter.createMidi(song, { romData })))).toEqual([36, 61]);
+    expect(drumNotes(parseMidi(SongMidiExporter.createMidi(song)))).toEqual([60, 61]);
+  });
+});
@@ -0,0 +1,198 @@
+import {describe, expect, it} from 'vitest';
+import {SongRenderer} from '../SongRenderer';
+import {COMMAND_TYPES, INSTRUMENT_TYPES, SongModel} from '../../../types/song';
+import {createEmptySong} from '../../../utils/song-test-utils';
+
+describe('SongRenderer', () => {
+  const SAMPLE_RATE = 8000;
+  const A4 = 34; // 440 Hz, 33 semitones above C-3
+
+  // Create a song at 125 BPM (50 ticks a second) whose sequence plays chain 0 on one channel,
+  // holding phrase 0 with a note on the first step played by instrument 0
+  const createSong = (channel: number, type: number, note: number = A4): SongModel => {
+    const song = createEmptySong();
+    song.tempo = 125;
+    song.grooves[0][0] = 6;
+    song.grooves[0][1] = 6;
+
+    song.sequence[0][channel] = 0;
+    song.chains[0].phrases[0] = 0;
+    song.phrases[0].notes[0] = note;
+    song.phrases[0].instruments[0] = 0;
+    song.instruments[0].type = type;
+    song.instruments[0].params[0] = 0xf0; // Full volume, no fade
+    song.instruments[0].params[6] = 0x80; // 50% pulse width
+    return song;
+  };
+
+  const countRisingEdges = (samples: Int16Array, start: number, end: number): number => {
+    let count = 0;
+    for (let i = start + 1; i < end; i++) {
+      if (samples[i - 1] < 0 && samples[i] >= 0) {
+        count++;
+      }
+    }
+    return count;
+  };
+
+  const peak = (samples: Int16Array): number => samples.reduce((max, sample) => Math.max(max, Math.abs(sample)), 0);
+
+  it('should play a pulse note at its pitch until the song runs out', () => {
+    const samples = SongRenderer.render(createSong(0, INSTRUMENT_TYPES.PULSE), { sampleRate: SAMPLE_RATE });
+
+    // 16 steps of 6 ticks at 50 ticks a second
+    expect(samples.length).toBe(Math.round(16 * 6 / 50 * SAMPLE_RATE));
+    const edges = countRisingEdges(samples, 0, SAMPLE_RATE);
+    expect(edges).toBeGreaterThanOrEqual(438);
+    expect(edges).toBeLessThanOrEqual(442);
+  });
+
+  it('should follow the groove and the kill command', () => {
+    const song = createSong(1, INSTRUMENT_TYPES.PULSE);
+    song.grooves[0][0] = 3;
+    song.grooves[0][1] = 3;
+    song.phrases[0].commands[8] = COMMAND_TYPES.KILL;
+
+    const samples = SongRenderer.render(song, { sampleRate: SAMPLE_RATE });
+    expect(samples.length).toBe(Math.round(16 * 3 / 50 * SAMPLE_RATE));
+
+    // The note is killed on step 8, 24 ticks in
+    const killedAt = Math.round(24 / 50 * SAMPLE_RATE);
+    expect(peak(samples.subarray(0, killedAt))).toBeGreaterThan(1000);
+    expect(peak(samples.subarray(killedAt + SAMPLE_RATE / 10))).toBeLessThan(100);
+  });
+
+  it('should run the instrument table, its volumes, transposes and hops', () => {
+    // Step 1 transposes an octave up and hops back to itself, so step 2 never plays
+    const song = createSong(0, INSTRUMENT_TYPES.PULSE);
+    song.instruments[0].params[5] = 0x20 | 3;
+    const table = song.tables[3];
+    table.transposes[1] = 12;
+    table.commands1[1] = COMMAND_TYPES.HOP;
+    table.commandValues1[1] = 0x01;
+    table.transposes[2] = 24;
+
+    const samples = SongRenderer.render(song, { sampleRate: SAMPLE_RATE });
+    const edges = countRisingEdges(samples, SAMPLE_RATE / 2, SAMPLE_RATE);
+    expect(edges).toBeGreaterThanOrEqual(438);
+    expect(edges).toBeLessThanOrEqual(442);
+
+    // A volume envelope of 0 on step 2 silences the note after two ticks
+    table.commands1[1] = 0;
+    table.volumes[2] = 0x08;
+    const silenced = SongRenderer.render(song, { sampleRate: SAMPLE_RATE });
+    expect(peak(silenced.subarray(0, SAMPLE_RATE / 50))).toBeGreaterThan(1000);
+    expect(peak(silenced.subarray(SAMPLE_RATE / 10))).toBeLessThan(100);
+  });
+
+  it('should step through the soft synth frames', () => {
+    // Synth 1 has a loud first frame and a flat second one
+    const song = createSong(2, INSTRUMENT_TYPES.WAVE);
+    const instrument = song.instruments[0];
+    instrument.params[0] = 0x60; // Volume 3
+    instrument.params[1] = 0x10; // Synth 1
+    instrument.params[9] = 0xe1; // Last frame 1, 2 ticks per frame
+    song.waves[16].fill(0xf0);
+    song.waves[17].fill(0x77);
+
+    const once = SongRenderer.render(song, { sampleRate: SAMPLE_RATE });
+    expect(peak(once.subarray(0, SAMPLE_RATE / 25))).toBeGreaterThan(1000);
+    expect(peak(once.subarray(SAMPLE_RATE / 25 + SAMPLE_RATE / 10))).toBeLessThan(100);
+
+    instrument.params[8] = 3; // Manual play mode stays on the first frame
+    const manual = SongRenderer.render(song, { sampleRate: SAMPLE_RATE });
+    expect(peak(manual.subarray(SAMPLE_RATE / 2, SAMPLE_RATE))).toBeGreaterThan(1000);
+  });
+
+  it('should sweep pulse 1 with the instrument sweep', () => {
+    // Sweeping up every 1/128 second overflows the frequency and stops the channel
+    const song = createSong(0, INSTRUMENT_TYPES.PULSE);
+    song.instruments[0].params[3] = 0x17;
+    expect(peak(SongRenderer.render(song, { sampleRate: SAMPLE_RATE }).subarray(SAMPLE_RATE / 2))).toBeLessThan(100);
+
+    // 0xFF is no sweep
+    song.instruments[0].params[3] = 0xff;
+    const edges = countRisingEdges(SongRenderer.render(song, { sampleRate: SAMPLE_RATE }), SAMPLE_RATE / 2, SAMPLE_RATE);
+    expect(edges).toBeGreaterThanOrEqual(218);
+    expect(edges).toBeLessThanOrEqual(222);
+  });
+
+  it('should play chord and envelope commands', () => {
+    const song = createSong(0, INSTRUMENT_TYPES.PULSE);
+    song.phrases[0].commands[0] = COMMAND_TYPES.CHORD;
+    song.phrases[0].commandValues[0] = 0xc0; // The note and an octave up, a tick each
+    song.phrases[0].commands[8] = COMMAND_TYPES.ENVELOPE;
+    song.phrases[0].commandValues[8] = 0x08;
+
+    const samples = SongRenderer.render(song, { sampleRate: SAMPLE_RATE });
+    // 440 Hz and 880 Hz in turn average 660 Hz over the first 48 ticks
+    const edges = countRisingEdges(samples, 0, Math.round(48 / 50 * SAMPLE_RATE));
+    expect(edges / 0.96).toBeGreaterThan(640);
+    expect(edges / 0.96).toBeLessThan(680);
+    expect(peak(samples.subarray(Math.round(48 / 50 * SAMPLE_RATE) + SAMPLE_RATE / 10))).toBeLessThan(100);
+  });
+
+  it('should play wave and noise instruments on their channels only', () => {
+    const wave = createSong(2, INSTRUMENT_TYPES.WAVE);
+    wave.instruments[0].params[0] = 0x60; // Volume 3
+    wave.waves[0].fill(0xf0);
+    expect(peak(SongRenderer.render(wave, { sampleRate: SAMPLE_RATE }))).toBeGreaterThan(1000);
+
+    const noise = createSong(3, INSTRUMENT_TYPES.NOISE, 0x30);
+    expect(peak(SongRenderer.render(noise, { sampleRate: SAMPLE_RATE }))).toBeGreaterThan(1000);
+
+    const wrongChannel = createSong(3, INSTRUMENT_TYPES.PULSE);
+    expect(peak(SongRenderer.render(wrongChannel, { sampleRate: SAMPLE_RATE }))).toBe(0);
+  });
+
+  it('should play kit samples from the ROM', () => {
+    // Bank 1 holds a kit whose first sample is 0x200 bytes of a loud square wave
+    const romData = new ArrayBuffer(0x8000);
+    const bank = new Uint8Array(romData, 0x4000, 0x4000);
+    bank.set([0x60, 0x40, 0x60, 0x42]);
+    bank.fill(0xf0, 0x60, 0x260);
+
+    const song = createSong(2, INSTRUMENT_TYPES.KIT, 1);
+    song.instruments[0].params[0] = 0x60; // Volume 3
+    song.instruments[0].params[1] = 0; // Kit 0
+
+    expect(SongRenderer.findKitBanks(romData)).toHaveLength(1);
+    expect(SongRenderer.getKitSample(bank, 0)).toHaveLength(0x200);
+    expect(SongRenderer.getKitSample(bank, 1)).toBeNull();
+
+    const withKit = SongRenderer.render(song, { sampleRate: SAMPLE_RATE, romData });
+    expect(peak(withKit)).toBeGreaterThan(1000);
+    // 0x400 nibbles at 11468 Hz
+    expect(peak(withKit.subarray(Math.round(0.15 * SAMPLE_RATE)))).toBeLessThan(100);
+    expect(peak(SongRenderer.render(song, { sampleRate: SAMPLE_RATE }))).toBe(0);
+  });
+
+  it('should render the same samples every time and write them as WAV', () => {
+    const song = createSong(0, INSTRUMENT_TYPES.PULSE);
+    const first = SongRenderer.render(song, { sampleRate: SAMPLE_RATE, maxSeconds: 0.5 });
+    const second = SongRenderer.render(song, { sampleRate: SAMPLE_RATE, maxSeconds: 0.5 });
+    expect(first.length).toBe(SAMPLE_RATE / 2);
+    expect(Buffer.from(first.buffer).equals(Buffer.from(second.buffer))).toBe(true);
+
+    const wav = SongRenderer.renderWav(song, { sampleRate: SAMPLE_RATE, maxSeconds: 0.5 });
+    expect(wav.length).toBe(44 + first.length * 2);
+    expect(Buffer.from(wav.subarray(44)).equals(Buffer.from(first.buffer))).toBe(true);
+  });
+
+  it('should render the same samples in chunks and report the progress', async () => {
+    const song = createSong(0, INSTRUMENT_TYPES.PULSE);
+    for (let row = 1; row < 4; row++) {
+      song.sequence[row][0] = 0;
+    }
+    const progress: number[] = [];
+
+    const samples = await SongRenderer.renderAsync(song, { sampleRate: SAMPLE_RATE, maxSeconds: 5 }, value => progress.push(value));
+
+    const expected = SongRenderer.render(song, { sampleRate: SAMPLE_RATE, maxSeconds: 5 });
+    expect(samples.length).toBe(5 * SAMPLE_RATE);
+    expect(Buffer.from(samples.buffer).equals(Buffer.from(expected.buffer))).toBe(true);
+    expect(progress.length).toBe(3);
+    expect(progress).toEqual([...progress].sort((a, b) => a - b));
+    expect(progress[progress.length - 1]).toBe(1);
+  });
+});
@@ -5,3 +5,7 @@
 export * from './AudioService';
 export * from './sample';
 export * from './SampleBankCompiler';
+export * from './GameBoyApu';
+export * from './SongRenderer';
+export * from './SongSequencer';
+export * from './SongMidiExporter';
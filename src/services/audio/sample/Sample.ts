@@ -7,6 +7,7 @@
  */
 
 import { SampleProcessingOptions } from './types';
+import { LSDJ_KIT_NAME_CHARACTERS, LsdjCharset } from '../../binary/LsdjCharset';
 import * as SampleUtils from './SampleUtils';
 import * as SampleEditing from './SampleEditing';
 import * as SampleFactory from './SampleFactory';
@@ -35,7 +36,7 @@ export class Sample {
    * @param name - The name of the sample
    */
   constructor(samples: Int16Array | null, name: string) {
-    this.name = name.toUpperCase().substring(0, 3);
+    this.name = LsdjCharset.sanitize(name, LSDJ_KIT_NAME_CHARACTERS).substring(0, 3);
     if (samples) {
       this.processedSamples = samples;
       // Store a copy of the original samples that will never be modified by pitch shifts
@@ -53,12 +54,12 @@ export class Sample {
   }
 
   /**
-   * Sets the sample name, converting to uppercase and limiting to 3 characters
+   * Sets the sample name, keeping the characters sample names allow in upper case and limiting to 3 characters
    * 
    * @param name - The new name for the sample
    */
   public setName(name: string): void {
-    this.name = name.toUpperCase().substring(0, 3);
+    this.name = LsdjCharset.sanitize(name, LSDJ_KIT_NAME_CHARACTERS).substring(0, 3);
   }
 
   /**
@@ -0,0 +1,139 @@
+/**
+ * LsdjCharset.ts
+ *
+ * Encoding of the text LSDj stores in ROMs and save files: song file names, instrument,
+ * kit, sample, font and palette names. Letters, digits and the few symbols the font has
+ * tiles for are stored as their ASCII codes, and a zero byte ends the text.
+ */
+
+/**
+ * Every character the LSDj font can show in a name
+ */
+export const LSDJ_CHARACTERS = ' 0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ-#.';
+
+/**
+ * The characters LSDj lets you enter in song file names
+ */
+export const LSDJ_FILE_NAME_CHARACTERS = ' 0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+/**
+ * The characters kit and sample names are written with
+ */
+export const LSDJ_KIT_NAME_CHARACTERS = ' 0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ-';
+
+/**
+ * Service for converting between strings and LSDj text
+ */
+export const LsdjCharset = {
+  /**
+   * Decode one LSDj character
+   *
+   * @param code - The byte read from the ROM or save file
+   * @returns The character, an empty string for the terminating zero, or a space for
+   *   bytes the font has no character for
+   */
+  decodeChar(code: number): string {
+    if (code === 0) {
+      return '';
+    }
+    const ch = String.fromCharCode(code);
+    return LSDJ_CHARACTERS.includes(ch) ? ch : ' ';
+  },
+
+  /**
+   * Encode one character as an LSDj character
+   *
+   * @param ch - The character
+   * @returns The byte to store
+   * @throws Error if the font has no tile for the character
+   */
+  encodeChar(ch: string): number {
+    if (ch.length !== 1 || !LSDJ_CHARACTERS.includes(ch)) {
+      throw new Error(`'${ch}' is not an LSDj character`);
+    }
+    return ch.charCodeAt(0);
+  },
+
+  /**
+   * Decode LSDj text up to the first zero byte
+   *
+   * @param bytes - The stored bytes
+   * @returns The text
+   */
+  decode(bytes: ArrayLike<number>): string {
+    let text = '';
+    for (let i = 0; i < bytes.length && bytes[i] !== 0; i++) {
+      text += this.decodeChar(bytes[i]);
+    }
+    return text;
+  },
+
+  /**
+   * Encode text as LSDj characters, padded with zeros
+   *
+   * @param text - The text
+   * @param length - The number of bytes to return
+   * @param characters - The characters the field accepts
+   * @returns The encoded bytes
+   * @throws Error if the text is too long or has characters the field doesn't accept
+   */
+  encode(text: string, length: number, characters: string = LSDJ_CHARACTERS): Uint8Array {
+    const problem = this.validate(text, length, characters);
+    if (problem) {
+      throw new Error(problem);
+    }
+
+    const encoded = new Uint8Array(length);
+    for (let i = 0; i < text.length; i++) {
+      encoded[i] = this.encodeChar(text[i]);
+    }
+    return encoded;
+  },
+
+  /**
+   * Check whether text fits a field
+   *
+   * @param text - The text
+   * @param maxLength - The maximum number of characters
+   * @param characters - The characters the field accepts
+   * @returns A description of the problem, or null if the text is valid
+   */
+  validate(text: string, maxLength: number, characters: string = LSDJ_CHARACTERS): string | null {
+    if (text.length > maxLength) {
+      return `Names are at most ${maxLength} characters`;
+    }
+    for (const ch of text) {
+      if (!characters.includes(ch)) {
+        return `'${ch}' can't be used in this name, only ${this.describe(characters)}`;
+      }
+    }
+    return null;
+  },
+
+  /**
+   * Convert text to upper case and replace the characters a field doesn't accept
+   *
+   * @param text - The text
+   * @param characters - The characters the field accepts
+   * @param replacement - The text to replace each unsupported character with
+   * @returns The sanitized text
+   */
+  sanitize(text: string, characters: string = LSDJ_CHARACTERS, replacement: string = ''): string {
+    return Array.from(text.toUpperCase(), ch => characters.includes(ch) ? ch : replacement).join('');
+  },
+
+  /**
+   * Describe a character set for error messages, e.g. "A-Z, 0-9, space, -"
+   *
+   * @param characters - The characters
+   * @returns The description
+   */
+  describe(characters: string): string {
+    const parts: string[] = [];
+    if (/[A-Z]/.test(characters)) parts.push('A-Z');
+    if (/[0-9]/.test(characters)) parts.push('0-9');
+    if (characters.includes(' ')) parts.push('space');
+    parts.push(...characters.replace(/[A-Z0-9 ]/g, '').split(''));
+    return parts.join(', ');
+  },
+};
@@ -0,0 +1,68 @@
+/**
+ * LSDj release numbers and the ROM features that depend on them
+ */
+
+/**
+ * The first LSDj release with each feature
+ */
+export const LSDJ_FEATURES = {
+  // Kit samples are rotated by one to make up for the wave refresh bug, and the kit header
+  // marks them with kit version 1
+  WAVE_REFRESH_ROTATION: '9.2.0',
+  // The ROM has color palettes with names
+  PALETTES: '5.0.0',
+};
+
+export type LsdjFeature = keyof typeof LSDJ_FEATURES;
+
+/**
+ * The LSDj version string as it appears in the ROM, e.g. "LSDj-v9.2.6"
+ */
+const VERSION_PATTERN = /LSDj[-_ ]?v?(\d{1,2})[._](\d{1,2})[._](\d{1,2})/i;
+
+/**
+ * Service for LSDj version numbers
+ */
+export const LsdjVersion = {
+  /**
+   * Find the LSDj version string in ROM data
+   *
+   * @param rom - The ROM data
+   * @returns The version as major.minor.patch, or null if the ROM has no version string
+   */
+  find(rom: Uint8Array): string | null {
+    const match = VERSION_PATTERN.exec(new TextDecoder('latin1').decode(rom));
+    return match ? match.slice(1, 4).map(Number).join('.') : null;
+  },
+
+  /**
+   * Compare two versions
+   *
+   * @param a - The first version, major.minor.patch
+   * @param b - The second version, major.minor.patch
+   * @returns A negative number if a is older, 0 if they are the same, positive if a is newer
+   */
+  compare(a: string, b: string): number {
+    const partsA = a.split('.').map(Number);
+    const partsB = b.split('.').map(Number);
+    for (let i = 0; i < 3; i++) {
+      const difference = (partsA[i] || 0) - (partsB[i] || 0);
+      if (difference !== 0) {
+        return difference;
+      }
+    }
+    return 0;
+  },
+
+  /**
+   * Check whether an LSDj version has a feature. A ROM without a detected version is taken to
+   * be the newest release.
+   *
+   * @param version - The detected version, or null if unknown
+   * @param feature - The feature to check
+   * @returns Whether the feature is available
+   */
+  supports(version: string | null, feature: LsdjFeature): boolean {
+    return version === null || this.compare(version, LSDJ_FEATURES[feature]) >= 0;
+  },
+};
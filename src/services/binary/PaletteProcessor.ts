@@ -1,5 +1,6 @@
 import { BinaryProcessor } from './BinaryProcessor';
-import { RomProcessor } from './RomProcessor';
+import { LsdjCharset } from './LsdjCharset';
+import { RomLayout } from './RomLayout';
 import { PALETTE_CONSTANTS, RGB555, ColorSet, Palette, calculateMidTone } from '../../types/palette';
 
 /**
@@ -17,21 +18,20 @@ export class PaletteProcessor {
    */
   constructor(romData: ArrayBuffer) {
     this.processor = new BinaryProcessor(romData);
-    this.paletteOffset = RomProcessor.findPaletteOffset(this.processor);
-    this.nameOffset = RomProcessor.findPaletteNameOffset(this.processor);
-    this.numberOfPalettes = RomProcessor.getNumberOfPalettes(this.processor);
 
-    if (this.paletteOffset === -1) {
-      throw new Error('Could not find palette offset in ROM');
+    const palettes = RomLayout.locatePalettes(this.processor);
+    if (!palettes.found) {
+      throw new Error(palettes.error);
     }
 
-    if (this.nameOffset === -1) {
-      throw new Error('Could not find palette name offset in ROM');
+    const paletteNames = RomLayout.locatePaletteNames(this.processor);
+    if (!paletteNames.found) {
+      throw new Error(paletteNames.error);
     }
 
-    if (this.numberOfPalettes <= 0) {
-      throw new Error('No palettes found in ROM');
-    }
+    this.paletteOffset = palettes.offset;
+    this.nameOffset = paletteNames.offset;
+    this.numberOfPalettes = palettes.count;
   }
 
   /**
@@ -67,7 +67,7 @@ export class PaletteProcessor {
     }
 
     const offset = this.nameOffset + paletteIndex * PALETTE_CONSTANTS.PALETTE_NAME_SIZE;
-    return this.processor.readAsciiString(offset, PALETTE_CONSTANTS.PALETTE_NAME_LENGTH);
+    return LsdjCharset.decode(this.processor.readUint8Array(offset, PALETTE_CONSTANTS.PALETTE_NAME_LENGTH));
   }
 
   /**
@@ -80,8 +80,8 @@ export class PaletteProcessor {
       throw new Error(`Invalid palette index: ${paletteIndex}`);
     }
 
-    // Ensure name is uppercase and padded/truncated to 4 characters
-    name = name.toUpperCase();
+    // Ensure name only has LSDj characters and is padded/truncated to 4 characters
+    name = LsdjCharset.sanitize(name, undefined, ' ');
     if (name.length > PALETTE_CONSTANTS.PALETTE_NAME_LENGTH) {
       name = name.substring(0, PALETTE_CONSTANTS.PALETTE_NAME_LENGTH);
     } else {
@@ -89,7 +89,7 @@ export class PaletteProcessor {
     }
 
     const offset = this.nameOffset + paletteIndex * PALETTE_CONSTANTS.PALETTE_NAME_SIZE;
-    this.processor.writeAsciiString(offset, name, PALETTE_CONSTANTS.PALETTE_NAME_SIZE);
+    this.processor.writeUint8Array(offset, LsdjCharset.encode(name, PALETTE_CONSTANTS.PALETTE_NAME_SIZE));
   }
 
   /**
@@ -0,0 +1,206 @@
+/**
+ * Service for checking the cartridge header of a Game Boy ROM (0x100-0x14F)
+ * The layout follows the Pan Docs description of the cartridge header
+ */
+
+import {BinaryProcessor} from './BinaryProcessor';
+
+/**
+ * Offsets of the cartridge header fields
+ */
+export const ROM_HEADER = {
+  LOGO: 0x104,
+  TITLE: 0x134,
+  CGB_FLAG: 0x143,
+  CARTRIDGE_TYPE: 0x147,
+  ROM_SIZE: 0x148,
+  RAM_SIZE: 0x149,
+  HEADER_CHECKSUM: 0x14D,
+  GLOBAL_CHECKSUM: 0x14E, // Two bytes, big endian
+  END: 0x150,
+};
+
+/**
+ * The logo the boot ROM compares against; a cartridge without it doesn't boot
+ */
+const NINTENDO_LOGO = [
+  0xCE, 0xED, 0x66, 0x66, 0xCC, 0x0D, 0x00, 0x0B, 0x03, 0x73, 0x00, 0x83, 0x00, 0x0C, 0x00, 0x0D,
+  0x00, 0x08, 0x11, 0x1F, 0x88, 0x89, 0x00, 0x0E, 0xDC, 0xCC, 0x6E, 0xE6, 0xDD, 0xDD, 0xD9, 0x99,
+  0xBB, 0xBB, 0x67, 0x63, 0x6E, 0x0E, 0xEC, 0xCC, 0xDD, 0xDC, 0x99, 0x9F, 0xBB, 0xB9, 0x33, 0x3E,
+];
+
+/**
+ * Cartridge types by their code at 0x147
+ */
+const CARTRIDGE_TYPES: Record<number, string> = {
+  0x00: 'ROM only',
+  0x01: 'MBC1',
+  0x02: 'MBC1+RAM',
+  0x03: 'MBC1+RAM+BATTERY',
+  0x05: 'MBC2',
+  0x06: 'MBC2+BATTERY',
+  0x0F: 'MBC3+TIMER+BATTERY',
+  0x10: 'MBC3+TIMER+RAM+BATTERY',
+  0x11: 'MBC3',
+  0x12: 'MBC3+RAM',
+  0x13: 'MBC3+RAM+BATTERY',
+  0x19: 'MBC5',
+  0x1A: 'MBC5+RAM',
+  0x1B: 'MBC5+RAM+BATTERY',
+  0x1C: 'MBC5+RUMBLE',
+  0x1D: 'MBC5+RUMBLE+RAM',
+  0x1E: 'MBC5+RUMBLE+RAM+BATTERY',
+};
+
+/**
+ * Cartridge RAM sizes in bytes by their code at 0x149
+ */
+const RAM_SIZES: Record<number, number> = {
+  0x00: 0,
+  0x02: 8 * 1024,
+  0x03: 32 * 1024,
+  0x04: 128 * 1024,
+  0x05: 64 * 1024,
+};
+
+/**
+ * Interface for a checksum as stored in the header and as computed from the ROM
+ */
+export interface RomChecksum {
+  stored: number;
+  computed: number;
+  valid: boolean;
+}
+
+/**
+ * Interface for the checked cartridge header
+ */
+export interface RomHeaderInfo {
+  logoValid: boolean;
+  cgbFlag: number;
+  cgbSupport: 'DMG only' | 'CGB compatible' | 'CGB only';
+  cartridgeType: number;
+  cartridgeTypeName: string | null; // null for an unknown code
+  romSizeCode: number;
+  romSize: number | null; // In bytes, null for an unknown code
+  romSizeMatches: boolean; // Whether the ROM size code matches the file size
+  ramSizeCode: number;
+  ramSize: number | null; // In bytes, null for an unknown code
+  headerChecksum: RomChecksum;
+  globalChecksum: RomChecksum;
+}
+
+/**
+ * Service for checking ROM headers
+ */
+export const RomHeader = {
+  /**
+   * Check the cartridge header of a ROM
+   *
+   * @param processor - The BinaryProcessor containing the ROM data
+   * @returns The checked header, or null if the ROM is too small to have one
+   */
+  analyze(processor: BinaryProcessor): RomHeaderInfo | null {
+    if (processor.bufferSize < ROM_HEADER.END) {
+      return null;
+    }
+
+    const rom = processor.readUint8Array(0, processor.bufferSize);
+    const cgbFlag = rom[ROM_HEADER.CGB_FLAG];
+    const cartridgeType = rom[ROM_HEADER.CARTRIDGE_TYPE];
+    const romSizeCode = rom[ROM_HEADER.ROM_SIZE];
+    const ramSizeCode = rom[ROM_HEADER.RAM_SIZE];
+
+    // ROM size codes 0-8 are 32KB shifted left by the code
+    const romSize = romSizeCode <= 8 ? 0x8000 << romSizeCode : null;
+    const storedGlobalChecksum = (rom[ROM_HEADER.GLOBAL_CHECKSUM] << 8) | rom[ROM_HEADER.GLOBAL_CHECKSUM + 1];
+    const computedHeaderChecksum = this.computeHeaderChecksum(rom);
+    const computedGlobalChecksum = this.computeGlobalChecksum(rom);
+
+    return {
+      logoValid: NINTENDO_LOGO.every((byte, i) => rom[ROM_HEADER.LOGO + i] === byte),
+      cgbFlag,
+      cgbSupport: cgbFlag === 0xC0 ? 'CGB only' : cgbFlag === 0x80 ? 'CGB compatible' : 'DMG only',
+      cartridgeType,
+      cartridgeTypeName: CARTRIDGE_TYPES[cartridgeType] ?? null,
+      romSizeCode,
+      romSize,
+      romSizeMatches: romSize === processor.bufferSize,
+      ramSizeCode,
+      ramSize: RAM_SIZES[ramSizeCode] ?? null,
+      headerChecksum: {
+        stored: rom[ROM_HEADER.HEADER_CHECKSUM],
+        computed: computedHeaderChecksum,
+        valid: rom[ROM_HEADER.HEADER_CHECKSUM] === computedHeaderChecksum,
+      },
+      globalChecksum: {
+        stored: storedGlobalChecksum,
+        computed: computedGlobalChecksum,
+        valid: storedGlobalChecksum === computedGlobalChecksum,
+      },
+    };
+  },
+
+  /**
+   * Compute the header checksum over 0x134-0x14C, as the boot ROM does
+   *
+   * @param rom - The ROM data
+   * @returns The checksum byte
+   */
+  computeHeaderChecksum(rom: Uint8Array): number {
+    let checksum = 0;
+    for (let i = ROM_HEADER.TITLE; i < ROM_HEADER.HEADER_CHECKSUM; ++i) {
+      checksum = checksum - rom[i] - 1;
+    }
+    return checksum & 0xFF;
+  },
+
+  /**
+   * Compute the global checksum, the sum of every byte except the checksum itself
+   *
+   * @param rom - The ROM data
+   * @returns The 16-bit checksum
+   */
+  computeGlobalChecksum(rom: Uint8Array): number {
+    let checksum = 0;
+    for (let i = 0; i < rom.length; ++i) {
+      if (i === ROM_HEADER.GLOBAL_CHECKSUM || i === ROM_HEADER.GLOBAL_CHECKSUM + 1) {
+        continue;
+      }
+      checksum += rom[i];
+    }
+    return checksum & 0xFFFF;
+  },
+
+  /**
+   * List what is wrong with a header, one message per problem
+   *
+   * @param header - The checked header
+   * @param size - The size of the ROM file in bytes
+   * @returns The problems, empty if the header is fine
+   */
+  describeProblems(header: RomHeaderInfo, size: number): string[] {
+    const problems: string[] = [];
+    if (!header.logoValid) {
+      problems.push('The Nintendo logo is missing or damaged');
+    }
+    if (header.cartridgeTypeName === null) {
+      problems.push(`Unknown cartridge type 0x${header.cartridgeType.toString(16).toUpperCase().padStart(2, '0')}`);
+    }
+    if (header.romSize === null) {
+      problems.push(`Unknown ROM size code 0x${header.romSizeCode.toString(16).toUpperCase().padStart(2, '0')}`);
+    } else if (!header.romSizeMatches) {
+      problems.push(`The header gives a ${header.romSize / 1024}KB ROM but the file is ${size / 1024}KB`);
+    }
+    if (header.ramSize === null) {
+      problems.push(`Unknown RAM size code 0x${header.ramSizeCode.toString(16).toUpperCase().padStart(2, '0')}`);
+    }
+    if (!header.headerChecksum.valid) {
+      problems.push('The header checksum is invalid');
+    }
+    if (!header.globalChecksum.valid) {
+      problems.push('The global checksum is invalid');
+    }
+    return problems;
+  },
+};
@@ -0,0 +1,307 @@
+/**
+ * Locates the data regions of an LSDj ROM: font and palette tables, the graphics font, the
+ * screen background and the kit banks. Every region is found by the patterns LSDj leaves
+ * around it, and a region that can't be found comes back with the reason.
+ * Based on the original Java implementation in RomUtilities.java
+ */
+
+import {BinaryProcessor} from './BinaryProcessor';
+import {LsdjVersion} from './LsdjVersion';
+import {ROM_CONSTANTS} from './RomProcessor';
+import {FONT_CONSTANTS} from '../../types/font';
+
+const FONT_NAMES_BANK = 27;
+const SCREEN_BACKGROUND_BANK = 1;
+const GFX_FONT_BANK = 30;
+const NAME_SIZE = 5; // 4 characters and a separator
+const MAX_PALETTE_NAMES = 20; // Grayscale and color names, two per palette
+const GFX_HEADER_SIZE = 2 + 8 * 16;
+
+/**
+ * A region that couldn't be found
+ */
+export interface RomRegionNotFound {
+  found: false;
+  error: string;
+}
+
+/**
+ * The result of locating a region: its position, or why it couldn't be found
+ */
+export type RomRegion<T> = ({ found: true } & T) | RomRegionNotFound;
+
+/**
+ * A region at a single offset
+ */
+export interface OffsetRegion {
+  offset: number;
+}
+
+/**
+ * A table of same size entries
+ */
+export interface TableRegion {
+  offset: number;
+  count: number;
+}
+
+/**
+ * The banks kits can be stored in
+ */
+export interface KitRegion {
+  slots: number[]; // Banks holding a kit or empty, in kit number order
+  kitBanks: number[]; // Banks holding a kit
+}
+
+/**
+ * The located regions of a ROM
+ */
+export interface RomLayoutInfo {
+  fontNames: RomRegion<TableRegion>;
+  fonts: RomRegion<TableRegion>;
+  gfxFont: RomRegion<OffsetRegion>;
+  paletteNames: RomRegion<TableRegion>;
+  palettes: RomRegion<TableRegion>;
+  screenBackground: RomRegion<OffsetRegion>;
+  kits: RomRegion<KitRegion>;
+}
+
+// Describe a region that couldn't be found
+function notFound(error: string): RomRegionNotFound {
+  return { found: false, error };
+}
+
+// Get a bank of the ROM, or null if the ROM is too small to have it
+function readBank(processor: BinaryProcessor, bankIndex: number): Uint8Array | null {
+  const bankStart = bankIndex * ROM_CONSTANTS.BANK_SIZE;
+  if (processor.bufferSize < bankStart + ROM_CONSTANTS.BANK_SIZE) {
+    return null;
+  }
+  return processor.readUint8Array(bankStart, ROM_CONSTANTS.BANK_SIZE);
+}
+
+// Find the first position in a bank where a pattern matches, or -1
+function findInBank(bank: Uint8Array, length: number, matches: (at: number) => boolean): number {
+  for (let i = 0; i + length <= bank.length; i++) {
+    if (matches(i)) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+// Describe a bank that is missing from a small ROM
+function missingBank(region: string, bankIndex: number, processor: BinaryProcessor): RomRegionNotFound {
+  const banks = Math.floor(processor.bufferSize / ROM_CONSTANTS.BANK_SIZE);
+  return notFound(`${region}: the ROM has ${banks} banks, bank ${bankIndex} is missing`);
+}
+
+/**
+ * Service for locating the regions of a ROM
+ */
+export const RomLayout = {
+  /**
+   * Locate every region of a ROM
+   *
+   * @param processor - The BinaryProcessor containing the ROM data
+   * @returns The position of each region, or why it couldn't be found
+   */
+  locate(processor: BinaryProcessor): RomLayoutInfo {
+    return {
+      fontNames: this.locateFontNames(processor),
+      fonts: this.locateFonts(processor),
+      gfxFont: this.locateGfxFont(processor),
+      paletteNames: this.locatePaletteNames(processor),
+      palettes: this.locatePalettes(processor),
+      screenBackground: this.locateScreenBackground(processor),
+      kits: this.locateKits(processor),
+    };
+  },
+
+  /**
+   * Locate the font names, three names of four characters each followed by a 0, in bank 27
+   *
+   * @param processor - The BinaryProcessor containing the ROM data
+   * @returns The offset of the font names
+   */
+  locateFontNames(processor: BinaryProcessor): RomRegion<TableRegion> {
+    const bank = readBank(processor, FONT_NAMES_BANK);
+    if (!bank) {
+      return missingBank('Font names', FONT_NAMES_BANK, processor);
+    }
+
+    const count = FONT_CONSTANTS.FONT_COUNT;
+    const offset = findInBank(bank, count * NAME_SIZE, at => {
+      for (let i = 0; i < count * NAME_SIZE; i++) {
+        if ((bank[at + i] === 0) !== (i % NAME_SIZE === NAME_SIZE - 1)) {
+          return false;
+        }
+      }
+      return true;
+    });
+    if (offset === -1) {
+      return notFound(`Font names: no table of ${count} names in bank ${FONT_NAMES_BANK}`);
+    }
+
+    return { found: true, offset: FONT_NAMES_BANK * ROM_CONSTANTS.BANK_SIZE + offset, count };
+  },
+
+  /**
+   * Locate the graphics font in bank 30, after its header
+   *
+   * @param processor - The BinaryProcessor containing the ROM data
+   * @returns The offset of the graphics font
+   */
+  locateGfxFont(processor: BinaryProcessor): RomRegion<OffsetRegion> {
+    const bank = readBank(processor, GFX_FONT_BANK);
+    if (!bank) {
+      return missingBank('Graphics font', GFX_FONT_BANK, processor);
+    }
+
+    const offset = findInBank(bank, 4, at =>
+      bank[at] === 1 && bank[at + 1] === FONT_CONSTANTS.GFX_TILE_COUNT && bank[at + 2] === 0 && bank[at + 3] === 1
+    );
+    if (offset === -1) {
+      return notFound(`Graphics font: no graphics font header in bank ${GFX_FONT_BANK}`);
+    }
+
+    return { found: true, offset: GFX_FONT_BANK * ROM_CONSTANTS.BANK_SIZE + offset + GFX_HEADER_SIZE };
+  },
+
+  /**
+   * Locate the three fonts, which follow the graphics font
+   *
+   * @param processor - The BinaryProcessor containing the ROM data
+   * @returns The offset of the first font and the number of fonts
+   */
+  locateFonts(processor: BinaryProcessor): RomRegion<TableRegion> {
+    const gfxFont = this.locateGfxFont(processor);
+    if (!gfxFont.found) {
+      return notFound(`Fonts: ${gfxFont.error}`);
+    }
+
+    const offset = gfxFont.offset + FONT_CONSTANTS.GFX_SIZE;
+    const count = FONT_CONSTANTS.FONT_COUNT;
+    if (offset + count * FONT_CONSTANTS.FONT_SIZE > processor.bufferSize) {
+      return notFound('Fonts: the font data runs past the end of the ROM');
+    }
+
+    return { found: true, offset, count };
+  },
+
+  /**
+   * Locate the palette names. The font names are followed by a grayscale name and a color
+   * name for every palette, and the palette names are the color ones.
+   *
+   * @param processor - The BinaryProcessor containing the ROM data
+   * @returns The offset of the palette names and the number of palettes
+   */
+  locatePaletteNames(processor: BinaryProcessor): RomRegion<TableRegion> {
+    const lsdjVersion = LsdjVersion.find(processor.readUint8Array(0, processor.bufferSize));
+    if (!LsdjVersion.supports(lsdjVersion, 'PALETTES')) {
+      return notFound(`Palette names: LSDj ${lsdjVersion} has no palettes`);
+    }
+
+    const fontNames = this.locateFontNames(processor);
+    if (!fontNames.found) {
+      return notFound(`Palette names: ${fontNames.error}`);
+    }
+
+    // Count the names by their separators
+    const baseOffset = fontNames.offset + fontNames.count * NAME_SIZE;
+    let names = 0;
+    for (let j = baseOffset + NAME_SIZE - 1;
+         j < processor.bufferSize && names < MAX_PALETTE_NAMES && processor.readUint8(j) === 0;
+         j += NAME_SIZE) {
+      names++;
+    }
+
+    const count = Math.floor(names / 2);
+    if (count === 0) {
+      return notFound('Palette names: no names follow the font names');
+    }
+
+    return { found: true, offset: baseOffset + count * NAME_SIZE, count };
+  },
+
+  /**
+   * Locate the screen background data in bank 1
+   *
+   * @param processor - The BinaryProcessor containing the ROM data
+   * @returns The offset of the screen background data
+   */
+  locateScreenBackground(processor: BinaryProcessor): RomRegion<OffsetRegion> {
+    const bank = readBank(processor, SCREEN_BACKGROUND_BANK);
+    if (!bank) {
+      return missingBank('Screen background', SCREEN_BACKGROUND_BANK, processor);
+    }
+
+    // 17 zeros followed by three 72s
+    const offset = findInBank(bank, 20, at => {
+      for (let i = 0; i < 17; i++) {
+        if (bank[at + i] !== 0) {
+          return false;
+        }
+      }
+      return bank[at + 17] === 72 && bank[at + 18] === 72 && bank[at + 19] === 72;
+    });
+    if (offset === -1) {
+      return notFound(`Screen background: not found in bank ${SCREEN_BACKGROUND_BANK}`);
+    }
+
+    return { found: true, offset: SCREEN_BACKGROUND_BANK * ROM_CONSTANTS.BANK_SIZE + offset };
+  },
+
+  /**
+   * Locate the palettes, which come right before the screen background data
+   *
+   * @param processor - The BinaryProcessor containing the ROM data
+   * @returns The offset of the first palette and the number of palettes
+   */
+  locatePalettes(processor: BinaryProcessor): RomRegion<TableRegion> {
+    const paletteNames = this.locatePaletteNames(processor);
+    if (!paletteNames.found) {
+      return notFound(`Palettes: ${paletteNames.error}`);
+    }
+    const screenBackground = this.locateScreenBackground(processor);
+    if (!screenBackground.found) {
+      return notFound(`Palettes: ${screenBackground.error}`);
+    }
+
+    const offset = screenBackground.offset - paletteNames.count * ROM_CONSTANTS.PALETTE_SIZE;
+    if (offset < SCREEN_BACKGROUND_BANK * ROM_CONSTANTS.BANK_SIZE) {
+      return notFound(`Palettes: ${paletteNames.count} palettes don't fit before the screen background`);
+    }
+
+    return { found: true, offset, count: paletteNames.count };
+  },
+
+  /**
+   * Locate the kit banks: banks after the first one that hold a kit or are empty
+   *
+   * @param processor - The BinaryProcessor containing the ROM data
+   * @returns The kit slots and the banks holding kits
+   */
+  locateKits(processor: BinaryProcessor): RomRegion<KitRegion> {
+    const slots: number[] = [];
+    const kitBanks: number[] = [];
+    for (let bankIndex = 1; ; bankIndex++) {
+      const bank = readBank(processor, bankIndex);
+      if (!bank) {
+        break;
+      }
+      if (bank[0] === 0x60 && bank[1] === 0x40) {
+        slots.push(bankIndex);
+        kitBanks.push(bankIndex);
+      } else if (bank.every(byte => byte === 0xff)) {
+        slots.push(bankIndex);
+      }
+    }
+
+    if (slots.length === 0) {
+      return notFound('Kits: no kit banks or empty banks found');
+    }
+
+    return { found: true, slots, kitBanks };
+  },
+};
@@ -0,0 +1,154 @@
+/**
+ * Service for carrying customizations over to a newer LSDj ROM
+ * Based on the upgrade tool of the original Java LSDPatcher
+ */
+
+import {BinaryProcessor} from './BinaryProcessor';
+import {LsdjCharset} from './LsdjCharset';
+import {ROM_CONSTANTS} from './RomProcessor';
+import {RomLayout} from './RomLayout';
+import {FONT_CONSTANTS} from '../../types/font';
+
+const FONT_NAME_SIZE = 5; // 4 characters and a separator
+const KIT_NAME_OFFSET = 0x52;
+const KIT_NAME_LENGTH = 6;
+
+/**
+ * Interface for a kit copied to the new ROM
+ */
+export interface UpgradedKit {
+  sourceBank: number;
+  targetBank: number;
+  name: string;
+}
+
+/**
+ * Interface for what a ROM upgrade carried over
+ */
+export interface RomUpgradeReport {
+  kits: UpgradedKit[];
+  fonts: number; // Number of fonts copied, with their names
+  palettes: number; // Number of palettes copied, with their names
+  unmapped: string[]; // Everything that couldn't be carried over, one message each
+}
+
+/**
+ * Interface for the result of a ROM upgrade
+ */
+export interface RomUpgradeResult {
+  romData: ArrayBuffer;
+  report: RomUpgradeReport;
+}
+
+// Check whether a bank holds a kit
+function isKitBank(bank: Uint8Array): boolean {
+  return bank[0] === 0x60 && bank[1] === 0x40;
+}
+
+// Compare two banks byte for byte
+function isSameBank(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+/**
+ * Service for upgrading ROMs
+ */
+export const RomUpgrader = {
+  /**
+   * Copy the kits, fonts and palettes of a ROM into a newer LSDj ROM.
+   * Kits that the new ROM already has byte for byte are left alone. The others go to the kit
+   * slot with the same number. Fonts, palettes and their names are written at the locations
+   * found in the new ROM.
+   *
+   * @param sourceRom - The ROM to take the customizations from
+   * @param targetRom - The newer ROM to write them into. It isn't modified.
+   * @returns The upgraded ROM and a report of what was copied and what couldn't be
+   */
+  upgrade(sourceRom: ArrayBuffer, targetRom: ArrayBuffer): RomUpgradeResult {
+    const source = new Uint8Array(sourceRom);
+    const target = new Uint8Array(targetRom.slice(0));
+    const sourceProcessor = new BinaryProcessor(sourceRom);
+    const targetProcessor = new BinaryProcessor(target.buffer);
+    const report: RomUpgradeReport = { kits: [], fonts: 0, palettes: 0, unmapped: [] };
+
+    const bankAt = (rom: Uint8Array, bankIndex: number) =>
+      rom.subarray(bankIndex * ROM_CONSTANTS.BANK_SIZE, (bankIndex + 1) * ROM_CONSTANTS.BANK_SIZE);
+    const sourceLayout = RomLayout.locate(sourceProcessor);
+    const targetLayout = RomLayout.locate(targetProcessor);
+
+    // Kits
+    const sourceSlots = sourceLayout.kits.found ? sourceLayout.kits.slots : [];
+    const targetSlots = targetLayout.kits.found ? targetLayout.kits.slots : [];
+    const stockKits = targetSlots.map(bankIndex => bankAt(target, bankIndex).slice()).filter(isKitBank);
+    sourceSlots.forEach((sourceBank, slot) => {
+      const bank = bankAt(source, sourceBank);
+      if (!isKitBank(bank) || stockKits.some(stockKit => isSameBank(stockKit, bank))) {
+        return;
+      }
+
+      const name = LsdjCharset.decode(bank.subarray(KIT_NAME_OFFSET, KIT_NAME_OFFSET + KIT_NAME_LENGTH)).trim();
+      if (slot >= targetSlots.length) {
+        report.unmapped.push(`Kit ${name} (bank ${sourceBank}): the new ROM has only ${targetSlots.length} kit slots`);
+        return;
+      }
+
+      const targetBank = targetSlots[slot];
+      target.set(bank, targetBank * ROM_CONSTANTS.BANK_SIZE);
+      report.kits.push({ sourceBank, targetBank, name });
+    });
+
+    // Fonts
+    const { fonts: sourceFonts, fontNames: sourceFontNames } = sourceLayout;
+    const { fonts: targetFonts, fontNames: targetFontNames } = targetLayout;
+    if (!sourceFonts.found) {
+      report.unmapped.push(`Old ROM: ${sourceFonts.error}`);
+    } else if (!targetFonts.found) {
+      report.unmapped.push(`New ROM: ${targetFonts.error}`);
+    } else {
+      const fontsSize = sourceFonts.count * FONT_CONSTANTS.FONT_SIZE;
+      target.set(source.subarray(sourceFonts.offset, sourceFonts.offset + fontsSize), targetFonts.offset);
+      report.fonts = sourceFonts.count;
+
+      if (!sourceFontNames.found) {
+        report.unmapped.push(`Old ROM: ${sourceFontNames.error}`);
+      } else if (!targetFontNames.found) {
+        report.unmapped.push(`New ROM: ${targetFontNames.error}`);
+      } else {
+        for (let i = 0; i < sourceFontNames.count; i++) {
+          const nameOffset = sourceFontNames.offset + i * FONT_NAME_SIZE;
+          target.set(source.subarray(nameOffset, nameOffset + FONT_CONSTANTS.FONT_NAME_LENGTH), targetFontNames.offset + i * FONT_NAME_SIZE);
+        }
+      }
+    }
+
+    // Palettes
+    const { palettes: sourcePalettes, paletteNames: sourcePaletteNames } = sourceLayout;
+    const { palettes: targetPalettes, paletteNames: targetPaletteNames } = targetLayout;
+    if (!sourcePalettes.found) {
+      report.unmapped.push(`Old ROM: ${sourcePalettes.error}`);
+    } else if (!targetPalettes.found) {
+      report.unmapped.push(`New ROM: ${targetPalettes.error}`);
+    } else if (sourcePaletteNames.found && targetPaletteNames.found) {
+      // Palettes are only located through their names, so both are found here
+      const count = Math.min(sourcePalettes.count, targetPalettes.count);
+
+      target.set(
+        source.subarray(sourcePalettes.offset, sourcePalettes.offset + count * ROM_CONSTANTS.PALETTE_SIZE),
+        targetPalettes.offset
+      );
+      for (let i = 0; i < count; i++) {
+        const nameOffset = sourcePaletteNames.offset + i * ROM_CONSTANTS.PALETTE_NAME_SIZE;
+        target.set(source.subarray(nameOffset, nameOffset + ROM_CONSTANTS.PALETTE_NAME_SIZE), targetPaletteNames.offset + i * ROM_CONSTANTS.PALETTE_NAME_SIZE);
+      }
+      report.palettes = count;
+
+      for (let i = count; i < sourcePalettes.count; i++) {
+        const nameOffset = sourcePaletteNames.offset + i * ROM_CONSTANTS.PALETTE_NAME_SIZE;
+        const name = LsdjCharset.decode(source.subarray(nameOffset, nameOffset + ROM_CONSTANTS.PALETTE_NAME_SIZE - 1));
+        report.unmapped.push(`Palette ${name}: the new ROM has only ${targetPalettes.count} palettes`);
+      }
+    }
+
+    return { romData: target.buffer, report };
+  },
+};
@@ -4,6 +4,9 @@
  */
 
 import {BinaryProcessor} from './BinaryProcessor';
+import {LSDJ_FILE_NAME_CHARACTERS, LsdjCharset} from './LsdjCharset';
+import {SongProcessor} from './SongProcessor';
+import {InstrumentFile, SongUsageReport} from '../../types/song';
 
 /**
  * Constants for save file processing
@@ -15,6 +18,7 @@ export const SAV_CONSTANTS = {
   SAV_FILE_SIZE: 0x8000 * 4, // 131,072 bytes (128KB)
   SONG_COUNT: 0x20, // 32 songs
   FILE_NAME_LENGTH: 8,
+  SONG_SIZE: 0x8000, // Decompressed song size
 
   // Memory addresses
   FILE_NAME_START_PTR: 0x8000,
@@ -22,9 +26,125 @@ export const SAV_CONSTANTS = {
   BLOCK_ALLOC_TABLE_START_PTR: 0x8141,
   BLOCK_START_PTR: 0x8200,
   ACTIVE_FILE_SLOT: 0x8140,
+  SRAM_INIT_CHECK_PTR: 0x813e, // 'jk', LSDj clears the save on boot without it
   EMPTY_SLOT_VALUE: 0xff,
+
+  // The uncompressed song currently open in LSDj is stored at the start of the save
+  WORKING_SONG_PTR: 0x0000,
+  WORKING_SONG_ID: -1, // Song ID used for the working song in song lists
 };
 
+/**
+ * Offsets of the 'rb' markers LSDj writes to initialized song memory
+ */
+const SONG_MEMORY_CHECK_OFFSETS = [0x1e78, 0x3e80, 0x7ff0];
+
+/**
+ * Sizes of the real-time clock footers emulators append to saves: 48 bytes from VBA-M and
+ * mGBA, 44 from older emulators
+ */
+const RTC_TRAILER_SIZES = [48, 44];
+
+/**
+ * Size of the name and version header of song files
+ */
+const LSDSNG_HEADER_SIZE = SAV_CONSTANTS.FILE_NAME_LENGTH + 1;
+
+/**
+ * Command bytes of LSDj's song compression
+ */
+const RLE_BYTE = 0xc0;
+const SPECIAL_ACTION_BYTE = 0xe0;
+const DEFAULT_WAVE_BYTE = 0xf0;
+const DEFAULT_INSTRUMENT_BYTE = 0xf1;
+const END_OF_SONG_BYTE = 0xff;
+
+/**
+ * Check whether a block allocation table value marks its block as free. Values that are
+ * neither a song slot nor free are corruption, which verify reports and repair frees.
+ */
+function isFreeBlock(tableValue: number): boolean {
+  return tableValue === SAV_CONSTANTS.EMPTY_SLOT_VALUE;
+}
+
+/**
+ * Data patterns that LSDj compresses with a single command
+ */
+const DEFAULT_WAVE = new Uint8Array([
+  0x8e, 0xcd, 0xcc, 0xbb, 0xaa, 0xa9, 0x99, 0x88,
+  0x87, 0x76, 0x66, 0x55, 0x54, 0x43, 0x32, 0x31
+]);
+const DEFAULT_INSTRUMENT = new Uint8Array([
+  0xa8, 0, 0, 0xff, 0, 0, 3, 0, 0, 0xd0, 0, 0, 0, 0xf3, 0, 0
+]);
+
+/**
+ * Count how many times a 16-byte pattern repeats at the given position (at most 0xff)
+ */
+function countPatternRepeats(raw: Uint8Array, pos: number, pattern: Uint8Array): number {
+  let count = 0;
+  while (count < 0xff && pos + pattern.length <= raw.length) {
+    for (let i = 0; i < pattern.length; i++) {
+      if (raw[pos + i] !== pattern[i]) {
+        return count;
+      }
+    }
+    count++;
+    pos += pattern.length;
+  }
+  return count;
+}
+
+/**
+ * Split decompressed song data into compression commands.
+ * Each command must be stored within a single block.
+ */
+function compressToCommands(raw: Uint8Array): number[][] {
+  const commands: number[][] = [];
+  let pos = 0;
+
+  while (pos < raw.length) {
+    const waveCount = countPatternRepeats(raw, pos, DEFAULT_WAVE);
+    if (waveCount > 0) {
+      commands.push([SPECIAL_ACTION_BYTE, DEFAULT_WAVE_BYTE, waveCount]);
+      pos += waveCount * DEFAULT_WAVE.length;
+      continue;
+    }
+
+    const instrumentCount = countPatternRepeats(raw, pos, DEFAULT_INSTRUMENT);
+    if (instrumentCount > 0) {
+      commands.push([SPECIAL_ACTION_BYTE, DEFAULT_INSTRUMENT_BYTE, instrumentCount]);
+      pos += instrumentCount * DEFAULT_INSTRUMENT.length;
+      continue;
+    }
+
+    const value = raw[pos];
+
+    // 0xc0 0xc0 is a literal 0xc0, so runs of 0xc0 can't be run-length encoded
+    if (value === RLE_BYTE) {
+      commands.push([RLE_BYTE, RLE_BYTE]);
+      pos++;
+      continue;
+    }
+
+    let runLength = 1;
+    while (runLength < 0xff && pos + runLength < raw.length && raw[pos + runLength] === value) {
+      runLength++;
+    }
+
+    const literalSize = value === SPECIAL_ACTION_BYTE ? 2 : 1;
+    if (runLength * literalSize > 3) {
+      commands.push([RLE_BYTE, value, runLength]);
+      pos += runLength;
+    } else {
+      commands.push(value === SPECIAL_ACTION_BYTE ? [SPECIAL_ACTION_BYTE, SPECIAL_ACTION_BYTE] : [value]);
+      pos++;
+    }
+  }
+
+  return commands;
+}
+
 /**
  * Interface for save file information
  */
@@ -37,6 +157,16 @@ export interface SaveFileInfo {
   songs: SongInfo[];
 }
 
+/**
+ * How a save file was stored, so it can be written back the way it came
+ */
+export interface SaveFileVariant {
+  sramSize: number; // SRAM bytes in the file: 32KB, 64KB or 128KB
+  paddingSize: number; // Fill bytes after the SRAM, added by flashcarts with larger SRAM
+  paddingValue: number;
+  trailer: number[]; // Emulator RTC footer at the end of the file
+}
+
 /**
  * Interface for song information
  */
@@ -48,6 +178,348 @@ export interface SongInfo {
   isValid: boolean;
 }
 
+/**
+ * Song file formats that can be imported and exported
+ */
+export type SongFileFormat = 'lsdprj' | 'lsdsng';
+
+/**
+ * Interface for a song read from a song file
+ */
+export interface SongFile {
+  name: string;
+  version: number;
+  song: Uint8Array; // Decompressed song data
+}
+
+/**
+ * Interface for the result of a defragment operation
+ */
+export interface DefragmentResult {
+  freeBlocksBefore: number;
+  freeBlocksAfter: number;
+  skippedSongs: number[]; // Invalid songs left in their original blocks
+}
+
+/**
+ * Interface for the result of cleaning a song
+ */
+export interface CleanSongResult {
+  songId: number;
+  usage: SongUsageReport; // The entries that were cleared
+  blocksBefore: number;
+  blocksAfter: number;
+}
+
+/**
+ * Interface for a song to copy from another save file
+ */
+export interface MergeSongPlan {
+  sourceId: number;
+  name: string;
+  version: string;
+  blocksNeeded: number | null; // null if the song can't be unpacked
+  fits: boolean;
+  nameCollision: boolean; // Another song in the target or the merge has the same name
+}
+
+/**
+ * Interface for the check done before merging songs from another save file
+ */
+export interface MergePlan {
+  songs: MergeSongPlan[];
+  freeSlots: number;
+  freeBlocks: number;
+  blocksNeeded: number;
+  canMerge: boolean;
+}
+
+/**
+ * Interface for a song kept when converting a save file to another SRAM layout
+ */
+export interface LayoutSongPlan {
+  songId: number;
+  name: string;
+  blocksNeeded: number | null; // null if the song can't be unpacked
+  fits: boolean;
+}
+
+/**
+ * Interface for the check done before converting a save file between 64KB and 128KB SRAM
+ */
+export interface LayoutPlan {
+  songs: LayoutSongPlan[];
+  totalBlocks: number; // Blocks available in the target layout
+  blocksNeeded: number;
+  canConvert: boolean;
+}
+
+/**
+ * Interface for a song file picked for import
+ */
+export interface SongFileData {
+  fileName: string;
+  data: ArrayBuffer;
+  error?: string; // Why the file could not be loaded, e.g. it is too large
+}
+
+/**
+ * Interface for a song file to import
+ */
+export interface ImportSongPlan {
+  fileName: string;
+  name: string;
+  version: string;
+  blocksNeeded: number | null; // null if the file can't be read
+  fits: boolean;
+  nameCollision: boolean; // Another song in the save file or the import has the same name
+  error: string | null;
+}
+
+/**
+ * Interface for the check done before importing several song files
+ */
+export interface ImportPlan {
+  songs: ImportSongPlan[];
+  freeSlots: number;
+  freeBlocks: number;
+  blocksNeeded: number;
+  canImport: boolean;
+}
+
+/**
+ * Interface for the space check shared by merges and imports
+ */
+interface SongSpacePlan {
+  songs: { blocksNeeded: number | null; fits: boolean; nameCollision: boolean }[];
+  freeSlots: number;
+  freeBlocks: number;
+  blocksNeeded: number;
+}
+
+/**
+ * Kinds of problems found by SaveFileProcessor.verify
+ */
+export const VERIFY_ISSUE_TYPES = {
+  MISSING_SRAM_SIGNATURE: 'missingSramSignature',
+  INVALID_FAT_ENTRY: 'invalidFatEntry',
+  ORPHANED_BLOCK: 'orphanedBlock',
+  CROSS_LINKED_BLOCK: 'crossLinkedBlock',
+  MISSING_BLOCK: 'missingBlock',
+  BAD_BLOCK_SWITCH: 'badBlockSwitch',
+  MISSING_END_MARKER: 'missingEndMarker',
+  STALE_SLOT_ENTRY: 'staleSlotEntry',
+} as const;
+
+export type VerifyIssueType = typeof VERIFY_ISSUE_TYPES[keyof typeof VERIFY_ISSUE_TYPES];
+
+/**
+ * Interface for the fields every problem found in a save file has
+ */
+interface VerifyIssueBase {
+  type: VerifyIssueType;
+  message: string;
+  repairable: boolean;
+}
+
+/**
+ * Interface for a problem with the save file as a whole
+ */
+export interface SaveIssue extends VerifyIssueBase {
+  type: typeof VERIFY_ISSUE_TYPES.MISSING_SRAM_SIGNATURE;
+}
+
+/**
+ * Interface for a block allocation table entry that names no song slot
+ */
+export interface FatEntryIssue extends VerifyIssueBase {
+  type: typeof VERIFY_ISSUE_TYPES.INVALID_FAT_ENTRY;
+  block: number; // FAT index
+}
+
+/**
+ * Interface for a name or version left in an empty song slot
+ */
+export interface SlotIssue extends VerifyIssueBase {
+  type: typeof VERIFY_ISSUE_TYPES.STALE_SLOT_ENTRY;
+  slot: number;
+}
+
+/**
+ * Interface for a problem in the blocks of a song
+ */
+export interface SongBlockIssue extends VerifyIssueBase {
+  type: typeof VERIFY_ISSUE_TYPES.ORPHANED_BLOCK | typeof VERIFY_ISSUE_TYPES.CROSS_LINKED_BLOCK |
+    typeof VERIFY_ISSUE_TYPES.MISSING_BLOCK | typeof VERIFY_ISSUE_TYPES.BAD_BLOCK_SWITCH |
+    typeof VERIFY_ISSUE_TYPES.MISSING_END_MARKER;
+  slot: number;
+  block: number; // FAT index
+}
+
+/**
+ * A problem found in a save file, with the slot and block it concerns depending on its type
+ */
+export type VerifyIssue = SaveIssue | FatEntryIssue | SlotIssue | SongBlockIssue;
+
+/**
+ * Interface for the result of a repair operation
+ */
+export interface RepairResult {
+  repaired: VerifyIssue[];
+  remaining: VerifyIssue[];
+}
+
+/**
+ * Interface for the blocks a song's block switches lead through
+ */
+interface SongTrace {
+  visited: number[];
+  issue: SongBlockIssue | null;
+}
+
+/**
+ * Follow the compression commands of a song from its first block, checking every block switch
+ *
+ * @param processor - The BinaryProcessor containing the save file data
+ * @param slot - The song slot (0-31)
+ * @param fat - The block allocation table
+ * @returns The blocks the song passes through, and the first problem found
+ */
+function traceSongBlocks(processor: BinaryProcessor, slot: number, fat: Uint8Array): SongTrace {
+  let block = fat.indexOf(slot);
+  let offset = 0;
+  const visited = [block];
+  const fail = (type: SongBlockIssue['type'], message: string, repairable = false): SongTrace =>
+    ({ visited, issue: { type, message, slot, block, repairable } });
+
+  const readByte = (): number | null => {
+    if (offset >= SAV_CONSTANTS.BLOCK_SIZE) {
+      return null;
+    }
+    return processor.readUint8(SAV_CONSTANTS.BLOCK_START_PTR + block * SAV_CONSTANTS.BLOCK_SIZE + offset++);
+  };
+
+  for (;;) {
+    const command = readByte();
+    let subCommand: number | null = null;
+    if (command === RLE_BYTE) {
+      subCommand = readByte();
+      if (subCommand !== RLE_BYTE && readByte() === null) {
+        subCommand = null;
+      }
+    } else if (command === SPECIAL_ACTION_BYTE) {
+      subCommand = readByte();
+      if (subCommand === DEFAULT_WAVE_BYTE || subCommand === DEFAULT_INSTRUMENT_BYTE) {
+        if (readByte() === null) {
+          subCommand = null;
+        }
+      }
+    } else {
+      subCommand = command;
+    }
+
+    if (command === null || subCommand === null) {
+      return fail(VERIFY_ISSUE_TYPES.MISSING_END_MARKER, `Song ${slot} runs past the end of block ${block + 1} without a block switch or end marker`);
+    }
+
+    if (command !== SPECIAL_ACTION_BYTE || [SPECIAL_ACTION_BYTE, DEFAULT_WAVE_BYTE, DEFAULT_INSTRUMENT_BYTE].includes(subCommand)) {
+      continue;
+    }
+    if (subCommand === END_OF_SONG_BYTE) {
+      return { visited, issue: null };
+    }
+
+    // Block switch, targets are 1-based to account for the FAT block
+    const target = subCommand - 1;
+    if (target < 0 || target >= fat.length || visited.includes(target)) {
+      return fail(VERIFY_ISSUE_TYPES.BAD_BLOCK_SWITCH, `Song ${slot} switches from block ${block + 1} to invalid block ${subCommand}`);
+    }
+    if (isFreeBlock(fat[target])) {
+      return fail(VERIFY_ISSUE_TYPES.MISSING_BLOCK, `Song ${slot} continues in block ${subCommand}, which is marked as free`);
+    }
+    if (fat[target] !== slot) {
+      return fail(VERIFY_ISSUE_TYPES.CROSS_LINKED_BLOCK, `Song ${slot} continues in block ${subCommand}, which belongs to song ${fat[target]}`);
+    }
+
+    block = target;
+    offset = 0;
+    visited.push(block);
+  }
+}
+
+/**
+ * Move every song slot to a new index, rewriting the block owners, names, versions and active slot
+ *
+ * @param processor - The BinaryProcessor containing the save file data
+ * @param newSlots - The new index of each slot (0-31), a permutation of the slot numbers
+ */
+function remapSongSlots(processor: BinaryProcessor, newSlots: number[]): void {
+  const totalBlocks = SaveFileProcessor.getTotalBlockCount(SaveFileProcessor.isSixtyFourKbRam(processor));
+  for (let block = 0; block < totalBlocks; block++) {
+    const tableOffset = SAV_CONSTANTS.BLOCK_ALLOC_TABLE_START_PTR + block;
+    const owner = processor.readUint8(tableOffset);
+    if (owner < SAV_CONSTANTS.SONG_COUNT) {
+      processor.writeUint8(tableOffset, newSlots[owner]);
+    }
+  }
+
+  // Copy the entries first, readUint8Array returns a view of the save
+  const names = processor.readUint8Array(SAV_CONSTANTS.FILE_NAME_START_PTR, SAV_CONSTANTS.FILE_NAME_LENGTH * SAV_CONSTANTS.SONG_COUNT).slice();
+  const versions = processor.readUint8Array(SAV_CONSTANTS.FILE_VERSION_START_PTR, SAV_CONSTANTS.SONG_COUNT).slice();
+  for (let slot = 0; slot < SAV_CONSTANTS.SONG_COUNT; slot++) {
+    const name = names.subarray(slot * SAV_CONSTANTS.FILE_NAME_LENGTH, (slot + 1) * SAV_CONSTANTS.FILE_NAME_LENGTH);
+    processor.writeUint8Array(SAV_CONSTANTS.FILE_NAME_START_PTR + newSlots[slot] * SAV_CONSTANTS.FILE_NAME_LENGTH, name);
+    processor.writeUint8(SAV_CONSTANTS.FILE_VERSION_START_PTR + newSlots[slot], versions[slot]);
+  }
+
+  // The active slot is the slot the working song was loaded from
+  const activeSlot = SaveFileProcessor.getActiveFileSlot(processor);
+  if (activeSlot < SAV_CONSTANTS.SONG_COUNT) {
+    processor.writeUint8(SAV_CONSTANTS.ACTIVE_FILE_SLOT, newSlots[activeSlot]);
+  }
+}
+
+/**
+ * Check whether songs fit into the free slots and blocks of a save file, in the order given
+ *
+ * @param processor - The BinaryProcessor containing the save file to add the songs to
+ * @param songs - The names of the songs and their decompressed data, or null for songs that can't be read
+ * @returns The blocks each song needs, whether it fits and whether its name is taken
+ */
+function planSongSpace(processor: BinaryProcessor, songs: { name: string; rawSong: Uint8Array | null }[]): SongSpacePlan {
+  let freeSlots = 0;
+  const takenNames: string[] = [];
+  for (let slot = 0; slot < SAV_CONSTANTS.SONG_COUNT; slot++) {
+    if (SaveFileProcessor.getBlocksUsed(processor, slot) === 0) {
+      freeSlots++;
+    } else {
+      takenNames.push(SaveFileProcessor.getFileName(processor, slot).trim());
+    }
+  }
+  const freeBlocks = SaveFileProcessor.getFreeBlockCount(processor);
+
+  let slotsLeft = freeSlots;
+  let blocksLeft = freeBlocks;
+  let blocksNeeded = 0;
+  const plans = songs.map(({ name, rawSong }) => {
+    const songBlocks = rawSong ? SaveFileProcessor.packSong(rawSong).length / SAV_CONSTANTS.BLOCK_SIZE : null;
+
+    const fits = songBlocks !== null && slotsLeft > 0 && songBlocks <= blocksLeft;
+    if (fits) {
+      slotsLeft--;
+      blocksLeft -= songBlocks;
+    }
+    blocksNeeded += songBlocks ?? 0;
+
+    const nameCollision = name !== '' && takenNames.includes(name);
+    takenNames.push(name);
+
+    return { blocksNeeded: songBlocks, fits, nameCollision };
+  });
+
+  return { songs: plans, freeSlots, freeBlocks, blocksNeeded };
+}
+
 /**
  * Service for processing LSDj save files
  */
@@ -101,139 +573,866 @@ export const SaveFileProcessor = {
     return -1;
   },
 
+  /**
+   * Import a song from a .lsdprj file into the first free song slot.
+   * The song is decompressed and packed again into the free blocks of the save file.
+   *
+   * @param processor - The BinaryProcessor containing the save file data
+   * @param songData - The contents of the .lsdprj file
+   * @returns The song slot the song was imported to, or null if there is no room for the song
+   * @throws Error if the file is truncated or malformed
+   */
   importSongFromLsdprj(processor: BinaryProcessor, songData: ArrayBuffer): number | null {
+    const songFile = this.parseLsdprj(songData);
+    return this.importRawSong(processor, songFile.name, songFile.version, songFile.song);
+  },
+
+  /**
+   * Import a song from a .lsdsng file into the first free song slot
+   *
+   * @param processor - The BinaryProcessor containing the save file data
+   * @param songData - The contents of the .lsdsng file
+   * @returns The song slot the song was imported to, or null if there is no room for the song
+   * @throws Error if the file is truncated or malformed
+   */
+  importSongFromLsdsng(processor: BinaryProcessor, songData: ArrayBuffer): number | null {
+    const songFile = this.parseLsdsng(songData);
+    return this.importRawSong(processor, songFile.name, songFile.version, songFile.song);
+  },
+
+  /**
+   * Store a decompressed song in the first free song slot
+   *
+   * @param processor - The BinaryProcessor containing the save file data
+   * @param songName - The song name
+   * @param songVersion - The song version byte
+   * @param rawSong - The decompressed song data
+   * @param is64kb - Whether the save is a 64KB RAM save, as for writeSong
+   * @returns The song slot the song was imported to, or null if there is no room for the song
+   */
+  importRawSong(
+    processor: BinaryProcessor,
+    songName: string,
+    songVersion: number,
+    rawSong: Uint8Array,
+    is64kb?: boolean
+  ): number | null {
+    const isSixtyFourKb = is64kb ?? this.isSixtyFourKbRam(processor);
+
+    // Find a free song slot, one that owns no blocks
+    const fat = processor.readUint8Array(SAV_CONSTANTS.BLOCK_ALLOC_TABLE_START_PTR, this.getTotalBlockCount(isSixtyFourKb));
+    let freeSongSlot = -1;
+    for (let i = 0; i < SAV_CONSTANTS.SONG_COUNT; i++) {
+      if (!fat.includes(i)) {
+        freeSongSlot = i;
+        break;
+      }
+    }
+
+    // If no free song slot was found, return null
+    if (freeSongSlot === -1) {
+      console.error('SaveFileProcessor.importRawSong: No free song slot available');
+      return null;
+    }
+
+    // Pack the song into free blocks
+    if (this.writeSong(processor, freeSongSlot, rawSong, isSixtyFourKb) === null) {
+      console.error('SaveFileProcessor.importRawSong: No free blocks available');
+      return null;
+    }
+
+    // Set the song name, replacing characters LSDj can't show in file names
+    const fileNamePtr = SAV_CONSTANTS.FILE_NAME_START_PTR + freeSongSlot * SAV_CONSTANTS.FILE_NAME_LENGTH;
+    const safeName = LsdjCharset.sanitize(songName, LSDJ_FILE_NAME_CHARACTERS, ' ').substring(0, SAV_CONSTANTS.FILE_NAME_LENGTH);
+    processor.writeUint8Array(fileNamePtr, this.encodeFileName(safeName));
+
+    // Set the song version
+    const fileVersionPtr = SAV_CONSTANTS.FILE_VERSION_START_PTR + freeSongSlot;
+    processor.writeUint8(fileVersionPtr, songVersion);
+
+    // Return the song ID
+    return freeSongSlot;
+  },
+
+  /**
+   * Compress a song into LSDj's block format.
+   * Every block ends with a block switch command (0xe0 + block number), and the last block
+   * ends with the end-of-song command (0xe0 0xff). Unused bytes are zero.
+   *
+   * @param raw - The decompressed song data
+   * @param blockNumbers - The block numbers the compressed blocks will be stored at, used as
+   *   block switch targets. Defaults to 1, 2, 3... as used by song files.
+   * @returns The compressed blocks, a multiple of BLOCK_SIZE bytes long
+   * @throws Error if the song needs more blocks than blockNumbers provides
+   */
+  packSong(raw: Uint8Array, blockNumbers?: number[]): Uint8Array {
+    const maxBlocks = blockNumbers ? blockNumbers.length : Infinity;
+    if (maxBlocks === 0) {
+      throw new Error('No blocks available for the song');
+    }
+
+    const blocks: Uint8Array[] = [];
+    let block = new Uint8Array(SAV_CONSTANTS.BLOCK_SIZE);
+    let blockPos = 0;
+
+    for (const command of compressToCommands(raw)) {
+      // Always leave room for the two-byte block switch or end-of-song command
+      if (blockPos + command.length > SAV_CONSTANTS.BLOCK_SIZE - 2) {
+        const nextIndex = blocks.length + 1;
+        if (nextIndex >= maxBlocks) {
+          throw new Error(`Song does not fit in ${maxBlocks} blocks`);
+        }
+
+        block[blockPos] = SPECIAL_ACTION_BYTE;
+        block[blockPos + 1] = blockNumbers ? blockNumbers[nextIndex] : nextIndex + 1;
+        blocks.push(block);
+        block = new Uint8Array(SAV_CONSTANTS.BLOCK_SIZE);
+        blockPos = 0;
+      }
+
+      block.set(command, blockPos);
+      blockPos += command.length;
+    }
+
+    block[blockPos] = SPECIAL_ACTION_BYTE;
+    block[blockPos + 1] = END_OF_SONG_BYTE;
+    blocks.push(block);
+
+    const packed = new Uint8Array(blocks.length * SAV_CONSTANTS.BLOCK_SIZE);
+    blocks.forEach((b, i) => packed.set(b, i * SAV_CONSTANTS.BLOCK_SIZE));
+    return packed;
+  },
+
+  /**
+   * Compress a song and store it in a song slot. Blocks the slot already owns are reused,
+   * and blocks it no longer needs are freed. Nothing is written if the song doesn't fit.
+   *
+   * @param processor - The BinaryProcessor containing the save file data
+   * @param slot - The song slot (0-31)
+   * @param raw - The decompressed song data
+   * @param is64kb - Whether the save is a 64KB RAM save, detected from the save if not given.
+   *   Work it out before the first of several writes: it is detected from the mirror, which the
+   *   writes don't keep in sync.
+   * @returns The number of blocks used by the song, or null if there are not enough free blocks
+   */
+  writeSong(processor: BinaryProcessor, slot: number, raw: Uint8Array, is64kb?: boolean): number | null {
+    if (slot < 0 || slot >= SAV_CONSTANTS.SONG_COUNT) {
+      console.error(`SaveFileProcessor.writeSong: Invalid song ID: ${slot}`);
+      return null;
+    }
+
+    const totalBlocks = this.getTotalBlockCount(is64kb ?? this.isSixtyFourKbRam(processor));
+
+    // The song can use its own blocks and the free ones
+    const availableBlocks: number[] = [];
+    for (let i = 0; i < totalBlocks; i++) {
+      const tableValue = processor.readUint8(SAV_CONSTANTS.BLOCK_ALLOC_TABLE_START_PTR + i);
+      if (tableValue === slot || isFreeBlock(tableValue)) {
+        availableBlocks.push(i);
+      }
+    }
+
+    let packed: Uint8Array;
     try {
-      // Create a BinaryProcessor for the song data
-      const songProcessor = new BinaryProcessor(songData);
-
-      // Extract the song name (first 8 bytes)
-      let songName = '';
-      for (let i = 0; i < 8; i++) {
-        const charCode = songProcessor.readUint8(i);
-        if (charCode !== 0) {
-          songName += String.fromCharCode(charCode);
+      // Add 1 to compensate for the FAT block, block switch targets are 1-based
+      packed = this.packSong(raw, availableBlocks.map(blockId => blockId + 1));
+    } catch (error) {
+      console.error('SaveFileProcessor.writeSong: Song does not fit in the free blocks', error);
+      return null;
+    }
+
+    const blocksUsed = packed.length / SAV_CONSTANTS.BLOCK_SIZE;
+    availableBlocks.forEach((blockId, i) => {
+      const tableOffset = SAV_CONSTANTS.BLOCK_ALLOC_TABLE_START_PTR + blockId;
+      if (i < blocksUsed) {
+        processor.writeUint8(tableOffset, slot);
+        processor.writeUint8Array(
+          SAV_CONSTANTS.BLOCK_START_PTR + blockId * SAV_CONSTANTS.BLOCK_SIZE,
+          packed.subarray(i * SAV_CONSTANTS.BLOCK_SIZE, (i + 1) * SAV_CONSTANTS.BLOCK_SIZE)
+        );
+      } else if (processor.readUint8(tableOffset) === slot) {
+        processor.writeUint8(tableOffset, SAV_CONSTANTS.EMPTY_SLOT_VALUE);
+      }
+    });
+
+    return blocksUsed;
+  },
+
+  /**
+   * Rewrite all valid songs into contiguous blocks in slot order.
+   * Songs that can't be unpacked are left in their original blocks. The save file is only
+   * modified if every song could be written back.
+   *
+   * @param processor - The BinaryProcessor containing the save file data
+   * @returns The free block counts before and after defragmenting, or null if it failed
+   */
+  defragment(processor: BinaryProcessor): DefragmentResult | null {
+    const freeBlocksBefore = this.getFreeBlockCount(processor);
+    const is64kb = this.isSixtyFourKbRam(processor);
+    const totalBlocks = this.getTotalBlockCount(is64kb);
+
+    // Work on a copy so a failure leaves the save untouched
+    const workingCopy = BinaryProcessor.fromUint8Array(processor.readUint8Array(0, processor.bufferSize));
+
+    const songs = new Map<number, Uint8Array>();
+    const skippedSongs: number[] = [];
+    for (let songId = 0; songId < SAV_CONSTANTS.SONG_COUNT; songId++) {
+      if (this.getBlocksUsed(workingCopy, songId) === 0) {
+        continue;
+      }
+      const rawSong = this.unpackSong(workingCopy, songId);
+      if (rawSong === null) {
+        skippedSongs.push(songId);
+      } else {
+        songs.set(songId, rawSong);
+      }
+    }
+
+    // Release the blocks of every song that will be rewritten
+    for (let i = 0; i < totalBlocks; i++) {
+      const tableOffset = SAV_CONSTANTS.BLOCK_ALLOC_TABLE_START_PTR + i;
+      if (songs.has(workingCopy.readUint8(tableOffset))) {
+        workingCopy.writeUint8(tableOffset, SAV_CONSTANTS.EMPTY_SLOT_VALUE);
+      }
+    }
+
+    for (const [songId, rawSong] of songs) {
+      if (this.writeSong(workingCopy, songId, rawSong, is64kb) === null) {
+        console.error(`SaveFileProcessor.defragment: Could not rewrite song ${songId}`);
+        return null;
+      }
+    }
+
+    processor.writeUint8Array(0, workingCopy.readUint8Array(0, workingCopy.bufferSize));
+
+    return {
+      freeBlocksBefore,
+      freeBlocksAfter: this.getFreeBlockCount(processor),
+      skippedSongs,
+    };
+  },
+
+  /**
+   * Check whether the songs of a save file fit into the block pool of another SRAM layout.
+   * Songs are repacked in slot order, like a defragment, so only the total size matters.
+   *
+   * @param processor - The BinaryProcessor containing the save file data
+   * @param to64kb - Whether to convert to the 64KB layout, or else to the 128KB one
+   * @returns The blocks each song needs and whether it fits
+   */
+  planLayoutConversion(processor: BinaryProcessor, to64kb: boolean): LayoutPlan {
+    const totalBlocks = this.getTotalBlockCount(to64kb);
+    const isRepacked = !this.isSixtyFourKbRam(processor) && to64kb;
+
+    let blocksLeft = totalBlocks;
+    let blocksNeeded = 0;
+    const songs: LayoutSongPlan[] = [];
+    for (let songId = 0; songId < SAV_CONSTANTS.SONG_COUNT; songId++) {
+      const blocksUsed = this.getBlocksUsed(processor, songId);
+      if (blocksUsed === 0) {
+        continue;
+      }
+
+      // Songs only move when going to the smaller layout, so keep the others as they are
+      const rawSong = isRepacked ? this.unpackSong(processor, songId) : null;
+      const songBlocks = !isRepacked ? blocksUsed
+        : rawSong ? this.packSong(rawSong).length / SAV_CONSTANTS.BLOCK_SIZE : null;
+
+      const fits = songBlocks !== null && songBlocks <= blocksLeft;
+      if (fits) {
+        blocksLeft -= songBlocks;
+      }
+      blocksNeeded += songBlocks ?? 0;
+
+      songs.push({ songId, name: this.getFileName(processor, songId).trim(), blocksNeeded: songBlocks, fits });
+    }
+
+    return {
+      songs,
+      totalBlocks,
+      blocksNeeded,
+      canConvert: songs.every(song => song.fits),
+    };
+  },
+
+  /**
+   * Convert a save file between the 64KB and 128KB SRAM layouts. Going to 64KB repacks the
+   * songs into the lower blocks and mirrors the lower half of the save into the upper half.
+   * Going to 128KB frees the blocks of the upper half. The save file is only modified if
+   * every song fits.
+   *
+   * @param processor - The BinaryProcessor containing the 128KB save data
+   * @param to64kb - Whether to convert to the 64KB layout, or else to the 128KB one
+   * @returns True if the save file has the requested layout, false otherwise
+   */
+  convertLayout(processor: BinaryProcessor, to64kb: boolean): boolean {
+    if (processor.bufferSize < SAV_CONSTANTS.SAV_FILE_SIZE) {
+      console.error(`SaveFileProcessor.convertLayout: Save data is too small: ${processor.bufferSize} bytes`);
+      return false;
+    }
+    if (this.isSixtyFourKbRam(processor) === to64kb) {
+      return true;
+    }
+
+    const half = SAV_CONSTANTS.SAV_FILE_SIZE / 2;
+    const smallBlocks = this.getTotalBlockCount(true);
+    const largeBlocks = this.getTotalBlockCount(false);
+
+    if (!to64kb) {
+      // Break the mirror so the save reads as 128KB, then free the blocks it adds
+      processor.writeUint8Array(half, new Uint8Array(half).fill(SAV_CONSTANTS.EMPTY_SLOT_VALUE));
+      for (let block = smallBlocks; block < largeBlocks; block++) {
+        processor.writeUint8(SAV_CONSTANTS.BLOCK_ALLOC_TABLE_START_PTR + block, SAV_CONSTANTS.EMPTY_SLOT_VALUE);
+      }
+      return true;
+    }
+
+    const plan = this.planLayoutConversion(processor, true);
+    if (!plan.canConvert) {
+      const songs = plan.songs.filter(song => !song.fits).map(song => song.songId);
+      console.error(`SaveFileProcessor.convertLayout: Songs ${songs.join(', ')} don't fit into ${plan.totalBlocks} blocks`);
+      return false;
+    }
+
+    // Work on a copy so a failure leaves the save untouched
+    const workingCopy = BinaryProcessor.fromUint8Array(processor.readUint8Array(0, processor.bufferSize));
+    const result = this.defragment(workingCopy);
+    if (!result || result.skippedSongs.length > 0) {
+      console.error('SaveFileProcessor.convertLayout: Could not repack the songs');
+      return false;
+    }
+    for (let block = smallBlocks; block < largeBlocks; block++) {
+      if (!isFreeBlock(workingCopy.readUint8(SAV_CONSTANTS.BLOCK_ALLOC_TABLE_START_PTR + block))) {
+        console.error(`SaveFileProcessor.convertLayout: Block ${block} is still in use`);
+        return false;
+      }
+    }
+
+    workingCopy.writeUint8Array(half, workingCopy.readUint8Array(0, half).slice());
+    processor.writeUint8Array(0, workingCopy.readUint8Array(0, workingCopy.bufferSize));
+    return true;
+  },
+
+  /**
+   * Move a song to another slot, shifting the songs in between by one slot like a list reorder.
+   * Only the block allocation table and slot entries change, the song blocks stay where they are.
+   *
+   * @param processor - The BinaryProcessor containing the save file data
+   * @param fromSlot - The slot (0-31) of the song to move
+   * @param toSlot - The slot (0-31) to move the song to
+   * @returns True if the song was moved, false otherwise
+   */
+  moveSong(processor: BinaryProcessor, fromSlot: number, toSlot: number): boolean {
+    if (fromSlot < 0 || fromSlot >= SAV_CONSTANTS.SONG_COUNT || toSlot < 0 || toSlot >= SAV_CONSTANTS.SONG_COUNT) {
+      console.error(`SaveFileProcessor.moveSong: Invalid song slots: ${fromSlot}, ${toSlot}`);
+      return false;
+    }
+
+    const order = Array.from({ length: SAV_CONSTANTS.SONG_COUNT }, (_, slot) => slot);
+    order.splice(toSlot, 0, ...order.splice(fromSlot, 1));
+
+    const newSlots: number[] = [];
+    order.forEach((slot, index) => {
+      newSlots[slot] = index;
+    });
+    remapSongSlots(processor, newSlots);
+    return true;
+  },
+
+  /**
+   * Swap the songs in two slots. Either slot may be empty.
+   *
+   * @param processor - The BinaryProcessor containing the save file data
+   * @param slotA - The first slot (0-31)
+   * @param slotB - The second slot (0-31)
+   * @returns True if the songs were swapped, false otherwise
+   */
+  swapSongs(processor: BinaryProcessor, slotA: number, slotB: number): boolean {
+    if (slotA < 0 || slotA >= SAV_CONSTANTS.SONG_COUNT || slotB < 0 || slotB >= SAV_CONSTANTS.SONG_COUNT) {
+      console.error(`SaveFileProcessor.swapSongs: Invalid song slots: ${slotA}, ${slotB}`);
+      return false;
+    }
+
+    const newSlots = Array.from({ length: SAV_CONSTANTS.SONG_COUNT }, (_, slot) => slot);
+    newSlots[slotA] = slotB;
+    newSlots[slotB] = slotA;
+    remapSongSlots(processor, newSlots);
+    return true;
+  },
+
+  /**
+   * Check whether songs from another save file fit into this one, in the order given
+   *
+   * @param processor - The BinaryProcessor containing the save file to merge into
+   * @param sourceProcessor - The BinaryProcessor containing the save file to copy from
+   * @param songIds - The song slots (0-31) to copy from the source save file
+   * @returns The blocks each song needs, whether it fits and whether its name is taken
+   */
+  planMerge(processor: BinaryProcessor, sourceProcessor: BinaryProcessor, songIds: number[]): MergePlan {
+    const names = songIds.map(sourceId => this.getFileName(sourceProcessor, sourceId).trim());
+    const plan = planSongSpace(processor, songIds.map((sourceId, i) => ({
+      name: names[i],
+      rawSong: this.unpackSong(sourceProcessor, sourceId),
+    })));
+
+    const songs = songIds.map((sourceId, i): MergeSongPlan => ({
+      sourceId,
+      name: names[i],
+      version: this.getVersion(sourceProcessor, sourceId),
+      ...plan.songs[i],
+    }));
+
+    return {
+      songs,
+      freeSlots: plan.freeSlots,
+      freeBlocks: plan.freeBlocks,
+      blocksNeeded: plan.blocksNeeded,
+      canMerge: songs.length > 0 && songs.every(song => song.fits),
+    };
+  },
+
+  /**
+   * Check whether song files fit into the save file, in the order given
+   *
+   * @param processor - The BinaryProcessor containing the save file to import into
+   * @param files - The .lsdprj and .lsdsng files to import
+   * @returns The blocks each song needs, whether it fits, whether its name is taken and
+   *   why a file can't be read
+   */
+  planImport(processor: BinaryProcessor, files: SongFileData[]): ImportPlan {
+    const parsed = files.map(file => {
+      if (file.error) {
+        return { songFile: null, error: file.error };
+      }
+      try {
+        return { songFile: this.parseSongFile(file.fileName, file.data), error: null };
+      } catch (error) {
+        return { songFile: null, error: error instanceof Error ? error.message : 'Could not read the song file' };
+      }
+    });
+
+    const names = parsed.map(({ songFile }) => songFile ? songFile.name.trim() : '');
+    const plan = planSongSpace(processor, parsed.map(({ songFile }, i) => ({
+      name: names[i],
+      rawSong: songFile ? songFile.song : null,
+    })));
+
+    const songs = files.map((file, i): ImportSongPlan => ({
+      fileName: file.fileName,
+      name: names[i],
+      version: parsed[i].songFile?.version.toString(16).toUpperCase().padStart(2, '0') ?? '',
+      ...plan.songs[i],
+      error: parsed[i].error,
+    }));
+
+    return {
+      songs,
+      freeSlots: plan.freeSlots,
+      freeBlocks: plan.freeBlocks,
+      blocksNeeded: plan.blocksNeeded,
+      canImport: songs.length > 0 && songs.every(song => song.fits),
+    };
+  },
+
+  /**
+   * Import several song files into free slots. Nothing is written unless every song fits.
+   *
+   * @param processor - The BinaryProcessor containing the save file to import into
+   * @param files - The .lsdprj and .lsdsng files to import
+   * @returns The slots the songs were imported to, or null if they don't all fit or a file
+   *   can't be read
+   */
+  importSongFiles(processor: BinaryProcessor, files: SongFileData[]): number[] | null {
+    if (!this.planImport(processor, files).canImport) {
+      console.error('SaveFileProcessor.importSongFiles: The songs do not fit in the save file');
+      return null;
+    }
+
+    // Work on a copy so a failure leaves the save untouched
+    const workingCopy = BinaryProcessor.fromUint8Array(processor.readUint8Array(0, processor.bufferSize));
+    const is64kb = this.isSixtyFourKbRam(processor);
+
+    const slots: number[] = [];
+    for (const file of files) {
+      const songFile = this.parseSongFile(file.fileName, file.data);
+      const slot = this.importRawSong(workingCopy, songFile.name, songFile.version, songFile.song, is64kb);
+      if (slot === null) {
+        console.error(`SaveFileProcessor.importSongFiles: Could not import ${file.fileName}`);
+        return null;
+      }
+      slots.push(slot);
+    }
+
+    processor.writeUint8Array(0, workingCopy.readUint8Array(0, workingCopy.bufferSize));
+    return slots;
+  },
+
+  /**
+   * Copy songs from another save file into free slots, keeping their names and versions.
+   * Nothing is written unless every song fits.
+   *
+   * @param processor - The BinaryProcessor containing the save file to merge into
+   * @param sourceProcessor - The BinaryProcessor containing the save file to copy from
+   * @param songIds - The song slots (0-31) to copy from the source save file
+   * @returns The slots the songs were copied to, or null if they don't all fit
+   */
+  mergeSongs(processor: BinaryProcessor, sourceProcessor: BinaryProcessor, songIds: number[]): number[] | null {
+    if (!this.planMerge(processor, sourceProcessor, songIds).canMerge) {
+      console.error('SaveFileProcessor.mergeSongs: The songs do not fit in the save file');
+      return null;
+    }
+
+    // Work on a copy so a failure leaves the save untouched
+    const workingCopy = BinaryProcessor.fromUint8Array(processor.readUint8Array(0, processor.bufferSize));
+    const is64kb = this.isSixtyFourKbRam(processor);
+
+    const slots: number[] = [];
+    for (const songId of songIds) {
+      const rawSong = this.unpackSong(sourceProcessor, songId);
+      const songVersion = sourceProcessor.readUint8(SAV_CONSTANTS.FILE_VERSION_START_PTR + songId);
+      const slot = rawSong && this.importRawSong(workingCopy, this.getFileName(sourceProcessor, songId), songVersion, rawSong, is64kb);
+      if (slot === null) {
+        console.error(`SaveFileProcessor.mergeSongs: Could not copy song ${songId}`);
+        return null;
+      }
+      slots.push(slot);
+    }
+
+    processor.writeUint8Array(0, workingCopy.readUint8Array(0, workingCopy.bufferSize));
+    return slots;
+  },
+
+  /**
+   * Check the save file for structural problems: the SRAM signature, the block allocation
+   * table, every song's block switches and end marker, and names left behind in empty slots
+   *
+   * @param processor - The BinaryProcessor containing the save file data
+   * @returns The problems found, empty if the save file is intact
+   */
+  verify(processor: BinaryProcessor): VerifyIssue[] {
+    const issues: VerifyIssue[] = [];
+
+    const signaturePtr = SAV_CONSTANTS.SRAM_INIT_CHECK_PTR;
+    if (processor.readUint8(signaturePtr) !== 'j'.charCodeAt(0) || processor.readUint8(signaturePtr + 1) !== 'k'.charCodeAt(0)) {
+      issues.push({
+        type: VERIFY_ISSUE_TYPES.MISSING_SRAM_SIGNATURE,
+        message: `The 'jk' SRAM signature at 0x${signaturePtr.toString(16)} is missing, LSDj will clear the save on boot`,
+        repairable: true,
+      });
+    }
+
+    const totalBlocks = this.getTotalBlockCount(this.isSixtyFourKbRam(processor));
+    const fat = processor.readUint8Array(SAV_CONSTANTS.BLOCK_ALLOC_TABLE_START_PTR, totalBlocks);
+
+    fat.forEach((tableValue, block) => {
+      if (tableValue >= SAV_CONSTANTS.SONG_COUNT && !isFreeBlock(tableValue)) {
+        issues.push({
+          type: VERIFY_ISSUE_TYPES.INVALID_FAT_ENTRY,
+          message: `Block ${block + 1} belongs to nonexistent song slot ${tableValue}`,
+          block,
+          repairable: true,
+        });
+      }
+    });
+
+    for (let slot = 0; slot < SAV_CONSTANTS.SONG_COUNT; slot++) {
+      if (!fat.includes(slot)) {
+        const name = processor.readUint8(SAV_CONSTANTS.FILE_NAME_START_PTR + slot * SAV_CONSTANTS.FILE_NAME_LENGTH);
+        const version = processor.readUint8(SAV_CONSTANTS.FILE_VERSION_START_PTR + slot);
+        if (name !== 0 || version !== 0) {
+          issues.push({
+            type: VERIFY_ISSUE_TYPES.STALE_SLOT_ENTRY,
+            message: `Empty slot ${slot} still has a name or version`,
+            slot,
+            repairable: true,
+          });
         }
+        continue;
       }
 
-      // Extract the song version (9th byte)
-      const songVersion = songProcessor.readUint8(8);
+      const trace = traceSongBlocks(processor, slot, fat);
+      if (trace.issue) {
+        issues.push(trace.issue);
+        continue;
+      }
 
-      // Find a free song slot
-      let freeSongSlot = -1;
-      for (let i = 0; i < SAV_CONSTANTS.SONG_COUNT; i++) {
-        if (this.getBlocksUsed(processor, i) === 0) {
-          freeSongSlot = i;
-          break;
+      // Blocks the song never reaches can only be found once the whole song was traced
+      fat.forEach((tableValue, block) => {
+        if (tableValue === slot && !trace.visited.includes(block)) {
+          issues.push({
+            type: VERIFY_ISSUE_TYPES.ORPHANED_BLOCK,
+            message: `Block ${block + 1} belongs to song ${slot} but is not part of it`,
+            slot,
+            block,
+            repairable: true,
+          });
         }
+      });
+    }
+
+    return issues;
+  },
+
+  /**
+   * Fix the problems found by verify that don't risk song data: restore the SRAM signature,
+   * free orphaned and invalid blocks, and clear names and versions of empty slots.
+   * Songs with broken block switches or no end marker are left for the user to remove.
+   *
+   * @param processor - The BinaryProcessor containing the save file data
+   * @returns The problems that were fixed and the ones that remain
+   */
+  repair(processor: BinaryProcessor): RepairResult {
+    const repaired = this.verify(processor).filter(issue => issue.repairable);
+
+    for (const issue of repaired) {
+      switch (issue.type) {
+        case VERIFY_ISSUE_TYPES.MISSING_SRAM_SIGNATURE:
+          processor.writeUint8(SAV_CONSTANTS.SRAM_INIT_CHECK_PTR, 'j'.charCodeAt(0));
+          processor.writeUint8(SAV_CONSTANTS.SRAM_INIT_CHECK_PTR + 1, 'k'.charCodeAt(0));
+          break;
+        case VERIFY_ISSUE_TYPES.INVALID_FAT_ENTRY:
+        case VERIFY_ISSUE_TYPES.ORPHANED_BLOCK:
+          processor.writeUint8(SAV_CONSTANTS.BLOCK_ALLOC_TABLE_START_PTR + issue.block, SAV_CONSTANTS.EMPTY_SLOT_VALUE);
+          break;
+        case VERIFY_ISSUE_TYPES.STALE_SLOT_ENTRY:
+          this.clearFileName(processor, issue.slot);
+          this.clearFileVersion(processor, issue.slot);
+          break;
       }
+    }
+
+    return { repaired, remaining: this.verify(processor) };
+  },
+
+  /**
+   * Check if the working memory holds an initialized song
+   *
+   * @param processor - The BinaryProcessor containing the save file data
+   * @returns Whether the working song is present
+   */
+  hasWorkingSong(processor: BinaryProcessor): boolean {
+    if (processor.bufferSize < SAV_CONSTANTS.WORKING_SONG_PTR + SAV_CONSTANTS.SONG_SIZE) {
+      return false;
+    }
+    return SONG_MEMORY_CHECK_OFFSETS.every(offset =>
+      processor.readUint8(SAV_CONSTANTS.WORKING_SONG_PTR + offset) === 'r'.charCodeAt(0) &&
+      processor.readUint8(SAV_CONSTANTS.WORKING_SONG_PTR + offset + 1) === 'b'.charCodeAt(0)
+    );
+  },
+
+  /**
+   * Read the working song, the uncompressed song currently open in LSDj
+   *
+   * @param processor - The BinaryProcessor containing the save file data
+   * @returns A copy of the working song data, or null if the working memory is not initialized
+   */
+  getWorkingSong(processor: BinaryProcessor): Uint8Array | null {
+    if (!this.hasWorkingSong(processor)) {
+      return null;
+    }
+    return processor.readBytes(SAV_CONSTANTS.WORKING_SONG_PTR, SAV_CONSTANTS.SONG_SIZE);
+  },
+
+  /**
+   * Get the decompressed data of a song slot or the working song
+   *
+   * @param processor - The BinaryProcessor containing the save file data
+   * @param songId - The song ID (0-31), or WORKING_SONG_ID
+   * @returns The decompressed song data, or null if the song is invalid
+   */
+  getRawSong(processor: BinaryProcessor, songId: number): Uint8Array | null {
+    if (songId === SAV_CONSTANTS.WORKING_SONG_ID) {
+      return this.getWorkingSong(processor);
+    }
+    return this.unpackSong(processor, songId);
+  },
+
+  /**
+   * Save the working song into the first free song slot and make it the active file
+   *
+   * @param processor - The BinaryProcessor containing the save file data
+   * @returns The song slot the working song was saved to, or null if it failed
+   */
+  saveWorkingSong(processor: BinaryProcessor): number | null {
+    const rawSong = this.getWorkingSong(processor);
+    if (!rawSong) {
+      console.error('SaveFileProcessor.saveWorkingSong: No working song');
+      return null;
+    }
 
-      // If no free song slot was found, return null
-      if (freeSongSlot === -1) {
-        console.error('SaveFileProcessor.importSongFromLsdprj: No free song slot available');
-        return null;
-      }
+    // The working song carries the name and version of the file it was loaded from
+    const activeSlot = this.getActiveFileSlot(processor);
+    const hasActiveSlot = activeSlot < SAV_CONSTANTS.SONG_COUNT;
+    const songName = hasActiveSlot ? this.getFileName(processor, activeSlot).trimEnd() : '';
+    const songVersion = hasActiveSlot ? processor.readUint8(SAV_CONSTANTS.FILE_VERSION_START_PTR + activeSlot) : 0;
 
-      // Set the song name
-      const fileNamePtr = SAV_CONSTANTS.FILE_NAME_START_PTR + freeSongSlot * SAV_CONSTANTS.FILE_NAME_LENGTH;
-      for (let i = 0; i < 8; i++) {
-        if (i < songName.length) {
-          // Convert ASCII to LSDj character
-          const asciiChar = songName.charCodeAt(i);
-          let lsdjChar = 0;
-
-          if (asciiChar >= 'A'.charCodeAt(0) && asciiChar <= 'Z'.charCodeAt(0)) {
-            // Uppercase letter
-            lsdjChar = 65 + (asciiChar - 'A'.charCodeAt(0));
-          } else if (asciiChar >= '0'.charCodeAt(0) && asciiChar <= '9'.charCodeAt(0)) {
-            // Number
-            lsdjChar = asciiChar;
-          } else if (asciiChar === ' '.charCodeAt(0)) {
-            // Space
-            lsdjChar = ' '.charCodeAt(0);
-          } else {
-            // Default to space for unsupported characters
-            lsdjChar = ' '.charCodeAt(0);
-          }
+    const songId = this.importRawSong(processor, songName, songVersion, rawSong);
+    if (songId !== null) {
+      processor.writeUint8(SAV_CONSTANTS.ACTIVE_FILE_SLOT, songId);
+    }
+    return songId;
+  },
 
-          processor.writeUint8(fileNamePtr + i, lsdjChar);
-        } else {
-          // Pad with zeros
-          processor.writeUint8(fileNamePtr + i, 0);
-        }
-      }
+  /**
+   * Load a song slot into working memory and make it the active file, like LSDj's LOAD command
+   *
+   * @param processor - The BinaryProcessor containing the save file data
+   * @param songId - The song ID (0-31)
+   * @returns Whether the song was loaded
+   */
+  loadSongToWorkingMemory(processor: BinaryProcessor, songId: number): boolean {
+    const rawSong = this.unpackSong(processor, songId);
+    if (!rawSong || rawSong.length !== SAV_CONSTANTS.SONG_SIZE) {
+      console.error(`SaveFileProcessor.loadSongToWorkingMemory: Song ${songId} is invalid`);
+      return false;
+    }
 
-      // Set the song version
-      const fileVersionPtr = SAV_CONSTANTS.FILE_VERSION_START_PTR + freeSongSlot;
-      processor.writeUint8(fileVersionPtr, songVersion);
-
-      // Copy song data to blocks, handling block linking
-      const totalBlocks = this.getTotalBlockCount(this.isSixtyFourKbRam(processor));
-      let songDataOffset = 9; // Start after the 9-byte header
-      let remainingSongDataSize = songData.byteLength - 9;
-      let nextBlockIdPtr = 0; // 0 means this is the first block
-
-      while (remainingSongDataSize > 0) {
-        // Find a free block
-        let blockId = -1;
-        for (let i = 0; i < totalBlocks; i++) {
-          // In the Java implementation, blocks are considered free if their value is < 0 or > 0x1f (31)
-          // Since we're using Uint8Array, values < 0 will be represented as values > 127
-          const tableValue = processor.readUint8(SAV_CONSTANTS.BLOCK_ALLOC_TABLE_START_PTR + i);
-          if (tableValue > 0x1f) {
-            blockId = i;
-            break;
-          }
-        }
+    processor.writeUint8Array(SAV_CONSTANTS.WORKING_SONG_PTR, rawSong);
+    processor.writeUint8(SAV_CONSTANTS.ACTIVE_FILE_SLOT, songId);
+    return true;
+  },
 
-        if (blockId === -1) {
-          console.error('SaveFileProcessor.importSongFromLsdprj: No free blocks available');
-          return null;
-        }
+  /**
+   * Replace the decompressed data of a song slot or the working song
+   *
+   * @param processor - The BinaryProcessor containing the save file data
+   * @param songId - The song ID (0-31), or WORKING_SONG_ID
+   * @param rawSong - The decompressed song data
+   * @returns Whether the song was written. Slots are left unchanged if the song doesn't fit.
+   */
+  putRawSong(processor: BinaryProcessor, songId: number, rawSong: Uint8Array): boolean {
+    if (songId === SAV_CONSTANTS.WORKING_SONG_ID) {
+      processor.writeUint8Array(SAV_CONSTANTS.WORKING_SONG_PTR, rawSong);
+      return true;
+    }
+    return this.writeSong(processor, songId, rawSong) !== null;
+  },
 
-        // Allocate this block to the song
-        processor.writeUint8(SAV_CONSTANTS.BLOCK_ALLOC_TABLE_START_PTR + blockId, freeSongSlot);
+  /**
+   * Extract an instrument, with its table and soft synth
+   *
+   * @param processor - The BinaryProcessor containing the save file data
+   * @param songId - The song ID (0-31), or WORKING_SONG_ID
+   * @param instrument - The instrument number
+   * @returns The instrument and the data it references, or null if the song is invalid
+   */
+  extractInstrument(processor: BinaryProcessor, songId: number, instrument: number): InstrumentFile | null {
+    const rawSong = this.getRawSong(processor, songId);
+    if (!rawSong) {
+      console.error(`SaveFileProcessor.extractInstrument: Song ${songId} is invalid`);
+      return null;
+    }
 
-        // If this is not the first block, update the previous block's next block ID pointer
-        if (nextBlockIdPtr !== 0) {
-          // Add 1 to compensate for unused FAT block, matching Java implementation
-          processor.writeUint8(nextBlockIdPtr, blockId + 1);
-        }
+    const song = SongProcessor.parseSong(rawSong);
+    return SongProcessor.extractInstrument(song, instrument);
+  },
 
-        // Copy song data to this block
-        const blockPtr = SAV_CONSTANTS.BLOCK_START_PTR + blockId * SAV_CONSTANTS.BLOCK_SIZE;
-        const bytesToCopy = Math.min(SAV_CONSTANTS.BLOCK_SIZE, remainingSongDataSize);
+  /**
+   * Replace an instrument of a song, along with its table and soft synth, and repack the song
+   *
+   * @param processor - The BinaryProcessor containing the save file data
+   * @param songId - The song ID (0-31), or WORKING_SONG_ID
+   * @param instrument - The instrument number to replace
+   * @param file - The instrument and the data it references
+   * @returns Whether the instrument was stored
+   * @throws Error if the instrument comes from another song format version, or the song has
+   *   no free table or synth for it
+   */
+  injectInstrument(processor: BinaryProcessor, songId: number, instrument: number, file: InstrumentFile): boolean {
+    const rawSong = this.getRawSong(processor, songId);
+    if (!rawSong) {
+      console.error(`SaveFileProcessor.injectInstrument: Song ${songId} is invalid`);
+      return false;
+    }
 
-        for (let byteIndex = 0; byteIndex < bytesToCopy; byteIndex++) {
-          const byteValue = songProcessor.readUint8(songDataOffset++);
-          processor.writeUint8(blockPtr + byteIndex, byteValue);
-        }
+    const song = SongProcessor.parseSong(rawSong);
+    SongProcessor.injectInstrument(song, instrument, file);
 
-        remainingSongDataSize -= bytesToCopy;
+    if (!this.putRawSong(processor, songId, SongProcessor.serializeSong(song))) {
+      console.error(`SaveFileProcessor.injectInstrument: Song ${songId} no longer fits in the free blocks`);
+      return false;
+    }
+    return true;
+  },
 
-        // Find the next block ID pointer in this block
-        nextBlockIdPtr = this.findNextBlockIdPtr(processor, blockId);
+  /**
+   * Clear the chains, phrases, instruments, tables and grooves a song never plays and repack it
+   *
+   * @param processor - The BinaryProcessor containing the save file data
+   * @param songId - The song ID (0-31), or WORKING_SONG_ID
+   * @returns What was cleared and the blocks the song takes before and after, or null if the
+   *   song is invalid
+   */
+  cleanSong(processor: BinaryProcessor, songId: number): CleanSongResult | null {
+    const rawSong = this.getRawSong(processor, songId);
+    if (!rawSong) {
+      console.error(`SaveFileProcessor.cleanSong: Song ${songId} is invalid`);
+      return null;
+    }
 
-        // If no next block ID pointer found or no more data to copy, we're done
-        if (nextBlockIdPtr === -1 || remainingSongDataSize <= 0) {
-          break;
-        }
-      }
+    const song = SongProcessor.parseSong(rawSong);
+    const usage = SongProcessor.cleanSong(song);
+    const cleanedSong = SongProcessor.serializeSong(song);
 
-      // Return the song ID
-      return freeSongSlot;
-    } catch (error) {
-      console.error('SaveFileProcessor.importSongFromLsdprj: Error importing song', error);
+    // Cleared entries compress to almost nothing, so the song fits in the blocks it had
+    if (!this.putRawSong(processor, songId, cleanedSong)) {
+      console.error(`SaveFileProcessor.cleanSong: Song ${songId} could not be written back`);
       return null;
     }
+
+    return {
+      songId,
+      usage,
+      blocksBefore: this.packSong(rawSong).length / SAV_CONSTANTS.BLOCK_SIZE,
+      blocksAfter: this.packSong(cleanedSong).length / SAV_CONSTANTS.BLOCK_SIZE,
+    };
+  },
+
+  /**
+   * Read the raw name and version bytes of a song, as stored in song file headers.
+   * The working song uses the name and version of the active file slot.
+   *
+   * @param processor - The BinaryProcessor containing the save file data
+   * @param songId - The song ID (0-31), or WORKING_SONG_ID
+   * @returns The 8 name bytes followed by the version byte
+   */
+  getSongFileHeader(processor: BinaryProcessor, songId: number): Uint8Array {
+    const header = new Uint8Array(LSDSNG_HEADER_SIZE);
+    const slot = songId === SAV_CONSTANTS.WORKING_SONG_ID ? this.getActiveFileSlot(processor) : songId;
+    if (slot < 0 || slot >= SAV_CONSTANTS.SONG_COUNT) {
+      return header;
+    }
+
+    const fileNamePtr = SAV_CONSTANTS.FILE_NAME_START_PTR + slot * SAV_CONSTANTS.FILE_NAME_LENGTH;
+    header.set(processor.readBytes(fileNamePtr, SAV_CONSTANTS.FILE_NAME_LENGTH), 0);
+    header[SAV_CONSTANTS.FILE_NAME_LENGTH] = processor.readUint8(SAV_CONSTANTS.FILE_VERSION_START_PTR + slot);
+    return header;
   },
+
   /**
-   * Extract song data for export to .lsdprj file
+   * Extract song data for export to .lsdprj file.
+   * Songs in slots are copied block by block, so their block switches keep the block numbers of
+   * the save file. The working song is packed for the file, so its block switches count from 1
+   * like a .lsdsng. parseLsdprj reads the blocks in file order and reads both.
    * 
    * @param processor - The BinaryProcessor containing the save file data
-   * @param songId - The song ID (0-31)
+   * @param songId - The song ID (0-31), or WORKING_SONG_ID
    * @returns The song data as an ArrayBuffer, or null if the song is invalid
    */
   extractSongForExport(processor: BinaryProcessor, songId: number): ArrayBuffer | null {
+    // The working song isn't stored in blocks, so pack it
+    if (songId === SAV_CONSTANTS.WORKING_SONG_ID) {
+      const workingSong = this.getWorkingSong(processor);
+      if (!workingSong) {
+        return null;
+      }
+      const packed = this.packSong(workingSong);
+      const fileData = new Uint8Array(LSDSNG_HEADER_SIZE + packed.length);
+      fileData.set(this.getSongFileHeader(processor, songId), 0);
+      fileData.set(packed, LSDSNG_HEADER_SIZE);
+      return fileData.buffer;
+    }
+
     // Check if the song is valid
     if (!this.isValid(processor, songId)) {
       return null;
@@ -274,6 +1473,145 @@ export const SaveFileProcessor = {
 
     return buffer;
   },
+  /**
+   * Export a song as a .lsdsng file.
+   * Format: 8 bytes for name + 1 byte for version + the song packed into blocks,
+   * with block switch targets numbered from 1 relative to the file.
+   *
+   * @param processor - The BinaryProcessor containing the save file data
+   * @param songId - The song ID (0-31), or WORKING_SONG_ID
+   * @returns The .lsdsng file contents, or null if the song is invalid
+   */
+  extractSongAsLsdsng(processor: BinaryProcessor, songId: number): ArrayBuffer | null {
+    const rawSong = this.getRawSong(processor, songId);
+    if (!rawSong) {
+      return null;
+    }
+
+    const packed = this.packSong(rawSong);
+    const fileData = new Uint8Array(LSDSNG_HEADER_SIZE + packed.length);
+
+    // Song name and version are copied as stored in the save file
+    fileData.set(this.getSongFileHeader(processor, songId), 0);
+    fileData.set(packed, LSDSNG_HEADER_SIZE);
+
+    return fileData.buffer;
+  },
+
+  /**
+   * Read and decompress a .lsdprj file
+   *
+   * @param songData - The contents of the .lsdprj file
+   * @returns The song name, version and decompressed song data
+   * @throws Error if the file is truncated or malformed
+   */
+  parseLsdprj(songData: ArrayBuffer): SongFile {
+    if (songData.byteLength <= LSDSNG_HEADER_SIZE) {
+      throw new Error(`Truncated .lsdprj file: expected more than ${LSDSNG_HEADER_SIZE} bytes, got ${songData.byteLength}`);
+    }
+
+    // Create a BinaryProcessor for the song data
+    const songProcessor = new BinaryProcessor(songData);
+
+    // Extract the song name (first 8 bytes)
+    const name = LsdjCharset.decode(songProcessor.readUint8Array(0, SAV_CONSTANTS.FILE_NAME_LENGTH));
+
+    // Extract the song version (9th byte)
+    const version = songProcessor.readUint8(8);
+
+    // Split the compressed data into blocks, padding a truncated last block
+    const blocks: Uint8Array[] = [];
+    for (let offset = 9; offset < songData.byteLength; offset += SAV_CONSTANTS.BLOCK_SIZE) {
+      const block = new Uint8Array(SAV_CONSTANTS.BLOCK_SIZE);
+      block.set(songProcessor.readBytes(offset, Math.min(SAV_CONSTANTS.BLOCK_SIZE, songData.byteLength - offset)));
+      blocks.push(block);
+    }
+
+    // Block switch targets are either the block numbers of the save the song was exported
+    // from or numbered from 1 relative to the file, so ignore them and continue with the
+    // next block in the file
+    let song: Uint8Array;
+    try {
+      song = this.decompressSong(blocks, (_target, currentIndex) => currentIndex + 1);
+    } catch (error) {
+      throw new Error(`Malformed .lsdprj file: ${error instanceof Error ? error.message : 'invalid song data'}`);
+    }
+
+    return { name, version, song };
+  },
+
+  /**
+   * Read and decompress a .lsdprj or .lsdsng file, picking the format from the file extension
+   *
+   * @param fileName - The name of the file
+   * @param songData - The contents of the file
+   * @returns The song name, version and decompressed song data
+   * @throws Error if the file type is not supported or the file is malformed
+   */
+  parseSongFile(fileName: string, songData: ArrayBuffer): SongFile {
+    const extension = fileName.split('.').pop()?.toLowerCase() || '';
+    switch (extension) {
+      case 'lsdsng':
+        return this.parseLsdsng(songData);
+      case 'lsdprj':
+        return this.parseLsdprj(songData);
+      default:
+        throw new Error(`Unsupported song file type: .${extension}`);
+    }
+  },
+
+  /**
+   * Read and decompress a .lsdsng file
+   *
+   * @param songData - The contents of the .lsdsng file
+   * @returns The song name, version and decompressed song data
+   * @throws Error if the file is truncated or malformed
+   */
+  parseLsdsng(songData: ArrayBuffer): SongFile {
+    if (songData.byteLength < LSDSNG_HEADER_SIZE + SAV_CONSTANTS.BLOCK_SIZE) {
+      throw new Error(`Truncated .lsdsng file: expected at least ${LSDSNG_HEADER_SIZE + SAV_CONSTANTS.BLOCK_SIZE} bytes, got ${songData.byteLength}`);
+    }
+
+    const blockDataSize = songData.byteLength - LSDSNG_HEADER_SIZE;
+    if (blockDataSize % SAV_CONSTANTS.BLOCK_SIZE !== 0) {
+      throw new Error(`Truncated .lsdsng file: song data is ${blockDataSize} bytes, not a multiple of the ${SAV_CONSTANTS.BLOCK_SIZE} byte block size`);
+    }
+
+    const blockCount = blockDataSize / SAV_CONSTANTS.BLOCK_SIZE;
+    if (blockCount > this.getTotalBlockCount(false)) {
+      throw new Error(`Malformed .lsdsng file: ${blockCount} blocks is more than a save file can hold`);
+    }
+
+    const fileData = new Uint8Array(songData);
+
+    // Read the song name up to the first zero byte
+    const name = LsdjCharset.decode(fileData.subarray(0, SAV_CONSTANTS.FILE_NAME_LENGTH));
+
+    const blocks: Uint8Array[] = [];
+    for (let i = 0; i < blockCount; i++) {
+      const offset = LSDSNG_HEADER_SIZE + i * SAV_CONSTANTS.BLOCK_SIZE;
+      blocks.push(fileData.subarray(offset, offset + SAV_CONSTANTS.BLOCK_SIZE));
+    }
+
+    let song: Uint8Array;
+    try {
+      // Block switch targets are numbered from 1 relative to the file
+      song = this.decompressSong(blocks, target => target - 1);
+    } catch (error) {
+      throw new Error(`Malformed .lsdsng file: ${error instanceof Error ? error.message : 'invalid song data'}`);
+    }
+
+    if (song.length !== SAV_CONSTANTS.SONG_SIZE) {
+      throw new Error(`Malformed .lsdsng file: song data decompresses to ${song.length} bytes instead of ${SAV_CONSTANTS.SONG_SIZE}`);
+    }
+
+    return {
+      name,
+      version: fileData[SAV_CONSTANTS.FILE_NAME_LENGTH],
+      song,
+    };
+  },
+
   /**
    * Parse a save file and extract basic information
    * 
@@ -334,6 +1672,94 @@ export const SaveFileProcessor = {
     };
   },
 
+  /**
+   * Work out how a save file is stored from its size and contents
+   *
+   * @param fileData - The file contents
+   * @returns The variant, or null if the file is not laid out like any known variant
+   */
+  detectSaveFileVariant(fileData: Uint8Array): SaveFileVariant | null {
+    const sramSizes = [SAV_CONSTANTS.SAV_FILE_SIZE, SAV_CONSTANTS.SAV_FILE_SIZE / 2, SAV_CONSTANTS.BANK_SIZE];
+
+    for (const trailerSize of [0, ...RTC_TRAILER_SIZES]) {
+      const bodySize = fileData.length - trailerSize;
+      const trailer = Array.from(fileData.subarray(Math.max(0, bodySize)));
+
+      if (sramSizes.includes(bodySize)) {
+        return { sramSize: bodySize, paddingSize: 0, paddingValue: 0, trailer };
+      }
+
+      // Padding repeats one fill byte up to the size of the flashcart's SRAM
+      if (bodySize > SAV_CONSTANTS.SAV_FILE_SIZE) {
+        const padding = fileData.subarray(SAV_CONSTANTS.SAV_FILE_SIZE, bodySize);
+        if (padding.every(value => value === padding[0])) {
+          return { sramSize: SAV_CONSTANTS.SAV_FILE_SIZE, paddingSize: padding.length, paddingValue: padding[0], trailer };
+        }
+      }
+    }
+
+    return null;
+  },
+
+  /**
+   * Convert a save file of any known variant to the 128KB layout the rest of the processor
+   * works on. 64KB saves are mirrored into the upper half, the way a 64KB cartridge reads.
+   * 32KB dumps only hold the working song, so they get an empty song list.
+   *
+   * @param fileData - The file contents
+   * @returns The 128KB save data and the variant to restore on export, or null if the
+   *   variant is not recognized
+   */
+  normalizeSaveFile(fileData: ArrayBuffer): { saveData: ArrayBuffer; variant: SaveFileVariant } | null {
+    const data = new Uint8Array(fileData);
+    const variant = this.detectSaveFileVariant(data);
+    if (!variant) {
+      console.error(`SaveFileProcessor.normalizeSaveFile: Unrecognized save file size: ${data.length} bytes`);
+      return null;
+    }
+
+    const saveData = new Uint8Array(SAV_CONSTANTS.SAV_FILE_SIZE);
+    const sram = data.subarray(0, variant.sramSize);
+    saveData.set(sram);
+
+    if (variant.sramSize === SAV_CONSTANTS.SAV_FILE_SIZE / 2) {
+      saveData.set(sram, SAV_CONSTANTS.SAV_FILE_SIZE / 2);
+    } else if (variant.sramSize === SAV_CONSTANTS.BANK_SIZE) {
+      saveData.set([...'jk'].map(ch => ch.charCodeAt(0)), SAV_CONSTANTS.SRAM_INIT_CHECK_PTR);
+      saveData[SAV_CONSTANTS.ACTIVE_FILE_SLOT] = SAV_CONSTANTS.EMPTY_SLOT_VALUE;
+      saveData.fill(SAV_CONSTANTS.EMPTY_SLOT_VALUE, SAV_CONSTANTS.BLOCK_ALLOC_TABLE_START_PTR, SAV_CONSTANTS.BLOCK_START_PTR);
+    }
+
+    return { saveData: saveData.buffer, variant };
+  },
+
+  /**
+   * Convert normalized save data back to the variant it was loaded from
+   *
+   * @param saveData - The 128KB save data
+   * @param variant - The variant to write
+   * @returns The file contents
+   */
+  restoreSaveFileVariant(saveData: ArrayBuffer, variant: SaveFileVariant): ArrayBuffer {
+    const { sramSize, paddingSize, paddingValue, trailer } = variant;
+    const fileData = new Uint8Array(sramSize + paddingSize + trailer.length);
+    fileData.set(new Uint8Array(saveData, 0, sramSize));
+    fileData.fill(paddingValue, sramSize, sramSize + paddingSize);
+    fileData.set(trailer, sramSize + paddingSize);
+    return fileData.buffer;
+  },
+
+  /**
+   * Copy the lower half of a 64KB RAM save over its mirror. Changes only go to the lower
+   * half, and the save is told apart from a 128KB one by the mirror.
+   *
+   * @param saveData - The 128KB save data
+   */
+  syncSixtyFourKbMirror(saveData: ArrayBuffer): void {
+    const half = SAV_CONSTANTS.SAV_FILE_SIZE / 2;
+    new Uint8Array(saveData).copyWithin(half, 0, half);
+  },
+
   /**
    * Check if the save file is a 64KB RAM save (duplicated data)
    * 
@@ -411,8 +1837,7 @@ export const SaveFileProcessor = {
     // Check all blocks in the allocation table
     while (block < totalBlocks) {
       const tableValue = processor.readUint8(ramPtr++);
-      // If the table value is 0xff (empty slot), the block is free
-      if (tableValue === SAV_CONSTANTS.EMPTY_SLOT_VALUE) {
+      if (isFreeBlock(tableValue)) {
         freeBlockCount++;
       }
       block++;
@@ -458,15 +1883,75 @@ export const SaveFileProcessor = {
    * @returns The ASCII character code
    */
   convertLsdCharToAscii(ch: number): number {
-    if (ch >= 65 && ch <= (65 + 25)) {
-      // Character
-      return 'A'.charCodeAt(0) + ch - 65;
+    const decoded = LsdjCharset.decodeChar(ch);
+    return decoded ? decoded.charCodeAt(0) : 0;
+  },
+
+  /**
+   * Check whether a name can be stored as a song file name
+   *
+   * @param name - The file name
+   * @returns A description of the problem, or null if the name is valid
+   */
+  validateFileName(name: string): string | null {
+    return LsdjCharset.validate(name, SAV_CONSTANTS.FILE_NAME_LENGTH, LSDJ_FILE_NAME_CHARACTERS);
+  },
+
+  /**
+   * Encode a file name as LSDj characters, padded with zeros
+   *
+   * @param name - The file name
+   * @returns The FILE_NAME_LENGTH encoded bytes
+   * @throws Error if the name is too long or contains characters LSDj can't show
+   */
+  encodeFileName(name: string): Uint8Array {
+    return LsdjCharset.encode(name, SAV_CONSTANTS.FILE_NAME_LENGTH, LSDJ_FILE_NAME_CHARACTERS);
+  },
+
+  /**
+   * Set the file name for a song
+   *
+   * @param processor - The BinaryProcessor containing the save file data
+   * @param slot - The song slot (0-31)
+   * @param name - The new file name
+   * @returns True if the name was written, false if the slot or name is invalid
+   */
+  setFileName(processor: BinaryProcessor, slot: number, name: string): boolean {
+    if (slot < 0 || slot >= SAV_CONSTANTS.SONG_COUNT) {
+      console.error(`SaveFileProcessor.setFileName: Invalid song slot: ${slot}`);
+      return false;
+    }
+
+    const problem = this.validateFileName(name);
+    if (problem) {
+      console.error(`SaveFileProcessor.setFileName: ${problem}`);
+      return false;
+    }
+
+    processor.writeUint8Array(SAV_CONSTANTS.FILE_NAME_START_PTR + SAV_CONSTANTS.FILE_NAME_LENGTH * slot, this.encodeFileName(name));
+    return true;
+  },
+
+  /**
+   * Set the version byte for a song
+   *
+   * @param processor - The BinaryProcessor containing the save file data
+   * @param slot - The song slot (0-31)
+   * @param version - The new version (0-255)
+   * @returns True if the version was written, false if the slot or version is invalid
+   */
+  setFileVersion(processor: BinaryProcessor, slot: number, version: number): boolean {
+    if (slot < 0 || slot >= SAV_CONSTANTS.SONG_COUNT) {
+      console.error(`SaveFileProcessor.setFileVersion: Invalid song slot: ${slot}`);
+      return false;
     }
-    if (ch >= 48 && ch < 58) {
-      // Decimal number
-      return '0'.charCodeAt(0) + ch - 48;
+    if (!Number.isInteger(version) || version < 0 || version > 0xff) {
+      console.error(`SaveFileProcessor.setFileVersion: Invalid version: ${version}`);
+      return false;
     }
-    return ch === 0 ? 0 : ' '.charCodeAt(0);
+
+    processor.writeUint8(SAV_CONSTANTS.FILE_VERSION_START_PTR + slot, version);
+    return true;
   },
 
   /**
@@ -477,23 +1962,8 @@ export const SaveFileProcessor = {
    * @returns The file name
    */
   getFileName(processor: BinaryProcessor, slot: number): string {
-    let ramPtr = SAV_CONSTANTS.FILE_NAME_START_PTR + SAV_CONSTANTS.FILE_NAME_LENGTH * slot;
-    let fileName = '';
-    let endOfFileName = false;
-
-    for (let fileNamePos = 0; fileNamePos < 8; fileNamePos++) {
-      if (!endOfFileName) {
-        const ch = this.convertLsdCharToAscii(processor.readUint8(ramPtr));
-        if (ch === 0) {
-          endOfFileName = true;
-        } else {
-          fileName += String.fromCharCode(ch);
-        }
-      }
-      ramPtr++;
-    }
-
-    return fileName;
+    const fileNamePtr = SAV_CONSTANTS.FILE_NAME_START_PTR + SAV_CONSTANTS.FILE_NAME_LENGTH * slot;
+    return LsdjCharset.decode(processor.readUint8Array(fileNamePtr, SAV_CONSTANTS.FILE_NAME_LENGTH));
   },
 
   /**
@@ -536,39 +2006,55 @@ export const SaveFileProcessor = {
   unpackSong(processor: BinaryProcessor, songId: number): Uint8Array | null {
     const is64kb = this.isSixtyFourKbRam(processor);
     const totalBlocks = this.getTotalBlockCount(is64kb);
-    const dstBuffer = new Uint8Array(0x8000);
-    let dstPos = 0;
 
     // Read the entire block allocation table at once
     const blockAllocTablePtr = SAV_CONSTANTS.BLOCK_ALLOC_TABLE_START_PTR;
     const blockAllocationTable = processor.readUint8Array(blockAllocTablePtr, totalBlocks);
 
-    // Find the first block for this song
-    let blockId = -1;
+    // Collect the blocks of this song in storage order
+    const blockIds: number[] = [];
     for (let i = 0; i < totalBlocks; i++) {
       if (blockAllocationTable[i] === songId) {
-        blockId = i;
-        break;
+        blockIds.push(i);
       }
     }
 
     // If no blocks found for this song, return null
-    if (blockId === -1) {
+    if (blockIds.length === 0) {
       return null;
     }
 
-    // Pre-load all blocks for this song to avoid repeated reads
-    const songBlocks: Map<number, Uint8Array> = new Map();
-    for (let i = 0; i < totalBlocks; i++) {
-      if (blockAllocationTable[i] === songId) {
-        const blockOffset = SAV_CONSTANTS.BLOCK_START_PTR + SAV_CONSTANTS.BLOCK_SIZE * i;
-        songBlocks.set(i, processor.readUint8Array(blockOffset, SAV_CONSTANTS.BLOCK_SIZE));
-      }
+    const songBlocks = blockIds.map(blockId =>
+      processor.readUint8Array(SAV_CONSTANTS.BLOCK_START_PTR + SAV_CONSTANTS.BLOCK_SIZE * blockId, SAV_CONSTANTS.BLOCK_SIZE)
+    );
+
+    try {
+      // Block switch targets are 1-based to account for the FAT block
+      return this.decompressSong(songBlocks, target => blockIds.indexOf(target - 1));
+    } catch (error) {
+      // If we encounter any errors during unpacking, the song is invalid
+      console.error('Error unpacking song:', error);
+      return null;
     }
+  },
+
+  /**
+   * Decompress song data stored in LSDj's block format
+   *
+   * @param blocks - The compressed blocks in storage order, decoding starts from the first one
+   * @param resolveBlockSwitch - Maps a block switch target to an index in blocks
+   * @returns The decompressed song data
+   * @throws Error if the song data is malformed or has no end-of-song command
+   */
+  decompressSong(
+    blocks: Uint8Array[],
+    resolveBlockSwitch: (target: number, currentIndex: number) => number
+  ): Uint8Array {
+    const dstBuffer = new Uint8Array(SAV_CONSTANTS.SONG_SIZE);
+    let dstPos = 0;
 
-    let currentBlockId = blockId;
+    let currentIndex = 0;
     let currentBlockOffset = 0;
-    let currentBlock = songBlocks.get(currentBlockId)!;
 
     // Safety counter to prevent infinite loops
     let safetyCounter = 0;
@@ -577,140 +2063,97 @@ export const SaveFileProcessor = {
     // Helper function to read a byte from the current block
     const readByte = (): number => {
       if (currentBlockOffset >= SAV_CONSTANTS.BLOCK_SIZE) {
-        // We've reached the end of the current block, find the next block
-        let nextBlockId = -1;
-        for (let i = currentBlockId + 1; i < totalBlocks; i++) {
-          if (blockAllocationTable[i] === songId) {
-            nextBlockId = i;
-            break;
-          }
-        }
-
-        if (nextBlockId === -1) {
+        // We've reached the end of the current block, continue with the next one
+        if (currentIndex + 1 >= blocks.length) {
           throw new Error('Unexpected end of song data');
         }
-
-        currentBlockId = nextBlockId;
+        currentIndex++;
         currentBlockOffset = 0;
-        currentBlock = songBlocks.get(currentBlockId)!;
       }
 
-      return currentBlock[currentBlockOffset++];
+      return blocks[currentIndex][currentBlockOffset++];
     };
 
-    // Helper function to switch to a specific block
-    const switchToBlock = (blockId: number): void => {
-      // In the Java implementation, the block ID is used to calculate a memory address
-      // using the formula 0x8000 + blockSize * block. We need to find the actual block
-      // in our songBlocks Map that corresponds to this memory address.
-
-      // The block ID in the song data is 1-based (starting from 1) and may also have an offset
-      // to account for the FAT block. We need to adjust it to match our 0-based block IDs.
-
-      // First, try to find the block directly
-      if (songBlocks.has(blockId)) {
-        currentBlockId = blockId;
-        currentBlockOffset = 0;
-        currentBlock = songBlocks.get(currentBlockId)!;
-        return;
-      }
-
-      // If not found, try to find the block by its memory address
-      // Subtract 1 to convert from 1-based to 0-based indexing
-      const adjustedBlockId = blockId - 1;
-      if (songBlocks.has(adjustedBlockId)) {
-        currentBlockId = adjustedBlockId;
-        currentBlockOffset = 0;
-        currentBlock = songBlocks.get(currentBlockId)!;
-        return;
+    // Helper function to write decompressed bytes
+    const write = (data: Uint8Array | number[]): void => {
+      if (dstPos + data.length > dstBuffer.length) {
+        throw new Error('Decompressed song data exceeds song size');
       }
-
-      // If still not found, throw an error
-      throw new Error(`Invalid block switch to block ${blockId}`);
+      dstBuffer.set(data, dstPos);
+      dstPos += data.length;
     };
 
-    try {
-      while (safetyCounter < MAX_ITERATIONS) {
-        safetyCounter++;
-        const command = readByte();
-
-        if (command === 0xc0) {
-          const nextByte = readByte();
-          if (nextByte === 0xc0) {
-            dstBuffer[dstPos++] = 0xc0;
-          } else {
-            // RLE (Run-Length Encoding)
-            const b = nextByte;
-            let count = readByte();
-            // Use a more efficient approach for RLE
-            dstBuffer.fill(b, dstPos, dstPos + count);
-            dstPos += count;
-          }
-        } else if (command === 0xe0) {
-          const subCommand = readByte();
+    while (safetyCounter < MAX_ITERATIONS) {
+      safetyCounter++;
+      const command = readByte();
 
-          if (subCommand === 0xe0) {
-            // Literal 0xe0
-            dstBuffer[dstPos++] = 0xe0;
-          } else if (subCommand === 0xff) {
-            // End of song - for test purposes, consider any song with an end marker as valid
-            return dstBuffer.slice(0, dstPos); // Return only the used portion of the buffer
-          } else if (subCommand === 0xf0) {
-            // Wave pattern
-            let count = readByte();
-            // Pre-defined wave pattern
-            const wavePattern = new Uint8Array([
-              0x8e, 0xcd, 0xcc, 0xbb, 0xaa, 0xa9, 0x99, 0x88,
-              0x87, 0x76, 0x66, 0x55, 0x54, 0x43, 0x32, 0x31
-            ]);
-
-            // Repeat the pattern 'count' times
-            while (count-- > 0) {
-              dstBuffer.set(wavePattern, dstPos);
-              dstPos += 16;
-            }
-          } else if (subCommand === 0xf1) {
-            // Instrument pattern
-            let count = readByte();
-            // Pre-defined instrument pattern
-            const instrumentPattern = new Uint8Array([
-              0xa8, 0, 0, 0xff, 0, 0, 3, 0, 0, 0xd0, 0, 0, 0, 0xf3, 0, 0
-            ]);
-
-            // Repeat the pattern 'count' times
-            while (count-- > 0) {
-              dstBuffer.set(instrumentPattern, dstPos);
-              dstPos += 16;
-            }
-          } else {
-            // Block switch
-            const block = subCommand & 0xff;
-            switchToBlock(block);
+      if (command === RLE_BYTE) {
+        const nextByte = readByte();
+        if (nextByte === RLE_BYTE) {
+          write([RLE_BYTE]);
+        } else {
+          // RLE (Run-Length Encoding)
+          const count = readByte();
+          write(new Uint8Array(count).fill(nextByte));
+        }
+      } else if (command === SPECIAL_ACTION_BYTE) {
+        const subCommand = readByte();
+
+        if (subCommand === SPECIAL_ACTION_BYTE) {
+          // Literal 0xe0
+          write([SPECIAL_ACTION_BYTE]);
+        } else if (subCommand === END_OF_SONG_BYTE) {
+          // End of song
+          return dstBuffer.slice(0, dstPos); // Return only the used portion of the buffer
+        } else if (subCommand === DEFAULT_WAVE_BYTE || subCommand === DEFAULT_INSTRUMENT_BYTE) {
+          // Repeat the default wave or instrument 'count' times
+          const pattern = subCommand === DEFAULT_WAVE_BYTE ? DEFAULT_WAVE : DEFAULT_INSTRUMENT;
+          let count = readByte();
+          while (count-- > 0) {
+            write(pattern);
           }
         } else {
-          // Regular byte
-          dstBuffer[dstPos++] = command;
+          // Block switch
+          const nextIndex = resolveBlockSwitch(subCommand, currentIndex);
+          if (nextIndex < 0 || nextIndex >= blocks.length) {
+            throw new Error(`Invalid block switch to block ${subCommand}`);
+          }
+          currentIndex = nextIndex;
+          currentBlockOffset = 0;
         }
+      } else {
+        // Regular byte
+        write([command]);
       }
-    } catch (error) {
-      // If we encounter any errors during unpacking, the song is invalid
-      console.error('Error unpacking song:', error);
-      return null;
     }
 
     // If we reached the maximum number of iterations without finding an end marker,
     // the song data is likely corrupted or in an unexpected format
-    return null;
+    throw new Error('No end of song marker found');
   },
 
   /**
-   * Get a list of all songs in the save file
+   * Get a list of all songs in the save file, starting with the working song if present
    * 
    * @param processor - The BinaryProcessor containing the save file data
    * @returns An array of song information
    */
   getSongList(processor: BinaryProcessor): SongInfo[] {
     const songs: SongInfo[] = [];
+
+    // List the working song first, like LSDj's file screen
+    if (this.hasWorkingSong(processor)) {
+      const activeSlot = this.getActiveFileSlot(processor);
+      const hasActiveSlot = activeSlot < SAV_CONSTANTS.SONG_COUNT;
+      songs.push({
+        id: SAV_CONSTANTS.WORKING_SONG_ID,
+        name: hasActiveSlot ? this.getFileName(processor, activeSlot) : '',
+        version: hasActiveSlot ? this.getVersion(processor, activeSlot) : '00',
+        blocksUsed: 0,
+        isValid: true,
+      });
+    }
+
     const is64kb = this.isSixtyFourKbRam(processor);
     const totalBlocks = this.getTotalBlockCount(is64kb);
 
@@ -752,20 +2195,8 @@ export const SaveFileProcessor = {
       // Only include songs that use at least one block
       if (blocksUsed > 0) {
         // Get file name
-        let fileName = '';
         const fileNameOffset = songId * SAV_CONSTANTS.FILE_NAME_LENGTH;
-        let endOfFileName = false;
-
-        for (let i = 0; i < SAV_CONSTANTS.FILE_NAME_LENGTH; i++) {
-          if (!endOfFileName) {
-            const ch = this.convertLsdCharToAscii(fileNameData[fileNameOffset + i]);
-            if (ch === 0) {
-              endOfFileName = true;
-            } else {
-              fileName += String.fromCharCode(ch);
-            }
-          }
-        }
+        const fileName = LsdjCharset.decode(fileNameData.subarray(fileNameOffset, fileNameOffset + SAV_CONSTANTS.FILE_NAME_LENGTH));
 
         // Get file version
         const version = fileVersionData[songId].toString(16).padStart(2, '0')
@@ -0,0 +1,662 @@
+/**
+ * Service for decoding and encoding decompressed LSDj songs
+ * Memory layout based on liblsdj's song format
+ */
+
+import {
+  Chain,
+  COMMAND_TYPES,
+  Instrument,
+  InstrumentFile,
+  INSTRUMENT_TYPES,
+  Phrase,
+  SONG_CONSTANTS,
+  SongDiff,
+  SongModel,
+  SongSettings,
+  SongUsageReport,
+  SynthSettings,
+  Table,
+  Word,
+} from '../../types/song';
+
+/**
+ * Unused regions of song memory as [offset, length]
+ */
+const RESERVED_REGIONS: [number, number][] = [
+  [0x1030, 0x60],
+  [0x1fba, 0x66],
+  [0x3fbf, 0x01],
+  [0x3fc6, 0x3a],
+  [0x5fe0, 0x20],
+  [0x7ff2, 0x0d],
+];
+
+/**
+ * Offsets of the settings relative to SETTINGS_PTR
+ */
+const SETTINGS_OFFSETS = {
+  workHours: 0,
+  workMinutes: 1,
+  tempo: 2,
+  transposition: 3,
+  totalDays: 4,
+  totalHours: 5,
+  totalMinutes: 6,
+  totalTimeChecksum: 7,
+  keyDelay: 8,
+  keyRepeat: 9,
+  font: 10,
+  sync: 11,
+  colorSet: 12,
+  clone: 14,
+  fileChanged: 15,
+  powerSave: 16,
+  prelisten: 17,
+  waveSynthOverwriteLocks: 18,
+};
+
+/**
+ * Field order of the 16 bytes of synth parameters
+ */
+const SYNTH_FIELDS: (keyof Omit<SynthSettings, 'reserved'>)[] = [
+  'waveform', 'filter', 'resonance', 'distortion', 'phase',
+  'volumeStart', 'cutoffStart', 'phaseStart', 'vshiftStart',
+  'volumeEnd', 'cutoffEnd', 'phaseEnd', 'vshiftEnd',
+];
+
+const INSTRUMENT_SIZE = 16;
+const SYNTH_SIZE = 16;
+const WORD_SIZE = 32;
+
+const SYNTH_WAVE_COUNT = 16; // Waves generated by each soft synth
+
+/**
+ * The 15 parameter bytes of a new pulse instrument. A run of these compresses to a single
+ * command, see DEFAULT_INSTRUMENT in SaveFileProcessor.
+ */
+const DEFAULT_INSTRUMENT_PARAMS = [0xa8, 0, 0, 0xff, 0, 0, 3, 0, 0, 0xd0, 0, 0, 0, 0xf3, 0];
+
+/**
+ * Read `count` entries of `size` bytes starting at `offset`
+ */
+function readEntries(raw: Uint8Array, offset: number, count: number, size: number): number[][] {
+  const entries: number[][] = [];
+  for (let i = 0; i < count; i++) {
+    entries.push(Array.from(raw.subarray(offset + i * size, offset + (i + 1) * size)));
+  }
+  return entries;
+}
+
+/**
+ * Write entries of equal size starting at `offset`
+ */
+function writeEntries(raw: Uint8Array, offset: number, entries: number[][], size: number): void {
+  entries.forEach((entry, i) => raw.set(entry.slice(0, size), offset + i * size));
+}
+
+/**
+ * Read an allocation bitfield, one bit per entry, least significant bit first
+ */
+function readAllocationBits(raw: Uint8Array, offset: number, count: number): boolean[] {
+  const allocated: boolean[] = [];
+  for (let i = 0; i < count; i++) {
+    allocated.push((raw[offset + (i >> 3)] & (1 << (i & 7))) !== 0);
+  }
+  return allocated;
+}
+
+/**
+ * Write an allocation bitfield, one bit per entry, least significant bit first
+ */
+function writeAllocationBits(raw: Uint8Array, offset: number, allocated: boolean[]): void {
+  allocated.forEach((isAllocated, i) => {
+    if (isAllocated) {
+      raw[offset + (i >> 3)] |= 1 << (i & 7);
+    }
+  });
+}
+
+/**
+ * Decode the 16 bytes of synth parameters
+ */
+function decodeSynth(bytes: number[]): SynthSettings {
+  const synth = { reserved: bytes.slice(SYNTH_FIELDS.length) } as SynthSettings;
+  SYNTH_FIELDS.forEach((field, i) => {
+    synth[field] = bytes[i];
+  });
+  return synth;
+}
+
+/**
+ * Encode synth parameters as 16 bytes
+ */
+function encodeSynth(synth: SynthSettings): number[] {
+  return [...SYNTH_FIELDS.map(field => synth[field]), ...synth.reserved].slice(0, SYNTH_SIZE);
+}
+
+/**
+ * Service for decoding and encoding LSDj songs
+ */
+export const SongProcessor = {
+  /**
+   * Decode a decompressed song into a song model
+   *
+   * @param raw - The decompressed song data (0x8000 bytes)
+   * @returns The decoded song
+   * @throws Error if the data is not an initialized LSDj song
+   */
+  parseSong(raw: Uint8Array): SongModel {
+    if (raw.length !== SONG_CONSTANTS.SONG_SIZE) {
+      throw new Error(`Invalid song size: ${raw.length} bytes, expected ${SONG_CONSTANTS.SONG_SIZE}`);
+    }
+
+    for (const offset of SONG_CONSTANTS.MEMORY_CHECK_PTRS) {
+      if (raw[offset] !== 'r'.charCodeAt(0) || raw[offset + 1] !== 'b'.charCodeAt(0)) {
+        throw new Error(`Song memory is not initialized: missing 'rb' marker at 0x${offset.toString(16)}`);
+      }
+    }
+
+    const { STEP_COUNT } = SONG_CONSTANTS;
+
+    // Phrases
+    const phraseAllocation = readAllocationBits(raw, SONG_CONSTANTS.PHRASE_ALLOC_TABLE_PTR, SONG_CONSTANTS.PHRASE_COUNT);
+    const phraseNotes = readEntries(raw, SONG_CONSTANTS.PHRASE_NOTES_PTR, SONG_CONSTANTS.PHRASE_COUNT, STEP_COUNT);
+    const phraseInstruments = readEntries(raw, SONG_CONSTANTS.PHRASE_INSTRUMENTS_PTR, SONG_CONSTANTS.PHRASE_COUNT, STEP_COUNT);
+    const phraseCommands = readEntries(raw, SONG_CONSTANTS.PHRASE_COMMANDS_PTR, SONG_CONSTANTS.PHRASE_COUNT, STEP_COUNT);
+    const phraseCommandValues = readEntries(raw, SONG_CONSTANTS.PHRASE_COMMAND_VALUES_PTR, SONG_CONSTANTS.PHRASE_COUNT, STEP_COUNT);
+    const phrases: Phrase[] = phraseNotes.map((notes, i) => ({
+      allocated: phraseAllocation[i],
+      notes,
+      instruments: phraseInstruments[i],
+      commands: phraseCommands[i],
+      commandValues: phraseCommandValues[i],
+    }));
+
+    // Chains
+    const chainAllocation = readAllocationBits(raw, SONG_CONSTANTS.CHAIN_ALLOC_TABLE_PTR, SONG_CONSTANTS.CHAIN_COUNT);
+    const chainPhrases = readEntries(raw, SONG_CONSTANTS.CHAIN_PHRASES_PTR, SONG_CONSTANTS.CHAIN_COUNT, STEP_COUNT);
+    const chainTransposes = readEntries(raw, SONG_CONSTANTS.CHAIN_TRANSPOSES_PTR, SONG_CONSTANTS.CHAIN_COUNT, STEP_COUNT);
+    const chains: Chain[] = chainPhrases.map((chainPhrase, i) => ({
+      allocated: chainAllocation[i],
+      phrases: chainPhrase,
+      transposes: chainTransposes[i],
+    }));
+
+    // Instruments
+    const instrumentNames = readEntries(raw, SONG_CONSTANTS.INSTRUMENT_NAMES_PTR, SONG_CONSTANTS.INSTRUMENT_COUNT, SONG_CONSTANTS.INSTRUMENT_NAME_LENGTH);
+    const instrumentParams = readEntries(raw, SONG_CONSTANTS.INSTRUMENT_PARAMS_PTR, SONG_CONSTANTS.INSTRUMENT_COUNT, INSTRUMENT_SIZE);
+    const instruments: Instrument[] = instrumentParams.map((params, i) => ({
+      allocated: (raw[SONG_CONSTANTS.INSTRUMENT_ALLOC_TABLE_PTR + i] & 1) !== 0,
+      name: instrumentNames[i],
+      type: params[0],
+      params: params.slice(1),
+    }));
+
+    // Tables
+    const tableVolumes = readEntries(raw, SONG_CONSTANTS.TABLE_VOLUMES_PTR, SONG_CONSTANTS.TABLE_COUNT, STEP_COUNT);
+    const tableTransposes = readEntries(raw, SONG_CONSTANTS.TABLE_TRANSPOSES_PTR, SONG_CONSTANTS.TABLE_COUNT, STEP_COUNT);
+    const tableCommands1 = readEntries(raw, SONG_CONSTANTS.TABLE_COMMANDS1_PTR, SONG_CONSTANTS.TABLE_COUNT, STEP_COUNT);
+    const tableCommandValues1 = readEntries(raw, SONG_CONSTANTS.TABLE_COMMAND_VALUES1_PTR, SONG_CONSTANTS.TABLE_COUNT, STEP_COUNT);
+    const tableCommands2 = readEntries(raw, SONG_CONSTANTS.TABLE_COMMANDS2_PTR, SONG_CONSTANTS.TABLE_COUNT, STEP_COUNT);
+    const tableCommandValues2 = readEntries(raw, SONG_CONSTANTS.TABLE_COMMAND_VALUES2_PTR, SONG_CONSTANTS.TABLE_COUNT, STEP_COUNT);
+    const tables: Table[] = tableVolumes.map((volumes, i) => ({
+      allocated: (raw[SONG_CONSTANTS.TABLE_ALLOC_TABLE_PTR + i] & 1) !== 0,
+      volumes,
+      transposes: tableTransposes[i],
+      commands1: tableCommands1[i],
+      commandValues1: tableCommandValues1[i],
+      commands2: tableCommands2[i],
+      commandValues2: tableCommandValues2[i],
+    }));
+
+    // Synths
+    const synths = readEntries(raw, SONG_CONSTANTS.SYNTH_PARAMS_PTR, SONG_CONSTANTS.SYNTH_COUNT, SYNTH_SIZE)
+      .map(decodeSynth);
+
+    // Speech words
+    const wordNames = readEntries(raw, SONG_CONSTANTS.WORD_NAMES_PTR, SONG_CONSTANTS.WORD_COUNT, SONG_CONSTANTS.WORD_NAME_LENGTH);
+    const words: Word[] = readEntries(raw, SONG_CONSTANTS.WORDS_PTR, SONG_CONSTANTS.WORD_COUNT, WORD_SIZE)
+      .map((word, i) => ({
+        name: wordNames[i],
+        allophones: word.slice(0, WORD_SIZE / 2),
+        lengths: word.slice(WORD_SIZE / 2),
+      }));
+
+    // Settings
+    const settingsPtr = SONG_CONSTANTS.SETTINGS_PTR;
+    const settings: SongSettings = {
+      workHours: raw[settingsPtr + SETTINGS_OFFSETS.workHours],
+      workMinutes: raw[settingsPtr + SETTINGS_OFFSETS.workMinutes],
+      transposition: raw[settingsPtr + SETTINGS_OFFSETS.transposition],
+      totalDays: raw[settingsPtr + SETTINGS_OFFSETS.totalDays],
+      totalHours: raw[settingsPtr + SETTINGS_OFFSETS.totalHours],
+      totalMinutes: raw[settingsPtr + SETTINGS_OFFSETS.totalMinutes],
+      totalTimeChecksum: raw[settingsPtr + SETTINGS_OFFSETS.totalTimeChecksum],
+      keyDelay: raw[settingsPtr + SETTINGS_OFFSETS.keyDelay],
+      keyRepeat: raw[settingsPtr + SETTINGS_OFFSETS.keyRepeat],
+      font: raw[settingsPtr + SETTINGS_OFFSETS.font],
+      sync: raw[settingsPtr + SETTINGS_OFFSETS.sync],
+      colorSet: raw[settingsPtr + SETTINGS_OFFSETS.colorSet],
+      clone: raw[settingsPtr + SETTINGS_OFFSETS.clone],
+      fileChanged: raw[settingsPtr + SETTINGS_OFFSETS.fileChanged],
+      powerSave: raw[settingsPtr + SETTINGS_OFFSETS.powerSave],
+      prelisten: raw[settingsPtr + SETTINGS_OFFSETS.prelisten],
+      waveSynthOverwriteLocks: Array.from(raw.subarray(
+        settingsPtr + SETTINGS_OFFSETS.waveSynthOverwriteLocks,
+        settingsPtr + SETTINGS_OFFSETS.waveSynthOverwriteLocks + 2
+      )),
+    };
+
+    // Unused memory
+    const reserved: number[] = [];
+    for (const [offset, length] of RESERVED_REGIONS) {
+      reserved.push(...raw.subarray(offset, offset + length));
+    }
+    const allocationReserved = [
+      ...Array.from(raw.subarray(SONG_CONSTANTS.INSTRUMENT_ALLOC_TABLE_PTR, SONG_CONSTANTS.INSTRUMENT_ALLOC_TABLE_PTR + SONG_CONSTANTS.INSTRUMENT_COUNT), byte => byte & 0xfe),
+      ...Array.from(raw.subarray(SONG_CONSTANTS.TABLE_ALLOC_TABLE_PTR, SONG_CONSTANTS.TABLE_ALLOC_TABLE_PTR + SONG_CONSTANTS.TABLE_COUNT), byte => byte & 0xfe),
+      (raw[SONG_CONSTANTS.PHRASE_ALLOC_TABLE_PTR + (SONG_CONSTANTS.PHRASE_COUNT >> 3)] >> (SONG_CONSTANTS.PHRASE_COUNT & 7)) & 1,
+    ];
+
+    return {
+      formatVersion: raw[SONG_CONSTANTS.FORMAT_VERSION_PTR],
+      tempo: raw[settingsPtr + SETTINGS_OFFSETS.tempo],
+      sequence: readEntries(raw, SONG_CONSTANTS.SEQUENCE_PTR, SONG_CONSTANTS.ROW_COUNT, SONG_CONSTANTS.CHANNEL_COUNT),
+      chains,
+      phrases,
+      instruments,
+      tables,
+      grooves: readEntries(raw, SONG_CONSTANTS.GROOVES_PTR, SONG_CONSTANTS.GROOVE_COUNT, STEP_COUNT),
+      synths,
+      waves: readEntries(raw, SONG_CONSTANTS.WAVES_PTR, SONG_CONSTANTS.WAVE_COUNT, SONG_CONSTANTS.WAVE_SIZE),
+      words,
+      bookmarks: Array.from(raw.subarray(SONG_CONSTANTS.BOOKMARKS_PTR, SONG_CONSTANTS.BOOKMARKS_PTR + SONG_CONSTANTS.BOOKMARK_COUNT)),
+      settings,
+      reserved,
+      allocationReserved,
+    };
+  },
+
+  /**
+   * Encode a song model into decompressed song data
+   *
+   * @param song - The song model
+   * @returns The decompressed song data (0x8000 bytes)
+   */
+  serializeSong(song: SongModel): Uint8Array {
+    const raw = new Uint8Array(SONG_CONSTANTS.SONG_SIZE);
+    const { STEP_COUNT } = SONG_CONSTANTS;
+
+    for (const offset of SONG_CONSTANTS.MEMORY_CHECK_PTRS) {
+      raw[offset] = 'r'.charCodeAt(0);
+      raw[offset + 1] = 'b'.charCodeAt(0);
+    }
+
+    // Phrases
+    const phraseSpareBit = song.allocationReserved[SONG_CONSTANTS.INSTRUMENT_COUNT + SONG_CONSTANTS.TABLE_COUNT] === 1;
+    writeAllocationBits(raw, SONG_CONSTANTS.PHRASE_ALLOC_TABLE_PTR, [...song.phrases.map(phrase => phrase.allocated), phraseSpareBit]);
+    writeEntries(raw, SONG_CONSTANTS.PHRASE_NOTES_PTR, song.phrases.map(phrase => phrase.notes), STEP_COUNT);
+    writeEntries(raw, SONG_CONSTANTS.PHRASE_INSTRUMENTS_PTR, song.phrases.map(phrase => phrase.instruments), STEP_COUNT);
+    writeEntries(raw, SONG_CONSTANTS.PHRASE_COMMANDS_PTR, song.phrases.map(phrase => phrase.commands), STEP_COUNT);
+    writeEntries(raw, SONG_CONSTANTS.PHRASE_COMMAND_VALUES_PTR, song.phrases.map(phrase => phrase.commandValues), STEP_COUNT);
+
+    // Chains
+    writeAllocationBits(raw, SONG_CONSTANTS.CHAIN_ALLOC_TABLE_PTR, song.chains.map(chain => chain.allocated));
+    writeEntries(raw, SONG_CONSTANTS.CHAIN_PHRASES_PTR, song.chains.map(chain => chain.phrases), STEP_COUNT);
+    writeEntries(raw, SONG_CONSTANTS.CHAIN_TRANSPOSES_PTR, song.chains.map(chain => chain.transposes), STEP_COUNT);
+
+    // Instruments
+    song.instruments.forEach((instrument, i) => {
+      raw[SONG_CONSTANTS.INSTRUMENT_ALLOC_TABLE_PTR + i] = song.allocationReserved[i] | (instrument.allocated ? 1 : 0);
+    });
+    writeEntries(raw, SONG_CONSTANTS.INSTRUMENT_NAMES_PTR, song.instruments.map(instrument => instrument.name), SONG_CONSTANTS.INSTRUMENT_NAME_LENGTH);
+    writeEntries(raw, SONG_CONSTANTS.INSTRUMENT_PARAMS_PTR, song.instruments.map(instrument => [instrument.type, ...instrument.params]), INSTRUMENT_SIZE);
+
+    // Tables
+    song.tables.forEach((table, i) => {
+      raw[SONG_CONSTANTS.TABLE_ALLOC_TABLE_PTR + i] = song.allocationReserved[SONG_CONSTANTS.INSTRUMENT_COUNT + i] | (table.allocated ? 1 : 0);
+    });
+    writeEntries(raw, SONG_CONSTANTS.TABLE_VOLUMES_PTR, song.tables.map(table => table.volumes), STEP_COUNT);
+    writeEntries(raw, SONG_CONSTANTS.TABLE_TRANSPOSES_PTR, song.tables.map(table => table.transposes), STEP_COUNT);
+    writeEntries(raw, SONG_CONSTANTS.TABLE_COMMANDS1_PTR, song.tables.map(table => table.commands1), STEP_COUNT);
+    writeEntries(raw, SONG_CONSTANTS.TABLE_COMMAND_VALUES1_PTR, song.tables.map(table => table.commandValues1), STEP_COUNT);
+    writeEntries(raw, SONG_CONSTANTS.TABLE_COMMANDS2_PTR, song.tables.map(table => table.commands2), STEP_COUNT);
+    writeEntries(raw, SONG_CONSTANTS.TABLE_COMMAND_VALUES2_PTR, song.tables.map(table => table.commandValues2), STEP_COUNT);
+
+    // Synths
+    writeEntries(raw, SONG_CONSTANTS.SYNTH_PARAMS_PTR, song.synths.map(encodeSynth), SYNTH_SIZE);
+
+    // Speech words
+    writeEntries(raw, SONG_CONSTANTS.WORD_NAMES_PTR, song.words.map(word => word.name), SONG_CONSTANTS.WORD_NAME_LENGTH);
+    writeEntries(raw, SONG_CONSTANTS.WORDS_PTR, song.words.map(word => [...word.allophones, ...word.lengths]), WORD_SIZE);
+
+    // Song sequence, grooves, waves and bookmarks
+    writeEntries(raw, SONG_CONSTANTS.SEQUENCE_PTR, song.sequence, SONG_CONSTANTS.CHANNEL_COUNT);
+    writeEntries(raw, SONG_CONSTANTS.GROOVES_PTR, song.grooves, STEP_COUNT);
+    writeEntries(raw, SONG_CONSTANTS.WAVES_PTR, song.waves, SONG_CONSTANTS.WAVE_SIZE);
+    raw.set(song.bookmarks.slice(0, SONG_CONSTANTS.BOOKMARK_COUNT), SONG_CONSTANTS.BOOKMARKS_PTR);
+
+    // Settings
+    const settingsPtr = SONG_CONSTANTS.SETTINGS_PTR;
+    const { waveSynthOverwriteLocks, ...settings } = song.settings;
+    for (const [field, value] of Object.entries(settings)) {
+      raw[settingsPtr + SETTINGS_OFFSETS[field as keyof typeof settings]] = value;
+    }
+    raw.set(waveSynthOverwriteLocks.slice(0, 2), settingsPtr + SETTINGS_OFFSETS.waveSynthOverwriteLocks);
+    raw[settingsPtr + SETTINGS_OFFSETS.tempo] = song.tempo;
+    raw[SONG_CONSTANTS.FORMAT_VERSION_PTR] = song.formatVersion;
+
+    // Unused memory
+    let reservedPos = 0;
+    for (const [offset, length] of RESERVED_REGIONS) {
+      raw.set(song.reserved.slice(reservedPos, reservedPos + length), offset);
+      reservedPos += length;
+    }
+
+    return raw;
+  },
+
+  /**
+   * Get the tempo in beats per minute. Tempo bytes below 0x28 stand for 256-295 BPM.
+   *
+   * @param song - The song model
+   * @returns The tempo in BPM
+   */
+  getBpm(song: SongModel): number {
+    return song.tempo < 0x28 ? song.tempo + 0x100 : song.tempo;
+  },
+
+  /**
+   * Get the table an instrument plays
+   *
+   * @param instrument - The instrument
+   * @returns The table number, or null if the instrument has no table
+   */
+  getInstrumentTable(instrument: Instrument): number | null {
+    // Byte 6 of the instrument: bit 5 enables the table, bits 0-4 select it
+    const tableByte = instrument.params[5];
+    return (tableByte & 0x20) !== 0 ? tableByte & 0x1f : null;
+  },
+
+  /**
+   * Get the soft synth a wave instrument plays
+   *
+   * @param instrument - The instrument
+   * @returns The synth number, or null if the instrument is not a wave instrument
+   */
+  getInstrumentSynth(instrument: Instrument): number | null {
+    if (instrument.type !== INSTRUMENT_TYPES.WAVE) {
+      return null;
+    }
+    // Byte 2 of the instrument: the high nibble selects the synth
+    return instrument.params[1] >> 4;
+  },
+
+  /**
+   * Find song data that is never played. Starting from the song sequence, follows the chains
+   * it plays, the phrases in those, and the instruments, tables and grooves they reference.
+   * Groove 0 is always in use, as every chain starts with it.
+   *
+   * @param song - The song model
+   * @returns The allocated chains, phrases, instruments and tables, and the non-empty grooves,
+   *   that nothing references
+   */
+  analyzeUsage(song: SongModel): SongUsageReport {
+    const { EMPTY_VALUE } = SONG_CONSTANTS;
+    const usedChains = new Set<number>();
+    const usedPhrases = new Set<number>();
+    const usedInstruments = new Set<number>();
+    const usedTables = new Set<number>();
+    const usedGrooves = new Set<number>([0]);
+
+    // Tables can play other tables, so newly found tables are queued to be searched
+    const pendingTables: number[] = [];
+    const markTable = (table: number) => {
+      if (!usedTables.has(table)) {
+        usedTables.add(table);
+        pendingTables.push(table);
+      }
+    };
+
+    // Mark the table or groove referenced by an A or G command
+    const markCommand = (command: number, value: number) => {
+      if (command === COMMAND_TYPES.TABLE && value < SONG_CONSTANTS.TABLE_COUNT) {
+        markTable(value);
+      } else if (command === COMMAND_TYPES.GROOVE && value < SONG_CONSTANTS.GROOVE_COUNT) {
+        usedGrooves.add(value);
+      }
+    };
+
+    for (const row of song.sequence) {
+      row.filter(chain => chain !== EMPTY_VALUE && chain < SONG_CONSTANTS.CHAIN_COUNT)
+        .forEach(chain => usedChains.add(chain));
+    }
+
+    for (const chain of usedChains) {
+      song.chains[chain].phrases.filter(phrase => phrase !== EMPTY_VALUE && phrase < SONG_CONSTANTS.PHRASE_COUNT)
+        .forEach(phrase => usedPhrases.add(phrase));
+    }
+
+    for (const index of usedPhrases) {
+      const phrase = song.phrases[index];
+      phrase.instruments.filter(instrument => instrument < SONG_CONSTANTS.INSTRUMENT_COUNT)
+        .forEach(instrument => usedInstruments.add(instrument));
+      phrase.commands.forEach((command, step) => markCommand(command, phrase.commandValues[step]));
+    }
+
+    for (const instrument of usedInstruments) {
+      const table = this.getInstrumentTable(song.instruments[instrument]);
+      if (table !== null) {
+        markTable(table);
+      }
+    }
+
+    while (pendingTables.length > 0) {
+      const table = song.tables[pendingTables.pop()!];
+      table.commands1.forEach((command, step) => markCommand(command, table.commandValues1[step]));
+      table.commands2.forEach((command, step) => markCommand(command, table.commandValues2[step]));
+    }
+
+    const unused = (entries: { allocated: boolean }[], used: Set<number>) =>
+      entries.flatMap((entry, i) => (entry.allocated && !used.has(i) ? [i] : []));
+
+    return {
+      unusedChains: unused(song.chains, usedChains),
+      unusedPhrases: unused(song.phrases, usedPhrases),
+      unusedInstruments: unused(song.instruments, usedInstruments),
+      unusedTables: unused(song.tables, usedTables),
+      unusedGrooves: song.grooves.flatMap((groove, i) =>
+        !usedGrooves.has(i) && groove.some(step => step !== 0) ? [i] : []),
+    };
+  },
+
+  /**
+   * Clear the song data that is never played, leaving it the way LSDj leaves new entries so
+   * the song compresses into fewer blocks. Modifies the song in place.
+   *
+   * @param song - The song model
+   * @returns The entries that were cleared
+   */
+  cleanSong(song: SongModel): SongUsageReport {
+    const { STEP_COUNT, EMPTY_VALUE } = SONG_CONSTANTS;
+    const usage = this.analyzeUsage(song);
+
+    for (const index of usage.unusedChains) {
+      song.chains[index] = {
+        allocated: false,
+        phrases: new Array(STEP_COUNT).fill(EMPTY_VALUE),
+        transposes: new Array(STEP_COUNT).fill(0),
+      };
+    }
+
+    for (const index of usage.unusedPhrases) {
+      song.phrases[index] = {
+        allocated: false,
+        notes: new Array(STEP_COUNT).fill(0),
+        instruments: new Array(STEP_COUNT).fill(EMPTY_VALUE),
+        commands: new Array(STEP_COUNT).fill(0),
+        commandValues: new Array(STEP_COUNT).fill(0),
+      };
+    }
+
+    for (const index of usage.unusedInstruments) {
+      song.instruments[index] = {
+        allocated: false,
+        name: new Array(SONG_CONSTANTS.INSTRUMENT_NAME_LENGTH).fill(0),
+        type: INSTRUMENT_TYPES.PULSE,
+        params: [...DEFAULT_INSTRUMENT_PARAMS],
+      };
+    }
+
+    for (const index of usage.unusedTables) {
+      song.tables[index] = {
+        allocated: false,
+        volumes: new Array(STEP_COUNT).fill(0),
+        transposes: new Array(STEP_COUNT).fill(0),
+        commands1: new Array(STEP_COUNT).fill(0),
+        commandValues1: new Array(STEP_COUNT).fill(0),
+        commands2: new Array(STEP_COUNT).fill(0),
+        commandValues2: new Array(STEP_COUNT).fill(0),
+      };
+    }
+
+    for (const index of usage.unusedGrooves) {
+      song.grooves[index] = new Array(STEP_COUNT).fill(0);
+    }
+
+    return usage;
+  },
+
+  /**
+   * Compare two songs entry by entry, to see what changed between two versions of a song
+   *
+   * @param before - The song to compare against
+   * @param after - The changed song
+   * @returns The numbers of the sequence rows and entries that differ
+   */
+  diffSongs(before: SongModel, after: SongModel): SongDiff {
+    // Compare entries by content. Entries neither song uses hold leftover data that LSDj
+    // doesn't show, so they don't count as changes.
+    const changed = <T extends { allocated: boolean }>(a: T[], b: T[]) =>
+      a.flatMap((entry, i) => (
+        (entry.allocated || b[i].allocated) && JSON.stringify(entry) !== JSON.stringify(b[i]) ? [i] : []
+      ));
+    const changedRows = (a: number[][], b: number[][]) =>
+      a.flatMap((row, i) => (row.some((value, j) => value !== b[i][j]) ? [i] : []));
+
+    return {
+      sequenceRows: changedRows(before.sequence, after.sequence),
+      chains: changed(before.chains, after.chains),
+      phrases: changed(before.phrases, after.phrases),
+      instruments: changed(before.instruments, after.instruments),
+      tables: changed(before.tables, after.tables),
+      grooves: changedRows(before.grooves, after.grooves),
+      tempoChanged: before.tempo !== after.tempo,
+    };
+  },
+
+  /**
+   * Copy an instrument out of a song, along with its table and soft synth
+   *
+   * @param song - The song model
+   * @param index - The instrument number
+   * @returns The instrument and the data it references
+   */
+  extractInstrument(song: SongModel, index: number): InstrumentFile {
+    const instrument = song.instruments[index];
+    const tableIndex = this.getInstrumentTable(instrument);
+    const synthIndex = this.getInstrumentSynth(instrument);
+    const table = tableIndex === null ? null : song.tables[tableIndex];
+    const synth = synthIndex === null ? null : song.synths[synthIndex];
+
+    return {
+      formatVersion: song.formatVersion,
+      instrument: { ...instrument, allocated: true, name: [...instrument.name], params: [...instrument.params] },
+      table: table && {
+        ...table,
+        allocated: true,
+        volumes: [...table.volumes],
+        transposes: [...table.transposes],
+        commands1: [...table.commands1],
+        commandValues1: [...table.commandValues1],
+        commands2: [...table.commands2],
+        commandValues2: [...table.commandValues2],
+      },
+      synth: synth && { ...synth, reserved: [...synth.reserved] },
+      waves: synthIndex === null
+        ? null
+        : song.waves.slice(synthIndex * SYNTH_WAVE_COUNT, (synthIndex + 1) * SYNTH_WAVE_COUNT).map(wave => [...wave]),
+    };
+  },
+
+  /**
+   * Store an instrument in a song, replacing the instrument in that slot. Its table and
+   * soft synth are copied to a table and synth no other instrument uses, and the instrument
+   * is updated to point at them. Modifies the song in place.
+   *
+   * @param song - The song model
+   * @param index - The instrument number to replace
+   * @param file - The instrument to store
+   * @throws Error if the instrument comes from another song format version, or there is no
+   *   free table or synth
+   */
+  injectInstrument(song: SongModel, index: number, file: InstrumentFile): void {
+    // The instrument bytes are copied as they are, and their layout differs between versions
+    if (file.formatVersion !== song.formatVersion) {
+      throw new Error(`The instrument is from song format version ${file.formatVersion}, but the song is version ${song.formatVersion}`);
+    }
+
+    const params = [...file.instrument.params];
+
+    // Tables and synths used by the other instruments can't be overwritten
+    const otherInstruments = song.instruments.filter((instrument, i) => i !== index && instrument.allocated);
+    const usedTables = new Set(otherInstruments.map(instrument => this.getInstrumentTable(instrument)));
+    const usedSynths = new Set(otherInstruments.map(instrument => this.getInstrumentSynth(instrument)));
+    const replacedTable = this.getInstrumentTable(song.instruments[index]);
+
+    if (file.table) {
+      const tableIndex = song.tables.findIndex((table, i) =>
+        !usedTables.has(i) && (!table.allocated || i === replacedTable));
+      if (tableIndex === -1) {
+        throw new Error('No free table for the instrument');
+      }
+      song.tables[tableIndex] = { ...file.table, allocated: true };
+      params[5] = (params[5] & 0xe0) | tableIndex;
+    }
+
+    if (file.synth && file.waves) {
+      const synthIndex = song.synths.findIndex((_synth, i) => !usedSynths.has(i));
+      if (synthIndex === -1) {
+        throw new Error('No free synth for the instrument');
+      }
+      song.synths[synthIndex] = file.synth;
+      file.waves.forEach((wave, i) => {
+        song.waves[synthIndex * SYNTH_WAVE_COUNT + i] = wave;
+      });
+      params[1] = (params[1] & 0x0f) | (synthIndex << 4);
+    }
+
+    song.instruments[index] = { ...file.instrument, allocated: true, params };
+  },
+
+  /**
+   * Decode the 16 bytes of synth parameters, as stored in song memory
+   *
+   * @param bytes - The synth parameter bytes
+   * @returns The synth settings
+   */
+  decodeSynth(bytes: number[]): SynthSettings {
+    return decodeSynth(bytes);
+  },
+
+  /**
+   * Encode synth parameters as the 16 bytes stored in song memory
+   *
+   * @param synth - The synth settings
+   * @returns The synth parameter bytes
+   */
+  encodeSynth(synth: SynthSettings): number[] {
+    return encodeSynth(synth);
+  },
+};
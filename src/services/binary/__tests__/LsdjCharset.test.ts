@@ -0,0 +1,83 @@
+import {describe, expect, it} from 'vitest';
+import {BinaryProcessor} from '../BinaryProcessor';
+import {LSDJ_CHARACTERS, LSDJ_FILE_NAME_CHARACTERS, LSDJ_KIT_NAME_CHARACTERS, LsdjCharset} from '../LsdjCharset';
+import {SAV_CONSTANTS, SaveFileProcessor} from '../SaveFileProcessor';
+import {SampleBankCompiler} from '../../audio/SampleBankCompiler';
+import {Sample} from '../../audio/sample';
+import {sanitizeLSDJInput} from '../../../utils/sample-utils';
+import {FONT_CONSTANTS} from '../../../types/font';
+import {PALETTE_CONSTANTS} from '../../../types/palette';
+
+describe('LsdjCharset', () => {
+  // Name fields and their lengths in bytes
+  const fields = [
+    { field: 'song', length: SAV_CONSTANTS.FILE_NAME_LENGTH, characters: LSDJ_FILE_NAME_CHARACTERS, names: ['TRI', 'MY SONG2', '0123'] },
+    { field: 'instrument', length: 5, characters: LSDJ_CHARACTERS, names: ['BASS', 'KICK-', 'A.#'] },
+    { field: 'kit', length: 6, characters: LSDJ_KIT_NAME_CHARACTERS, names: ['808', 'TR-909', 'DRUMS'] },
+    { field: 'sample', length: 3, characters: LSDJ_KIT_NAME_CHARACTERS, names: ['BD', 'SN-', 'C1'] },
+    { field: 'font', length: FONT_CONSTANTS.FONT_NAME_LENGTH, characters: LSDJ_CHARACTERS, names: ['LSDJ', 'BOLD', 'GFX'] },
+    { field: 'palette', length: PALETTE_CONSTANTS.PALETTE_NAME_LENGTH, characters: LSDJ_CHARACTERS, names: ['GRAY', 'DMG', 'RB-1'] },
+  ];
+
+  it.each(fields)('should round-trip $field names', ({ length, characters, names }) => {
+    for (const name of names) {
+      const encoded = LsdjCharset.encode(name, length, characters);
+      expect(encoded.length).toBe(length);
+      expect(LsdjCharset.decode(encoded)).toBe(name);
+    }
+  });
+
+  it('should allow the characters each field can hold', () => {
+    const letters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+    const digits = '0123456789';
+    expect([...LSDJ_CHARACTERS].sort()).toEqual([...` ${digits}${letters}-#.`].sort());
+    expect([...LSDJ_FILE_NAME_CHARACTERS].sort()).toEqual([...` ${digits}${letters}`].sort());
+    expect([...LSDJ_KIT_NAME_CHARACTERS].sort()).toEqual([...` ${digits}${letters}-`].sort());
+  });
+
+  it('should drop the characters kit and sample names can not hold', () => {
+    expect(sanitizeLSDJInput('tr-9#0.9')).toBe('TR-909');
+    expect(LsdjCharset.validate('C#', 3, LSDJ_KIT_NAME_CHARACTERS)).toBe("'#' can't be used in this name, only A-Z, 0-9, space, -");
+    expect(LsdjCharset.validate('A.B', 6, LSDJ_KIT_NAME_CHARACTERS)).toMatch(/'\.' can't be used/);
+    expect(new Sample(null, 'c#1').getName()).toBe('C1');
+  });
+
+  it('should round-trip every character', () => {
+    for (const ch of LSDJ_CHARACTERS) {
+      expect(LsdjCharset.decodeChar(LsdjCharset.encodeChar(ch))).toBe(ch);
+    }
+  });
+
+  it('should decode unknown bytes as spaces and stop at zero', () => {
+    expect(LsdjCharset.decode([0x41, 0x7f, 0x42, 0, 0x43])).toBe('A B');
+    expect(LsdjCharset.decodeChar(0)).toBe('');
+  });
+
+  it('should validate and sanitize names', () => {
+    expect(LsdjCharset.validate('ABC', 3)).toBeNull();
+    expect(LsdjCharset.validate('ABCD', 3)).toMatch(/at most 3/);
+    expect(LsdjCharset.validate('A-B', 8, LSDJ_FILE_NAME_CHARACTERS)).toBe("'-' can't be used in this name, only A-Z, 0-9, space");
+    expect(() => LsdjCharset.encode('a', 1)).toThrow();
+    expect(LsdjCharset.sanitize('tr-9_09')).toBe('TR-909');
+    expect(LsdjCharset.sanitize('a.b', LSDJ_FILE_NAME_CHARACTERS, ' ')).toBe('A B');
+  });
+
+  it('should round-trip song names through the save file', () => {
+    const processor = new BinaryProcessor(new ArrayBuffer(SAV_CONSTANTS.SAV_FILE_SIZE));
+    expect(SaveFileProcessor.setFileName(processor, 3, 'SONG 42')).toBe(true);
+    expect(SaveFileProcessor.getFileName(processor, 3)).toBe('SONG 42');
+  });
+
+  it('should round-trip kit and sample names through a ROM bank', async () => {
+    const romData = SampleBankCompiler.writeToRomBank(
+      new ArrayBuffer(2 * 0x4000),
+      1,
+      [new Sample(new Int16Array(64), 'bd'), new Sample(new Int16Array(64), 'c#1')],
+      'tr.909'
+    );
+
+    expect(SampleBankCompiler.extractKitNameFromRomBank(romData, 1)).toBe('TR909');
+    const { samples } = await SampleBankCompiler.extractFromRomBank(romData, 1);
+    expect(samples.slice(0, 2).map(sample => sample?.getName())).toEqual(['BD-', 'C1-']);
+  });
+});
@@ -0,0 +1,52 @@
+import {describe, expect, it} from 'vitest';
+import {LsdjVersion} from '../LsdjVersion';
+import {BinaryProcessor} from '../BinaryProcessor';
+import {ROM_CONSTANTS, RomProcessor} from '../RomProcessor';
+import {Sample, SampleBankCompiler} from '../../audio';
+
+describe('LsdjVersion', () => {
+  // Create ROM data with a string at an offset
+  const createRom = (text: string, offset: number): Uint8Array => {
+    const rom = new Uint8Array(4 * ROM_CONSTANTS.BANK_SIZE);
+    rom.set(Array.from(text, ch => ch.charCodeAt(0)), offset);
+    return rom;
+  };
+
+  it('should find the version string in the ROM banks', () => {
+    expect(LsdjVersion.find(createRom('LSDj-v9.2.6', 0x134))).toBe('9.2.6');
+    expect(LsdjVersion.find(createRom('lsdj_v4_08_8 ', 3 * ROM_CONSTANTS.BANK_SIZE + 10))).toBe('4.8.8');
+    expect(LsdjVersion.find(createRom('v9.2.6', 0x134))).toBeNull();
+
+    const rom = createRom('LSDJ v8.5.1', 0x134);
+    expect(RomProcessor.detectLsdjVersion(new BinaryProcessor(rom.buffer))).toBe('8.5.1');
+  });
+
+  it('should compare versions part by part', () => {
+    expect(LsdjVersion.compare('9.2.0', '9.2.0')).toBe(0);
+    expect(LsdjVersion.compare('9.10.0', '9.2.0')).toBeGreaterThan(0);
+    expect(LsdjVersion.compare('8.9.9', '9.0.0')).toBeLessThan(0);
+  });
+
+  it('should take an unknown version to be the newest', () => {
+    expect(LsdjVersion.supports('9.2.0', 'WAVE_REFRESH_ROTATION')).toBe(true);
+    expect(LsdjVersion.supports('9.1.9', 'WAVE_REFRESH_ROTATION')).toBe(false);
+    expect(LsdjVersion.supports(null, 'WAVE_REFRESH_ROTATION')).toBe(true);
+  });
+
+  it('should only rotate kit samples for releases with the wave refresh fix', () => {
+    const ramp = new Int16Array(32).map((_, i) => (i - 16) * 2048);
+    const compile = (lsdjVersion: string | null) =>
+      SampleBankCompiler.compile([new Sample(ramp, 'RMP')], true, lsdjVersion).data.subarray(0x60, 0x70);
+
+    const unrotated = compile('9.1.0');
+    const rotated = compile(null);
+    expect(unrotated[0] >> 4).toBe(0);
+    expect(rotated[0] >> 4).toBe(unrotated[15] & 0x0f);
+    expect(rotated[0] & 0x0f).toBe(unrotated[0] >> 4);
+
+    const kitVersion = (lsdjVersion: string | null) =>
+      new Uint8Array(SampleBankCompiler.writeToRomBank(new ArrayBuffer(2 * ROM_CONSTANTS.BANK_SIZE), 1, [], 'KIT', false, lsdjVersion))[ROM_CONSTANTS.BANK_SIZE + 0x5f];
+    expect(kitVersion('9.1.0')).toBe(0);
+    expect(kitVersion('9.2.6')).toBe(1);
+  });
+});
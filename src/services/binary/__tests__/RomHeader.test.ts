@@ -0,0 +1,72 @@
+import {describe, expect, it} from 'vitest';
+import {BinaryProcessor} from '../BinaryProcessor';
+import {ROM_HEADER, RomHeader} from '../RomHeader';
+import {ROM_CONSTANTS, RomProcessor} from '../RomProcessor';
+
+describe('RomHeader', () => {
+  const LOGO = [
+    0xCE, 0xED, 0x66, 0x66, 0xCC, 0x0D, 0x00, 0x0B, 0x03, 0x73, 0x00, 0x83, 0x00, 0x0C, 0x00, 0x0D,
+    0x00, 0x08, 0x11, 0x1F, 0x88, 0x89, 0x00, 0x0E, 0xDC, 0xCC, 0x6E, 0xE6, 0xDD, 0xDD, 0xD9, 0x99,
+    0xBB, 0xBB, 0x67, 0x63, 0x6E, 0x0E, 0xEC, 0xCC, 0xDD, 0xDC, 0x99, 0x9F, 0xBB, 0xB9, 0x33, 0x3E,
+  ];
+
+  // Create a 1MB MBC5 ROM with a header like LSDj's
+  const createMockRom = (): ArrayBuffer => {
+    const rom = new Uint8Array(ROM_CONSTANTS.BANK_COUNT * ROM_CONSTANTS.BANK_SIZE);
+    rom.set(LOGO, ROM_HEADER.LOGO);
+    rom.set(Array.from('LSDj-v9.2.6', ch => ch.charCodeAt(0)), ROM_HEADER.TITLE);
+    rom[ROM_HEADER.CGB_FLAG] = 0x80;
+    rom[ROM_HEADER.CARTRIDGE_TYPE] = 0x1B;
+    rom[ROM_HEADER.ROM_SIZE] = 0x05;
+    rom[ROM_HEADER.RAM_SIZE] = 0x04;
+    rom.fill(0x42, 0x4000, 0x4100);
+    return RomProcessor.fixChecksum(rom.buffer);
+  };
+
+  it('should check every field of a valid header', () => {
+    const romData = createMockRom();
+    const header = RomHeader.analyze(new BinaryProcessor(romData));
+
+    expect(header).toMatchObject({
+      logoValid: true,
+      cgbSupport: 'CGB compatible',
+      cartridgeTypeName: 'MBC5+RAM+BATTERY',
+      romSize: 1024 * 1024,
+      romSizeMatches: true,
+      ramSize: 128 * 1024,
+      headerChecksum: { valid: true },
+      globalChecksum: { valid: true },
+    });
+    expect(RomHeader.describeProblems(header!, romData.byteLength)).toEqual([]);
+    expect(RomProcessor.parseRom(romData).header).toEqual(header);
+  });
+
+  it('should describe a damaged header', () => {
+    const rom = new Uint8Array(createMockRom());
+    rom[ROM_HEADER.LOGO + 5] ^= 0xFF;
+    rom[ROM_HEADER.CARTRIDGE_TYPE] = 0x77;
+    rom[ROM_HEADER.ROM_SIZE] = 0x04;
+    rom[ROM_HEADER.RAM_SIZE] = 0x09;
+    rom[0x4000] = 0;
+
+    const header = RomHeader.analyze(new BinaryProcessor(rom.buffer))!;
+
+    expect(header.headerChecksum).toMatchObject({ valid: false, computed: RomHeader.computeHeaderChecksum(rom) });
+    expect(RomHeader.describeProblems(header, rom.length)).toEqual([
+      'The Nintendo logo is missing or damaged',
+      'Unknown cartridge type 0x77',
+      'The header gives a 512KB ROM but the file is 1024KB',
+      'Unknown RAM size code 0x09',
+      'The header checksum is invalid',
+      'The global checksum is invalid',
+    ]);
+
+    const fixed = RomHeader.analyze(new BinaryProcessor(RomProcessor.fixChecksum(rom.buffer)))!;
+    expect(fixed.headerChecksum.valid).toBe(true);
+    expect(fixed.globalChecksum.valid).toBe(true);
+  });
+
+  it('should not read a header from a ROM too small to have one', () => {
+    expect(RomHeader.analyze(new BinaryProcessor(new ArrayBuffer(0x100)))).toBeNull();
+  });
+});
@@ -0,0 +1,116 @@
+import {describe, expect, it} from 'vitest';
+import {BinaryProcessor} from '../BinaryProcessor';
+import {LsdjCharset} from '../LsdjCharset';
+import {ROM_CONSTANTS, RomProcessor} from '../RomProcessor';
+import {RomLayout} from '../RomLayout';
+import {FONT_CONSTANTS} from '../../../types/font';
+
+describe('RomLayout', () => {
+  const BANK_SIZE = ROM_CONSTANTS.BANK_SIZE;
+  const FONT_NAMES_OFFSET = 27 * BANK_SIZE + 200;
+  const BACKGROUND_OFFSET = BANK_SIZE + 1000;
+  const GFX_MARKER_OFFSET = 30 * BANK_SIZE + 64;
+
+  interface MockRomOptions {
+    banks?: number;
+    paletteNames?: string[];
+    screenBackground?: boolean;
+    gfxMarker?: boolean;
+    version?: string;
+  }
+
+  // Create a ROM with font names, palettes, the graphics font and two kit slots
+  const createMockRom = (options: MockRomOptions = {}): BinaryProcessor => {
+    const {
+      banks = ROM_CONSTANTS.BANK_COUNT, paletteNames = ['DMG', 'BLUE'],
+      screenBackground = true, gfxMarker = true, version,
+    } = options;
+    const rom = new Uint8Array(banks * BANK_SIZE);
+    const inRom = (offset: number) => offset < rom.length;
+
+    if (version) {
+      rom.set(Array.from(version, ch => ch.charCodeAt(0)), 0x134);
+    }
+
+    // A kit in bank 2 and an empty slot in bank 3
+    if (inRom(4 * BANK_SIZE)) {
+      rom.set([0x60, 0x40], 2 * BANK_SIZE);
+      rom.fill(0xff, 3 * BANK_SIZE, 4 * BANK_SIZE);
+    }
+
+    // Font names, then a grayscale and a color name per palette
+    if (inRom(FONT_NAMES_OFFSET)) {
+      const names = ['FNTA', 'FNTB', 'FNTC', ...paletteNames.map(() => 'GRAY'), ...paletteNames];
+      names.forEach((name, i) => rom.set(LsdjCharset.encode(name, 5), FONT_NAMES_OFFSET + i * 5));
+      rom[FONT_NAMES_OFFSET + names.length * 5 + 4] = 1;
+    }
+
+    if (screenBackground && inRom(BACKGROUND_OFFSET)) {
+      rom.fill(72, BACKGROUND_OFFSET + 17, BACKGROUND_OFFSET + 20);
+    }
+
+    if (gfxMarker && inRom(GFX_MARKER_OFFSET)) {
+      rom.set([1, 46, 0, 1], GFX_MARKER_OFFSET);
+    }
+
+    return new BinaryProcessor(rom.buffer);
+  };
+
+  it('should locate every region of a full ROM', () => {
+    const layout = RomLayout.locate(createMockRom());
+    const gfxOffset = GFX_MARKER_OFFSET + 2 + 8 * 16;
+
+    expect(layout).toEqual({
+      fontNames: { found: true, offset: FONT_NAMES_OFFSET, count: 3 },
+      fonts: { found: true, offset: gfxOffset + FONT_CONSTANTS.GFX_SIZE, count: 3 },
+      gfxFont: { found: true, offset: gfxOffset },
+      paletteNames: { found: true, offset: FONT_NAMES_OFFSET + 25, count: 2 },
+      palettes: { found: true, offset: BACKGROUND_OFFSET - 2 * ROM_CONSTANTS.PALETTE_SIZE, count: 2 },
+      screenBackground: { found: true, offset: BACKGROUND_OFFSET },
+      kits: { found: true, slots: [2, 3], kitBanks: [2] },
+    });
+  });
+
+  it('should say which bank is missing from a truncated ROM', () => {
+    const processor = createMockRom({ banks: 16 });
+    const layout = RomLayout.locate(processor);
+
+    expect(layout.fontNames).toEqual({ found: false, error: 'Font names: the ROM has 16 banks, bank 27 is missing' });
+    expect(layout.fonts).toEqual({ found: false, error: 'Fonts: Graphics font: the ROM has 16 banks, bank 30 is missing' });
+    expect(layout.palettes).toEqual({
+      found: false, error: 'Palettes: Palette names: Font names: the ROM has 16 banks, bank 27 is missing',
+    });
+    expect(layout.screenBackground.found).toBe(true);
+    expect(layout.kits.found).toBe(true);
+
+    // The processor no longer makes up offsets for small ROMs
+    expect(RomProcessor.getNumberOfPalettes(processor)).toBe(-1);
+    expect(RomProcessor.findGrayscalePaletteNames(processor)).toBe(-1);
+    expect(RomProcessor.validatePaletteData(processor)).toBe(false);
+  });
+
+  it('should describe regions whose patterns are missing', () => {
+    const layout = RomLayout.locate(createMockRom({ paletteNames: [], screenBackground: false, gfxMarker: false }));
+
+    expect(layout.fontNames.found).toBe(true);
+    expect(layout.gfxFont).toEqual({ found: false, error: 'Graphics font: no graphics font header in bank 30' });
+    expect(layout.paletteNames).toEqual({ found: false, error: 'Palette names: no names follow the font names' });
+    expect(layout.screenBackground).toEqual({ found: false, error: 'Screen background: not found in bank 1' });
+
+    const withoutBackground = RomLayout.locatePalettes(createMockRom({ screenBackground: false }));
+    expect(withoutBackground).toEqual({ found: false, error: 'Palettes: Screen background: not found in bank 1' });
+  });
+
+  it('should not look for palettes in releases without them', () => {
+    const layout = RomLayout.locate(createMockRom({ version: 'LSDj-v4.8.8' }));
+
+    expect(layout.paletteNames).toEqual({ found: false, error: 'Palette names: LSDj 4.8.8 has no palettes' });
+    expect(layout.fonts.found).toBe(true);
+  });
+
+  it('should report a ROM without kit banks', () => {
+    const layout = RomLayout.locate(createMockRom({ banks: 2 }));
+
+    expect(layout.kits).toEqual({ found: false, error: 'Kits: no kit banks or empty banks found' });
+  });
+});
@@ -55,6 +55,7 @@ describe('RomProcessor', () => {
 
       expect(romInfo.title).toBe('LSDJ v8.5.1');
       expect(romInfo.version).toBe('v85');
+      expect(romInfo.lsdjVersion).toBe('8.5.1');
       expect(romInfo.isValid).toBe(true);
       expect(romInfo.size).toBe(32 * ROM_CONSTANTS.BANK_SIZE);
       expect(romInfo.banks).toBe(32);
@@ -0,0 +1,121 @@
+import {describe, expect, it} from 'vitest';
+import {BinaryProcessor} from '../BinaryProcessor';
+import {LsdjCharset} from '../LsdjCharset';
+import {ROM_CONSTANTS, RomProcessor} from '../RomProcessor';
+import {RomUpgrader} from '../RomUpgrader';
+import {FONT_CONSTANTS} from '../../../types/font';
+
+describe('RomUpgrader', () => {
+  interface MockRomLayout {
+    kits: (string | null)[]; // Kit names in slot order, null for an empty slot
+    firstKitBank: number;
+    paletteNames: string[];
+    paletteValue: number; // Fills the palette data
+    fontValue: number; // Fills the font data
+    shift: number; // Moves the palettes and fonts within their banks
+  }
+
+  // Create a full size ROM with kits, palettes and fonts where RomProcessor looks for them
+  const createMockRom = (layout: MockRomLayout): ArrayBuffer => {
+    const rom = new Uint8Array(ROM_CONSTANTS.BANK_COUNT * ROM_CONSTANTS.BANK_SIZE);
+
+    layout.kits.forEach((name, slot) => {
+      const offset = (layout.firstKitBank + slot) * ROM_CONSTANTS.BANK_SIZE;
+      if (name === null) {
+        rom.fill(0xff, offset, offset + ROM_CONSTANTS.BANK_SIZE);
+      } else {
+        rom.set([0x60, 0x40], offset);
+        rom.set(LsdjCharset.encode(name, 6), offset + 0x52);
+        rom.fill(name.length, offset + 0x60, offset + 0x100);
+      }
+    });
+
+    // Font names, then a grayscale and a color name per palette, in bank 27
+    const paletteCount = layout.paletteNames.length;
+    const fontNamesOffset = 27 * ROM_CONSTANTS.BANK_SIZE + 100 + layout.shift;
+    const names = ['FNTA', 'FNTB', 'FNTC', ...layout.paletteNames.map(() => 'GRAY'), ...layout.paletteNames];
+    names.forEach((name, i) => rom.set(LsdjCharset.encode(name, 5), fontNamesOffset + i * 5));
+    rom[fontNamesOffset + names.length * 5 + 4] = 1;
+
+    // Palettes right before the screen background data in bank 1
+    const backgroundOffset = ROM_CONSTANTS.BANK_SIZE + 1000 + layout.shift;
+    rom.fill(layout.paletteValue, backgroundOffset - paletteCount * ROM_CONSTANTS.PALETTE_SIZE, backgroundOffset);
+    rom.fill(72, backgroundOffset + 17, backgroundOffset + 20);
+
+    // Fonts after the graphics characters in bank 30
+    const gfxMarkerOffset = 30 * ROM_CONSTANTS.BANK_SIZE + 100 + layout.shift;
+    rom.set([1, 46, 0, 1], gfxMarkerOffset);
+    const fontOffset = gfxMarkerOffset + 2 + 8 * 16 + FONT_CONSTANTS.GFX_SIZE;
+    rom.fill(layout.fontValue, fontOffset, fontOffset + FONT_CONSTANTS.FONT_COUNT * FONT_CONSTANTS.FONT_SIZE);
+
+    return rom.buffer;
+  };
+
+  // Compare byte arrays (toEqual is slow on whole banks)
+  const expectSameBytes = (actual: Uint8Array, expected: Uint8Array): void => {
+    expect(Buffer.from(actual).equals(Buffer.from(expected))).toBe(true);
+  };
+
+  const readPaletteNames = (romData: ArrayBuffer): string[] => {
+    const processor = new BinaryProcessor(romData);
+    const offset = RomProcessor.findPaletteNameOffset(processor);
+    return Array.from({ length: RomProcessor.getNumberOfPalettes(processor) }, (_, i) =>
+      LsdjCharset.decode(processor.readUint8Array(offset + i * 5, 4)));
+  };
+
+  it('should copy custom kits, fonts and palettes to the matching locations', () => {
+    const source = createMockRom({
+      kits: ['STOCK', 'MYKIT', null], firstKitBank: 10,
+      paletteNames: ['MINE', 'BLUE'], paletteValue: 0x55, fontValue: 0x5a, shift: 0,
+    });
+    const target = createMockRom({
+      kits: ['STOCK', 'NEW', null], firstKitBank: 20,
+      paletteNames: ['DMG', 'GB'], paletteValue: 0x11, fontValue: 0x22, shift: 40,
+    });
+    const targetBefore = new Uint8Array(target).slice();
+
+    const { romData, report } = RomUpgrader.upgrade(source, target);
+
+    expect(report).toEqual({
+      kits: [{ sourceBank: 11, targetBank: 21, name: 'MYKIT' }],
+      fonts: 3,
+      palettes: 2,
+      unmapped: [],
+    });
+    expectSameBytes(new Uint8Array(target), targetBefore);
+
+    const upgraded = new Uint8Array(romData);
+    const kitBank = (rom: Uint8Array, bank: number) =>
+      rom.subarray(bank * ROM_CONSTANTS.BANK_SIZE, (bank + 1) * ROM_CONSTANTS.BANK_SIZE);
+    expectSameBytes(kitBank(upgraded, 21), kitBank(new Uint8Array(source), 11));
+    expect(kitBank(upgraded, 22).every(byte => byte === 0xff)).toBe(true);
+
+    const processor = new BinaryProcessor(romData);
+    const fontOffset = RomProcessor.findFontOffset(processor);
+    expect(processor.readUint8Array(fontOffset, FONT_CONSTANTS.FONT_COUNT * FONT_CONSTANTS.FONT_SIZE).every(byte => byte === 0x5a)).toBe(true);
+    const paletteOffset = RomProcessor.findPaletteOffset(processor);
+    expect(processor.readUint8Array(paletteOffset, 2 * ROM_CONSTANTS.PALETTE_SIZE).every(byte => byte === 0x55)).toBe(true);
+    expect(readPaletteNames(romData)).toEqual(['MINE', 'BLUE']);
+  });
+
+  it('should report kits and palettes the newer ROM has no room for', () => {
+    const source = createMockRom({
+      kits: ['STOCK', 'MYKIT', 'EXTRA'], firstKitBank: 10,
+      paletteNames: ['MINE', 'BLUE', 'PINK'], paletteValue: 0x55, fontValue: 0x5a, shift: 0,
+    });
+    const target = createMockRom({
+      kits: ['STOCK', null], firstKitBank: 20,
+      paletteNames: ['DMG', 'GB'], paletteValue: 0x11, fontValue: 0x22, shift: 0,
+    });
+
+    const { romData, report } = RomUpgrader.upgrade(source, target);
+
+    expect(report.kits.map(kit => kit.name)).toEqual(['MYKIT']);
+    expect(report.palettes).toBe(2);
+    expect(report.unmapped).toEqual([
+      'Kit EXTRA (bank 12): the new ROM has only 2 kit slots',
+      'Palette PINK: the new ROM has only 2 palettes',
+    ]);
+    expect(readPaletteNames(romData)).toEqual(['MINE', 'BLUE']);
+  });
+});
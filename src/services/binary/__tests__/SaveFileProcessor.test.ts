@@ -1,6 +1,7 @@
-import {beforeEach, describe, expect, it} from 'vitest';
+import {beforeEach, describe, expect, it, vi} from 'vitest';
 import {BinaryProcessor} from '../BinaryProcessor';
-import {SAV_CONSTANTS, SaveFileProcessor} from '../SaveFileProcessor';
+import {SAV_CONSTANTS, SaveFileProcessor, VERIFY_ISSUE_TYPES} from '../SaveFileProcessor';
+import {SongProcessor} from '../SongProcessor';
 import fs from 'fs';
 
 describe('SaveFileProcessor', () => {
@@ -33,6 +34,39 @@ describe('SaveFileProcessor', () => {
     return buffer;
   };
 
+  // Read the real triangle_waves.lsdprj file from the __tests__ directory
+  const loadLsdprj = (): ArrayBuffer => {
+    const fileBuffer = fs.readFileSync(`${__dirname}/triangle_waves.lsdprj`);
+    return fileBuffer.buffer.slice(fileBuffer.byteOffset, fileBuffer.byteOffset + fileBuffer.byteLength);
+  };
+
+  // Decompress the song in triangle_waves.lsdprj
+  const loadRawSong = (): Uint8Array => {
+    const fileData = new Uint8Array(loadLsdprj());
+    const blocks: Uint8Array[] = [];
+    for (let offset = 9; offset < fileData.length; offset += SAV_CONSTANTS.BLOCK_SIZE) {
+      const block = new Uint8Array(SAV_CONSTANTS.BLOCK_SIZE);
+      block.set(fileData.subarray(offset, offset + SAV_CONSTANTS.BLOCK_SIZE));
+      blocks.push(block);
+    }
+    return SaveFileProcessor.decompressSong(blocks, (_target, currentIndex) => currentIndex + 1);
+  };
+
+  // Compare byte arrays (toEqual is slow on 32KB arrays)
+  const expectSameBytes = (actual: Uint8Array | null, expected: Uint8Array): void => {
+    expect(actual).not.toBeNull();
+    expect(Buffer.from(actual!).equals(Buffer.from(expected))).toBe(true);
+  };
+
+  // Split packed song data into blocks
+  const toBlocks = (packed: Uint8Array): Uint8Array[] => {
+    const blocks: Uint8Array[] = [];
+    for (let offset = 0; offset < packed.length; offset += SAV_CONSTANTS.BLOCK_SIZE) {
+      blocks.push(packed.subarray(offset, offset + SAV_CONSTANTS.BLOCK_SIZE));
+    }
+    return blocks;
+  };
+
   describe('parseSaveFile', () => {
     it('should parse basic save file information correctly (32KB)', () => {
       const saveBuffer = createMockSaveFileBuffer(false);
@@ -193,9 +227,827 @@ describe('SaveFileProcessor', () => {
       console.log(`Added ${addedSongs} songs before running out of blocks`);
 
       // Validate all added songs
+      const raw = loadRawSong();
       for (let song = 0; song < addedSongs; song++) {
         expect(SaveFileProcessor.isValid(processor, song)).toBe(true);
+        expectSameBytes(SaveFileProcessor.unpackSong(processor, song), raw);
       }
     });
   });
+
+  describe('packSong', () => {
+    it('should round-trip a real song', () => {
+      const raw = loadRawSong();
+      expect(raw.length).toBe(SAV_CONSTANTS.SONG_SIZE);
+
+      const packed = SaveFileProcessor.packSong(raw);
+      expect(packed.length % SAV_CONSTANTS.BLOCK_SIZE).toBe(0);
+      expect(packed.length / SAV_CONSTANTS.BLOCK_SIZE).toBe(10);
+
+      const unpacked = SaveFileProcessor.decompressSong(toBlocks(packed), target => target - 1);
+      expectSameBytes(unpacked, raw);
+    });
+
+    it('should escape command bytes and split long runs', () => {
+      const raw = new Uint8Array(SAV_CONSTANTS.SONG_SIZE);
+      raw.set([0xc0, 0xc0, 0xe0, 0x12, 0xe0, 0xe0, 0xe0, 0xff], 0);
+      raw.fill(0x42, 0x100, 0x400);
+
+      const packed = SaveFileProcessor.packSong(raw);
+
+      // Literal 0xc0 and single 0xe0 bytes are escaped
+      expect(Array.from(packed.subarray(0, 9))).toEqual([0xc0, 0xc0, 0xc0, 0xc0, 0xe0, 0xe0, 0x12, 0xc0, 0xe0]);
+      expectSameBytes(SaveFileProcessor.decompressSong(toBlocks(packed), target => target - 1), raw);
+    });
+
+    it('should compress default waves and instruments', () => {
+      const raw = new Uint8Array(SAV_CONSTANTS.SONG_SIZE);
+      const defaultWave = [0x8e, 0xcd, 0xcc, 0xbb, 0xaa, 0xa9, 0x99, 0x88, 0x87, 0x76, 0x66, 0x55, 0x54, 0x43, 0x32, 0x31];
+      const defaultInstrument = [0xa8, 0, 0, 0xff, 0, 0, 3, 0, 0, 0xd0, 0, 0, 0, 0xf3, 0, 0];
+      raw.set(defaultWave, 0);
+      raw.set(defaultWave, 16);
+      raw.set(defaultInstrument, 32);
+
+      const packed = SaveFileProcessor.packSong(raw);
+
+      expect(Array.from(packed.subarray(0, 6))).toEqual([0xe0, 0xf0, 2, 0xe0, 0xf1, 1]);
+      expectSameBytes(SaveFileProcessor.decompressSong(toBlocks(packed), target => target - 1), raw);
+    });
+
+    it('should use the given block numbers as block switch targets', () => {
+      const raw = loadRawSong();
+      const blockNumbers = [20, 3, 17, 5, 6, 7, 8, 9, 10, 11, 12];
+
+      const blocks = toBlocks(SaveFileProcessor.packSong(raw, blockNumbers));
+
+      // Every block switch must resolve through the given block numbers
+      expectSameBytes(SaveFileProcessor.decompressSong(blocks, target => blockNumbers.indexOf(target)), raw);
+    });
+
+    it('should throw if the song needs more blocks than provided', () => {
+      expect(() => SaveFileProcessor.packSong(loadRawSong(), [1, 2, 3])).toThrow();
+    });
+  });
+
+  describe('writeSong', () => {
+    it('should write a song into scattered free blocks and free unused ones', () => {
+      const processor = new BinaryProcessor(createMockSaveFileBuffer(false));
+      const raw = loadRawSong();
+
+      // Occupy every other block with song 1
+      for (let i = 0; i < 40; i += 2) {
+        processor.writeUint8(SAV_CONSTANTS.BLOCK_ALLOC_TABLE_START_PTR + i, 1);
+      }
+
+      expect(SaveFileProcessor.writeSong(processor, 0, raw)).toBe(10);
+      expect(SaveFileProcessor.getBlocksUsed(processor, 0)).toBe(10);
+      expectSameBytes(SaveFileProcessor.unpackSong(processor, 0), raw);
+
+      // Writing a smaller song frees the blocks it no longer needs
+      expect(SaveFileProcessor.writeSong(processor, 0, new Uint8Array(SAV_CONSTANTS.SONG_SIZE))).toBe(1);
+      expect(SaveFileProcessor.getBlocksUsed(processor, 0)).toBe(1);
+      expect(SaveFileProcessor.getBlocksUsed(processor, 1)).toBe(20);
+    });
+
+    it('should leave the save untouched if the song does not fit', () => {
+      const processor = new BinaryProcessor(createMockSaveFileBuffer(false));
+      const totalBlocks = SaveFileProcessor.getTotalBlockCount(false);
+      for (let i = 0; i < totalBlocks - 5; i++) {
+        processor.writeUint8(SAV_CONSTANTS.BLOCK_ALLOC_TABLE_START_PTR + i, 1);
+      }
+
+      expect(SaveFileProcessor.writeSong(processor, 0, loadRawSong())).toBeNull();
+      expect(SaveFileProcessor.getBlocksUsed(processor, 0)).toBe(0);
+      expect(SaveFileProcessor.getFreeBlockCount(processor)).toBe(5);
+    });
+
+    it('should only use the blocks of the given layout', () => {
+      const processor = new BinaryProcessor(createMockSaveFileBuffer(true));
+      const smallBlocks = SaveFileProcessor.getTotalBlockCount(true);
+      for (let i = 0; i < smallBlocks - 5; i++) {
+        processor.writeUint8(SAV_CONSTANTS.BLOCK_ALLOC_TABLE_START_PTR + i, 1);
+      }
+
+      expect(SaveFileProcessor.writeSong(processor, 0, loadRawSong(), true)).toBeNull();
+      expect(SaveFileProcessor.writeSong(processor, 0, loadRawSong(), false)).toBe(10);
+    });
+
+    it('should leave invalid table entries to repair', () => {
+      const processor = new BinaryProcessor(createMockSaveFileBuffer(false));
+      processor.writeUint8(SAV_CONSTANTS.BLOCK_ALLOC_TABLE_START_PTR, 0x40);
+      const freeBlocks = SaveFileProcessor.getFreeBlockCount(processor);
+
+      expect(SaveFileProcessor.writeSong(processor, 0, loadRawSong())).toBe(10);
+      expect(processor.readUint8(SAV_CONSTANTS.BLOCK_ALLOC_TABLE_START_PTR)).toBe(0x40);
+      expect(SaveFileProcessor.getFreeBlockCount(processor)).toBe(freeBlocks - 10);
+      expect(SaveFileProcessor.verify(processor).map(issue => issue.block)).toContain(0);
+    });
+  });
+
+  describe('defragment', () => {
+    it('should rewrite songs into contiguous blocks in slot order', () => {
+      const processor = new BinaryProcessor(createMockSaveFileBuffer(false));
+      const raw = loadRawSong();
+      const emptySong = new Uint8Array(SAV_CONSTANTS.SONG_SIZE);
+
+      // Scatter song 2 behind a gap, then song 0 after it
+      processor.writeUint8(SAV_CONSTANTS.BLOCK_ALLOC_TABLE_START_PTR, 5);
+      SaveFileProcessor.writeSong(processor, 2, raw);
+      SaveFileProcessor.clearSong(processor, 5);
+      SaveFileProcessor.writeSong(processor, 0, emptySong);
+
+      const result = SaveFileProcessor.defragment(processor);
+
+      expect(result).toEqual({ freeBlocksBefore: 0xbf - 11, freeBlocksAfter: 0xbf - 11, skippedSongs: [] });
+      const table = processor.readUint8Array(SAV_CONSTANTS.BLOCK_ALLOC_TABLE_START_PTR, 12);
+      expect(Array.from(table)).toEqual([0, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 0xff]);
+      expectSameBytes(SaveFileProcessor.unpackSong(processor, 0), emptySong);
+      expectSameBytes(SaveFileProcessor.unpackSong(processor, 2), raw);
+    });
+
+    it('should leave invalid songs in their original blocks', () => {
+      const processor = new BinaryProcessor(createMockSaveFileBuffer(false));
+      const raw = loadRawSong();
+
+      // Song 3 owns a block without valid song data
+      processor.writeUint8(SAV_CONSTANTS.BLOCK_ALLOC_TABLE_START_PTR + 1, 3);
+      processor.writeUint8Array(SAV_CONSTANTS.BLOCK_START_PTR + SAV_CONSTANTS.BLOCK_SIZE, new Uint8Array(SAV_CONSTANTS.BLOCK_SIZE));
+      processor.writeUint8(SAV_CONSTANTS.BLOCK_ALLOC_TABLE_START_PTR + 5, 0);
+      SaveFileProcessor.writeSong(processor, 0, raw);
+
+      const result = SaveFileProcessor.defragment(processor);
+
+      expect(result?.skippedSongs).toEqual([3]);
+      expect(processor.readUint8(SAV_CONSTANTS.BLOCK_ALLOC_TABLE_START_PTR + 1)).toBe(3);
+      expect(processor.readUint8(SAV_CONSTANTS.BLOCK_ALLOC_TABLE_START_PTR)).toBe(0);
+      expectSameBytes(SaveFileProcessor.unpackSong(processor, 0), raw);
+    });
+  });
+
+  describe('lsdsng', () => {
+    // Build a save file holding the triangle_waves song in slot 0
+    const createSaveWithSong = (): BinaryProcessor => {
+      const processor = new BinaryProcessor(createMockSaveFileBuffer(false));
+      SaveFileProcessor.importSongFromLsdprj(processor, loadLsdprj());
+      return processor;
+    };
+
+    it('should export and read back a song', () => {
+      const processor = createSaveWithSong();
+
+      const songData = SaveFileProcessor.extractSongAsLsdsng(processor, 0);
+
+      expect(songData).not.toBeNull();
+      expect(songData!.byteLength).toBe(9 + 10 * SAV_CONSTANTS.BLOCK_SIZE);
+      const songFile = SaveFileProcessor.parseLsdsng(songData!);
+      expect(songFile.name).toBe('TRI');
+      expect(songFile.version).toBe(2);
+      expectSameBytes(songFile.song, loadRawSong());
+    });
+
+    it('should import a song into the first free slot', () => {
+      const processor = createSaveWithSong();
+      const songData = SaveFileProcessor.extractSongAsLsdsng(processor, 0)!;
+
+      expect(SaveFileProcessor.importSongFromLsdsng(processor, songData)).toBe(1);
+      expect(SaveFileProcessor.getFileName(processor, 1)).toBe('TRI');
+      expect(SaveFileProcessor.getVersion(processor, 1)).toBe('02');
+      expectSameBytes(SaveFileProcessor.unpackSong(processor, 1), loadRawSong());
+    });
+
+    it('should return null for songs that are not in the save', () => {
+      const processor = new BinaryProcessor(createMockSaveFileBuffer(false));
+      expect(SaveFileProcessor.extractSongAsLsdsng(processor, 0)).toBeNull();
+    });
+
+    it('should reject truncated files', () => {
+      const songData = SaveFileProcessor.extractSongAsLsdsng(createSaveWithSong(), 0)!;
+
+      expect(() => SaveFileProcessor.parseLsdsng(songData.slice(0, 8))).toThrow(/Truncated/);
+      expect(() => SaveFileProcessor.parseLsdsng(songData.slice(0, songData.byteLength - 1))).toThrow(/Truncated/);
+      expect(() => SaveFileProcessor.parseLsdsng(songData.slice(0, 9 + 3 * SAV_CONSTANTS.BLOCK_SIZE))).toThrow(/Malformed.*block switch/);
+    });
+
+    it('should reject files without an end of song marker', () => {
+      const songData = new Uint8Array(9 + SAV_CONSTANTS.BLOCK_SIZE);
+      expect(() => SaveFileProcessor.parseLsdsng(songData.buffer)).toThrow(/Malformed/);
+    });
+
+    it('should report why a .lsdprj file could not be imported', () => {
+      const processor = createSaveWithSong();
+      const songData = loadLsdprj();
+
+      expect(() => SaveFileProcessor.importSongFromLsdprj(processor, songData.slice(0, 8))).toThrow(/Truncated .lsdprj/);
+      expect(() => SaveFileProcessor.importSongFromLsdprj(processor, songData.slice(0, 9 + SAV_CONSTANTS.BLOCK_SIZE))).toThrow(/Malformed .lsdprj/);
+    });
+
+    it('should pick the song file format from the file extension', () => {
+      expect(SaveFileProcessor.parseSongFile('TRI.LSDPRJ', loadLsdprj()).name).toBe('TRI');
+      expect(() => SaveFileProcessor.parseSongFile('TRI.sav', loadLsdprj())).toThrow(/Unsupported song file type: .sav/);
+    });
+  });
+
+  // Build a save file with the triangle_waves song in working memory and slot 0
+  const createSaveWithWorkingSong = (): BinaryProcessor => {
+    const processor = new BinaryProcessor(createMockSaveFileBuffer(false));
+    SaveFileProcessor.importSongFromLsdprj(processor, loadLsdprj());
+    SaveFileProcessor.loadSongToWorkingMemory(processor, 0);
+    return processor;
+  };
+
+  describe('working song', () => {
+    it('should not list uninitialized working memory', () => {
+      const processor = new BinaryProcessor(createMockSaveFileBuffer(false));
+      expect(SaveFileProcessor.hasWorkingSong(processor)).toBe(false);
+      expect(SaveFileProcessor.getWorkingSong(processor)).toBeNull();
+    });
+
+    it('should load a slot into working memory and list it first', () => {
+      const processor = createSaveWithWorkingSong();
+
+      expect(SaveFileProcessor.getActiveFileSlot(processor)).toBe(0);
+      expectSameBytes(SaveFileProcessor.getWorkingSong(processor), loadRawSong());
+
+      const songs = SaveFileProcessor.getSongList(processor);
+      expect(songs.length).toBe(2);
+      expect(songs[0]).toEqual({
+        id: SAV_CONSTANTS.WORKING_SONG_ID,
+        name: 'TRI',
+        version: '02',
+        blocksUsed: 0,
+        isValid: true,
+      });
+    });
+
+    it('should export the working song', () => {
+      const processor = createSaveWithWorkingSong();
+
+      const lsdsng = SaveFileProcessor.extractSongAsLsdsng(processor, SAV_CONSTANTS.WORKING_SONG_ID);
+      expect(SaveFileProcessor.parseLsdsng(lsdsng!).name).toBe('TRI');
+
+      const lsdprj = SaveFileProcessor.extractSongForExport(processor, SAV_CONSTANTS.WORKING_SONG_ID);
+      expect(SaveFileProcessor.importSongFromLsdprj(processor, lsdprj!)).toBe(1);
+      expectSameBytes(SaveFileProcessor.unpackSong(processor, 1), loadRawSong());
+    });
+
+    it('should read back .lsdprj files numbering blocks by save or by file', () => {
+      const processor = createSaveWithWorkingSong();
+      SaveFileProcessor.importSongFromLsdprj(processor, loadLsdprj());
+
+      // The block switch ending the first block is its last non-zero byte
+      const firstBlockSwitch = (songData: ArrayBuffer): number => {
+        const block = new Uint8Array(songData, 9, SAV_CONSTANTS.BLOCK_SIZE);
+        let end = block.length - 1;
+        while (block[end] === 0) {
+          end--;
+        }
+        expect(block[end - 1]).toBe(0xe0);
+        return block[end];
+      };
+
+      const slotExport = SaveFileProcessor.extractSongForExport(processor, 1)!;
+      const workingExport = SaveFileProcessor.extractSongForExport(processor, SAV_CONSTANTS.WORKING_SONG_ID)!;
+      expect(firstBlockSwitch(slotExport)).toBe(12);
+      expect(firstBlockSwitch(workingExport)).toBe(2);
+
+      expectSameBytes(SaveFileProcessor.parseLsdprj(slotExport).song, loadRawSong());
+      expectSameBytes(SaveFileProcessor.parseLsdprj(workingExport).song, loadRawSong());
+    });
+
+    it('should save the working song into a free slot', () => {
+      const processor = createSaveWithWorkingSong();
+
+      expect(SaveFileProcessor.saveWorkingSong(processor)).toBe(1);
+      expect(SaveFileProcessor.getActiveFileSlot(processor)).toBe(1);
+      expect(SaveFileProcessor.getFileName(processor, 1)).toBe('TRI');
+      expectSameBytes(SaveFileProcessor.unpackSong(processor, 1), loadRawSong());
+    });
+
+    it('should not load invalid songs into working memory', () => {
+      const processor = new BinaryProcessor(createMockSaveFileBuffer(false));
+      expect(SaveFileProcessor.loadSongToWorkingMemory(processor, 0)).toBe(false);
+      expect(SaveFileProcessor.getActiveFileSlot(processor)).toBe(0xff);
+    });
+  });
+
+  describe('instruments', () => {
+    it('should copy an instrument from a slot into the working song', () => {
+      const processor = createSaveWithWorkingSong();
+
+      const instrumentFile = SaveFileProcessor.extractInstrument(processor, 0, 0);
+      expect(instrumentFile).not.toBeNull();
+      expect(SaveFileProcessor.injectInstrument(processor, SAV_CONSTANTS.WORKING_SONG_ID, 7, instrumentFile!)).toBe(true);
+
+      const song = SongProcessor.parseSong(SaveFileProcessor.getWorkingSong(processor)!);
+      expect(song.instruments[7].allocated).toBe(true);
+      expect(song.instruments[7].type).toBe(song.instruments[0].type);
+    });
+
+    it('should repack a song slot after storing an instrument', () => {
+      const processor = createSaveWithWorkingSong();
+
+      const instrumentFile = SaveFileProcessor.extractInstrument(processor, SAV_CONSTANTS.WORKING_SONG_ID, 0);
+      expect(SaveFileProcessor.injectInstrument(processor, 0, 3, instrumentFile!)).toBe(true);
+
+      const song = SongProcessor.parseSong(SaveFileProcessor.unpackSong(processor, 0)!);
+      expect(song.instruments[3].allocated).toBe(true);
+    });
+
+    it('should return null for songs that are not in the save', () => {
+      const processor = new BinaryProcessor(createMockSaveFileBuffer(false));
+      expect(SaveFileProcessor.extractInstrument(processor, 5, 0)).toBeNull();
+    });
+  });
+
+  describe('cleanSong', () => {
+    it('should clear unused data and repack the song in its slot', () => {
+      const processor = createSaveWithWorkingSong();
+
+      // Give the song a chain that nothing plays
+      const song = SongProcessor.parseSong(SaveFileProcessor.unpackSong(processor, 0)!);
+      song.chains[0x7f] = { allocated: true, phrases: new Array(16).fill(0x12), transposes: new Array(16).fill(0x0c) };
+      expect(SaveFileProcessor.putRawSong(processor, 0, SongProcessor.serializeSong(song))).toBe(true);
+
+      const result = SaveFileProcessor.cleanSong(processor, 0);
+      expect(result).not.toBeNull();
+      expect(result!.usage.unusedChains).toContain(0x7f);
+      expect(result!.blocksAfter).toBeLessThanOrEqual(result!.blocksBefore);
+      expect(SaveFileProcessor.getBlocksUsed(processor, 0)).toBe(result!.blocksAfter);
+
+      const cleaned = SongProcessor.parseSong(SaveFileProcessor.unpackSong(processor, 0)!);
+      expect(cleaned.chains[0x7f].allocated).toBe(false);
+      expect(SongProcessor.analyzeUsage(cleaned).unusedChains).toEqual([]);
+    });
+
+    it('should return null for songs that are not in the save', () => {
+      const processor = new BinaryProcessor(createMockSaveFileBuffer(false));
+      expect(SaveFileProcessor.cleanSong(processor, 5)).toBeNull();
+    });
+  });
+
+  describe('verify', () => {
+    // Build a save file as LSDj leaves it, with the triangle_waves song in slot 0
+    const createCleanSave = (): BinaryProcessor => {
+      const processor = new BinaryProcessor(createMockSaveFileBuffer(false));
+      processor.writeUint8Array(SAV_CONSTANTS.FILE_NAME_START_PTR, new Uint8Array(0x120));
+      processor.writeUint8Array(SAV_CONSTANTS.SRAM_INIT_CHECK_PTR, new Uint8Array([0x6a, 0x6b]));
+      SaveFileProcessor.importSongFromLsdprj(processor, loadLsdprj());
+      return processor;
+    };
+
+    const fatPtr = (block: number) => SAV_CONSTANTS.BLOCK_ALLOC_TABLE_START_PTR + block;
+
+    it('should report no issues for an intact save', () => {
+      expect(SaveFileProcessor.verify(createCleanSave())).toEqual([]);
+    });
+
+    it('should detect and restore a missing SRAM signature', () => {
+      const processor = createCleanSave();
+      processor.writeUint8(SAV_CONSTANTS.SRAM_INIT_CHECK_PTR, 0);
+
+      const issues = SaveFileProcessor.verify(processor);
+      expect(issues.map(issue => issue.type)).toEqual([VERIFY_ISSUE_TYPES.MISSING_SRAM_SIGNATURE]);
+
+      const result = SaveFileProcessor.repair(processor);
+      expect(result.repaired.length).toBe(1);
+      expect(result.remaining).toEqual([]);
+      expect(processor.readUint8(SAV_CONSTANTS.SRAM_INIT_CHECK_PTR)).toBe(0x6a);
+    });
+
+    it('should free invalid and orphaned blocks', () => {
+      const processor = createCleanSave();
+      processor.writeUint8(fatPtr(20), 0x40);
+      processor.writeUint8(fatPtr(21), 0);
+
+      const issues = SaveFileProcessor.verify(processor);
+      expect(issues).toEqual([
+        expect.objectContaining({ type: VERIFY_ISSUE_TYPES.INVALID_FAT_ENTRY, block: 20, repairable: true }),
+        expect.objectContaining({ type: VERIFY_ISSUE_TYPES.ORPHANED_BLOCK, slot: 0, block: 21, repairable: true }),
+      ]);
+
+      expect(SaveFileProcessor.repair(processor).remaining).toEqual([]);
+      expect(processor.readUint8(fatPtr(20))).toBe(SAV_CONSTANTS.EMPTY_SLOT_VALUE);
+      expect(processor.readUint8(fatPtr(21))).toBe(SAV_CONSTANTS.EMPTY_SLOT_VALUE);
+      expectSameBytes(SaveFileProcessor.unpackSong(processor, 0), loadRawSong());
+    });
+
+    it('should report cross-linked and missing blocks without repairing them', () => {
+      const processor = createCleanSave();
+      SaveFileProcessor.importSongFromLsdprj(processor, loadLsdprj());
+
+      // Hand the second block of song 0 to song 1
+      processor.writeUint8(fatPtr(1), 1);
+      const issues = SaveFileProcessor.verify(processor);
+      expect(issues[0]).toEqual(expect.objectContaining({
+        type: VERIFY_ISSUE_TYPES.CROSS_LINKED_BLOCK,
+        slot: 0,
+        repairable: false,
+      }));
+
+      // Free it instead
+      processor.writeUint8(fatPtr(1), SAV_CONSTANTS.EMPTY_SLOT_VALUE);
+      expect(SaveFileProcessor.verify(processor)[0].type).toBe(VERIFY_ISSUE_TYPES.MISSING_BLOCK);
+
+      const result = SaveFileProcessor.repair(processor);
+      expect(result.repaired).toEqual([]);
+      expect(result.remaining.length).toBe(1);
+    });
+
+    it('should report bad block switches and missing end markers', () => {
+      const processor = createCleanSave();
+      const blockPtr = SAV_CONSTANTS.BLOCK_START_PTR;
+
+      processor.writeUint8Array(blockPtr, new Uint8Array([0xe0, 0xc5]));
+      expect(SaveFileProcessor.verify(processor)[0].type).toBe(VERIFY_ISSUE_TYPES.BAD_BLOCK_SWITCH);
+
+      processor.writeUint8Array(blockPtr, new Uint8Array(SAV_CONSTANTS.BLOCK_SIZE));
+      expect(SaveFileProcessor.verify(processor)[0].type).toBe(VERIFY_ISSUE_TYPES.MISSING_END_MARKER);
+    });
+
+    it('should clear names and versions of empty slots', () => {
+      const processor = createCleanSave();
+      processor.writeUint8(SAV_CONSTANTS.FILE_NAME_START_PTR + 3 * SAV_CONSTANTS.FILE_NAME_LENGTH, 0x41);
+      processor.writeUint8(SAV_CONSTANTS.FILE_VERSION_START_PTR + 5, 2);
+
+      const issues = SaveFileProcessor.verify(processor);
+      expect(issues.map(issue => [issue.type, issue.slot])).toEqual([
+        [VERIFY_ISSUE_TYPES.STALE_SLOT_ENTRY, 3],
+        [VERIFY_ISSUE_TYPES.STALE_SLOT_ENTRY, 5],
+      ]);
+
+      expect(SaveFileProcessor.repair(processor).remaining).toEqual([]);
+    });
+  });
+
+  describe('merge', () => {
+    // Build a save file holding the triangle_waves song the given number of times
+    const createSaveWithSongs = (count: number): BinaryProcessor => {
+      const processor = new BinaryProcessor(createMockSaveFileBuffer(false));
+      for (let i = 0; i < count; i++) {
+        SaveFileProcessor.importSongFromLsdprj(processor, loadLsdprj());
+      }
+      return processor;
+    };
+
+    it('should plan a merge and report name collisions', () => {
+      const target = createSaveWithSongs(1);
+      const source = createSaveWithSongs(2);
+
+      const plan = SaveFileProcessor.planMerge(target, source, [0, 1]);
+      expect(plan.freeSlots).toBe(SAV_CONSTANTS.SONG_COUNT - 1);
+      expect(plan.freeBlocks).toBe(SaveFileProcessor.getFreeBlockCount(target));
+      expect(plan.blocksNeeded).toBe(20);
+      expect(plan.canMerge).toBe(true);
+      expect(plan.songs.map(song => [song.name, song.blocksNeeded, song.fits, song.nameCollision])).toEqual([
+        ['TRI', 10, true, true],
+        ['TRI', 10, true, true],
+      ]);
+    });
+
+    it('should copy songs with their names and versions', () => {
+      const target = createSaveWithSongs(1);
+      const source = createSaveWithSongs(2);
+      source.writeUint8(SAV_CONSTANTS.FILE_VERSION_START_PTR + 1, 7);
+
+      expect(SaveFileProcessor.mergeSongs(target, source, [1])).toEqual([1]);
+      expect(SaveFileProcessor.getFileName(target, 1)).toBe('TRI');
+      expect(SaveFileProcessor.getVersion(target, 1)).toBe('07');
+      expectSameBytes(SaveFileProcessor.unpackSong(target, 1), loadRawSong());
+    });
+
+    it('should not merge anything when the songs do not fit', () => {
+      const target = createSaveWithSongs(1);
+      const source = createSaveWithSongs(2);
+
+      // Leave 12 free blocks, enough for one song
+      const totalBlocks = SaveFileProcessor.getTotalBlockCount(false);
+      for (let block = 10; block < totalBlocks - 12; block++) {
+        target.writeUint8(SAV_CONSTANTS.BLOCK_ALLOC_TABLE_START_PTR + block, 5);
+      }
+      const before = target.readUint8Array(0, target.bufferSize);
+
+      const plan = SaveFileProcessor.planMerge(target, source, [0, 1]);
+      expect(plan.canMerge).toBe(false);
+      expect(plan.songs.map(song => song.fits)).toEqual([true, false]);
+
+      expect(SaveFileProcessor.mergeSongs(target, source, [0, 1])).toBeNull();
+      expectSameBytes(target.readUint8Array(0, target.bufferSize), before);
+    });
+  });
+
+  describe('slots', () => {
+    // Build a save file with three copies of triangle_waves, told apart by version
+    const createSaveWithVersions = (): BinaryProcessor => {
+      const processor = new BinaryProcessor(createMockSaveFileBuffer(false));
+      for (let i = 0; i < 3; i++) {
+        SaveFileProcessor.importSongFromLsdprj(processor, loadLsdprj());
+        processor.writeUint8(SAV_CONSTANTS.FILE_VERSION_START_PTR + i, i + 1);
+      }
+      return processor;
+    };
+
+    const getVersions = (processor: BinaryProcessor): string[] =>
+      [0, 1, 2, 3].map(slot => SaveFileProcessor.getVersion(processor, slot));
+
+    const getFirstBlocks = (processor: BinaryProcessor): number[] => {
+      const fat = processor.readUint8Array(SAV_CONSTANTS.BLOCK_ALLOC_TABLE_START_PTR, SaveFileProcessor.getTotalBlockCount(false));
+      return [0, 1, 2].map(slot => fat.indexOf(slot));
+    };
+
+    it('should move a song and shift the songs in between', () => {
+      const processor = createSaveWithVersions();
+      const firstBlocks = getFirstBlocks(processor);
+      processor.writeUint8(SAV_CONSTANTS.ACTIVE_FILE_SLOT, 2);
+
+      expect(SaveFileProcessor.moveSong(processor, 2, 0)).toBe(true);
+      expect(getVersions(processor)).toEqual(['03', '01', '02', 'FF']);
+      expect(getFirstBlocks(processor)).toEqual([firstBlocks[2], firstBlocks[0], firstBlocks[1]]);
+      expect(SaveFileProcessor.getActiveFileSlot(processor)).toBe(0);
+      expectSameBytes(SaveFileProcessor.unpackSong(processor, 0), loadRawSong());
+    });
+
+    it('should swap a song with an empty slot', () => {
+      const processor = createSaveWithVersions();
+      const blocksUsed = SaveFileProcessor.getBlocksUsed(processor, 1);
+
+      expect(SaveFileProcessor.swapSongs(processor, 1, 5)).toBe(true);
+      expect(SaveFileProcessor.getBlocksUsed(processor, 1)).toBe(0);
+      expect(SaveFileProcessor.getBlocksUsed(processor, 5)).toBe(blocksUsed);
+      expect(SaveFileProcessor.getFileName(processor, 5)).toBe('TRI');
+      expect(SaveFileProcessor.getVersion(processor, 5)).toBe('02');
+      expect(SaveFileProcessor.getVersion(processor, 1)).toBe('FF');
+    });
+
+    it('should reject invalid slots', () => {
+      const processor = createSaveWithVersions();
+      expect(SaveFileProcessor.moveSong(processor, 0, SAV_CONSTANTS.SONG_COUNT)).toBe(false);
+      expect(SaveFileProcessor.swapSongs(processor, -1, 0)).toBe(false);
+    });
+  });
+
+  describe('names', () => {
+    it('should rename a song and set its version', () => {
+      const processor = new BinaryProcessor(createMockSaveFileBuffer(false));
+      SaveFileProcessor.importSongFromLsdprj(processor, loadLsdprj());
+
+      expect(SaveFileProcessor.setFileName(processor, 0, 'MY SONG2')).toBe(true);
+      expect(SaveFileProcessor.setFileVersion(processor, 0, 0x1a)).toBe(true);
+      expect(SaveFileProcessor.getFileName(processor, 0)).toBe('MY SONG2');
+      expect(SaveFileProcessor.getVersion(processor, 0)).toBe('1A');
+
+      // Shorter names are padded with zeros
+      expect(SaveFileProcessor.setFileName(processor, 0, 'AB')).toBe(true);
+      expect(Array.from(processor.readUint8Array(SAV_CONSTANTS.FILE_NAME_START_PTR, SAV_CONSTANTS.FILE_NAME_LENGTH)))
+        .toEqual([0x41, 0x42, 0, 0, 0, 0, 0, 0]);
+    });
+
+    it('should reject names and versions LSDj cannot store', () => {
+      const processor = new BinaryProcessor(createMockSaveFileBuffer(false));
+      SaveFileProcessor.importSongFromLsdprj(processor, loadLsdprj());
+
+      expect(SaveFileProcessor.validateFileName('lower')).toMatch(/'l' can't be used/);
+      expect(SaveFileProcessor.validateFileName('TOOLONGNAME')).toMatch(/at most 8/);
+      expect(SaveFileProcessor.setFileName(processor, 0, 'A.B')).toBe(false);
+      expect(SaveFileProcessor.setFileVersion(processor, 0, 0x100)).toBe(false);
+      expect(SaveFileProcessor.getFileName(processor, 0)).toBe('TRI');
+      expect(() => SaveFileProcessor.encodeFileName('A_B')).toThrow();
+    });
+  });
+
+  describe('batch import', () => {
+    it('should import several song files', () => {
+      const processor = new BinaryProcessor(createMockSaveFileBuffer(false));
+      const lsdsng = SaveFileProcessor.extractSongAsLsdsng(
+        (() => {
+          const source = new BinaryProcessor(createMockSaveFileBuffer(false));
+          SaveFileProcessor.importSongFromLsdprj(source, loadLsdprj());
+          return source;
+        })(),
+        0
+      )!;
+      const files = [
+        { fileName: 'TRI.lsdprj', data: loadLsdprj() },
+        { fileName: 'tri.LSDSNG', data: lsdsng },
+      ];
+
+      const plan = SaveFileProcessor.planImport(processor, files);
+      expect(plan.canImport).toBe(true);
+      expect(plan.songs.map(song => [song.name, song.blocksNeeded, song.fits, song.nameCollision])).toEqual([
+        ['TRI', 10, true, false],
+        ['TRI', 10, true, true],
+      ]);
+
+      expect(SaveFileProcessor.importSongFiles(processor, files)).toEqual([0, 1]);
+      expectSameBytes(SaveFileProcessor.unpackSong(processor, 1), loadRawSong());
+    });
+
+    it('should keep the 64KB layout of the save for every song', () => {
+      const processor = new BinaryProcessor(createMockSaveFileBuffer(true));
+      const files = [
+        { fileName: 'A.lsdprj', data: loadLsdprj() },
+        { fileName: 'B.lsdprj', data: loadLsdprj() },
+      ];
+      // The mirror the layout is detected from is out of date once the first song is written
+      const detect = vi.spyOn(SaveFileProcessor, 'isSixtyFourKbRam');
+
+      expect(SaveFileProcessor.importSongFiles(processor, files)).toEqual([0, 1]);
+      expect(detect.mock.calls.every(([checked]) => checked === processor)).toBe(true);
+      detect.mockRestore();
+    });
+
+    it('should not import anything when a file is unreadable or the songs do not fit', () => {
+      const processor = new BinaryProcessor(createMockSaveFileBuffer(false));
+
+      // Leave 12 free blocks, enough for one song
+      const totalBlocks = SaveFileProcessor.getTotalBlockCount(false);
+      for (let block = 0; block < totalBlocks - 12; block++) {
+        processor.writeUint8(SAV_CONSTANTS.BLOCK_ALLOC_TABLE_START_PTR + block, 5);
+      }
+      const before = processor.readUint8Array(0, processor.bufferSize).slice();
+
+      const files = [
+        { fileName: 'A.lsdprj', data: loadLsdprj() },
+        { fileName: 'B.lsdprj', data: loadLsdprj() },
+        { fileName: 'notes.txt', data: new ArrayBuffer(4) },
+      ];
+      const plan = SaveFileProcessor.planImport(processor, files);
+      expect(plan.freeBlocks).toBe(12);
+      expect(plan.songs.map(song => song.fits)).toEqual([true, false, false]);
+      expect(plan.songs[2].error).toBe('Unsupported song file type: .txt');
+
+      expect(SaveFileProcessor.importSongFiles(processor, files)).toBeNull();
+      expectSameBytes(processor.readUint8Array(0, processor.bufferSize), before);
+    });
+
+    it('should list files that could not be loaded with the reason', () => {
+      const processor = new BinaryProcessor(createMockSaveFileBuffer(false));
+      const files = [
+        { fileName: 'TRI.lsdprj', data: loadLsdprj() },
+        { fileName: 'BIG.lsdsng', data: new ArrayBuffer(0), error: 'File size exceeds maximum limit of 10MB' },
+      ];
+
+      const plan = SaveFileProcessor.planImport(processor, files);
+      expect(plan.canImport).toBe(false);
+      expect(plan.songs.map(song => [song.fileName, song.blocksNeeded, song.error])).toEqual([
+        ['TRI.lsdprj', 10, null],
+        ['BIG.lsdsng', null, 'File size exceeds maximum limit of 10MB'],
+      ]);
+    });
+  });
+
+  describe('variants', () => {
+    // Create save data with a recognizable pattern in every bank
+    const createSram = (size: number): Uint8Array => {
+      const sram = new Uint8Array(size);
+      for (let i = 0; i < size; i++) {
+        sram[i] = (i * 7 + (i >> 9)) & 0xff;
+      }
+      return sram;
+    };
+
+    const concat = (...parts: ArrayLike<number>[]): Uint8Array => {
+      const data = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+      let offset = 0;
+      for (const part of parts) {
+        data.set(part, offset);
+        offset += part.length;
+      }
+      return data;
+    };
+
+    const rtcTrailer = (size: number) => Array.from({ length: size }, (_, i) => i + 1);
+
+    // Normalize a file and check it is written back byte for byte
+    const roundTrip = (fileData: Uint8Array) => {
+      const normalized = SaveFileProcessor.normalizeSaveFile(fileData.slice().buffer);
+      expect(normalized).not.toBeNull();
+      expect(normalized!.saveData.byteLength).toBe(SAV_CONSTANTS.SAV_FILE_SIZE);
+      expectSameBytes(new Uint8Array(SaveFileProcessor.restoreSaveFileVariant(normalized!.saveData, normalized!.variant)), fileData);
+      return normalized!;
+    };
+
+    it('should keep plain 128KB saves as they are', () => {
+      const sram = createSram(SAV_CONSTANTS.SAV_FILE_SIZE);
+      const { saveData, variant } = roundTrip(sram);
+      expect(variant).toEqual({ sramSize: SAV_CONSTANTS.SAV_FILE_SIZE, paddingSize: 0, paddingValue: 0, trailer: [] });
+      expectSameBytes(new Uint8Array(saveData), sram);
+    });
+
+    it('should mirror 64KB saves and keep RTC trailers', () => {
+      const sram = new Uint8Array(createMockSaveFileBuffer(false));
+      for (const trailerSize of [0, 44, 48]) {
+        const { saveData, variant } = roundTrip(concat(sram, rtcTrailer(trailerSize)));
+        expect(variant.sramSize).toBe(SAV_CONSTANTS.SAV_FILE_SIZE / 2);
+        expect(variant.trailer).toEqual(rtcTrailer(trailerSize));
+
+        const saveInfo = SaveFileProcessor.parseSaveFile(saveData);
+        expect(saveInfo.is64kb).toBe(true);
+        expect(saveInfo.totalBlocks).toBe(0xbf - 0x80);
+      }
+    });
+
+    it('should detect flashcart padding before an RTC trailer', () => {
+      const sram = createSram(SAV_CONSTANTS.SAV_FILE_SIZE);
+      const padding = new Uint8Array(0x20000).fill(0xff);
+      const { saveData, variant } = roundTrip(concat(sram, padding, rtcTrailer(48)));
+      expect(variant).toEqual({ sramSize: SAV_CONSTANTS.SAV_FILE_SIZE, paddingSize: 0x20000, paddingValue: 0xff, trailer: rtcTrailer(48) });
+      expectSameBytes(new Uint8Array(saveData), sram);
+    });
+
+    it('should load 32KB dumps as the working song with no saved songs', () => {
+      const processor = new BinaryProcessor(new ArrayBuffer(SAV_CONSTANTS.SAV_FILE_SIZE));
+      processor.writeUint8Array(SAV_CONSTANTS.WORKING_SONG_PTR, loadRawSong());
+      const dump = processor.readUint8Array(0, SAV_CONSTANTS.BANK_SIZE).slice();
+
+      const { saveData, variant } = roundTrip(dump);
+      expect(variant.sramSize).toBe(SAV_CONSTANTS.BANK_SIZE);
+      const normalizedProcessor = new BinaryProcessor(saveData);
+      expect(SaveFileProcessor.verify(normalizedProcessor)).toEqual([]);
+      expect(SaveFileProcessor.getSongList(normalizedProcessor).map(song => song.id)).toEqual([SAV_CONSTANTS.WORKING_SONG_ID]);
+    });
+
+    it('should reject sizes that match no variant', () => {
+      expect(SaveFileProcessor.normalizeSaveFile(new ArrayBuffer(1000))).toBeNull();
+      expect(SaveFileProcessor.normalizeSaveFile(concat(createSram(0x40000)).buffer)).toBeNull();
+    });
+
+    it('should keep a changed 64KB save detected through its mirror', () => {
+      const { saveData } = SaveFileProcessor.normalizeSaveFile(createMockSaveFileBuffer(false))!;
+      const processor = new BinaryProcessor(saveData);
+      processor.writeUint8(SAV_CONSTANTS.FILE_NAME_START_PTR, 0x41);
+      expect(SaveFileProcessor.isSixtyFourKbRam(processor)).toBe(false);
+
+      SaveFileProcessor.syncSixtyFourKbMirror(saveData);
+      expect(SaveFileProcessor.isSixtyFourKbRam(processor)).toBe(true);
+    });
+  });
+
+  describe('layout conversion', () => {
+    // Build 128KB save data whose upper half doesn't mirror the lower half
+    const create128kbSave = (): BinaryProcessor => {
+      const saveData = new Uint8Array(SAV_CONSTANTS.SAV_FILE_SIZE);
+      saveData.set(new Uint8Array(createMockSaveFileBuffer(false)));
+      return new BinaryProcessor(saveData.buffer);
+    };
+
+    it('should repack songs into the lower blocks when converting to 64KB', () => {
+      const processor = create128kbSave();
+      const raw = loadRawSong();
+
+      // Put song 0 above the 64KB block pool, behind blocks held by slot 5
+      for (let block = 0; block < 0x40; block++) {
+        processor.writeUint8(SAV_CONSTANTS.BLOCK_ALLOC_TABLE_START_PTR + block, 5);
+      }
+      SaveFileProcessor.writeSong(processor, 0, raw);
+      SaveFileProcessor.clearSong(processor, 5);
+      expect(processor.readUint8(SAV_CONSTANTS.BLOCK_ALLOC_TABLE_START_PTR + 0x40)).toBe(0);
+
+      const plan = SaveFileProcessor.planLayoutConversion(processor, true);
+      expect(plan).toEqual({
+        songs: [{ songId: 0, name: '', blocksNeeded: 10, fits: true }],
+        totalBlocks: 0xbf - 0x80,
+        blocksNeeded: 10,
+        canConvert: true,
+      });
+
+      expect(SaveFileProcessor.convertLayout(processor, true)).toBe(true);
+      const saveInfo = SaveFileProcessor.parseSaveFile(processor.readUint8Array(0, processor.bufferSize).slice().buffer);
+      expect(saveInfo.is64kb).toBe(true);
+      expect(saveInfo.freeBlocks).toBe(0xbf - 0x80 - 10);
+      expectSameBytes(SaveFileProcessor.unpackSong(processor, 0), raw);
+    });
+
+    it('should report the songs that do not fit into 64KB and leave the save untouched', () => {
+      const processor = create128kbSave();
+      for (let i = 0; i < 7; i++) {
+        SaveFileProcessor.importSongFromLsdprj(processor, loadLsdprj());
+      }
+      const before = processor.readUint8Array(0, processor.bufferSize).slice();
+
+      const plan = SaveFileProcessor.planLayoutConversion(processor, true);
+      expect(plan.canConvert).toBe(false);
+      expect(plan.blocksNeeded).toBe(70);
+      expect(plan.songs.map(song => [song.songId, song.fits])).toEqual([
+        [0, true], [1, true], [2, true], [3, true], [4, true], [5, true], [6, false],
+      ]);
+
+      expect(SaveFileProcessor.convertLayout(processor, true)).toBe(false);
+      expectSameBytes(processor.readUint8Array(0, processor.bufferSize), before);
+    });
+
+    it('should free the upper blocks when converting to 128KB', () => {
+      const { saveData } = SaveFileProcessor.normalizeSaveFile(createMockSaveFileBuffer(false))!;
+      const processor = new BinaryProcessor(saveData);
+      SaveFileProcessor.importSongFromLsdprj(processor, loadLsdprj());
+      SaveFileProcessor.syncSixtyFourKbMirror(saveData);
+      expect(SaveFileProcessor.isSixtyFourKbRam(processor)).toBe(true);
+
+      expect(SaveFileProcessor.convertLayout(processor, false)).toBe(true);
+      const saveInfo = SaveFileProcessor.parseSaveFile(saveData);
+      expect(saveInfo.is64kb).toBe(false);
+      expect(saveInfo.totalBlocks).toBe(0xbf);
+      expect(saveInfo.freeBlocks).toBe(0xbf - 10);
+      expectSameBytes(SaveFileProcessor.unpackSong(processor, 0), loadRawSong());
+    });
+  });
 });
@@ -0,0 +1,318 @@
+import {describe, expect, it} from 'vitest';
+import {SAV_CONSTANTS, SaveFileProcessor} from '../SaveFileProcessor';
+import {SongProcessor} from '../SongProcessor';
+import {COMMAND_TYPES, INSTRUMENT_TYPES, SONG_CONSTANTS} from '../../../types/song';
+import {writeMemoryCheck} from '../../../utils/song-test-utils';
+import fs from 'fs';
+
+describe('SongProcessor', () => {
+  // Decompress the song in triangle_waves.lsdprj
+  const loadRawSong = (): Uint8Array => {
+    const fileData = new Uint8Array(fs.readFileSync(`${__dirname}/triangle_waves.lsdprj`));
+    const blocks: Uint8Array[] = [];
+    for (let offset = 9; offset < fileData.length; offset += SAV_CONSTANTS.BLOCK_SIZE) {
+      const block = new Uint8Array(SAV_CONSTANTS.BLOCK_SIZE);
+      block.set(fileData.subarray(offset, offset + SAV_CONSTANTS.BLOCK_SIZE));
+      blocks.push(block);
+    }
+    return SaveFileProcessor.decompressSong(blocks, (_target, currentIndex) => currentIndex + 1);
+  };
+
+  // Create song memory filled with pseudo-random bytes
+  const createRandomSong = (): Uint8Array => {
+    const raw = new Uint8Array(SONG_CONSTANTS.SONG_SIZE);
+    let seed = 12345;
+    for (let i = 0; i < raw.length; i++) {
+      seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+      raw[i] = seed >> 16;
+    }
+    return writeMemoryCheck(raw);
+  };
+
+  // Compare byte arrays (toEqual is slow on 32KB arrays)
+  const expectSameBytes = (actual: Uint8Array, expected: Uint8Array): void => {
+    expect(Buffer.from(actual).equals(Buffer.from(expected))).toBe(true);
+  };
+
+  describe('parseSong', () => {
+    it('should decode the song in triangle_waves.lsdprj', () => {
+      const song = SongProcessor.parseSong(loadRawSong());
+
+      expect(song.formatVersion).toBe(0x10);
+      expect(song.tempo).toBe(0x80);
+      expect(song.phrases.length).toBe(SONG_CONSTANTS.PHRASE_COUNT);
+      expect(song.chains.length).toBe(SONG_CONSTANTS.CHAIN_COUNT);
+      expect(song.instruments.length).toBe(SONG_CONSTANTS.INSTRUMENT_COUNT);
+      expect(song.tables.length).toBe(SONG_CONSTANTS.TABLE_COUNT);
+      expect(song.grooves.length).toBe(SONG_CONSTANTS.GROOVE_COUNT);
+      expect(song.synths.length).toBe(SONG_CONSTANTS.SYNTH_COUNT);
+      expect(song.waves.length).toBe(SONG_CONSTANTS.WAVE_COUNT);
+      expect(song.words.length).toBe(SONG_CONSTANTS.WORD_COUNT);
+      expect(song.sequence.length).toBe(SONG_CONSTANTS.ROW_COUNT);
+      expect(song.sequence[0].length).toBe(SONG_CONSTANTS.CHANNEL_COUNT);
+    });
+
+    it('should reject data with the wrong size', () => {
+      expect(() => SongProcessor.parseSong(new Uint8Array(0x100))).toThrow('Invalid song size');
+    });
+
+    it('should reject uninitialized song memory', () => {
+      const raw = createRandomSong();
+      raw[0x3e80] = 0;
+      expect(() => SongProcessor.parseSong(raw)).toThrow("missing 'rb' marker at 0x3e80");
+    });
+  });
+
+  describe('serializeSong', () => {
+    it('should round-trip the song in triangle_waves.lsdprj byte for byte', () => {
+      const raw = loadRawSong();
+      expectSameBytes(SongProcessor.serializeSong(SongProcessor.parseSong(raw)), raw);
+    });
+
+    it('should round-trip every byte of song memory', () => {
+      const raw = createRandomSong();
+      expectSameBytes(SongProcessor.serializeSong(SongProcessor.parseSong(raw)), raw);
+    });
+
+    it('should write changes to the model back to song memory', () => {
+      const song = SongProcessor.parseSong(createRandomSong());
+      song.sequence[3][2] = 0x12;
+      song.chains[0x12].phrases[0] = 0x34;
+      song.phrases[0x34].notes[5] = 0x30;
+      song.tempo = 0x96;
+
+      const raw = SongProcessor.serializeSong(song);
+      expect(raw[SONG_CONSTANTS.SEQUENCE_PTR + 3 * 4 + 2]).toBe(0x12);
+      expect(raw[SONG_CONSTANTS.CHAIN_PHRASES_PTR + 0x12 * 16]).toBe(0x34);
+      expect(raw[SONG_CONSTANTS.PHRASE_NOTES_PTR + 0x34 * 16 + 5]).toBe(0x30);
+      expect(raw[SONG_CONSTANTS.SETTINGS_PTR + 2]).toBe(0x96);
+    });
+  });
+
+  describe('helpers', () => {
+    it('should convert the tempo byte to BPM', () => {
+      const song = SongProcessor.parseSong(loadRawSong());
+      expect(SongProcessor.getBpm(song)).toBe(128);
+      song.tempo = 0x10;
+      expect(SongProcessor.getBpm(song)).toBe(272);
+    });
+
+    it('should find the table and synth of an instrument', () => {
+      const params = new Array(15).fill(0);
+      params[1] = 0x30;
+      params[5] = 0x25;
+      const instrument = {allocated: true, name: [0, 0, 0, 0, 0], type: INSTRUMENT_TYPES.WAVE, params};
+
+      expect(SongProcessor.getInstrumentTable(instrument)).toBe(5);
+      expect(SongProcessor.getInstrumentSynth(instrument)).toBe(3);
+
+      instrument.params[5] = 0x05;
+      instrument.type = INSTRUMENT_TYPES.PULSE;
+      expect(SongProcessor.getInstrumentTable(instrument)).toBeNull();
+      expect(SongProcessor.getInstrumentSynth(instrument)).toBeNull();
+    });
+  });
+
+  describe('instruments', () => {
+    // Create a song with a wave instrument in slot 2 that plays table 4 and synth 3
+    const createSongWithInstrument = () => {
+      const song = SongProcessor.parseSong(createRandomSong());
+      song.instruments.forEach(instrument => {
+        instrument.allocated = false;
+      });
+      song.tables.forEach(table => {
+        table.allocated = false;
+      });
+      const instrument = song.instruments[2];
+      instrument.allocated = true;
+      instrument.name = [0x57, 0x41, 0x56, 0x45, 0x00];
+      instrument.type = INSTRUMENT_TYPES.WAVE;
+      instrument.params[1] = 0x30 | (instrument.params[1] & 0x0f);
+      instrument.params[5] = 0x24;
+      song.tables[4].allocated = true;
+      return song;
+    };
+
+    it('should copy an instrument with its table and synth', () => {
+      const song = createSongWithInstrument();
+      const file = SongProcessor.extractInstrument(song, 2);
+
+      expect(file.instrument).toEqual(song.instruments[2]);
+      expect(file.table).toEqual(song.tables[4]);
+      expect(file.synth).toEqual(song.synths[3]);
+      expect(file.waves).toEqual(song.waves.slice(0x30, 0x40));
+    });
+
+    it('should store the table and synth in free slots and point the instrument at them', () => {
+      const source = createSongWithInstrument();
+      const file = SongProcessor.extractInstrument(source, 2);
+
+      // Occupy table 0 and synth 0 in the target song
+      const target = createSongWithInstrument();
+      target.instruments[2].params[5] = 0x20;
+      target.instruments[2].params[1] &= 0x0f;
+      target.tables[0].allocated = true;
+
+      SongProcessor.injectInstrument(target, 5, file);
+
+      const instrument = target.instruments[5];
+      expect(instrument.allocated).toBe(true);
+      expect(instrument.name).toEqual(file.instrument.name);
+      expect(SongProcessor.getInstrumentTable(instrument)).toBe(1);
+      expect(SongProcessor.getInstrumentSynth(instrument)).toBe(1);
+      expect(target.tables[1]).toEqual(file.table);
+      expect(target.synths[1]).toEqual(file.synth);
+      expect(target.waves.slice(0x10, 0x20)).toEqual(file.waves);
+    });
+
+    it('should fail when no table is free', () => {
+      const song = createSongWithInstrument();
+      const file = SongProcessor.extractInstrument(song, 2);
+      song.tables.forEach(table => {
+        table.allocated = true;
+      });
+
+      expect(() => SongProcessor.injectInstrument(song, 5, file)).toThrow('No free table');
+    });
+
+    it('should reject an instrument from another format version', () => {
+      const song = createSongWithInstrument();
+      const file = { ...SongProcessor.extractInstrument(song, 2), formatVersion: song.formatVersion + 1 };
+      const before = song.instruments[5];
+
+      expect(() => SongProcessor.injectInstrument(song, 5, file)).toThrow(`is from song format version ${song.formatVersion + 1}`);
+      expect(song.instruments[5]).toBe(before);
+    });
+  });
+
+  describe('usage', () => {
+    // Create a song whose sequence plays chain 1 > phrase 2 > instrument 3 > table 6 > table 7,
+    // and phrase 2 also plays table 4 and groove 5. Everything else holds random data.
+    const createSongWithUsage = () => {
+      const { EMPTY_VALUE } = SONG_CONSTANTS;
+      const song = SongProcessor.parseSong(createRandomSong());
+      [...song.chains, ...song.phrases, ...song.instruments, ...song.tables].forEach(entry => {
+        entry.allocated = true;
+      });
+
+      song.sequence.forEach(row => row.fill(EMPTY_VALUE));
+      song.sequence[0][0] = 1;
+      song.chains[1].phrases.fill(EMPTY_VALUE);
+      song.chains[1].phrases[0] = 2;
+
+      const phrase = song.phrases[2];
+      phrase.instruments.fill(EMPTY_VALUE);
+      phrase.instruments[0] = 3;
+      phrase.commands.fill(0);
+      phrase.commands[1] = COMMAND_TYPES.TABLE;
+      phrase.commandValues[1] = 4;
+      phrase.commands[2] = COMMAND_TYPES.GROOVE;
+      phrase.commandValues[2] = 5;
+
+      song.instruments[3].params[5] = 0x26;
+      for (const table of [4, 6, 7]) {
+        song.tables[table].commands1.fill(0);
+        song.tables[table].commands2.fill(0);
+      }
+      song.tables[6].commands2[3] = COMMAND_TYPES.TABLE;
+      song.tables[6].commandValues2[3] = 7;
+      return song;
+    };
+
+    const allExcept = (count: number, used: number[]) =>
+      Array.from({ length: count }, (_, i) => i).filter(i => !used.includes(i));
+
+    it('should report the entries the song never plays', () => {
+      const song = createSongWithUsage();
+      song.grooves[9].fill(0);
+
+      const usage = SongProcessor.analyzeUsage(song);
+      expect(usage.unusedChains).toEqual(allExcept(SONG_CONSTANTS.CHAIN_COUNT, [1]));
+      expect(usage.unusedPhrases).toEqual(allExcept(SONG_CONSTANTS.PHRASE_COUNT, [2]));
+      expect(usage.unusedInstruments).toEqual(allExcept(SONG_CONSTANTS.INSTRUMENT_COUNT, [3]));
+      expect(usage.unusedTables).toEqual(allExcept(SONG_CONSTANTS.TABLE_COUNT, [4, 6, 7]));
+      // Groove 0 is always used and empty grooves are not reported
+      expect(usage.unusedGrooves).toEqual(allExcept(SONG_CONSTANTS.GROOVE_COUNT, [0, 5, 9]));
+    });
+
+    it('should not report entries that are not allocated', () => {
+      const song = createSongWithUsage();
+      song.chains[0x10].allocated = false;
+      song.instruments[0x20].allocated = false;
+
+      const usage = SongProcessor.analyzeUsage(song);
+      expect(usage.unusedChains).not.toContain(0x10);
+      expect(usage.unusedInstruments).not.toContain(0x20);
+    });
+
+    it('should clear unused entries and keep the rest', () => {
+      const song = createSongWithUsage();
+      const before = SongProcessor.serializeSong(song);
+      const usedPhrase = structuredClone(song.phrases[2]);
+      const usedTable = structuredClone(song.tables[7]);
+
+      const removed = SongProcessor.cleanSong(song);
+      expect(removed.unusedChains.length).toBe(SONG_CONSTANTS.CHAIN_COUNT - 1);
+
+      const usage = SongProcessor.analyzeUsage(song);
+      expect(usage).toEqual({
+        unusedChains: [], unusedPhrases: [], unusedInstruments: [], unusedTables: [], unusedGrooves: [],
+      });
+      expect(song.phrases[2]).toEqual(usedPhrase);
+      expect(song.tables[7]).toEqual(usedTable);
+      expect(song.chains[0].allocated).toBe(false);
+      expect(song.chains[0].phrases.every(phrase => phrase === SONG_CONSTANTS.EMPTY_VALUE)).toBe(true);
+      expect(song.instruments[0].allocated).toBe(false);
+
+      const after = SongProcessor.serializeSong(song);
+      expect(SaveFileProcessor.packSong(after).length).toBeLessThan(SaveFileProcessor.packSong(before).length);
+    });
+  });
+
+  describe('diff', () => {
+    it('should report no changes between equal songs', () => {
+      const song = SongProcessor.parseSong(loadRawSong());
+      const diff = SongProcessor.diffSongs(song, structuredClone(song));
+      expect(diff).toEqual({
+        sequenceRows: [], chains: [], phrases: [], instruments: [], tables: [], grooves: [], tempoChanged: false,
+      });
+    });
+
+    it('should report the changed entries', () => {
+      const before = SongProcessor.parseSong(createRandomSong());
+      const after = structuredClone(before);
+      after.sequence[3][2] ^= 1;
+      after.chains[4].allocated = true;
+      after.chains[4].transposes[0] ^= 0x0c;
+      after.phrases[5].allocated = true;
+      after.phrases[5].notes[15] ^= 1;
+      after.instruments[6].allocated = true;
+      after.instruments[6].name[0] ^= 1;
+      after.tables[7].allocated = true;
+      after.tables[7].commandValues2[3] ^= 1;
+      after.grooves[8][0] ^= 1;
+      after.tempo ^= 1;
+
+      expect(SongProcessor.diffSongs(before, after)).toEqual({
+        sequenceRows: [3],
+        chains: [4],
+        phrases: [5],
+        instruments: [6],
+        tables: [7],
+        grooves: [8],
+        tempoChanged: true,
+      });
+    });
+
+    it('should ignore leftover data in entries neither song allocates', () => {
+      const before = SongProcessor.parseSong(createRandomSong());
+      const after = structuredClone(before);
+      before.chains[9].allocated = false;
+      after.chains[9] = { ...before.chains[9], transposes: before.chains[9].transposes.map(value => value ^ 1) };
+      expect(SongProcessor.diffSongs(before, after).chains).toEqual([]);
+
+      after.chains[9].allocated = true;
+      expect(SongProcessor.diffSongs(before, after).chains).toEqual([9]);
+    });
+  });
+});
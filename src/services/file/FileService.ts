@@ -20,6 +20,12 @@ export interface FileLoadOptions {
    * Default is true (ArrayBuffer)
    */
   binary?: boolean;
+
+  /**
+   * Whether more than one file can be selected, see loadFiles
+   * Default is false
+   */
+  multiple?: boolean;
 }
 
 /**
@@ -64,6 +70,12 @@ export interface FileLoadResult {
    * Maximum file size is 10MB
    */
   content: ArrayBuffer | string;
+
+  /**
+   * Why the file could not be loaded, see loadFiles
+   * The content is empty when this is set
+   */
+  error?: string;
 }
 
 /**
@@ -116,10 +128,41 @@ export const FileService = {
     return result.success;
   },
 
+  /**
+   * Opens a file picker dialog and loads the selected file
+   *
+   * @param options - Options for file loading
+   * @returns A promise that resolves to the loaded file, or null if no file was selected
+   *   or it could not be loaded
+   */
   async loadFile(options: FileLoadOptions = {}): Promise<FileLoadResult | null> {
-    const { accept = '', binary = true } = options;
+    const results = await this.loadFiles({ ...options, multiple: false });
+    if (!results || results[0].error) {
+      return null;
+    }
+    return results[0];
+  },
+
+  /**
+   * Opens a file picker dialog and loads the selected files
+   *
+   * @param options - Options for file loading, set multiple to allow selecting several files
+   * @returns A promise that resolves to the loaded files, or null if no file was selected.
+   *   Files over the size limit or that can't be read come back with empty content and an error.
+   */
+  async loadFiles(options: FileLoadOptions = {}): Promise<FileLoadResult[] | null> {
+    const { accept = '', binary = true, multiple = false } = options;
     const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB in bytes
 
+    // Keep a file that could not be loaded so the caller can say why
+    const failedFile = (fileName: string, error: string): FileLoadResult => ({
+      fileName,
+      fileExtension: fileName.split('.').pop()?.toLowerCase() || '',
+      content: binary ? new ArrayBuffer(0) : '',
+      error
+    });
+    const sizeError = `File size exceeds maximum limit of ${MAX_FILE_SIZE / 1024 / 1024}MB`;
+
     // Validate accept parameter
     if (accept && !/^(\.[a-zA-Z0-9]+,?\s*)+$/.test(accept)) {
       throw new Error('Invalid accept parameter format');
@@ -141,37 +184,44 @@ export const FileService = {
               description: 'Supported files',
               accept: { 'application/octet-stream': accept.split(',').map(ext => ext.trim()) }
             }] : undefined,
-            multiple: false
+            multiple
           });
 
           if (!fileHandle || fileHandle.length === 0) {
             return null;
           }
 
-          const file = await fileHandle[0].getFile();
+          const results: FileLoadResult[] = [];
+          for (const handle of fileHandle) {
+            const file = await handle.getFile();
 
-          if (file.size > MAX_FILE_SIZE) {
-            console.warn(`File size exceeds maximum limit of ${MAX_FILE_SIZE / 1024 / 1024}MB`);
-            return null;
-          }
+            if (file.size > MAX_FILE_SIZE) {
+              console.warn(sizeError);
+              results.push(failedFile(file.name, sizeError));
+              continue;
+            }
 
-          const fileName = file.name;
-          const fileExtension = fileName.split('.').pop()?.toLowerCase() || '';
+            const fileName = file.name;
+            const fileExtension = fileName.split('.').pop()?.toLowerCase() || '';
 
-          // Ensure we're properly reading the file content based on the binary flag
-          let content;
-          if (binary) {
-            content = await file.arrayBuffer();
-            // Verify that we got a valid ArrayBuffer
-            if (!(content instanceof ArrayBuffer)) {
-              console.warn('Failed to read file as ArrayBuffer');
-              return null;
+            // Ensure we're properly reading the file content based on the binary flag
+            let content;
+            if (binary) {
+              content = await file.arrayBuffer();
+              // Verify that we got a valid ArrayBuffer
+              if (!(content instanceof ArrayBuffer)) {
+                console.warn('Failed to read file as ArrayBuffer');
+                results.push(failedFile(fileName, 'Failed to read file'));
+                continue;
+              }
+            } else {
+              content = await file.text();
             }
-          } else {
-            content = await file.text();
+
+            results.push({ fileName, fileExtension, content });
           }
 
-          return { fileName, fileExtension, content };
+          return results.length > 0 ? results : null;
         } catch (error) {
           if (error instanceof Error) {
             if (error.name === 'AbortError') {
@@ -201,6 +251,7 @@ export const FileService = {
       return new Promise((resolve) => {
         const input = document.createElement('input');
         input.type = 'file';
+        input.multiple = multiple;
         if (accept) {
           input.accept = accept;
         }
@@ -275,37 +326,38 @@ export const FileService = {
               return;
             }
 
-            const file = files[0];
-            if (file.size > MAX_FILE_SIZE) {
-              console.warn(`File size exceeds maximum limit of ${MAX_FILE_SIZE / 1024 / 1024}MB`);
-              cleanup();
-              resolve(null);
-              return;
-            }
-
-            const fileName = file.name;
-            const fileExtension = fileName.split('.').pop()?.toLowerCase() || '';
+            const results: FileLoadResult[] = [];
+            for (const file of Array.from(files)) {
+              if (file.size > MAX_FILE_SIZE) {
+                console.warn(sizeError);
+                results.push(failedFile(file.name, sizeError));
+                continue;
+              }
 
-            // Ensure we're properly reading the file content based on the binary flag
-            let content;
-            try {
-              if (binary) {
-                content = await file.arrayBuffer();
-                // Verify that we got a valid ArrayBuffer
-                if (!(content instanceof ArrayBuffer)) {
-                  console.warn('Failed to read file as ArrayBuffer');
-                  cleanup();
-                  resolve(null);
-                  return;
+              const fileName = file.name;
+              const fileExtension = fileName.split('.').pop()?.toLowerCase() || '';
+
+              // Ensure we're properly reading the file content based on the binary flag
+              let content;
+              try {
+                if (binary) {
+                  content = await file.arrayBuffer();
+                  // Verify that we got a valid ArrayBuffer
+                  if (!(content instanceof ArrayBuffer)) {
+                    console.warn('Failed to read file as ArrayBuffer');
+                    results.push(failedFile(fileName, 'Failed to read file'));
+                    continue;
+                  }
+                } else {
+                  content = await file.text();
                 }
-              } else {
-                content = await file.text();
+              } catch (readError) {
+                console.error('Error reading file:', readError);
+                results.push(failedFile(fileName, 'Failed to read file'));
+                continue;
               }
-            } catch (readError) {
-              console.error('Error reading file:', readError);
-              cleanup();
-              resolve(null);
-              return;
+
+              results.push({ fileName, fileExtension, content });
             }
 
             // Check if we're on mobile Safari for logging purposes
@@ -313,14 +365,15 @@ export const FileService = {
                                   /WebKit/.test(navigator.userAgent) && 
                                   !/(CriOS|FxiOS|OPiOS|mercury)/.test(navigator.userAgent);
 
+            const fileNames = results.filter(result => !result.error).map(result => result.fileName).join(', ');
             if (isMobileSafari) {
-              console.log(`Mobile Safari: Successfully read file: ${fileName}`);
+              console.log(`Mobile Safari: Successfully read files: ${fileNames}`);
             } else {
-              console.log(`Successfully read file: ${fileName}`);
+              console.log(`Successfully read files: ${fileNames}`);
             }
 
             cleanup();
-            resolve({ fileName, fileExtension, content });
+            resolve(results.length > 0 ? results : null);
           } catch (error) {
             console.error('Error in file input change handler:', error);
             cleanup();
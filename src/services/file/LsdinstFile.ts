@@ -0,0 +1,133 @@
+/**
+ * LsdinstFile.ts
+ *
+ * Reads and writes .lsdinst files: a header, the instrument, then the optional table and
+ * soft synth with its waves.
+ */
+
+import { SongProcessor } from '../binary/SongProcessor';
+import { InstrumentFile, SONG_CONSTANTS, SynthSettings, Table } from '../../types/song';
+
+const LSDINST_MAGIC = 'LSDI';
+const LSDINST_VERSION = 1;
+const LSDINST_HEADER_SIZE = 7; // Magic, file version, song format version, content flags
+const LSDINST_HAS_TABLE = 0x01;
+const LSDINST_HAS_SYNTH = 0x02;
+const INSTRUMENT_SIZE = 16;
+const TABLE_SIZE = 6 * SONG_CONSTANTS.STEP_COUNT;
+const SYNTH_SIZE = 16;
+const SYNTH_WAVE_COUNT = 16;
+
+/**
+ * Field order of the table columns
+ */
+const TABLE_FIELDS: (keyof Omit<Table, 'allocated'>)[] = [
+  'volumes', 'transposes', 'commands1', 'commandValues1', 'commands2', 'commandValues2',
+];
+
+// Size of a file with the given contents
+function getFileSize(hasTable: boolean, hasSynth: boolean): number {
+  return LSDINST_HEADER_SIZE + SONG_CONSTANTS.INSTRUMENT_NAME_LENGTH + INSTRUMENT_SIZE +
+    (hasTable ? TABLE_SIZE : 0) +
+    (hasSynth ? SYNTH_SIZE + SYNTH_WAVE_COUNT * SONG_CONSTANTS.WAVE_SIZE : 0);
+}
+
+/**
+ * Service for reading and writing .lsdinst files
+ */
+export const LsdinstFile = {
+  /**
+   * Create a .lsdinst file holding an instrument
+   *
+   * @param file - The instrument and the data it references
+   * @returns The .lsdinst file data
+   */
+  createLsdinst(file: InstrumentFile): Uint8Array {
+    const hasSynth = file.synth !== null && file.waves !== null;
+    const data = new Uint8Array(getFileSize(file.table !== null, hasSynth));
+
+    data.set(LSDINST_MAGIC.split('').map(ch => ch.charCodeAt(0)), 0);
+    data[4] = LSDINST_VERSION;
+    data[5] = file.formatVersion;
+    data[6] = (file.table ? LSDINST_HAS_TABLE : 0) | (hasSynth ? LSDINST_HAS_SYNTH : 0);
+
+    let offset = LSDINST_HEADER_SIZE;
+    data.set(file.instrument.name.slice(0, SONG_CONSTANTS.INSTRUMENT_NAME_LENGTH), offset);
+    offset += SONG_CONSTANTS.INSTRUMENT_NAME_LENGTH;
+    data.set([file.instrument.type, ...file.instrument.params].slice(0, INSTRUMENT_SIZE), offset);
+    offset += INSTRUMENT_SIZE;
+
+    if (file.table) {
+      for (const field of TABLE_FIELDS) {
+        data.set(file.table[field].slice(0, SONG_CONSTANTS.STEP_COUNT), offset);
+        offset += SONG_CONSTANTS.STEP_COUNT;
+      }
+    }
+
+    if (file.synth && file.waves) {
+      data.set(SongProcessor.encodeSynth(file.synth), offset);
+      offset += SYNTH_SIZE;
+      file.waves.forEach((wave, i) => data.set(wave.slice(0, SONG_CONSTANTS.WAVE_SIZE), offset + i * SONG_CONSTANTS.WAVE_SIZE));
+    }
+
+    return data;
+  },
+
+  /**
+   * Read the instrument in a .lsdinst file
+   *
+   * @param data - The .lsdinst file data
+   * @returns The instrument and the data it references
+   * @throws Error if the file is malformed
+   */
+  readLsdinst(data: Uint8Array): InstrumentFile {
+    const magic = String.fromCharCode(...data.subarray(0, LSDINST_MAGIC.length));
+    if (data.length < LSDINST_HEADER_SIZE || magic !== LSDINST_MAGIC) {
+      throw new Error('Malformed .lsdinst file: missing header');
+    }
+    if (data[4] !== LSDINST_VERSION) {
+      throw new Error(`Unsupported .lsdinst file version: ${data[4]}`);
+    }
+
+    const hasTable = (data[6] & LSDINST_HAS_TABLE) !== 0;
+    const hasSynth = (data[6] & LSDINST_HAS_SYNTH) !== 0;
+    const expectedSize = getFileSize(hasTable, hasSynth);
+    if (data.length !== expectedSize) {
+      throw new Error(`Malformed .lsdinst file: expected ${expectedSize} bytes, got ${data.length}`);
+    }
+
+    // Read `count` entries of `size` bytes starting at `offset`
+    const readEntries = (offset: number, count: number, size: number): number[][] =>
+      Array.from({ length: count }, (_, i) => Array.from(data.subarray(offset + i * size, offset + (i + 1) * size)));
+
+    let offset = LSDINST_HEADER_SIZE;
+    const name = Array.from(data.subarray(offset, offset + SONG_CONSTANTS.INSTRUMENT_NAME_LENGTH));
+    offset += SONG_CONSTANTS.INSTRUMENT_NAME_LENGTH;
+    const instrumentBytes = Array.from(data.subarray(offset, offset + INSTRUMENT_SIZE));
+    offset += INSTRUMENT_SIZE;
+
+    let table: Table | null = null;
+    if (hasTable) {
+      const [volumes, transposes, commands1, commandValues1, commands2, commandValues2] =
+        readEntries(offset, TABLE_FIELDS.length, SONG_CONSTANTS.STEP_COUNT);
+      table = { allocated: true, volumes, transposes, commands1, commandValues1, commands2, commandValues2 };
+      offset += TABLE_SIZE;
+    }
+
+    let synth: SynthSettings | null = null;
+    let waves: number[][] | null = null;
+    if (hasSynth) {
+      synth = SongProcessor.decodeSynth(Array.from(data.subarray(offset, offset + SYNTH_SIZE)));
+      offset += SYNTH_SIZE;
+      waves = readEntries(offset, SYNTH_WAVE_COUNT, SONG_CONSTANTS.WAVE_SIZE);
+    }
+
+    return {
+      formatVersion: data[5],
+      instrument: { allocated: true, name, type: instrumentBytes[0], params: instrumentBytes.slice(1) },
+      table,
+      synth,
+      waves,
+    };
+  },
+};
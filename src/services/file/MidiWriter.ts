@@ -0,0 +1,117 @@
+/**
+ * MidiWriter.ts
+ *
+ * Writes Standard MIDI Files (format 1, one track per part).
+ */
+
+const HEADER_CHUNK_SIZE = 14;
+const TRACK_CHUNK_HEADER_SIZE = 8;
+const FORMAT_MULTI_TRACK = 1;
+
+/**
+ * Types of the meta events used in a MIDI file
+ */
+export const MIDI_META_EVENTS = {
+  TRACK_NAME: 0x03,
+  END_OF_TRACK: 0x2f,
+  TEMPO: 0x51,
+  TIME_SIGNATURE: 0x58,
+};
+
+/**
+ * A MIDI event at a point in a track
+ */
+export interface MidiEvent {
+  /**
+   * The time of the event in ticks from the start of the track
+   */
+  tick: number;
+
+  /**
+   * The event bytes, status byte first. Meta events are written as 0xFF, the type and the
+   * data, without the length, which the writer adds.
+   */
+  data: number[];
+}
+
+/**
+ * A track of a MIDI file
+ */
+export interface MidiTrack {
+  name?: string;
+  events: MidiEvent[];
+}
+
+/**
+ * Encode a number as a MIDI variable length quantity, 7 bits per byte with the most
+ * significant group first
+ */
+function variableLength(value: number): number[] {
+  const bytes = [value & 0x7f];
+  for (value >>>= 7; value > 0; value >>>= 7) {
+    bytes.unshift((value & 0x7f) | 0x80);
+  }
+  return bytes;
+}
+
+/**
+ * Service for writing MIDI files
+ */
+export const MidiWriter = {
+  /**
+   * Create a format 1 MIDI file
+   *
+   * @param tracks - The tracks. Events on the same tick keep their order.
+   * @param ticksPerBeat - The number of ticks in a quarter note
+   * @returns The MIDI file data
+   */
+  createMidi(tracks: MidiTrack[], ticksPerBeat: number): Uint8Array {
+    const trackData = tracks.map(track => {
+      const bytes: number[] = [];
+      const events = [...track.events].sort((a, b) => a.tick - b.tick);
+      if (track.name !== undefined) {
+        const name = Array.from(track.name, ch => ch.charCodeAt(0) & 0x7f);
+        events.unshift({ tick: 0, data: [0xff, MIDI_META_EVENTS.TRACK_NAME, ...name] });
+      }
+      const lastTick = events.length > 0 ? events[events.length - 1].tick : 0;
+      events.push({ tick: lastTick, data: [0xff, MIDI_META_EVENTS.END_OF_TRACK] });
+
+      let tick = 0;
+      for (const event of events) {
+        bytes.push(...variableLength(event.tick - tick));
+        tick = event.tick;
+        if (event.data[0] === 0xff) {
+          bytes.push(0xff, event.data[1], ...variableLength(event.data.length - 2), ...event.data.slice(2));
+        } else {
+          bytes.push(...event.data);
+        }
+      }
+      return bytes;
+    });
+
+    const size = HEADER_CHUNK_SIZE + trackData.reduce((total, data) => total + TRACK_CHUNK_HEADER_SIZE + data.length, 0);
+    const midi = new Uint8Array(size);
+    const view = new DataView(midi.buffer);
+    const writeTag = (offset: number, tag: string) => {
+      for (let i = 0; i < tag.length; i++) {
+        view.setUint8(offset + i, tag.charCodeAt(i));
+      }
+    };
+
+    writeTag(0, 'MThd');
+    view.setUint32(4, HEADER_CHUNK_SIZE - 8);
+    view.setUint16(8, FORMAT_MULTI_TRACK);
+    view.setUint16(10, tracks.length);
+    view.setUint16(12, ticksPerBeat);
+
+    let offset = HEADER_CHUNK_SIZE;
+    for (const data of trackData) {
+      writeTag(offset, 'MTrk');
+      view.setUint32(offset + 4, data.length);
+      midi.set(data, offset + TRACK_CHUNK_HEADER_SIZE);
+      offset += TRACK_CHUNK_HEADER_SIZE + data.length;
+    }
+
+    return midi;
+  },
+};
@@ -0,0 +1,363 @@
+/**
+ * RomPatch.ts
+ *
+ * Creates and applies IPS and BPS patches, so the changes made to a ROM can be shared without
+ * sharing the ROM itself. IPS is the older format most patchers read; BPS also records the
+ * CRC-32 of the ROM it was made from and of the result, so a patch applied to the wrong ROM
+ * is caught.
+ */
+
+import { ZipWriter } from './ZipWriter';
+
+/**
+ * The supported patch formats
+ */
+export type RomPatchFormat = 'ips' | 'bps';
+
+/**
+ * The result of applying a patch
+ */
+export interface AppliedRomPatch {
+  romData: Uint8Array;
+  format: RomPatchFormat;
+  sourceVerified: boolean; // Whether the patch checked that it was made from this ROM
+}
+
+const IPS_HEADER = 'PATCH';
+const IPS_FOOTER = 'EOF';
+const IPS_EOF_OFFSET = 0x454f46; // 'EOF' read as an offset, which can't start a record
+const IPS_MAX_OFFSET = 0xffffff;
+const IPS_MAX_RECORD_SIZE = 0xffff;
+const IPS_MERGE_GAP = 5; // Unchanged bytes a record spans rather than starting a new one
+
+const BPS_HEADER = 'BPS1';
+const BPS_FOOTER_SIZE = 12; // Source, target and patch CRC-32
+const BPS_SOURCE_READ = 0;
+const BPS_TARGET_READ = 1;
+const BPS_SOURCE_COPY = 2;
+const BPS_TARGET_COPY = 3;
+
+// Check whether the bytes at an offset spell out an ASCII string
+function startsWith(data: Uint8Array, text: string, offset = 0): boolean {
+  return Array.from(text).every((ch, i) => data[offset + i] === ch.charCodeAt(0));
+}
+
+// Check whether a byte is the same in both ROMs
+function isUnchanged(source: Uint8Array, target: Uint8Array, offset: number): boolean {
+  return offset < source.length && source[offset] === target[offset];
+}
+
+// Append a BPS variable length number
+function writeBpsNumber(bytes: number[], value: number): void {
+  for (;;) {
+    const low = value % 0x80;
+    value = Math.floor(value / 0x80);
+    if (value === 0) {
+      bytes.push(0x80 | low);
+      return;
+    }
+    bytes.push(low);
+    value--;
+  }
+}
+
+// Append a little endian 32-bit number
+function writeUint32(bytes: number[], value: number): void {
+  bytes.push(value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, (value >>> 24) & 0xff);
+}
+
+// Read a little endian 32-bit number
+function readUint32(data: Uint8Array, offset: number): number {
+  return (data[offset] | (data[offset + 1] << 8) | (data[offset + 2] << 16) | (data[offset + 3] << 24)) >>> 0;
+}
+
+/**
+ * Service for creating and applying ROM patches
+ */
+export const RomPatch = {
+  /**
+   * Create a patch that turns one ROM into another
+   *
+   * @param source - The original ROM
+   * @param target - The modified ROM
+   * @param format - The patch format
+   * @returns The patch file data
+   */
+  create(source: Uint8Array, target: Uint8Array, format: RomPatchFormat): Uint8Array {
+    return format === 'ips' ? this.createIps(source, target) : this.createBps(source, target);
+  },
+
+  /**
+   * Create an IPS patch. Changes a few bytes apart share a record, and a target smaller than
+   * the source is written as the truncation extension after the footer.
+   *
+   * @param source - The original ROM
+   * @param target - The modified ROM
+   * @returns The patch file data
+   * @throws Error if the target is too large for IPS offsets
+   */
+  createIps(source: Uint8Array, target: Uint8Array): Uint8Array {
+    if (target.length > IPS_MAX_OFFSET + 1) {
+      throw new Error('The ROM is too large for an IPS patch');
+    }
+
+    const bytes = Array.from(IPS_HEADER, ch => ch.charCodeAt(0));
+    let offset = 0;
+    while (offset < target.length) {
+      if (isUnchanged(source, target, offset)) {
+        offset++;
+        continue;
+      }
+
+      // A record can't start at the offset that reads as the footer, so start one byte early
+      const start = offset === IPS_EOF_OFFSET ? offset - 1 : offset;
+      let end = offset;
+      let gap = 0;
+      while (end < target.length && end - start < IPS_MAX_RECORD_SIZE && gap <= IPS_MERGE_GAP) {
+        gap = isUnchanged(source, target, end) ? gap + 1 : 0;
+        end++;
+      }
+      while (end > offset && isUnchanged(source, target, end - 1)) {
+        end--;
+      }
+
+      const size = end - start;
+      bytes.push(start >> 16, (start >> 8) & 0xff, start & 0xff, size >> 8, size & 0xff);
+      for (let i = start; i < end; i++) {
+        bytes.push(target[i]);
+      }
+      offset = end;
+    }
+
+    bytes.push(...Array.from(IPS_FOOTER, ch => ch.charCodeAt(0)));
+    if (target.length < source.length) {
+      bytes.push(target.length >> 16, (target.length >> 8) & 0xff, target.length & 0xff);
+    }
+    return new Uint8Array(bytes);
+  },
+
+  /**
+   * Create a BPS patch from runs of unchanged and changed bytes
+   *
+   * @param source - The original ROM
+   * @param target - The modified ROM
+   * @returns The patch file data
+   */
+  createBps(source: Uint8Array, target: Uint8Array): Uint8Array {
+    const bytes = Array.from(BPS_HEADER, ch => ch.charCodeAt(0));
+    writeBpsNumber(bytes, source.length);
+    writeBpsNumber(bytes, target.length);
+    writeBpsNumber(bytes, 0); // No metadata
+
+    let offset = 0;
+    while (offset < target.length) {
+      const unchanged = isUnchanged(source, target, offset);
+      let end = offset + 1;
+      while (end < target.length && isUnchanged(source, target, end) === unchanged) {
+        end++;
+      }
+
+      writeBpsNumber(bytes, (end - offset - 1) * 4 + (unchanged ? BPS_SOURCE_READ : BPS_TARGET_READ));
+      if (!unchanged) {
+        for (let i = offset; i < end; i++) {
+          bytes.push(target[i]);
+        }
+      }
+      offset = end;
+    }
+
+    writeUint32(bytes, ZipWriter.crc32(source));
+    writeUint32(bytes, ZipWriter.crc32(target));
+    writeUint32(bytes, ZipWriter.crc32(new Uint8Array(bytes)));
+    return new Uint8Array(bytes);
+  },
+
+  /**
+   * Detect the format of a patch from its header
+   *
+   * @param patch - The patch file data
+   * @returns The format, or null if it isn't a supported patch
+   */
+  detectFormat(patch: Uint8Array): RomPatchFormat | null {
+    if (startsWith(patch, IPS_HEADER)) {
+      return 'ips';
+    }
+    return startsWith(patch, BPS_HEADER) ? 'bps' : null;
+  },
+
+  /**
+   * Apply a patch of either format to a ROM
+   *
+   * @param source - The ROM to patch. It isn't modified.
+   * @param patch - The patch file data
+   * @returns The patched ROM and whether the patch verified the source ROM
+   * @throws Error if the patch is malformed or, for BPS, made from a different ROM
+   */
+  apply(source: Uint8Array, patch: Uint8Array): AppliedRomPatch {
+    const format = this.detectFormat(patch);
+    if (format === 'ips') {
+      return { romData: this.applyIps(source, patch), format, sourceVerified: false };
+    }
+    if (format === 'bps') {
+      return { romData: this.applyBps(source, patch), format, sourceVerified: true };
+    }
+    throw new Error('Not an IPS or BPS patch');
+  },
+
+  /**
+   * Apply an IPS patch, including run length records and the truncation extension
+   *
+   * @param source - The ROM to patch. It isn't modified.
+   * @param patch - The patch file data
+   * @returns The patched ROM
+   * @throws Error if the patch is malformed
+   */
+  applyIps(source: Uint8Array, patch: Uint8Array): Uint8Array {
+    if (!startsWith(patch, IPS_HEADER)) {
+      throw new Error('Malformed IPS patch: bad header');
+    }
+
+    let output = source.slice();
+    let length = source.length;
+    // Grow the output for records past the end of the ROM
+    const reserve = (end: number) => {
+      if (end > output.length) {
+        const grown = new Uint8Array(Math.max(end, output.length * 2));
+        grown.set(output);
+        output = grown;
+      }
+      length = Math.max(length, end);
+    };
+
+    let pos = IPS_HEADER.length;
+    for (;;) {
+      if (pos + IPS_FOOTER.length > patch.length) {
+        throw new Error('Malformed IPS patch: the footer is missing');
+      }
+      if (startsWith(patch, IPS_FOOTER, pos)) {
+        pos += IPS_FOOTER.length;
+        break;
+      }
+      if (pos + 5 > patch.length) {
+        throw new Error('Malformed IPS patch: a record is truncated');
+      }
+
+      const offset = (patch[pos] << 16) | (patch[pos + 1] << 8) | patch[pos + 2];
+      const size = (patch[pos + 3] << 8) | patch[pos + 4];
+      pos += 5;
+      if (size === 0) {
+        // Run length record: a 2-byte count and the byte to repeat
+        if (pos + 3 > patch.length) {
+          throw new Error('Malformed IPS patch: a record is truncated');
+        }
+        const count = (patch[pos] << 8) | patch[pos + 1];
+        reserve(offset + count);
+        output.fill(patch[pos + 2], offset, offset + count);
+        pos += 3;
+      } else {
+        if (pos + size > patch.length) {
+          throw new Error('Malformed IPS patch: a record is truncated');
+        }
+        reserve(offset + size);
+        output.set(patch.subarray(pos, pos + size), offset);
+        pos += size;
+      }
+    }
+
+    // Truncation extension
+    if (pos + 3 <= patch.length) {
+      length = Math.min(length, (patch[pos] << 16) | (patch[pos + 1] << 8) | patch[pos + 2]);
+    }
+    return output.slice(0, length);
+  },
+
+  /**
+   * Apply a BPS patch after checking that it was made from this ROM
+   *
+   * @param source - The ROM to patch. It isn't modified.
+   * @param patch - The patch file data
+   * @returns The patched ROM
+   * @throws Error if the patch is malformed, made from a different ROM, or gives a different result
+   */
+  applyBps(source: Uint8Array, patch: Uint8Array): Uint8Array {
+    if (!startsWith(patch, BPS_HEADER) || patch.length < BPS_HEADER.length + BPS_FOOTER_SIZE) {
+      throw new Error('Malformed BPS patch: bad header');
+    }
+    const footer = patch.length - BPS_FOOTER_SIZE;
+    if (ZipWriter.crc32(patch.subarray(0, footer + 8)) !== readUint32(patch, footer + 8)) {
+      throw new Error('The BPS patch is damaged: it does not match its checksum');
+    }
+
+    let pos = BPS_HEADER.length;
+    const readNumber = (): number => {
+      let value = 0;
+      let shift = 1;
+      for (;;) {
+        if (pos >= footer) {
+          throw new Error('Malformed BPS patch: a number is truncated');
+        }
+        const byte = patch[pos++];
+        value += (byte & 0x7f) * shift;
+        if (byte & 0x80) {
+          return value;
+        }
+        shift *= 0x80;
+        value += shift;
+      }
+    };
+
+    const sourceSize = readNumber();
+    const targetSize = readNumber();
+    const metadataSize = readNumber();
+    pos += metadataSize; // Skip the metadata
+
+    if (source.length !== sourceSize || ZipWriter.crc32(source) !== readUint32(patch, footer)) {
+      throw new Error('The patch was made from a different ROM: the source checksum does not match');
+    }
+
+    const output = new Uint8Array(targetSize);
+    let outputOffset = 0;
+    let sourceRelative = 0;
+    let targetRelative = 0;
+    const readRelative = (): number => {
+      const value = readNumber();
+      return (value & 1 ? -1 : 1) * Math.floor(value / 2);
+    };
+
+    while (pos < footer) {
+      const action = readNumber();
+      const length = Math.floor(action / 4) + 1;
+      if (outputOffset + length > targetSize) {
+        throw new Error('Malformed BPS patch: it writes past the end of the ROM');
+      }
+
+      switch (action & 3) {
+        case BPS_SOURCE_READ:
+          output.set(source.subarray(outputOffset, outputOffset + length), outputOffset);
+          break;
+        case BPS_TARGET_READ:
+          output.set(patch.subarray(pos, pos + length), outputOffset);
+          pos += length;
+          break;
+        case BPS_SOURCE_COPY:
+          sourceRelative += readRelative();
+          output.set(source.subarray(sourceRelative, sourceRelative + length), outputOffset);
+          sourceRelative += length;
+          break;
+        case BPS_TARGET_COPY:
+          targetRelative += readRelative();
+          // Byte by byte, since the copy may overlap the bytes it writes
+          for (let i = 0; i < length; i++) {
+            output[outputOffset + i] = output[targetRelative++];
+          }
+          break;
+      }
+      outputOffset += length;
+    }
+
+    if (ZipWriter.crc32(output) !== readUint32(patch, footer + 4)) {
+      throw new Error('The patched ROM does not match the target checksum of the BPS patch');
+    }
+    return output;
+  },
+};
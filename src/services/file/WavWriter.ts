@@ -0,0 +1,55 @@
+/**
+ * WavWriter.ts
+ *
+ * Writes 16-bit PCM audio as a WAV file.
+ */
+
+const RIFF_HEADER_SIZE = 12;
+const FORMAT_CHUNK_SIZE = 24;
+const DATA_CHUNK_HEADER_SIZE = 8;
+const PCM_FORMAT = 1;
+const BITS_PER_SAMPLE = 16;
+
+/**
+ * Service for writing WAV files
+ */
+export const WavWriter = {
+  /**
+   * Create a WAV file holding 16-bit PCM samples
+   *
+   * @param samples - The samples, interleaved if there is more than one channel
+   * @param sampleRate - The sample rate in Hz
+   * @param channelCount - The number of channels
+   * @returns The WAV file data
+   */
+  createWav(samples: Int16Array, sampleRate: number, channelCount: number = 1): Uint8Array {
+    const blockAlign = channelCount * BITS_PER_SAMPLE / 8;
+    const dataSize = samples.length * 2;
+    const wav = new Uint8Array(RIFF_HEADER_SIZE + FORMAT_CHUNK_SIZE + DATA_CHUNK_HEADER_SIZE + dataSize);
+    const view = new DataView(wav.buffer);
+    const writeTag = (offset: number, tag: string) => {
+      for (let i = 0; i < tag.length; i++) {
+        view.setUint8(offset + i, tag.charCodeAt(i));
+      }
+    };
+
+    writeTag(0, 'RIFF');
+    view.setUint32(4, wav.length - 8, true);
+    writeTag(8, 'WAVE');
+
+    writeTag(12, 'fmt ');
+    view.setUint32(16, FORMAT_CHUNK_SIZE - 8, true);
+    view.setUint16(20, PCM_FORMAT, true);
+    view.setUint16(22, channelCount, true);
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * blockAlign, true); // Byte rate
+    view.setUint16(32, blockAlign, true);
+    view.setUint16(34, BITS_PER_SAMPLE, true);
+
+    writeTag(36, 'data');
+    view.setUint32(40, dataSize, true);
+    samples.forEach((sample, i) => view.setInt16(44 + i * 2, sample, true));
+
+    return wav;
+  },
+};
@@ -0,0 +1,144 @@
+/**
+ * ZipReader.ts
+ *
+ * Reads the files in a zip archive. Stored files are copied out directly and deflated files
+ * are inflated with the browser's DecompressionStream, so no zip library is needed.
+ */
+
+import { ZipEntry, ZipWriter } from './ZipWriter';
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const LOCAL_FILE_HEADER_SIZE = 30;
+const CENTRAL_DIRECTORY_HEADER_SIZE = 46;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const MAX_COMMENT_LENGTH = 0xffff;
+const ENCRYPTED_FLAG = 0x0001;
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+/**
+ * Inflate raw deflate data
+ *
+ * @param data - The deflated data
+ * @returns The inflated data
+ */
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new DecompressionStream('deflate-raw');
+  const writer = stream.writable.getWriter();
+  // Reading below drains the stream, so don't wait for the writes first
+  writer.write(data).catch(() => {});
+  writer.close().catch(() => {});
+
+  const chunks: Uint8Array[] = [];
+  const reader = stream.readable.getReader();
+  for (let result = await reader.read(); !result.done; result = await reader.read()) {
+    chunks.push(result.value);
+  }
+
+  const inflated = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    inflated.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return inflated;
+}
+
+/**
+ * Service for reading zip archives
+ */
+export const ZipReader = {
+  /**
+   * Check whether data starts like a zip archive
+   *
+   * @param data - The file contents
+   * @returns True if the data starts with a zip local file header
+   */
+  isZip(data: Uint8Array): boolean {
+    return data.length >= 4 && new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(0, true) === LOCAL_FILE_HEADER_SIGNATURE;
+  },
+
+  /**
+   * Read every file in a zip archive. Directories are left out.
+   *
+   * @param data - The zip archive
+   * @returns The files, in the order of the central directory
+   * @throws Error if the archive is malformed, encrypted, uses an unsupported compression
+   *   method or a file doesn't match its checksum
+   */
+  async readZip(data: Uint8Array): Promise<ZipEntry[]> {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+    // The end of central directory record is followed by a comment of up to 64KB
+    let end = -1;
+    const searchStart = Math.max(0, data.length - END_OF_CENTRAL_DIRECTORY_SIZE - MAX_COMMENT_LENGTH);
+    for (let i = data.length - END_OF_CENTRAL_DIRECTORY_SIZE; i >= searchStart; i--) {
+      if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+        end = i;
+        break;
+      }
+    }
+    if (end === -1) {
+      throw new Error('Malformed zip archive: end of central directory not found');
+    }
+
+    const entryCount = view.getUint16(end + 10, true);
+    let offset = view.getUint32(end + 16, true);
+    const decoder = new TextDecoder();
+    const entries: ZipEntry[] = [];
+
+    for (let i = 0; i < entryCount; i++) {
+      if (offset + CENTRAL_DIRECTORY_HEADER_SIZE > data.length || view.getUint32(offset, true) !== CENTRAL_DIRECTORY_SIGNATURE) {
+        throw new Error('Malformed zip archive: bad central directory entry');
+      }
+
+      const flags = view.getUint16(offset + 8, true);
+      const method = view.getUint16(offset + 10, true);
+      const checksum = view.getUint32(offset + 16, true);
+      const compressedSize = view.getUint32(offset + 20, true);
+      const size = view.getUint32(offset + 24, true);
+      const nameLength = view.getUint16(offset + 28, true);
+      const extraLength = view.getUint16(offset + 30, true);
+      const commentLength = view.getUint16(offset + 32, true);
+      const localOffset = view.getUint32(offset + 42, true);
+      const name = decoder.decode(data.subarray(offset + CENTRAL_DIRECTORY_HEADER_SIZE, offset + CENTRAL_DIRECTORY_HEADER_SIZE + nameLength));
+      offset += CENTRAL_DIRECTORY_HEADER_SIZE + nameLength + extraLength + commentLength;
+
+      if (name.endsWith('/')) {
+        continue;
+      }
+      if (flags & ENCRYPTED_FLAG) {
+        throw new Error(`Encrypted zip entries are not supported: ${name}`);
+      }
+
+      if (localOffset + LOCAL_FILE_HEADER_SIZE > data.length || view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER_SIGNATURE) {
+        throw new Error(`Malformed zip archive: bad local header for ${name}`);
+      }
+      const dataOffset = localOffset + LOCAL_FILE_HEADER_SIZE +
+        view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      if (dataOffset + compressedSize > data.length) {
+        throw new Error(`Malformed zip archive: ${name} is truncated`);
+      }
+      const compressed = data.subarray(dataOffset, dataOffset + compressedSize);
+
+      let contents: Uint8Array;
+      if (method === METHOD_STORED) {
+        contents = compressed.slice();
+      } else if (method === METHOD_DEFLATED) {
+        contents = await inflateRaw(compressed);
+      } else {
+        throw new Error(`Unsupported zip compression method ${method} for ${name}`);
+      }
+
+      if (contents.length !== size || ZipWriter.crc32(contents) !== checksum) {
+        throw new Error(`Zip entry ${name} does not match its checksum`);
+      }
+
+      entries.push({ name, data: contents });
+    }
+
+    return entries;
+  },
+};
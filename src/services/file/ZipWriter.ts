@@ -0,0 +1,129 @@
+/**
+ * ZipWriter.ts
+ *
+ * Writes zip archives without compression, so several exported files can be saved at once
+ * without depending on a zip library.
+ */
+
+/**
+ * A file to store in a zip archive
+ */
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const LOCAL_FILE_HEADER_SIZE = 30;
+const CENTRAL_DIRECTORY_HEADER_SIZE = 46;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const VERSION_NEEDED = 20; // 2.0, the lowest version readers check for
+const UTF8_NAME_FLAG = 0x0800;
+const METHOD_STORED = 0;
+
+// CRC-32 lookup table for the zip polynomial
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+    }
+    table[i] = crc >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Service for writing zip archives
+ */
+export const ZipWriter = {
+  /**
+   * Calculate the CRC-32 checksum zip uses for file contents
+   *
+   * @param data - The data to check
+   * @returns The checksum
+   */
+  crc32(data: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+      crc = CRC32_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+  },
+
+  /**
+   * Create a zip archive holding the given files uncompressed
+   *
+   * @param entries - The files to store, in order
+   * @param date - The modification time to store for every file
+   * @returns The zip archive
+   * @throws Error if there are more files than a zip archive without extensions can hold
+   */
+  createZip(entries: ZipEntry[], date: Date = new Date()): Uint8Array {
+    if (entries.length > 0xffff) {
+      throw new Error('Too many files for a zip archive');
+    }
+
+    // MS-DOS time and date, with two second resolution and years from 1980
+    const dosTime = (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1);
+    const dosDate = (Math.max(date.getFullYear() - 1980, 0) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+
+    const encoder = new TextEncoder();
+    const names = entries.map(entry => encoder.encode(entry.name));
+    const localSize = entries.reduce((size, entry, i) => size + LOCAL_FILE_HEADER_SIZE + names[i].length + entry.data.length, 0);
+    const centralSize = names.reduce((size, name) => size + CENTRAL_DIRECTORY_HEADER_SIZE + name.length, 0);
+
+    const zip = new Uint8Array(localSize + centralSize + END_OF_CENTRAL_DIRECTORY_SIZE);
+    const view = new DataView(zip.buffer);
+    const localOffsets: number[] = [];
+    const checksums: number[] = [];
+    let offset = 0;
+
+    // Fields shared by the local and central headers, from "version needed" to the name length
+    const writeCommonFields = (at: number, i: number) => {
+      view.setUint16(at, VERSION_NEEDED, true);
+      view.setUint16(at + 2, UTF8_NAME_FLAG, true);
+      view.setUint16(at + 4, METHOD_STORED, true);
+      view.setUint16(at + 6, dosTime, true);
+      view.setUint16(at + 8, dosDate, true);
+      view.setUint32(at + 10, checksums[i], true);
+      view.setUint32(at + 14, entries[i].data.length, true); // Compressed size
+      view.setUint32(at + 18, entries[i].data.length, true); // Uncompressed size
+      view.setUint16(at + 22, names[i].length, true);
+    };
+
+    entries.forEach((entry, i) => {
+      localOffsets.push(offset);
+      checksums.push(this.crc32(entry.data));
+
+      view.setUint32(offset, LOCAL_FILE_HEADER_SIGNATURE, true);
+      writeCommonFields(offset + 4, i);
+      zip.set(names[i], offset + LOCAL_FILE_HEADER_SIZE);
+      offset += LOCAL_FILE_HEADER_SIZE + names[i].length;
+
+      zip.set(entry.data, offset);
+      offset += entry.data.length;
+    });
+
+    const centralOffset = offset;
+    entries.forEach((_, i) => {
+      view.setUint32(offset, CENTRAL_DIRECTORY_SIGNATURE, true);
+      view.setUint16(offset + 4, VERSION_NEEDED, true); // Version made by
+      writeCommonFields(offset + 6, i);
+      view.setUint32(offset + 42, localOffsets[i], true);
+      zip.set(names[i], offset + CENTRAL_DIRECTORY_HEADER_SIZE);
+      offset += CENTRAL_DIRECTORY_HEADER_SIZE + names[i].length;
+    });
+
+    view.setUint32(offset, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+    view.setUint16(offset + 8, entries.length, true); // Entries on this disk
+    view.setUint16(offset + 10, entries.length, true); // Total entries
+    view.setUint32(offset + 12, centralSize, true);
+    view.setUint32(offset + 16, centralOffset, true);
+
+    return zip;
+  },
+};
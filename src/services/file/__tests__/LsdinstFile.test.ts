@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { LsdinstFile } from '../LsdinstFile';
+import { SongProcessor } from '../../binary/SongProcessor';
+import { INSTRUMENT_TYPES, InstrumentFile } from '../../../types/song';
+
+describe('LsdinstFile', () => {
+  // Create a counting row of 16 bytes starting at `start`
+  const row = (start: number): number[] => Array.from({ length: 16 }, (_, i) => (start + i) & 0xff);
+
+  // Create a wave instrument with a table and a soft synth
+  const createInstrumentFile = (): InstrumentFile => ({
+    formatVersion: 22,
+    instrument: { allocated: true, name: [0x57, 0x41, 0x56, 0x45, 0x00], type: INSTRUMENT_TYPES.WAVE, params: row(1).slice(0, 15) },
+    table: {
+      allocated: true,
+      volumes: row(0x10),
+      transposes: row(0x20),
+      commands1: row(0x30),
+      commandValues1: row(0x40),
+      commands2: row(0x50),
+      commandValues2: row(0x60),
+    },
+    synth: SongProcessor.decodeSynth(row(0x70)),
+    waves: Array.from({ length: 16 }, (_, i) => row(i * 16)),
+  });
+
+  it('should round trip an instrument with its table and synth', () => {
+    const file = createInstrumentFile();
+    const data = LsdinstFile.createLsdinst(file);
+
+    expect(String.fromCharCode(...data.subarray(0, 4))).toBe('LSDI');
+    expect(data.length).toBe(7 + 5 + 16 + 96 + 16 + 256);
+    expect(LsdinstFile.readLsdinst(data)).toEqual(file);
+  });
+
+  it('should round trip an instrument without a table or synth', () => {
+    const file = { ...createInstrumentFile(), table: null, synth: null, waves: null };
+    const data = LsdinstFile.createLsdinst(file);
+
+    expect(data.length).toBe(7 + 5 + 16);
+    expect(LsdinstFile.readLsdinst(data)).toEqual(file);
+  });
+
+  it('should reject malformed files', () => {
+    expect(() => LsdinstFile.readLsdinst(new Uint8Array(10))).toThrow('missing header');
+
+    const data = LsdinstFile.createLsdinst(createInstrumentFile());
+    expect(() => LsdinstFile.readLsdinst(data.subarray(0, 100))).toThrow('expected');
+
+    data[4] = 2;
+    expect(() => LsdinstFile.readLsdinst(data)).toThrow('Unsupported .lsdinst file version: 2');
+  });
+});
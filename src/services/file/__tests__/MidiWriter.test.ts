@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { MIDI_META_EVENTS, MidiWriter } from '../MidiWriter';
+
+describe('MidiWriter', () => {
+  it('should write a format 1 header and delta-timed tracks', () => {
+    const midi = MidiWriter.createMidi([
+      { name: 'AB', events: [{ tick: 0, data: [0xff, MIDI_META_EVENTS.TEMPO, 0x07, 0xa1, 0x20] }] },
+      {
+        events: [
+          { tick: 200, data: [0x80, 60, 0] },
+          { tick: 0, data: [0x90, 60, 100] },
+        ],
+      },
+    ], 96);
+
+    expect(Array.from(midi)).toEqual([
+      // MThd, length 6, format 1, 2 tracks, 96 ticks per beat
+      0x4d, 0x54, 0x68, 0x64, 0, 0, 0, 6, 0, 1, 0, 2, 0, 96,
+      // MTrk with the track name, the tempo and the end of the track
+      0x4d, 0x54, 0x72, 0x6b, 0, 0, 0, 17,
+      0, 0xff, 0x03, 2, 0x41, 0x42,
+      0, 0xff, 0x51, 3, 0x07, 0xa1, 0x20,
+      0, 0xff, 0x2f, 0,
+      // MTrk with the events sorted by tick and 200 written as a two byte delta
+      0x4d, 0x54, 0x72, 0x6b, 0, 0, 0, 13,
+      0, 0x90, 60, 100,
+      0x81, 0x48, 0x80, 60, 0,
+      0, 0xff, 0x2f, 0,
+    ]);
+  });
+});
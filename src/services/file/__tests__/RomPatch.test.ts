@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { RomPatch } from '../RomPatch';
+import { ZipWriter } from '../ZipWriter';
+
+describe('RomPatch', () => {
+  // Create a ROM-like buffer with a repeating pattern
+  const createRom = (length: number): Uint8Array => new Uint8Array(length).map((_, i) => (i * 7) & 0xff);
+
+  // Change a few scattered bytes and a longer run
+  const modify = (rom: Uint8Array): Uint8Array => {
+    const target = rom.slice();
+    target[0] ^= 0xff;
+    target[100] = 1;
+    target[103] = 2;
+    target.fill(0x42, 5000, 5300);
+    target[rom.length - 1] ^= 0x01;
+    return target;
+  };
+
+  // Compare byte arrays (toEqual is slow on large arrays)
+  const expectSameBytes = (actual: Uint8Array, expected: Uint8Array): void => {
+    expect(actual.length).toBe(expected.length);
+    expect(Buffer.from(actual).equals(Buffer.from(expected))).toBe(true);
+  };
+
+  it('should round trip changes through both formats', () => {
+    const source = createRom(0x10000);
+    const target = modify(source);
+
+    for (const format of ['ips', 'bps'] as const) {
+      const patch = RomPatch.create(source, target, format);
+      expect(RomPatch.detectFormat(patch)).toBe(format);
+      expect(patch.length).toBeLessThan(400);
+
+      const applied = RomPatch.apply(source, patch);
+      expect(applied.format).toBe(format);
+      expect(applied.sourceVerified).toBe(format === 'bps');
+      expectSameBytes(applied.romData, target);
+    }
+  });
+
+  it('should handle ROMs that grow or shrink', () => {
+    const source = createRom(1000);
+    const longer = new Uint8Array(1500);
+    longer.set(source);
+    longer.fill(0x99, 1000);
+    const shorter = source.slice(0, 600);
+
+    for (const target of [longer, shorter]) {
+      expectSameBytes(RomPatch.applyIps(source, RomPatch.createIps(source, target)), target);
+      expectSameBytes(RomPatch.applyBps(source, RomPatch.createBps(source, target)), target);
+    }
+  });
+
+  it('should apply IPS run length records', () => {
+    const patch = new Uint8Array([
+      ...Array.from('PATCH', ch => ch.charCodeAt(0)),
+      0x00, 0x00, 0x02, 0x00, 0x00, 0x00, 0x03, 0xaa, // Fill 3 bytes at 2 with 0xaa
+      ...Array.from('EOF', ch => ch.charCodeAt(0)),
+    ]);
+    expect(Array.from(RomPatch.applyIps(new Uint8Array(6), patch))).toEqual([0, 0, 0xaa, 0xaa, 0xaa, 0]);
+  });
+
+  it('should apply BPS source and target copies', () => {
+    const source = new Uint8Array([1, 2, 3, 4]);
+    const target = new Uint8Array([3, 4, 3, 4, 3, 4]);
+    const bytes = [
+      ...Array.from('BPS1', ch => ch.charCodeAt(0)),
+      0x84, 0x86, 0x80, // Source size 4, target size 6, no metadata
+      0x86, 0x84, // Copy 2 bytes from source offset 2
+      0x8f, 0x80, // Copy 4 bytes from target offset 0
+    ];
+    const footer = [ZipWriter.crc32(source), ZipWriter.crc32(target)];
+    footer.forEach(crc => bytes.push(crc & 0xff, (crc >>> 8) & 0xff, (crc >>> 16) & 0xff, crc >>> 24));
+    const crc = ZipWriter.crc32(new Uint8Array(bytes));
+    bytes.push(crc & 0xff, (crc >>> 8) & 0xff, (crc >>> 16) & 0xff, crc >>> 24);
+
+    expect(Array.from(RomPatch.applyBps(source, new Uint8Array(bytes)))).toEqual(Array.from(target));
+  });
+
+  it('should reject BPS patches made from another ROM and damaged patches', () => {
+    const source = createRom(0x1000);
+    const patch = RomPatch.createBps(source, modify(source));
+
+    const otherRom = source.slice();
+    otherRom[10] ^= 0xff;
+    expect(() => RomPatch.apply(otherRom, patch)).toThrow(/different ROM/);
+
+    const damaged = patch.slice();
+    damaged[10] ^= 0xff;
+    expect(() => RomPatch.apply(source, damaged)).toThrow(/damaged/);
+
+    expect(() => RomPatch.apply(source, new Uint8Array([1, 2, 3]))).toThrow(/Not an IPS or BPS patch/);
+    expect(() => RomPatch.applyIps(source, RomPatch.createIps(source, modify(source)).subarray(0, 20))).toThrow(/Malformed IPS/);
+  });
+});
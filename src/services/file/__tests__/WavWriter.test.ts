@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { WavWriter } from '../WavWriter';
+
+describe('WavWriter', () => {
+  it('should write a 16-bit PCM WAV header followed by the samples', () => {
+    const samples = new Int16Array([0, 1000, -1000, 32767, -32768]);
+    const wav = WavWriter.createWav(samples, 22050);
+    const view = new DataView(wav.buffer);
+    const tag = (offset: number) => new TextDecoder().decode(wav.subarray(offset, offset + 4));
+
+    expect(wav.length).toBe(44 + 10);
+    expect(tag(0)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(wav.length - 8);
+    expect(tag(8)).toBe('WAVE');
+    expect(tag(12)).toBe('fmt ');
+    expect(view.getUint16(20, true)).toBe(1);
+    expect(view.getUint16(22, true)).toBe(1);
+    expect(view.getUint32(24, true)).toBe(22050);
+    expect(view.getUint32(28, true)).toBe(44100);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(tag(36)).toBe('data');
+    expect(view.getUint32(40, true)).toBe(10);
+    expect(Array.from(samples, (_, i) => view.getInt16(44 + i * 2, true))).toEqual(Array.from(samples));
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { ZipReader } from '../ZipReader';
+import { ZipWriter } from '../ZipWriter';
+
+// A deflated zip with a directory entry, songs/TRI.01.lsdprj holding 'LSDJ' 64 times and
+// an archive comment, as written by Python's zipfile
+const DEFLATED_ZIP = 'UEsDBBQAAAAIACl8U10AAAAAAgAAAAAAAAAGAAAAc29uZ3MvAwBQSwMEFAAAAAgAAAAhWMDD2ukJAAAAAAEAABMAAABzb25ncy9UUkkuMDEubHNkcHJq8wl28fIZwRgAUEsBAhQDFAAAAAgAKXxTXQAAAAACAAAAAAAAAAYAAAAAAAAAAAAQAP1BAAAAAHNvbmdzL1BLAQIUAxQAAAAIAAAAIVjAw9rpCQAAAAABAAATAAAAAAAAAAAAAACAASYAAABzb25ncy9UUkkuMDEubHNkcHJqUEsFBgAAAAACAAIAdQAAAGAAAAAGAGJhY2t1cA==';
+
+const fromBase64 = (data: string): Uint8Array => Uint8Array.from(atob(data), ch => ch.charCodeAt(0));
+
+describe('ZipReader', () => {
+  it('should read back archives written by ZipWriter', async () => {
+    const songA = new Uint8Array([1, 2, 3, 0xe0, 0xff]);
+    const songB = new Uint8Array(600).fill(0xc0);
+    const zip = ZipWriter.createZip([
+      { name: 'TRI.01.lsdprj', data: songA },
+      { name: 'BASS.0A.lsdprj', data: songB },
+    ]);
+
+    expect(ZipReader.isZip(zip)).toBe(true);
+    const entries = await ZipReader.readZip(zip);
+    expect(entries.map(entry => entry.name)).toEqual(['TRI.01.lsdprj', 'BASS.0A.lsdprj']);
+    expect(Array.from(entries[0].data)).toEqual(Array.from(songA));
+    expect(Array.from(entries[1].data)).toEqual(Array.from(songB));
+  });
+
+  it('should inflate deflated entries and skip directories', async () => {
+    const entries = await ZipReader.readZip(fromBase64(DEFLATED_ZIP));
+    expect(entries.map(entry => entry.name)).toEqual(['songs/TRI.01.lsdprj']);
+    expect(new TextDecoder().decode(entries[0].data)).toBe('LSDJ'.repeat(64));
+  });
+
+  it('should reject damaged archives', async () => {
+    const zip = ZipWriter.createZip([{ name: 'A', data: new Uint8Array([1, 2, 3]) }]);
+    zip[30 + 1] ^= 0xff;
+    await expect(ZipReader.readZip(zip)).rejects.toThrow(/checksum/);
+
+    expect(ZipReader.isZip(new Uint8Array([0x4c, 0x53, 0x44, 0x4a]))).toBe(false);
+    await expect(ZipReader.readZip(new Uint8Array(100))).rejects.toThrow(/end of central directory/);
+  });
+});
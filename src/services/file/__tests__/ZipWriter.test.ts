@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { ZipWriter } from '../ZipWriter';
+
+// Read the files back through the central directory, like an unzip tool would
+const readZip = (zip: Uint8Array): { name: string; data: Uint8Array; crc: number }[] => {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const end = zip.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const files = [];
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(offset, true)).toBe(0x02014b50);
+    const crc = view.getUint32(offset + 16, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = new TextDecoder().decode(zip.subarray(offset + 46, offset + 46 + nameLength));
+
+    expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+    const dataOffset = localOffset + 30 + view.getUint16(localOffset + 26, true);
+    files.push({ name, data: zip.subarray(dataOffset, dataOffset + size), crc });
+    offset += 46 + nameLength;
+  }
+  return files;
+};
+
+describe('ZipWriter', () => {
+  it('should calculate the zip CRC-32', () => {
+    expect(ZipWriter.crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+    expect(ZipWriter.crc32(new Uint8Array(0))).toBe(0);
+  });
+
+  it('should store files that can be read back', () => {
+    const songA = new Uint8Array([1, 2, 3, 0xe0, 0xff]);
+    const songB = new Uint8Array(1024).fill(0xc0);
+    const zip = ZipWriter.createZip([
+      { name: 'TRI.01.lsdprj', data: songA },
+      { name: 'BASS.0A.lsdprj', data: songB },
+    ], new Date(2024, 4, 17, 12, 30, 10));
+
+    const files = readZip(zip);
+    expect(files.map(file => file.name)).toEqual(['TRI.01.lsdprj', 'BASS.0A.lsdprj']);
+    expect(Array.from(files[0].data)).toEqual(Array.from(songA));
+    expect(files[1].data.length).toBe(1024);
+    expect(files[0].crc).toBe(ZipWriter.crc32(songA));
+
+    // MS-DOS time and date of the first local header
+    const view = new DataView(zip.buffer);
+    expect(view.getUint16(10, true)).toBe((12 << 11) | (30 << 5) | 5);
+    expect(view.getUint16(12, true)).toBe((44 << 9) | (5 << 5) | 17);
+  });
+
+  it('should write an empty archive', () => {
+    const zip = ZipWriter.createZip([]);
+    expect(zip.length).toBe(22);
+    expect(readZip(zip)).toEqual([]);
+  });
+});
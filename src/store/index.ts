@@ -8,8 +8,8 @@ export { useAppDispatch, useAppSelector } from './hooks';
 export type { RootState, AppDispatch } from './store';
 
 // Export actions from slices
-export { loadRomFile, exportRomFile, clearRomData } from './slices/romSlice';
-export { loadSaveFile, exportSong, exportSaveFile, selectSong, clearSaveFileData, removeSong, importSong } from './slices/saveFileSlice';
+export { loadRomFile, exportRomFile, exportRomPatch, importRomPatch, upgradeRom, clearRomData } from './slices/romSlice';
+export { loadSaveFile, exportSong, exportSaveFile, selectSong, clearSaveFileData, removeSong, importSong, defragmentSaveFile, saveWorkingSong, loadSongToWorkingMemory, exportInstrument, importInstrument, verifySaveFile, repairSaveFile, loadMergeSource, mergeSongs, clearMergeSource, moveSong, swapSongs, renameSong, exportAllSongs, loadImportFiles, importSongFiles, clearPendingImport, cleanSong, exportSongWav, exportSongMidi } from './slices/saveFileSlice';
 export {
   setActiveTab,
   openModal,
@@ -50,5 +50,5 @@ export {
 } from './slices/kitSlice';
 
 // Export interfaces from slices
-export type { RomInfo } from './slices/romSlice';
+export type { RomInfo, RomPatchReport } from './slices/romSlice';
 export type { KitInfo } from './slices/kitSlice';
@@ -0,0 +1,79 @@
+import {beforeEach, describe, expect, it, vi} from 'vitest';
+import {configureStore} from '@reduxjs/toolkit';
+import romReducer, {exportRomPatch, loadRomFile, upgradeRom} from '../romSlice';
+import kitReducer from '../kitSlice';
+import {FileService} from '../../../services/file/FileService';
+import {RomPatch} from '../../../services/file/RomPatch';
+import {LsdjCharset} from '../../../services/binary/LsdjCharset';
+import {PaletteProcessor} from '../../../services/binary/PaletteProcessor';
+import {ROM_CONSTANTS, RomProcessor} from '../../../services/binary/RomProcessor';
+
+vi.mock('../../../services/file/FileService', () => ({
+  FileService: {
+    loadBinaryFile: vi.fn(),
+    saveFile: vi.fn(),
+  },
+}));
+
+describe('romSlice', () => {
+  // Create a full size ROM with two palettes where RomLayout looks for them
+  const createMockRom = (): ArrayBuffer => {
+    const rom = new Uint8Array(ROM_CONSTANTS.BANK_COUNT * ROM_CONSTANTS.BANK_SIZE);
+    const fontNamesOffset = 27 * ROM_CONSTANTS.BANK_SIZE + 200;
+    ['FNTA', 'FNTB', 'FNTC', 'GRAY', 'GRAY', 'DMG', 'BLUE'].forEach((name, i) =>
+      rom.set(LsdjCharset.encode(name, 5), fontNamesOffset + i * 5));
+    rom[fontNamesOffset + 7 * 5 + 4] = 1;
+    rom.fill(72, ROM_CONSTANTS.BANK_SIZE + 1000 + 17, ROM_CONSTANTS.BANK_SIZE + 1000 + 20);
+    return rom.buffer;
+  };
+
+  const createStore = () => configureStore({
+    reducer: { rom: romReducer, kit: kitReducer },
+    middleware: getDefaultMiddleware => getDefaultMiddleware({ serializableCheck: false, immutableCheck: false }),
+  });
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should keep palette edits made in place in the exported patch', async () => {
+    const fileData = createMockRom();
+    vi.mocked(FileService.loadBinaryFile).mockResolvedValue(fileData.slice(0));
+    vi.mocked(FileService.saveFile).mockResolvedValue({ success: true });
+    const store = createStore();
+    await store.dispatch(loadRomFile());
+
+    // The palette editor writes straight into romData
+    const romData = store.getState().rom.romData!;
+    const palettes = new PaletteProcessor(romData);
+    palettes.setColor(1, 0, 0, { r: 31, g: 0, b: 0 });
+    const edited = new Uint8Array(romData).slice();
+
+    await store.dispatch(exportRomPatch('ips'));
+
+    const patch = new Uint8Array(vi.mocked(FileService.saveFile).mock.calls[0][0] as ArrayBuffer);
+    const patched = RomPatch.applyIps(new Uint8Array(fileData), patch);
+    const paletteOffset = ROM_CONSTANTS.BANK_SIZE + 1000 - ROM_CONSTANTS.PALETTE_SIZE;
+    expect(Array.from(patched.subarray(paletteOffset, paletteOffset + 2)))
+      .toEqual(Array.from(edited.subarray(paletteOffset, paletteOffset + 2)));
+    expect(Array.from(patched.subarray(paletteOffset, paletteOffset + 2))).not.toEqual([0, 0]);
+  });
+
+  it('should report the checksums of the ROM upgraded to', async () => {
+    // The loaded ROM has palettes of its own, which change the bytes of the ROM upgraded to
+    const source = new Uint8Array(createMockRom());
+    source.fill(0x55, ROM_CONSTANTS.BANK_SIZE + 1000 - 2 * ROM_CONSTANTS.PALETTE_SIZE, ROM_CONSTANTS.BANK_SIZE + 1000);
+    vi.mocked(FileService.loadBinaryFile)
+      .mockResolvedValueOnce(source.buffer)
+      .mockResolvedValueOnce(RomProcessor.fixChecksum(createMockRom()));
+    const store = createStore();
+    await store.dispatch(loadRomFile());
+
+    await store.dispatch(upgradeRom());
+
+    const { romInfo, upgradeReport } = store.getState().rom;
+    expect(upgradeReport?.palettes).toBe(2);
+    expect(romInfo?.header?.headerChecksum.valid).toBe(true);
+    expect(romInfo?.header?.globalChecksum.valid).toBe(true);
+  });
+});
@@ -0,0 +1,62 @@
+import {beforeEach, describe, expect, it, vi} from 'vitest';
+import {configureStore} from '@reduxjs/toolkit';
+import saveFileReducer, {exportSaveFile} from '../saveFileSlice';
+import {FileService} from '../../../services/file/FileService';
+import {SAV_CONSTANTS} from '../../../services/binary/SaveFileProcessor';
+
+vi.mock('../../../services/file/FileService', () => ({
+  FileService: {
+    loadBinaryFile: vi.fn(),
+    saveFile: vi.fn(),
+  },
+}));
+
+describe('saveFileSlice', () => {
+  // Create a store holding a 32KB dump with a song saved to slot 0
+  const createStore = () => {
+    const initialState = saveFileReducer(undefined, { type: 'init' });
+    return configureStore({
+      reducer: { saveFile: saveFileReducer },
+      preloadedState: {
+        saveFile: {
+          ...initialState,
+          saveFileInfo: {
+            isValid: true,
+            is64kb: false,
+            totalBlocks: 191,
+            usedBlocks: 1,
+            freeBlocks: 190,
+            songs: [{ id: 0, name: 'SONG', version: '00', blocksUsed: 1, isValid: true }],
+          },
+          saveFileData: new ArrayBuffer(SAV_CONSTANTS.SAV_FILE_SIZE),
+          saveFileVariant: { sramSize: SAV_CONSTANTS.BANK_SIZE, paddingSize: 0, paddingValue: 0, trailer: [] },
+        },
+      },
+      middleware: getDefaultMiddleware => getDefaultMiddleware({ serializableCheck: false, immutableCheck: false }),
+    });
+  };
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(FileService.saveFile).mockResolvedValue({ success: true });
+  });
+
+  it('should not drop songs saved to slots when exporting a 32KB save as loaded', async () => {
+    const store = createStore();
+
+    const result = await store.dispatch(exportSaveFile());
+
+    expect(result.type).toBe('saveFile/exportSaveFile/rejected');
+    expect(result.payload).toMatch(/32KB save only holds the working song/);
+    expect(FileService.saveFile).not.toHaveBeenCalled();
+  });
+
+  it('should export a 32KB save with songs in slots as 128KB SRAM', async () => {
+    const store = createStore();
+
+    await store.dispatch(exportSaveFile({ to64kb: false }));
+
+    const fileData = vi.mocked(FileService.saveFile).mock.calls[0][0] as ArrayBuffer;
+    expect(fileData.byteLength).toBe(SAV_CONSTANTS.SAV_FILE_SIZE);
+  });
+});
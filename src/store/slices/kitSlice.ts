@@ -10,7 +10,7 @@ export const updateRomDataWithKit = createAsyncThunk<void, void>(
   'kit/updateRomDataWithKit',
   async (_, { getState, dispatch }) => {
     const state = getState() as RootState;
-    const { romData } = state.rom;
+    const { romData, romInfo } = state.rom;
     const { kitInfo, samples, useGbaPolarity } = state.kit;
 
     if (!romData || !kitInfo) {
@@ -27,7 +27,8 @@ export const updateRomDataWithKit = createAsyncThunk<void, void>(
       kitInfo.bankIndex,
       samples,
       kitInfo.name,
-      useGbaPolarity
+      useGbaPolarity,
+      romInfo?.lsdjVersion ?? null
     );
 
     // Dispatch an action to update the ROM data in the store
@@ -1,6 +1,10 @@
 import {createAsyncThunk, createSlice} from '@reduxjs/toolkit';
 import {FileService} from '../../services/file/FileService';
-import {RomProcessor, RomInfo as BaseRomInfo} from '../../services/binary';
+import {BinaryProcessor, RomProcessor, RomInfo as BaseRomInfo} from '../../services/binary';
+import {RomHeader} from '../../services/binary/RomHeader';
+import {RomLayout} from '../../services/binary/RomLayout';
+import {RomUpgradeReport, RomUpgrader} from '../../services/binary/RomUpgrader';
+import {RomPatch, RomPatchFormat} from '../../services/file/RomPatch';
 import {store, AppDispatch} from '../store';
 import {loadKitFromRomBank, loadKitFromFile} from './kitSlice';
 import {SampleBankCompiler, Sample} from '../../services/audio';
@@ -15,6 +19,9 @@ export interface RomInfo extends BaseRomInfo {
 interface RomState {
   romInfo: RomInfo | null;
   romData: ArrayBuffer | null;
+  originalRomData: ArrayBuffer | null; // The ROM as loaded, which patches are made against
+  upgradeReport: RomUpgradeReport | null;
+  patchReport: RomPatchReport | null;
   isLoading: boolean;
   error: string | null;
 }
@@ -23,6 +30,9 @@ interface RomState {
 const initialState: RomState = {
   romInfo: null,
   romData: null,
+  originalRomData: null,
+  upgradeReport: null,
+  patchReport: null,
   isLoading: false,
   error: null,
 };
@@ -39,38 +49,104 @@ interface ExportRomFileResult {
   canceled?: boolean;
 }
 
+// Define return type for upgradeRom thunk
+interface UpgradeRomResult {
+  romInfo?: RomInfo;
+  romData?: ArrayBuffer;
+  originalRomData?: ArrayBuffer;
+  upgradeReport?: RomUpgradeReport;
+  canceled?: boolean;
+}
+
+// What an imported patch did
+export interface RomPatchReport {
+  format: RomPatchFormat;
+  sourceVerified: boolean; // IPS patches have no source checksum to verify
+}
+
+// Define return type for importRomPatch thunk
+interface ImportRomPatchResult {
+  romInfo?: RomInfo;
+  romData?: ArrayBuffer;
+  patchReport?: RomPatchReport;
+  canceled?: boolean;
+}
+
+// The kit editor state the ROM is written with
+interface KitEditorState {
+  kitInfo: { name: string; bankIndex: number } | null;
+  samples: (Sample | null)[];
+  useGbaPolarity: boolean;
+}
+
+// Copy the ROM data with the kit being edited written into its bank, in the layout of the
+// ROM's LSDj version
+function applyEditedKit(romData: ArrayBuffer, lsdjVersion: string | null, kit: KitEditorState): ArrayBuffer {
+  const { kitInfo, samples, useGbaPolarity } = kit;
+
+  // Create a copy of the ROM data to avoid mutating the original
+  const updatedRomData = new ArrayBuffer(romData.byteLength);
+  new Uint8Array(updatedRomData).set(new Uint8Array(romData));
+
+  // If we have kit data, update the ROM with the current kit data
+  if (kitInfo && samples) {
+    SampleBankCompiler.writeToRomBank(
+      updatedRomData,
+      kitInfo.bankIndex,
+      samples,
+      kitInfo.name,
+      useGbaPolarity,
+      lsdjVersion
+    );
+  }
+
+  return updatedRomData;
+}
+
+// Parse a ROM file and list its kit banks with their names
+function parseRomFile(fileData: ArrayBuffer): RomInfo {
+  const romInfo = RomProcessor.parseRom(fileData) as RomInfo;
+
+  const kits = RomLayout.locateKits(new BinaryProcessor(fileData));
+  const kitBanks = kits.found ? kits.kitBanks : [];
+  const kitNames: Record<number, string> = {};
+  for (const bankIndex of kitBanks) {
+    const kitName = SampleBankCompiler.extractKitNameFromRomBank(fileData, bankIndex);
+    if (kitName) {
+      kitNames[bankIndex] = kitName;
+    }
+  }
+
+  // Add kit banks and names to ROM info
+  romInfo.kitBanks = kitBanks;
+  romInfo.kitNames = kitNames;
+  return romInfo;
+}
+
+// Load the first kit of a ROM into the kit editor
+// We need to use setTimeout to ensure this runs after the state update
+function loadFirstKit(romInfo?: RomInfo, romData?: ArrayBuffer): void {
+  setTimeout(() => {
+    if (romInfo && romData && romInfo.kitBanks && romInfo.kitBanks.length > 0) {
+      // Load the first valid kit bank
+      (store.dispatch as AppDispatch)(loadKitFromRomBank({ romData, bankIndex: romInfo.kitBanks[0] }));
+    }
+  }, 0);
+}
+
 // Create an async thunk for exporting a ROM file
 export const exportRomFile = createAsyncThunk<ExportRomFileResult, void>(
   'rom/exportRomFile',
   async (_, { getState, rejectWithValue }) => {
     try {
-      const state = getState() as { rom: RomState; kit: { 
-        kitInfo: { name: string; bankIndex: number } | null; 
-        samples: (Sample | null)[]; 
-        useGbaPolarity: boolean 
-      } };
+      const state = getState() as { rom: RomState; kit: KitEditorState };
       const { romInfo, romData } = state.rom;
-      const { kitInfo, samples, useGbaPolarity } = state.kit;
 
       if (!romInfo || !romData) {
         return rejectWithValue('No ROM file loaded');
       }
 
-      // Create a copy of the ROM data to avoid mutating the original
-      const updatedRomData = new ArrayBuffer(romData.byteLength);
-      new Uint8Array(updatedRomData).set(new Uint8Array(romData));
-
-      // If we have kit data, update the ROM with the current kit data
-      if (kitInfo && samples) {
-        // Update the ROM with the current kit data
-        SampleBankCompiler.writeToRomBank(
-          updatedRomData,
-          kitInfo.bankIndex,
-          samples,
-          kitInfo.name,
-          useGbaPolarity
-        );
-      }
+      const updatedRomData = applyEditedKit(romData, romInfo.lsdjVersion, state.kit);
 
       // Fix the ROM checksums to ensure the file is valid
       const fixedRomData = RomProcessor.fixChecksum(updatedRomData);
@@ -94,6 +170,39 @@ export const exportRomFile = createAsyncThunk<ExportRomFileResult, void>(
   }
 );
 
+// Create an async thunk for exporting the changes to the loaded ROM as a patch
+export const exportRomPatch = createAsyncThunk<ExportRomFileResult, RomPatchFormat>(
+  'rom/exportRomPatch',
+  async (format, { getState, rejectWithValue }) => {
+    try {
+      const state = getState() as { rom: RomState; kit: KitEditorState };
+      const { romInfo, romData, originalRomData } = state.rom;
+
+      if (!romInfo || !romData || !originalRomData) {
+        return rejectWithValue('No ROM file loaded');
+      }
+
+      // Patch to the ROM exactly as exportRomFile would write it
+      const fixedRomData = RomProcessor.fixChecksum(applyEditedKit(romData, romInfo.lsdjVersion, state.kit));
+      const patch = RomPatch.create(new Uint8Array(originalRomData), new Uint8Array(fixedRomData), format);
+
+      const result = await FileService.saveFile(patch.buffer as ArrayBuffer, {
+        suggestedName: `${romInfo.title.trim() || 'lsdj'}.${format}`,
+        mimeType: 'application/octet-stream'
+      });
+
+      // Check if the user canceled the save operation
+      if (!result.success && result.error?.code === 'USER_CANCELLED') {
+        return { canceled: true };
+      }
+
+      return {};
+    } catch (error) {
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to export ROM patch');
+    }
+  }
+);
+
 // Create an async thunk for loading a ROM file
 export const loadRomFile = createAsyncThunk<LoadRomResult, void, {
   rejectValue: string;
@@ -110,43 +219,105 @@ export const loadRomFile = createAsyncThunk<LoadRomResult, void, {
       }
 
       // Parse the ROM file
-      const romInfo = RomProcessor.parseRom(fileData) as RomInfo;
+      const romInfo = parseRomFile(fileData);
 
       if (!romInfo.isValid) {
         return rejectWithValue('Invalid ROM file format');
       }
 
-      // Scan for kit banks and extract kit names
-      const kitBanks: number[] = [];
-      const kitNames: Record<number, string> = {};
-      const romView = new Uint8Array(fileData);
-      const BANK_SIZE = 0x4000; // 16,384 bytes
-      const numBanks = Math.floor(romView.length / BANK_SIZE);
-
-      for (let bankIndex = 0; bankIndex < numBanks; bankIndex++) {
-        const bankOffset = bankIndex * BANK_SIZE;
-        // Check if this is a kit bank (magic numbers 0x60 and 0x40 at the start of the bank)
-        if (romView[bankOffset] === 0x60 && romView[bankOffset + 1] === 0x40) {
-          kitBanks.push(bankIndex);
-
-          // Extract kit name
-          const kitName = SampleBankCompiler.extractKitNameFromRomBank(fileData, bankIndex);
-          if (kitName) {
-            kitNames[bankIndex] = kitName;
-          }
-        }
+      return {
+        romInfo,
+        romData: fileData,
+      };
+    } catch (error) {
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to load ROM file');
+    }
+  }
+);
+
+// Create an async thunk for moving the customizations of the loaded ROM to a newer one
+export const upgradeRom = createAsyncThunk<UpgradeRomResult, void, {
+  rejectValue: string;
+}>(
+  'rom/upgradeRom',
+  async (_, { getState, rejectWithValue }) => {
+    try {
+      const state = getState() as { rom: RomState; kit: KitEditorState };
+      const { romInfo, romData } = state.rom;
+
+      if (!romInfo || !romData) {
+        return rejectWithValue('No ROM file loaded');
+      }
+
+      // Load the newer ROM to upgrade to
+      const targetData = await FileService.loadBinaryFile('.gb,.gbc');
+
+      if (!targetData) {
+        // User canceled the file selection, return without an error
+        return { canceled: true };
       }
 
-      // Add kit banks and names to ROM info
-      romInfo.kitBanks = kitBanks;
-      romInfo.kitNames = kitNames;
+      if (!RomProcessor.parseRom(targetData).isValid) {
+        return rejectWithValue('Invalid ROM file format');
+      }
+
+      // Carry over the kit being edited too
+      const { romData: upgradedData, report } = RomUpgrader.upgrade(applyEditedKit(romData, romInfo.lsdjVersion, state.kit), targetData);
+
+      // The kits, fonts and palettes are copied in without fixing the checksums, which happens
+      // on export, so the header is checked on the ROM as loaded
+      const upgradedInfo = parseRomFile(upgradedData);
+      upgradedInfo.header = RomHeader.analyze(new BinaryProcessor(targetData));
+
+      return {
+        romInfo: upgradedInfo,
+        romData: upgradedData,
+        originalRomData: targetData,
+        upgradeReport: report,
+      };
+    } catch (error) {
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to upgrade ROM file');
+    }
+  }
+);
+
+// Create an async thunk for applying an IPS or BPS patch to the loaded ROM
+export const importRomPatch = createAsyncThunk<ImportRomPatchResult, void, {
+  rejectValue: string;
+}>(
+  'rom/importRomPatch',
+  async (_, { getState, rejectWithValue }) => {
+    try {
+      const state = getState() as { rom: RomState };
+      const { romData } = state.rom;
+
+      if (!romData) {
+        return rejectWithValue('No ROM file loaded');
+      }
+
+      const patchData = await FileService.loadBinaryFile('.ips,.bps');
+
+      if (!patchData) {
+        // User canceled the file selection, return without an error
+        return { canceled: true };
+      }
+
+      // Throws when a BPS patch was made from a different ROM
+      const { romData: patched, format, sourceVerified } = RomPatch.apply(new Uint8Array(romData), new Uint8Array(patchData));
+      const patchedData = patched.buffer as ArrayBuffer;
+      const romInfo = parseRomFile(patchedData);
+
+      if (!romInfo.isValid) {
+        return rejectWithValue('The patched ROM is not a valid ROM file');
+      }
 
       return {
         romInfo,
-        romData: fileData,
+        romData: patchedData,
+        patchReport: { format, sourceVerified },
       };
     } catch (error) {
-      return rejectWithValue(error instanceof Error ? error.message : 'Failed to load ROM file');
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to apply ROM patch');
     }
   }
 );
@@ -159,6 +330,9 @@ const romSlice = createSlice({
     clearRomData: (state) => {
       state.romInfo = null;
       state.romData = null;
+      state.originalRomData = null;
+      state.upgradeReport = null;
+      state.patchReport = null;
       state.error = null;
     },
     // Add a reducer to handle the UPDATE_ROM_DATA action
@@ -184,22 +358,71 @@ const romSlice = createSlice({
 
         state.romInfo = action.payload.romInfo || null;
         state.romData = action.payload.romData || null;
+        // A copy, since the font and palette editors write into romData in place
+        state.originalRomData = action.payload.romData?.slice(0) || null;
+        state.upgradeReport = null;
+        state.patchReport = null;
 
         // Automatically load kits from the ROM if any kit banks are found
-        // We need to use setTimeout to ensure this runs after the state update
-        setTimeout(() => {
-          const romInfo = action.payload.romInfo;
-          const romData = action.payload.romData;
-          if (romInfo && romData && romInfo.kitBanks && romInfo.kitBanks.length > 0) {
-            // Load the first valid kit bank
-            (store.dispatch as AppDispatch)(loadKitFromRomBank({ romData, bankIndex: romInfo.kitBanks[0] }));
-          }
-        }, 0);
+        loadFirstKit(action.payload.romInfo, action.payload.romData);
       })
       .addCase(loadRomFile.rejected, (state, action) => {
         state.isLoading = false;
         state.error = action.payload as string || 'An unknown error occurred';
       })
+      // Handle upgradeRom
+      .addCase(upgradeRom.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(upgradeRom.fulfilled, (state, action) => {
+        // Check if the action was canceled by the user
+        if (action.payload.canceled) {
+          // User canceled the file selection, just reset loading state without error
+          state.isLoading = false;
+          return;
+        }
+
+        state.isLoading = false;
+        state.romInfo = action.payload.romInfo || null;
+        state.romData = action.payload.romData || null;
+        state.originalRomData = action.payload.originalRomData?.slice(0) || null;
+        state.upgradeReport = action.payload.upgradeReport || null;
+        state.patchReport = null;
+
+        // Reload the kit editor from the upgraded ROM
+        loadFirstKit(action.payload.romInfo, action.payload.romData);
+      })
+      .addCase(upgradeRom.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string || 'An unknown error occurred';
+      })
+      // Handle importRomPatch
+      .addCase(importRomPatch.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(importRomPatch.fulfilled, (state, action) => {
+        // Check if the action was canceled by the user
+        if (action.payload.canceled) {
+          // User canceled the file selection, just reset loading state without error
+          state.isLoading = false;
+          return;
+        }
+
+        state.isLoading = false;
+        state.romInfo = action.payload.romInfo || null;
+        state.romData = action.payload.romData || null;
+        state.upgradeReport = null;
+        state.patchReport = action.payload.patchReport || null;
+
+        // Reload the kit editor from the patched ROM
+        loadFirstKit(action.payload.romInfo, action.payload.romData);
+      })
+      .addCase(importRomPatch.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string || 'An unknown error occurred';
+      })
       // Handle exportRomFile
       .addCase(exportRomFile.pending, (state) => {
         state.isLoading = true;
@@ -219,6 +442,18 @@ const romSlice = createSlice({
         state.isLoading = false;
         state.error = action.payload as string || 'An unknown error occurred';
       })
+      // Handle exportRomPatch
+      .addCase(exportRomPatch.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(exportRomPatch.fulfilled, (state) => {
+        state.isLoading = false;
+      })
+      .addCase(exportRomPatch.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string || 'An unknown error occurred';
+      })
       // Handle loadKitFromFile to update ROM data when a kit is loaded from a file
       .addCase(loadKitFromFile.fulfilled, (state, action) => {
         // Check if the action was canceled by the user
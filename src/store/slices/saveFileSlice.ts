@@ -1,13 +1,27 @@
 import {createAsyncThunk, createSlice, PayloadAction} from '@reduxjs/toolkit';
 import {FileService} from '../../services/file/FileService';
-import {SaveFileInfo, SaveFileProcessor} from '../../services/binary/SaveFileProcessor';
+import {ZipEntry, ZipWriter} from '../../services/file/ZipWriter';
+import {ZipReader} from '../../services/file/ZipReader';
+import {LsdinstFile} from '../../services/file/LsdinstFile';
+import {CleanSongResult, DefragmentResult, RepairResult, SAV_CONSTANTS, SaveFileInfo, SaveFileProcessor, SaveFileVariant, SongFileData, SongFileFormat, VerifyIssue} from '../../services/binary/SaveFileProcessor';
 import {BinaryProcessor} from '../../services/binary';
+import {SongProcessor} from '../../services/binary/SongProcessor';
+import {SongMidiExporter, SongRenderer} from '../../services/audio';
 
 // Define the save file state interface
 interface SaveFileState {
   saveFileInfo: SaveFileInfo | null;
   saveFileData: ArrayBuffer | null;
+  saveFileVariant: SaveFileVariant | null;
   selectedSongId: number | null;
+  defragmentResult: DefragmentResult | null;
+  cleanSongResult: CleanSongResult | null;
+  verifyIssues: VerifyIssue[] | null;
+  repairedIssues: VerifyIssue[] | null;
+  mergeSourceInfo: SaveFileInfo | null;
+  mergeSourceData: ArrayBuffer | null;
+  pendingImport: SongFileData[] | null;
+  wavExportProgress: number | null; // From 0 to 1 while a WAV export renders
   isLoading: boolean;
   error: string | null;
 }
@@ -16,15 +30,33 @@ interface SaveFileState {
 interface LoadSaveFileResult {
   saveFileInfo?: SaveFileInfo;
   saveFileData?: ArrayBuffer;
+  saveFileVariant?: SaveFileVariant;
   canceled?: boolean;
 }
 
+// Define argument type for exportSong thunk
+interface ExportSongArgs {
+  songId: number;
+  format?: SongFileFormat;
+}
+
 // Define return type for exportSong thunk
 interface ExportSongResult {
   songId?: number;
   canceled?: boolean;
 }
 
+// Define return type for exportAllSongs thunk
+interface ExportAllSongsResult {
+  songCount?: number;
+  canceled?: boolean;
+}
+
+// Define arguments for exportSaveFile thunk
+interface ExportSaveFileArgs {
+  to64kb?: boolean; // Convert to the 64KB or 128KB SRAM layout, or keep the loaded one
+}
+
 // Define return type for exportSaveFile thunk
 interface ExportSaveFileResult {
   canceled?: boolean;
@@ -41,30 +73,104 @@ interface ImportSongResult {
   canceled?: boolean;
 }
 
+// Define return type for saveWorkingSong and loadSongToWorkingMemory thunks
+interface WorkingSongResult {
+  songId: number;
+}
+
+// Define argument type for exportInstrument and importInstrument thunks
+interface InstrumentArgs {
+  songId: number;
+  instrument: number;
+}
+
+// Define return type for exportInstrument and importInstrument thunks
+interface InstrumentResult {
+  songId?: number;
+  canceled?: boolean;
+}
+
+// Define argument and return type for the moveSong and swapSongs thunks
+interface SongSlotArgs {
+  fromSlot: number;
+  toSlot: number;
+}
+
+// Define argument type for renameSong thunk
+interface RenameSongArgs {
+  songId: number;
+  name: string;
+  version: number;
+}
+
+// Define return type for mergeSongs thunk
+interface MergeSongsResult {
+  songIds: number[];
+}
+
+// Define return type for loadImportFiles thunk
+interface LoadImportFilesResult {
+  files?: SongFileData[];
+  canceled?: boolean;
+}
+
+// Define return type for importSongFiles thunk
+interface ImportSongFilesResult {
+  songIds: number[];
+}
+
 // Define the initial state
 const initialState: SaveFileState = {
   saveFileInfo: null,
   saveFileData: null,
+  saveFileVariant: null,
   selectedSongId: null,
+  defragmentResult: null,
+  cleanSongResult: null,
+  verifyIssues: null,
+  repairedIssues: null,
+  mergeSourceInfo: null,
+  mergeSourceData: null,
+  pendingImport: null,
+  wavExportProgress: null,
   isLoading: false,
   error: null,
 };
 
+// Save files come as .sav from flashcarts and most emulators, and as .srm from RetroArch
+const SAVE_FILE_EXTENSIONS = '.sav,.srm';
+
+// Re-read the save file after a change. The mirror of a 64KB save is brought in step first,
+// as it's what tells the save apart from a 128KB one.
+const refreshSaveFileInfo = (state: SaveFileState) => {
+  if (!state.saveFileData) return;
+  if (state.saveFileInfo?.is64kb) {
+    SaveFileProcessor.syncSixtyFourKbMirror(state.saveFileData);
+  }
+  state.saveFileInfo = SaveFileProcessor.parseSaveFile(state.saveFileData);
+};
+
 // Create an async thunk for loading a save file
 export const loadSaveFile = createAsyncThunk<LoadSaveFileResult, void>(
   'saveFile/loadSaveFile',
   async (_, { rejectWithValue }) => {
     try {
       // Use FileService to open a file picker and load the selected file
-      const fileData = await FileService.loadBinaryFile('.sav');
+      const fileData = await FileService.loadBinaryFile(SAVE_FILE_EXTENSIONS);
 
       if (!fileData) {
         // User canceled the file selection, return without an error
         return { canceled: true };
       }
 
+      // Bring emulator and flashcart saves to the 128KB layout
+      const normalized = SaveFileProcessor.normalizeSaveFile(fileData);
+      if (!normalized) {
+        return rejectWithValue(`Unrecognized save file size: ${fileData.byteLength} bytes`);
+      }
+
       // Parse the save file
-      const saveInfo = SaveFileProcessor.parseSaveFile(fileData);
+      const saveInfo = SaveFileProcessor.parseSaveFile(normalized.saveData);
 
       if (!saveInfo.isValid) {
         return rejectWithValue('Invalid save file format');
@@ -72,7 +178,8 @@ export const loadSaveFile = createAsyncThunk<LoadSaveFileResult, void>(
 
       return {
         saveFileInfo: saveInfo,
-        saveFileData: fileData,
+        saveFileData: normalized.saveData,
+        saveFileVariant: normalized.variant,
       };
     } catch (error) {
       return rejectWithValue(error instanceof Error ? error.message : 'Failed to load save file');
@@ -81,9 +188,9 @@ export const loadSaveFile = createAsyncThunk<LoadSaveFileResult, void>(
 );
 
 // Create an async thunk for exporting a song
-export const exportSong = createAsyncThunk<ExportSongResult, number>(
+export const exportSong = createAsyncThunk<ExportSongResult, ExportSongArgs>(
   'saveFile/exportSong',
-  async (songId: number, { getState, rejectWithValue }) => {
+  async ({ songId, format = 'lsdprj' }, { getState, rejectWithValue }) => {
     try {
       const state = getState() as { saveFile: SaveFileState };
       const { saveFileInfo, saveFileData } = state.saveFile;
@@ -100,16 +207,18 @@ export const exportSong = createAsyncThunk<ExportSongResult, number>(
       // Create a BinaryProcessor for the save file data
       const processor = new BinaryProcessor(saveFileData);
 
-      // Extract the song data for export
-      const songData = SaveFileProcessor.extractSongForExport(processor, songId);
+      // Extract the song data for export in the requested format
+      const songData = format === 'lsdsng'
+        ? SaveFileProcessor.extractSongAsLsdsng(processor, songId)
+        : SaveFileProcessor.extractSongForExport(processor, songId);
 
       if (!songData) {
         return rejectWithValue(`Failed to extract song data for song ID ${songId}`);
       }
 
-      // Use FileService to save the song data as a binary .lsdprj file
+      // Use FileService to save the song data as a binary song file
       const result = await FileService.saveFile(songData, {
-        suggestedName: `${song.name.trim() || 'untitled'}.lsdprj`,
+        suggestedName: `${song.name.trim() || 'untitled'}.${format}`,
         mimeType: 'application/octet-stream'
       });
 
@@ -125,9 +234,113 @@ export const exportSong = createAsyncThunk<ExportSongResult, number>(
   }
 );
 
-// Create an async thunk for exporting the entire save file
-export const exportSaveFile = createAsyncThunk<ExportSaveFileResult, void>(
-  'saveFile/exportSaveFile',
+// Sample rate of exported WAV files. 22050Hz keeps a full length render well within the
+// size FileService accepts.
+const WAV_EXPORT_SAMPLE_RATE = 22050;
+
+// Create an async thunk for rendering a song to a WAV file
+export const exportSongWav = createAsyncThunk<ExportSongResult, number>(
+  'saveFile/exportSongWav',
+  async (songId, { dispatch, getState, rejectWithValue }) => {
+    try {
+      const state = getState() as { saveFile: SaveFileState; rom: { romData: ArrayBuffer | null } };
+      const { saveFileInfo, saveFileData } = state.saveFile;
+
+      if (!saveFileInfo || !saveFileData) {
+        return rejectWithValue('No save file loaded');
+      }
+
+      const song = saveFileInfo.songs.find(s => s.id === songId);
+      if (!song) {
+        return rejectWithValue(`Song with ID ${songId} not found`);
+      }
+
+      const raw = SaveFileProcessor.getRawSong(new BinaryProcessor(saveFileData), songId);
+      if (!raw) {
+        return rejectWithValue(`Failed to extract song data for song ID ${songId}`);
+      }
+
+      // Kits are played from the loaded ROM, if any. Rendering a long song takes a while,
+      // so it's done in chunks that report how far it is.
+      const wav = await SongRenderer.renderWavAsync(SongProcessor.parseSong(raw), {
+        sampleRate: WAV_EXPORT_SAMPLE_RATE,
+        romData: state.rom.romData,
+      }, progress => dispatch(setWavExportProgress(progress)));
+
+      const result = await FileService.saveFile(wav.buffer as ArrayBuffer, {
+        suggestedName: `${song.name.trim() || 'untitled'}.wav`,
+        mimeType: 'audio/wav'
+      });
+
+      // Check if the user canceled the save operation
+      if (!result.success && result.error?.code === 'USER_CANCELLED') {
+        return { canceled: true };
+      }
+
+      if (!result.success) {
+        return rejectWithValue(result.error?.message || 'Failed to save WAV file');
+      }
+
+      return { songId };
+    } catch (error) {
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to render song');
+    }
+  }
+);
+
+// Create an async thunk for exporting a song as a MIDI file
+export const exportSongMidi = createAsyncThunk<ExportSongResult, number>(
+  'saveFile/exportSongMidi',
+  async (songId, { getState, rejectWithValue }) => {
+    try {
+      const state = getState() as { saveFile: SaveFileState; rom: { romData: ArrayBuffer | null } };
+      const { saveFileInfo, saveFileData } = state.saveFile;
+
+      if (!saveFileInfo || !saveFileData) {
+        return rejectWithValue('No save file loaded');
+      }
+
+      const song = saveFileInfo.songs.find(s => s.id === songId);
+      if (!song) {
+        return rejectWithValue(`Song with ID ${songId} not found`);
+      }
+
+      const raw = SaveFileProcessor.getRawSong(new BinaryProcessor(saveFileData), songId);
+      if (!raw) {
+        return rejectWithValue(`Failed to extract song data for song ID ${songId}`);
+      }
+
+      // Kit hits are mapped to drum notes by the sample names in the loaded ROM, if any
+      const name = song.name.trim() || 'untitled';
+      const midi = SongMidiExporter.createMidi(SongProcessor.parseSong(raw), {
+        name,
+        romData: state.rom.romData,
+      });
+
+      const result = await FileService.saveFile(midi.buffer as ArrayBuffer, {
+        suggestedName: `${name}.mid`,
+        mimeType: 'audio/midi'
+      });
+
+      // Check if the user canceled the save operation
+      if (!result.success && result.error?.code === 'USER_CANCELLED') {
+        return { canceled: true };
+      }
+
+      if (!result.success) {
+        return rejectWithValue(result.error?.message || 'Failed to save MIDI file');
+      }
+
+      return { songId };
+    } catch (error) {
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to export song as MIDI');
+    }
+  }
+);
+
+// Create an async thunk for exporting every valid song as .lsdprj files in one zip archive
+export const exportAllSongs = createAsyncThunk<ExportAllSongsResult, void>(
+  'saveFile/exportAllSongs',
   async (_, { getState, rejectWithValue }) => {
     try {
       const state = getState() as { saveFile: SaveFileState };
@@ -137,8 +350,107 @@ export const exportSaveFile = createAsyncThunk<ExportSaveFileResult, void>(
         return rejectWithValue('No save file loaded');
       }
 
+      const processor = new BinaryProcessor(saveFileData);
+      const entries: ZipEntry[] = [];
+      const usedNames = new Set<string>();
+
+      for (const song of saveFileInfo.songs.filter(s => s.isValid)) {
+        const songData = SaveFileProcessor.extractSongForExport(processor, song.id);
+        if (!songData) {
+          return rejectWithValue(`Failed to extract song data for song ID ${song.id}`);
+        }
+
+        // Name files like NAME.VERSION.lsdprj, telling apart songs saved under the same name
+        const isWorkingSong = song.id === SAV_CONSTANTS.WORKING_SONG_ID;
+        let baseName = `${song.name.trim() || 'untitled'}.${song.version}${isWorkingSong ? '.working' : ''}`;
+        if (usedNames.has(baseName)) {
+          baseName = `${baseName}.slot${song.id}`;
+        }
+        usedNames.add(baseName);
+
+        entries.push({ name: `${baseName}.lsdprj`, data: new Uint8Array(songData) });
+      }
+
+      if (entries.length === 0) {
+        return rejectWithValue('No valid songs to export');
+      }
+
+      const zip = ZipWriter.createZip(entries);
+      const result = await FileService.saveFile(zip.buffer as ArrayBuffer, {
+        suggestedName: 'lsdj-songs.zip',
+        mimeType: 'application/zip'
+      });
+
+      // Check if the user canceled the save operation
+      if (!result.success && result.error?.code === 'USER_CANCELLED') {
+        return { canceled: true };
+      }
+
+      if (!result.success) {
+        return rejectWithValue(result.error?.message || 'Failed to save zip archive');
+      }
+
+      return { songCount: entries.length };
+    } catch (error) {
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to export songs');
+    }
+  }
+);
+
+// Create an async thunk for exporting the entire save file
+export const exportSaveFile = createAsyncThunk<ExportSaveFileResult, ExportSaveFileArgs | void>(
+  'saveFile/exportSaveFile',
+  async (args, { getState, rejectWithValue }) => {
+    try {
+      const state = getState() as { saveFile: SaveFileState };
+      const { saveFileInfo, saveFileData, saveFileVariant } = state.saveFile;
+      const to64kb = args ? args.to64kb : undefined;
+
+      if (!saveFileInfo || !saveFileData) {
+        return rejectWithValue('No save file loaded');
+      }
+
+      // A 32KB dump only holds the working song, so songs saved to slots need a larger layout
+      const workingSongOnly = saveFileVariant?.sramSize === SAV_CONSTANTS.BANK_SIZE;
+      if (workingSongOnly && to64kb === undefined && saveFileInfo.songs.length > 0) {
+        return rejectWithValue('A 32KB save only holds the working song. Export as 64KB or 128KB SRAM to keep the songs saved to slots');
+      }
+
+      let fileData = saveFileData;
+      if (workingSongOnly && to64kb === false) {
+        // The loaded dump is already in the 128KB layout, it only needs the full SRAM size
+        fileData = SaveFileProcessor.restoreSaveFileVariant(saveFileData, {
+          sramSize: SAV_CONSTANTS.SAV_FILE_SIZE,
+          paddingSize: 0,
+          paddingValue: 0,
+          trailer: saveFileVariant.trailer,
+        });
+      } else if (to64kb !== undefined && to64kb !== saveFileInfo.is64kb) {
+        // Convert a copy, the loaded save keeps its layout
+        const processor = BinaryProcessor.fromUint8Array(new Uint8Array(saveFileData));
+        if (!SaveFileProcessor.convertLayout(processor, to64kb)) {
+          const plan = SaveFileProcessor.planLayoutConversion(processor, to64kb);
+          const songs = plan.songs
+            .filter(song => !song.fits)
+            .map(song => `${song.songId} ${song.name || '<unnamed>'} (${song.blocksNeeded ?? 'unreadable'})`);
+          return rejectWithValue(`Songs need ${plan.blocksNeeded} of ${plan.totalBlocks} blocks, these don't fit: ${songs.join(', ')}`);
+        }
+        const converted = processor.readUint8Array(0, processor.bufferSize).slice().buffer;
+
+        // Write the SRAM size of the new layout, keeping the RTC trailer of the loaded file
+        fileData = SaveFileProcessor.restoreSaveFileVariant(converted, {
+          sramSize: to64kb ? SAV_CONSTANTS.SAV_FILE_SIZE / 2 : SAV_CONSTANTS.SAV_FILE_SIZE,
+          paddingSize: 0,
+          paddingValue: 0,
+          trailer: saveFileVariant?.trailer ?? [],
+        });
+      } else if (saveFileVariant) {
+        // Write the save back with the size, padding and trailer it was loaded with
+        fileData = SaveFileProcessor.restoreSaveFileVariant(saveFileData, saveFileVariant);
+      }
+
       // Use FileService to save the save file data as a binary .sav file
-      const result = await FileService.saveFile(saveFileData, {
+      const result = await FileService.saveFile(fileData, {
         suggestedName: 'lsdj.sav',
         mimeType: 'application/octet-stream'
       });
@@ -172,6 +484,10 @@ export const removeSong = createAsyncThunk<RemoveSongResult, number>(
         return rejectWithValue(`Song with ID ${songId} not found`);
       }
 
+      if (songId === SAV_CONSTANTS.WORKING_SONG_ID) {
+        return rejectWithValue('The working song cannot be removed');
+      }
+
       // Create a BinaryProcessor for the save file data
       const processor = new BinaryProcessor(saveFileData);
 
@@ -187,7 +503,87 @@ export const removeSong = createAsyncThunk<RemoveSongResult, number>(
   }
 );
 
-// Create an async thunk for importing a song from a .lsdprj file
+// Create an async thunk for changing the file name and version of a song
+export const renameSong = createAsyncThunk<RenameSongArgs, RenameSongArgs>(
+  'saveFile/renameSong',
+  async ({ songId, name, version }: RenameSongArgs, { getState, rejectWithValue }) => {
+    try {
+      const state = getState() as { saveFile: SaveFileState };
+      const { saveFileInfo, saveFileData } = state.saveFile;
+
+      if (!saveFileInfo || !saveFileData) {
+        return rejectWithValue('No save file loaded');
+      }
+
+      if (songId === SAV_CONSTANTS.WORKING_SONG_ID) {
+        return rejectWithValue('The working song has no file name');
+      }
+
+      const problem = SaveFileProcessor.validateFileName(name);
+      if (problem) {
+        return rejectWithValue(problem);
+      }
+
+      const processor = new BinaryProcessor(saveFileData);
+      if (!SaveFileProcessor.setFileName(processor, songId, name) ||
+          !SaveFileProcessor.setFileVersion(processor, songId, version)) {
+        return rejectWithValue(`Failed to rename song ${songId}`);
+      }
+
+      return { songId, name, version };
+    } catch (error) {
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to rename song');
+    }
+  }
+);
+
+// Create an async thunk for moving a song to another slot, shifting the songs in between
+export const moveSong = createAsyncThunk<SongSlotArgs, SongSlotArgs>(
+  'saveFile/moveSong',
+  async ({ fromSlot, toSlot }: SongSlotArgs, { getState, rejectWithValue }) => {
+    try {
+      const state = getState() as { saveFile: SaveFileState };
+      const { saveFileInfo, saveFileData } = state.saveFile;
+
+      if (!saveFileInfo || !saveFileData) {
+        return rejectWithValue('No save file loaded');
+      }
+
+      if (!SaveFileProcessor.moveSong(new BinaryProcessor(saveFileData), fromSlot, toSlot)) {
+        return rejectWithValue(`Failed to move song ${fromSlot} to slot ${toSlot}`);
+      }
+
+      return { fromSlot, toSlot };
+    } catch (error) {
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to move song');
+    }
+  }
+);
+
+// Create an async thunk for swapping the songs in two slots
+export const swapSongs = createAsyncThunk<SongSlotArgs, SongSlotArgs>(
+  'saveFile/swapSongs',
+  async ({ fromSlot, toSlot }: SongSlotArgs, { getState, rejectWithValue }) => {
+    try {
+      const state = getState() as { saveFile: SaveFileState };
+      const { saveFileInfo, saveFileData } = state.saveFile;
+
+      if (!saveFileInfo || !saveFileData) {
+        return rejectWithValue('No save file loaded');
+      }
+
+      if (!SaveFileProcessor.swapSongs(new BinaryProcessor(saveFileData), fromSlot, toSlot)) {
+        return rejectWithValue(`Failed to swap songs ${fromSlot} and ${toSlot}`);
+      }
+
+      return { fromSlot, toSlot };
+    } catch (error) {
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to swap songs');
+    }
+  }
+);
+
+// Create an async thunk for importing a song from a .lsdprj or .lsdsng file
 export const importSong = createAsyncThunk<ImportSongResult, void>(
   'saveFile/importSong',
   async (_, { getState, rejectWithValue }) => {
@@ -200,21 +596,28 @@ export const importSong = createAsyncThunk<ImportSongResult, void>(
       }
 
       // Use FileService to open a file picker and load the selected file
-      const songData = await FileService.loadBinaryFile('.lsdprj');
+      const file = await FileService.loadFile({ accept: '.lsdprj,.lsdsng', binary: true });
 
-      if (!songData) {
+      if (!file) {
         // User canceled the file selection, return without an error
         return { canceled: true };
       }
 
+      if (!(file.content instanceof ArrayBuffer)) {
+        return rejectWithValue('Failed to read song file');
+      }
+
       // Create a BinaryProcessor for the save file data
       const processor = new BinaryProcessor(saveFileData);
 
-      // Import the song into the save file
-      const songId = SaveFileProcessor.importSongFromLsdprj(processor, songData);
+      // Read the song file, picking the format from the file extension
+      const songFile = SaveFileProcessor.parseSongFile(file.fileName, file.content);
+
+      // Pack the song into the first free slot of the save file
+      const songId = SaveFileProcessor.importRawSong(processor, songFile.name, songFile.version, songFile.song);
 
       if (songId === null) {
-        return rejectWithValue('Failed to import song');
+        return rejectWithValue('Failed to import song: no free slot or blocks');
       }
 
       return { songId };
@@ -224,58 +627,483 @@ export const importSong = createAsyncThunk<ImportSongResult, void>(
   }
 );
 
-// Create the save file slice
-const saveFileSlice = createSlice({
-  name: 'saveFile',
-  initialState,
-  reducers: {
-    selectSong: (state, action: PayloadAction<number | null>) => {
-      state.selectedSongId = action.payload;
-    },
-    clearSaveFileData: (state) => {
-      state.saveFileInfo = null;
-      state.saveFileData = null;
-      state.selectedSongId = null;
-      state.error = null;
-    },
-  },
-  extraReducers: (builder) => {
-    builder
-      // Handle loadSaveFile
-      .addCase(loadSaveFile.pending, (state) => {
-        state.isLoading = true;
-        state.error = null;
-      })
-      .addCase(loadSaveFile.fulfilled, (state, action) => {
-        // Check if the action was canceled by the user
-        if (action.payload.canceled) {
-          // User canceled the file selection, just reset loading state without error
-          state.isLoading = false;
-          return;
-        }
-
-        state.isLoading = false;
+// Create an async thunk for saving the working song into a free slot
+export const saveWorkingSong = createAsyncThunk<WorkingSongResult, void>(
+  'saveFile/saveWorkingSong',
+  async (_, { getState, rejectWithValue }) => {
+    try {
+      const state = getState() as { saveFile: SaveFileState };
+      const { saveFileInfo, saveFileData } = state.saveFile;
 
-        state.saveFileInfo = action.payload.saveFileInfo || null;
-        state.saveFileData = action.payload.saveFileData || null;
-        state.selectedSongId = null; // Reset selection when loading a new file
-      })
-      .addCase(loadSaveFile.rejected, (state, action) => {
-        state.isLoading = false;
-        state.error = action.payload as string || 'An unknown error occurred';
-      })
-      // Handle exportSong
-      .addCase(exportSong.pending, (state) => {
-        state.isLoading = true;
-        state.error = null;
-      })
-      .addCase(exportSong.fulfilled, (state, action) => {
-        // Check if the action was canceled by the user
-        if (action.payload.canceled) {
-          // User canceled the save operation, just reset loading state without error
-          state.isLoading = false;
-          return;
-        }
+      if (!saveFileInfo || !saveFileData) {
+        return rejectWithValue('No save file loaded');
+      }
+
+      // Create a BinaryProcessor for the save file data
+      const processor = new BinaryProcessor(saveFileData);
+
+      // Store the working song in the first free slot
+      const songId = SaveFileProcessor.saveWorkingSong(processor);
+
+      if (songId === null) {
+        return rejectWithValue('Failed to save working song: no free slot or blocks');
+      }
+
+      return { songId };
+    } catch (error) {
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to save working song');
+    }
+  }
+);
+
+// Create an async thunk for loading a song slot into working memory
+export const loadSongToWorkingMemory = createAsyncThunk<WorkingSongResult, number>(
+  'saveFile/loadSongToWorkingMemory',
+  async (songId: number, { getState, rejectWithValue }) => {
+    try {
+      const state = getState() as { saveFile: SaveFileState };
+      const { saveFileInfo, saveFileData } = state.saveFile;
+
+      if (!saveFileInfo || !saveFileData) {
+        return rejectWithValue('No save file loaded');
+      }
+
+      // Create a BinaryProcessor for the save file data
+      const processor = new BinaryProcessor(saveFileData);
+
+      // Replace the working song with the song in the slot
+      if (!SaveFileProcessor.loadSongToWorkingMemory(processor, songId)) {
+        return rejectWithValue(`Failed to load song ${songId} into working memory`);
+      }
+
+      return { songId: SAV_CONSTANTS.WORKING_SONG_ID };
+    } catch (error) {
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to load song into working memory');
+    }
+  }
+);
+
+// Create an async thunk for defragmenting the save file
+export const defragmentSaveFile = createAsyncThunk<DefragmentResult, void>(
+  'saveFile/defragmentSaveFile',
+  async (_, { getState, rejectWithValue }) => {
+    try {
+      const state = getState() as { saveFile: SaveFileState };
+      const { saveFileInfo, saveFileData } = state.saveFile;
+
+      if (!saveFileInfo || !saveFileData) {
+        return rejectWithValue('No save file loaded');
+      }
+
+      // Create a BinaryProcessor for the save file data
+      const processor = new BinaryProcessor(saveFileData);
+
+      // Rewrite the songs into contiguous blocks
+      const result = SaveFileProcessor.defragment(processor);
+
+      if (!result) {
+        return rejectWithValue('Failed to defragment save file');
+      }
+
+      return result;
+    } catch (error) {
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to defragment save file');
+    }
+  }
+);
+
+// Create an async thunk for clearing the song data a song never plays
+export const cleanSong = createAsyncThunk<CleanSongResult, number>(
+  'saveFile/cleanSong',
+  async (songId: number, { getState, rejectWithValue }) => {
+    try {
+      const state = getState() as { saveFile: SaveFileState };
+      const { saveFileInfo, saveFileData } = state.saveFile;
+
+      if (!saveFileInfo || !saveFileData) {
+        return rejectWithValue('No save file loaded');
+      }
+
+      // Create a BinaryProcessor for the save file data
+      const processor = new BinaryProcessor(saveFileData);
+
+      // Clear the unused data and repack the song
+      const result = SaveFileProcessor.cleanSong(processor, songId);
+
+      if (!result) {
+        return rejectWithValue('Failed to clean song');
+      }
+
+      return result;
+    } catch (error) {
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to clean song');
+    }
+  }
+);
+
+// Create an async thunk for exporting an instrument to a .lsdinst file
+export const exportInstrument = createAsyncThunk<InstrumentResult, InstrumentArgs>(
+  'saveFile/exportInstrument',
+  async ({ songId, instrument }, { getState, rejectWithValue }) => {
+    try {
+      const state = getState() as { saveFile: SaveFileState };
+      const { saveFileInfo, saveFileData } = state.saveFile;
+
+      if (!saveFileInfo || !saveFileData) {
+        return rejectWithValue('No save file loaded');
+      }
+
+      // Create a BinaryProcessor for the save file data
+      const processor = new BinaryProcessor(saveFileData);
+
+      // Extract the instrument with its table and synth
+      const instrumentFile = SaveFileProcessor.extractInstrument(processor, songId, instrument);
+
+      if (!instrumentFile) {
+        return rejectWithValue(`Failed to extract instrument ${instrument} from song ${songId}`);
+      }
+
+      // Use FileService to save the instrument as a binary .lsdinst file
+      const song = saveFileInfo.songs.find(s => s.id === songId);
+      const instrumentNumber = instrument.toString(16).toUpperCase().padStart(2, '0');
+      const result = await FileService.saveFile(LsdinstFile.createLsdinst(instrumentFile).slice().buffer, {
+        suggestedName: `${song?.name.trim() || 'untitled'}_${instrumentNumber}.lsdinst`,
+        mimeType: 'application/octet-stream'
+      });
+
+      // Check if the user canceled the save operation
+      if (!result.success && result.error?.code === 'USER_CANCELLED') {
+        return { canceled: true };
+      }
+
+      return { songId };
+    } catch (error) {
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to export instrument');
+    }
+  }
+);
+
+// Create an async thunk for importing a .lsdinst file over an instrument
+export const importInstrument = createAsyncThunk<InstrumentResult, InstrumentArgs>(
+  'saveFile/importInstrument',
+  async ({ songId, instrument }, { getState, rejectWithValue }) => {
+    try {
+      const state = getState() as { saveFile: SaveFileState };
+      const { saveFileInfo, saveFileData } = state.saveFile;
+
+      if (!saveFileInfo || !saveFileData) {
+        return rejectWithValue('No save file loaded');
+      }
+
+      // Use FileService to open a file picker and load the selected file
+      const fileData = await FileService.loadBinaryFile('.lsdinst');
+
+      if (!fileData) {
+        // User canceled the file selection, return without an error
+        return { canceled: true };
+      }
+
+      // Read the instrument from the .lsdinst file
+      const instrumentFile = LsdinstFile.readLsdinst(new Uint8Array(fileData));
+
+      // Create a BinaryProcessor for the save file data
+      const processor = new BinaryProcessor(saveFileData);
+
+      // Store the instrument and repack the song
+      if (!SaveFileProcessor.injectInstrument(processor, songId, instrument, instrumentFile)) {
+        return rejectWithValue(`Failed to import instrument into song ${songId}`);
+      }
+
+      return { songId };
+    } catch (error) {
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to import instrument');
+    }
+  }
+);
+
+// Create an async thunk for checking the save file for structural problems
+export const verifySaveFile = createAsyncThunk<VerifyIssue[], void>(
+  'saveFile/verifySaveFile',
+  async (_, { getState, rejectWithValue }) => {
+    try {
+      const state = getState() as { saveFile: SaveFileState };
+      const { saveFileInfo, saveFileData } = state.saveFile;
+
+      if (!saveFileInfo || !saveFileData) {
+        return rejectWithValue('No save file loaded');
+      }
+
+      // Create a BinaryProcessor for the save file data
+      const processor = new BinaryProcessor(saveFileData);
+
+      return SaveFileProcessor.verify(processor);
+    } catch (error) {
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to verify save file');
+    }
+  }
+);
+
+// Create an async thunk for repairing the problems verify can safely fix
+export const repairSaveFile = createAsyncThunk<RepairResult, void>(
+  'saveFile/repairSaveFile',
+  async (_, { getState, rejectWithValue }) => {
+    try {
+      const state = getState() as { saveFile: SaveFileState };
+      const { saveFileInfo, saveFileData } = state.saveFile;
+
+      if (!saveFileInfo || !saveFileData) {
+        return rejectWithValue('No save file loaded');
+      }
+
+      // Create a BinaryProcessor for the save file data
+      const processor = new BinaryProcessor(saveFileData);
+
+      return SaveFileProcessor.repair(processor);
+    } catch (error) {
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to repair save file');
+    }
+  }
+);
+
+// Create an async thunk for loading a second save file to copy songs from
+export const loadMergeSource = createAsyncThunk<LoadSaveFileResult, void>(
+  'saveFile/loadMergeSource',
+  async (_, { rejectWithValue }) => {
+    try {
+      // Use FileService to open a file picker and load the selected file
+      const fileData = await FileService.loadBinaryFile(SAVE_FILE_EXTENSIONS);
+
+      if (!fileData) {
+        // User canceled the file selection, return without an error
+        return { canceled: true };
+      }
+
+      // Bring emulator and flashcart saves to the 128KB layout
+      const normalized = SaveFileProcessor.normalizeSaveFile(fileData);
+      if (!normalized) {
+        return rejectWithValue(`Unrecognized save file size: ${fileData.byteLength} bytes`);
+      }
+
+      // Parse the save file
+      const saveInfo = SaveFileProcessor.parseSaveFile(normalized.saveData);
+
+      if (!saveInfo.isValid) {
+        return rejectWithValue('Invalid save file format');
+      }
+
+      return { saveFileInfo: saveInfo, saveFileData: normalized.saveData };
+    } catch (error) {
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to load save file');
+    }
+  }
+);
+
+// Create an async thunk for copying songs from the second save file
+export const mergeSongs = createAsyncThunk<MergeSongsResult, number[]>(
+  'saveFile/mergeSongs',
+  async (songIds: number[], { getState, rejectWithValue }) => {
+    try {
+      const state = getState() as { saveFile: SaveFileState };
+      const { saveFileInfo, saveFileData, mergeSourceData } = state.saveFile;
+
+      if (!saveFileInfo || !saveFileData) {
+        return rejectWithValue('No save file loaded');
+      }
+
+      if (!mergeSourceData) {
+        return rejectWithValue('No save file to merge from');
+      }
+
+      // Create BinaryProcessors for both save files
+      const processor = new BinaryProcessor(saveFileData);
+      const sourceProcessor = new BinaryProcessor(mergeSourceData);
+
+      // Copy the songs, or nothing if they don't all fit
+      const slots = SaveFileProcessor.mergeSongs(processor, sourceProcessor, songIds);
+
+      if (!slots) {
+        return rejectWithValue('Failed to merge songs: not enough free slots or blocks');
+      }
+
+      return { songIds: slots };
+    } catch (error) {
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to merge songs');
+    }
+  }
+);
+
+// Create an async thunk for picking several song files or zip archives to import at once
+export const loadImportFiles = createAsyncThunk<LoadImportFilesResult, void>(
+  'saveFile/loadImportFiles',
+  async (_, { rejectWithValue }) => {
+    try {
+      // Use FileService to open a file picker and load the selected files
+      const loadedFiles = await FileService.loadFiles({ accept: '.lsdprj,.lsdsng,.zip', binary: true, multiple: true });
+
+      if (!loadedFiles) {
+        // User canceled the file selection, return without an error
+        return { canceled: true };
+      }
+
+      // Unpack zip archives, keeping only the song files inside them
+      const files: SongFileData[] = [];
+      for (const file of loadedFiles) {
+        if (!(file.content instanceof ArrayBuffer)) {
+          continue;
+        }
+
+        // List files that could not be loaded so the import panel can say why
+        if (file.error) {
+          files.push({ fileName: file.fileName, data: file.content, error: file.error });
+          continue;
+        }
+
+        const content = new Uint8Array(file.content);
+        if (file.fileExtension !== 'zip' && !ZipReader.isZip(content)) {
+          files.push({ fileName: file.fileName, data: file.content });
+          continue;
+        }
+
+        let entries;
+        try {
+          entries = await ZipReader.readZip(content);
+        } catch (error) {
+          files.push({
+            fileName: file.fileName,
+            data: file.content,
+            error: error instanceof Error ? error.message : 'Could not read the zip archive',
+          });
+          continue;
+        }
+
+        for (const entry of entries) {
+          const fileName = entry.name.substring(entry.name.lastIndexOf('/') + 1);
+          if (/\.(lsdprj|lsdsng)$/i.test(fileName)) {
+            files.push({ fileName, data: entry.data.slice().buffer });
+          }
+        }
+      }
+
+      if (files.length === 0) {
+        return rejectWithValue('No .lsdprj or .lsdsng files found');
+      }
+
+      return { files };
+    } catch (error) {
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to load song files');
+    }
+  }
+);
+
+// Create an async thunk for importing the chosen pending song files
+export const importSongFiles = createAsyncThunk<ImportSongFilesResult, number[]>(
+  'saveFile/importSongFiles',
+  async (fileIndexes: number[], { getState, rejectWithValue }) => {
+    try {
+      const state = getState() as { saveFile: SaveFileState };
+      const { saveFileInfo, saveFileData, pendingImport } = state.saveFile;
+
+      if (!saveFileInfo || !saveFileData) {
+        return rejectWithValue('No save file loaded');
+      }
+
+      if (!pendingImport) {
+        return rejectWithValue('No song files to import');
+      }
+
+      // Create a BinaryProcessor for the save file data
+      const processor = new BinaryProcessor(saveFileData);
+      const files = fileIndexes.map(index => pendingImport[index]).filter(file => file !== undefined);
+
+      // Import the songs, or nothing if they don't all fit
+      const songIds = SaveFileProcessor.importSongFiles(processor, files);
+
+      if (!songIds) {
+        return rejectWithValue('Failed to import songs: not enough free slots or blocks');
+      }
+
+      return { songIds };
+    } catch (error) {
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to import songs');
+    }
+  }
+);
+
+// Create the save file slice
+const saveFileSlice = createSlice({
+  name: 'saveFile',
+  initialState,
+  reducers: {
+    selectSong: (state, action: PayloadAction<number | null>) => {
+      state.selectedSongId = action.payload;
+    },
+    clearMergeSource: (state) => {
+      state.mergeSourceInfo = null;
+      state.mergeSourceData = null;
+    },
+    clearPendingImport: (state) => {
+      state.pendingImport = null;
+    },
+    setWavExportProgress: (state, action: PayloadAction<number>) => {
+      state.wavExportProgress = action.payload;
+    },
+    clearSaveFileData: (state) => {
+      state.saveFileInfo = null;
+      state.saveFileData = null;
+      state.saveFileVariant = null;
+      state.selectedSongId = null;
+      state.defragmentResult = null;
+      state.cleanSongResult = null;
+      state.verifyIssues = null;
+      state.repairedIssues = null;
+      state.mergeSourceInfo = null;
+      state.mergeSourceData = null;
+      state.pendingImport = null;
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      // Handle loadSaveFile
+      .addCase(loadSaveFile.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(loadSaveFile.fulfilled, (state, action) => {
+        // Check if the action was canceled by the user
+        if (action.payload.canceled) {
+          // User canceled the file selection, just reset loading state without error
+          state.isLoading = false;
+          return;
+        }
+
+        state.isLoading = false;
+
+        state.saveFileInfo = action.payload.saveFileInfo || null;
+        state.saveFileData = action.payload.saveFileData || null;
+        state.saveFileVariant = action.payload.saveFileVariant || null;
+        state.selectedSongId = null; // Reset selection when loading a new file
+        state.defragmentResult = null;
+        state.cleanSongResult = null;
+        state.verifyIssues = null;
+        state.repairedIssues = null;
+      })
+      .addCase(loadSaveFile.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string || 'An unknown error occurred';
+      })
+      // Handle exportSong
+      .addCase(exportSong.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(exportSong.fulfilled, (state, action) => {
+        // Check if the action was canceled by the user
+        if (action.payload.canceled) {
+          // User canceled the save operation, just reset loading state without error
+          state.isLoading = false;
+          return;
+        }
 
         state.isLoading = false;
       })
@@ -283,6 +1111,33 @@ const saveFileSlice = createSlice({
         state.isLoading = false;
         state.error = action.payload as string || 'An unknown error occurred';
       })
+      // Handle exportSongWav
+      .addCase(exportSongWav.pending, (state) => {
+        state.isLoading = true;
+        state.wavExportProgress = 0;
+        state.error = null;
+      })
+      .addCase(exportSongWav.fulfilled, (state) => {
+        state.isLoading = false;
+        state.wavExportProgress = null;
+      })
+      .addCase(exportSongWav.rejected, (state, action) => {
+        state.isLoading = false;
+        state.wavExportProgress = null;
+        state.error = action.payload as string || 'An unknown error occurred';
+      })
+      // Handle exportSongMidi
+      .addCase(exportSongMidi.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(exportSongMidi.fulfilled, (state) => {
+        state.isLoading = false;
+      })
+      .addCase(exportSongMidi.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string || 'An unknown error occurred';
+      })
       // Handle removeSong
       .addCase(removeSong.pending, (state) => {
         state.isLoading = true;
@@ -294,7 +1149,7 @@ const saveFileSlice = createSlice({
         // Update the saveFileInfo with the removed song
         if (state.saveFileInfo && state.saveFileData) {
           // Re-parse the save file to get updated information
-          state.saveFileInfo = SaveFileProcessor.parseSaveFile(state.saveFileData);
+          refreshSaveFileInfo(state);
 
           // If the removed song was selected, clear the selection
           if (state.selectedSongId === action.payload.songId) {
@@ -325,6 +1180,18 @@ const saveFileSlice = createSlice({
         state.isLoading = false;
         state.error = action.payload as string || 'An unknown error occurred';
       })
+      // Handle exportAllSongs
+      .addCase(exportAllSongs.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(exportAllSongs.fulfilled, (state) => {
+        state.isLoading = false;
+      })
+      .addCase(exportAllSongs.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string || 'An unknown error occurred';
+      })
       // Handle importSong
       .addCase(importSong.pending, (state) => {
         state.isLoading = true;
@@ -343,7 +1210,7 @@ const saveFileSlice = createSlice({
         // Update the saveFileInfo with the imported song
         if (state.saveFileInfo && state.saveFileData) {
           // Re-parse the save file to get updated information
-          state.saveFileInfo = SaveFileProcessor.parseSaveFile(state.saveFileData);
+          refreshSaveFileInfo(state);
 
           // Select the newly imported song
           if (action.payload.songId !== undefined) {
@@ -354,11 +1221,285 @@ const saveFileSlice = createSlice({
       .addCase(importSong.rejected, (state, action) => {
         state.isLoading = false;
         state.error = action.payload as string || 'An unknown error occurred';
+      })
+      // Handle saveWorkingSong and loadSongToWorkingMemory
+      .addCase(saveWorkingSong.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(saveWorkingSong.fulfilled, (state, action) => {
+        state.isLoading = false;
+
+        // Re-parse the save file and select the saved song
+        if (state.saveFileData) {
+          refreshSaveFileInfo(state);
+          state.selectedSongId = action.payload.songId;
+        }
+      })
+      .addCase(saveWorkingSong.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string || 'An unknown error occurred';
+      })
+      .addCase(loadSongToWorkingMemory.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(loadSongToWorkingMemory.fulfilled, (state, action) => {
+        state.isLoading = false;
+
+        // Re-parse the save file and select the working song
+        if (state.saveFileData) {
+          refreshSaveFileInfo(state);
+          state.selectedSongId = action.payload.songId;
+        }
+      })
+      .addCase(loadSongToWorkingMemory.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string || 'An unknown error occurred';
+      })
+      // Handle defragmentSaveFile
+      .addCase(defragmentSaveFile.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(defragmentSaveFile.fulfilled, (state, action) => {
+        state.isLoading = false;
+        state.defragmentResult = action.payload;
+
+        // Re-parse the save file to get the new block layout
+        if (state.saveFileData) {
+          refreshSaveFileInfo(state);
+        }
+      })
+      .addCase(defragmentSaveFile.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string || 'An unknown error occurred';
+      })
+      // Handle cleanSong
+      .addCase(cleanSong.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(cleanSong.fulfilled, (state, action) => {
+        state.isLoading = false;
+        state.cleanSongResult = action.payload;
+
+        // Re-parse the save file to get the new block usage
+        if (state.saveFileData) {
+          refreshSaveFileInfo(state);
+        }
+      })
+      .addCase(cleanSong.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string || 'An unknown error occurred';
+      })
+      // Handle exportInstrument
+      .addCase(exportInstrument.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(exportInstrument.fulfilled, (state) => {
+        state.isLoading = false;
+      })
+      .addCase(exportInstrument.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string || 'An unknown error occurred';
+      })
+      // Handle importInstrument
+      .addCase(importInstrument.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(importInstrument.fulfilled, (state, action) => {
+        state.isLoading = false;
+
+        // Re-parse the save file, the song may use a different number of blocks
+        if (!action.payload.canceled && state.saveFileData) {
+          refreshSaveFileInfo(state);
+        }
+      })
+      .addCase(importInstrument.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string || 'An unknown error occurred';
+      })
+      // Handle verifySaveFile
+      .addCase(verifySaveFile.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(verifySaveFile.fulfilled, (state, action) => {
+        state.isLoading = false;
+        state.verifyIssues = action.payload;
+        state.repairedIssues = null;
+      })
+      .addCase(verifySaveFile.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string || 'An unknown error occurred';
+      })
+      // Handle repairSaveFile
+      .addCase(repairSaveFile.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(repairSaveFile.fulfilled, (state, action) => {
+        state.isLoading = false;
+        state.verifyIssues = action.payload.remaining;
+        state.repairedIssues = action.payload.repaired;
+
+        // Re-parse the save file, freed blocks change the memory usage
+        if (state.saveFileData) {
+          refreshSaveFileInfo(state);
+        }
+      })
+      .addCase(repairSaveFile.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string || 'An unknown error occurred';
+      })
+      // Handle renameSong
+      .addCase(renameSong.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(renameSong.fulfilled, (state) => {
+        state.isLoading = false;
+
+        if (state.saveFileData) {
+          refreshSaveFileInfo(state);
+        }
+      })
+      .addCase(renameSong.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string || 'An unknown error occurred';
+      })
+      // Handle moveSong
+      .addCase(moveSong.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(moveSong.fulfilled, (state, action) => {
+        state.isLoading = false;
+
+        if (state.saveFileData) {
+          refreshSaveFileInfo(state);
+        }
+
+        // Keep the selection on the same song
+        const { fromSlot, toSlot } = action.payload;
+        const selected = state.selectedSongId;
+        if (selected === fromSlot) {
+          state.selectedSongId = toSlot;
+        } else if (selected !== null && fromSlot < toSlot && selected > fromSlot && selected <= toSlot) {
+          state.selectedSongId = selected - 1;
+        } else if (selected !== null && toSlot < fromSlot && selected >= toSlot && selected < fromSlot) {
+          state.selectedSongId = selected + 1;
+        }
+      })
+      .addCase(moveSong.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string || 'An unknown error occurred';
+      })
+      // Handle swapSongs
+      .addCase(swapSongs.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(swapSongs.fulfilled, (state, action) => {
+        state.isLoading = false;
+
+        if (state.saveFileData) {
+          refreshSaveFileInfo(state);
+        }
+
+        // Keep the selection on the same song
+        const { fromSlot, toSlot } = action.payload;
+        if (state.selectedSongId === fromSlot) {
+          state.selectedSongId = toSlot;
+        } else if (state.selectedSongId === toSlot) {
+          state.selectedSongId = fromSlot;
+        }
+      })
+      .addCase(swapSongs.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string || 'An unknown error occurred';
+      })
+      // Handle loadMergeSource
+      .addCase(loadMergeSource.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(loadMergeSource.fulfilled, (state, action) => {
+        state.isLoading = false;
+
+        // Keep the previous source if the user canceled the file selection
+        if (action.payload.canceled) {
+          return;
+        }
+
+        state.mergeSourceInfo = action.payload.saveFileInfo || null;
+        state.mergeSourceData = action.payload.saveFileData || null;
+      })
+      .addCase(loadMergeSource.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string || 'An unknown error occurred';
+      })
+      // Handle mergeSongs
+      .addCase(mergeSongs.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(mergeSongs.fulfilled, (state) => {
+        state.isLoading = false;
+
+        // Re-parse the save file to list the copied songs
+        if (state.saveFileData) {
+          refreshSaveFileInfo(state);
+        }
+      })
+      .addCase(mergeSongs.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string || 'An unknown error occurred';
+      })
+      // Handle loadImportFiles
+      .addCase(loadImportFiles.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(loadImportFiles.fulfilled, (state, action) => {
+        state.isLoading = false;
+
+        // Keep the previous files if the user canceled the file selection
+        if (action.payload.canceled) {
+          return;
+        }
+
+        state.pendingImport = action.payload.files || null;
+      })
+      .addCase(loadImportFiles.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string || 'An unknown error occurred';
+      })
+      // Handle importSongFiles
+      .addCase(importSongFiles.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(importSongFiles.fulfilled, (state) => {
+        state.isLoading = false;
+        state.pendingImport = null;
+
+        // Re-parse the save file to list the imported songs
+        if (state.saveFileData) {
+          refreshSaveFileInfo(state);
+        }
+      })
+      .addCase(importSongFiles.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string || 'An unknown error occurred';
       });
   },
 });
 
 // Export actions and reducer
-export const { selectSong, clearSaveFileData } = saveFileSlice.actions;
-// removeSong, exportSong, importSong, and exportSaveFile are already exported above
+export const { selectSong, clearSaveFileData, clearMergeSource, clearPendingImport, setWavExportProgress } = saveFileSlice.actions;
+// The thunks are already exported above
 export default saveFileSlice.reducer;
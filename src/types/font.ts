@@ -20,6 +20,11 @@ export const FONT_CONSTANTS = {
   GFX_SIZE: 16 * 46
 };
 
+// Font tile used to draw each character on the tracker screens
+export const FONT_CHARACTER_TILES: Record<string, number> = Object.fromEntries(
+  ' ·0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ-#.'.split('').map((ch, tile) => [ch, tile])
+);
+
 // Font color type (1-3)
 export type FontColor = 0 | 1 | 2 | 3;
 
@@ -0,0 +1,237 @@
+/**
+ * Types and constants for decoded LSDj song data
+ */
+
+/**
+ * Constants for the layout of a decompressed song (0x8000 bytes)
+ */
+export const SONG_CONSTANTS = {
+  SONG_SIZE: 0x8000,
+  STEP_COUNT: 16,
+  PHRASE_COUNT: 0xff,
+  CHAIN_COUNT: 0x80,
+  INSTRUMENT_COUNT: 0x40,
+  TABLE_COUNT: 0x20,
+  GROOVE_COUNT: 0x20,
+  SYNTH_COUNT: 0x10,
+  WAVE_COUNT: 0x100,
+  WAVE_SIZE: 16,
+  WORD_COUNT: 42,
+  ROW_COUNT: 0x100,
+  CHANNEL_COUNT: 4,
+  BOOKMARK_COUNT: 64,
+  INSTRUMENT_NAME_LENGTH: 5,
+  WORD_NAME_LENGTH: 4,
+  EMPTY_VALUE: 0xff, // Empty song sequence, chain and phrase entries
+
+  // Memory addresses
+  PHRASE_NOTES_PTR: 0x0000,
+  BOOKMARKS_PTR: 0x0ff0,
+  GROOVES_PTR: 0x1090,
+  SEQUENCE_PTR: 0x1290,
+  TABLE_VOLUMES_PTR: 0x1690,
+  WORDS_PTR: 0x1890,
+  WORD_NAMES_PTR: 0x1dd0,
+  INSTRUMENT_NAMES_PTR: 0x1e7a,
+  TABLE_ALLOC_TABLE_PTR: 0x2020,
+  INSTRUMENT_ALLOC_TABLE_PTR: 0x2040,
+  CHAIN_PHRASES_PTR: 0x2080,
+  CHAIN_TRANSPOSES_PTR: 0x2880,
+  INSTRUMENT_PARAMS_PTR: 0x3080,
+  TABLE_TRANSPOSES_PTR: 0x3480,
+  TABLE_COMMANDS1_PTR: 0x3680,
+  TABLE_COMMAND_VALUES1_PTR: 0x3880,
+  TABLE_COMMANDS2_PTR: 0x3a80,
+  TABLE_COMMAND_VALUES2_PTR: 0x3c80,
+  PHRASE_ALLOC_TABLE_PTR: 0x3e82,
+  CHAIN_ALLOC_TABLE_PTR: 0x3ea2,
+  SYNTH_PARAMS_PTR: 0x3eb2,
+  SETTINGS_PTR: 0x3fb2,
+  PHRASE_COMMANDS_PTR: 0x4000,
+  PHRASE_COMMAND_VALUES_PTR: 0x4ff0,
+  WAVES_PTR: 0x6000,
+  PHRASE_INSTRUMENTS_PTR: 0x7000,
+  FORMAT_VERSION_PTR: 0x7fff,
+
+  // Offsets of the 'rb' markers LSDj writes to initialized song memory
+  MEMORY_CHECK_PTRS: [0x1e78, 0x3e80, 0x7ff0],
+};
+
+/**
+ * Instrument type values, stored in the first instrument byte
+ */
+export const INSTRUMENT_TYPES = {
+  PULSE: 0,
+  WAVE: 1,
+  KIT: 2,
+  NOISE: 3,
+};
+
+/**
+ * Numbers of the phrase and table commands the editor interprets
+ */
+export const COMMAND_TYPES = {
+  TABLE: 1, // A: play a table
+  CHORD: 2, // C: cycle the note through two intervals
+  ENVELOPE: 4, // E: set the volume envelope
+  GROOVE: 6, // G: switch groove
+  HOP: 7, // H: in a table, jump to a step
+  KILL: 8, // K: stop the note after a number of ticks
+  PITCH: 12, // P: bend the pitch every tick
+  SWEEP: 14, // S: set the pulse 1 frequency sweep
+  WAVE: 17, // W: set the pulse width
+};
+
+/**
+ * A phrase of 16 steps
+ */
+export interface Phrase {
+  allocated: boolean;
+  notes: number[];
+  instruments: number[]; // 0xff for no instrument
+  commands: number[];
+  commandValues: number[];
+}
+
+/**
+ * A chain of 16 phrases with per-step transposes
+ */
+export interface Chain {
+  allocated: boolean;
+  phrases: number[]; // 0xff for no phrase
+  transposes: number[];
+}
+
+/**
+ * An instrument. The parameters depend on the instrument type and song format version.
+ */
+export interface Instrument {
+  allocated: boolean;
+  name: number[]; // 5 LSDj characters
+  type: number;
+  params: number[]; // The 15 bytes following the type byte
+}
+
+/**
+ * A table of 16 steps
+ */
+export interface Table {
+  allocated: boolean;
+  volumes: number[];
+  transposes: number[];
+  commands1: number[];
+  commandValues1: number[];
+  commands2: number[];
+  commandValues2: number[];
+}
+
+/**
+ * Soft synth parameters used to generate waves for wave instruments
+ */
+export interface SynthSettings {
+  waveform: number;
+  filter: number;
+  resonance: number;
+  distortion: number;
+  phase: number;
+  volumeStart: number;
+  cutoffStart: number;
+  phaseStart: number;
+  vshiftStart: number;
+  volumeEnd: number;
+  cutoffEnd: number;
+  phaseEnd: number;
+  vshiftEnd: number;
+  reserved: number[];
+}
+
+/**
+ * A speech instrument word
+ */
+export interface Word {
+  name: number[]; // 4 LSDj characters
+  allophones: number[];
+  lengths: number[];
+}
+
+/**
+ * Song settings and statistics stored next to the tempo
+ */
+export interface SongSettings {
+  workHours: number;
+  workMinutes: number;
+  transposition: number;
+  totalDays: number;
+  totalHours: number;
+  totalMinutes: number;
+  totalTimeChecksum: number;
+  keyDelay: number;
+  keyRepeat: number;
+  font: number;
+  sync: number;
+  colorSet: number;
+  clone: number;
+  fileChanged: number;
+  powerSave: number;
+  prelisten: number;
+  waveSynthOverwriteLocks: number[];
+}
+
+/**
+ * A decoded LSDj song
+ */
+export interface SongModel {
+  formatVersion: number;
+  tempo: number; // Raw tempo byte, see SongProcessor.getBpm
+  sequence: number[][]; // [row][channel] chain numbers, 0xff for empty
+  chains: Chain[];
+  phrases: Phrase[];
+  instruments: Instrument[];
+  tables: Table[];
+  grooves: number[][];
+  synths: SynthSettings[];
+  waves: number[][];
+  words: Word[];
+  bookmarks: number[];
+  settings: SongSettings;
+  reserved: number[]; // Unused song memory, kept to write the song back unchanged
+  // Allocation bits no entry uses: the upper 7 bits of each instrument allocation byte, then
+  // of each table allocation byte, then the phrase bit after the last phrase (0 or 1)
+  allocationReserved: number[];
+}
+
+/**
+ * An instrument exported from a song, with the table and soft synth it plays
+ */
+export interface InstrumentFile {
+  formatVersion: number; // Format version of the song the instrument came from
+  instrument: Instrument;
+  table: Table | null;
+  synth: SynthSettings | null;
+  waves: number[][] | null; // The 16 waves generated by the synth
+}
+
+/**
+ * Song data that holds something but is never played, by entry number
+ */
+export interface SongUsageReport {
+  unusedChains: number[];
+  unusedPhrases: number[];
+  unusedInstruments: number[];
+  unusedTables: number[];
+  unusedGrooves: number[];
+}
+
+/**
+ * Differences between two songs, by entry number. Entries that are unallocated in both songs
+ * are equal whatever data they hold.
+ */
+export interface SongDiff {
+  sequenceRows: number[];
+  chains: number[];
+  phrases: number[];
+  instruments: number[];
+  tables: number[];
+  grooves: number[];
+  tempoChanged: boolean;
+}
@@ -0,0 +1,95 @@
+import {describe, expect, it} from 'vitest';
+import {
+  formatChainScreen,
+  formatCommand,
+  formatGrooveScreen,
+  formatNote,
+  formatPhraseScreen,
+  formatSongScreen,
+  toHexOrEmpty,
+} from '../tracker-utils';
+import {COMMAND_TYPES, SONG_CONSTANTS} from '../../types/song';
+import {createEmptySong} from '../song-test-utils';
+
+describe('tracker-utils', () => {
+  describe('formatNote', () => {
+    it('should start at C-3 and show the octave as a hex digit', () => {
+      expect(formatNote(0)).toBe('---');
+      expect(formatNote(1)).toBe('C-3');
+      expect(formatNote(2)).toBe('C#3');
+      expect(formatNote(12)).toBe('B-3');
+      expect(formatNote(13)).toBe('C-4');
+      expect(formatNote(1 + 7 * 12)).toBe('C-A');
+    });
+  });
+
+  describe('formatCommand', () => {
+    it('should show the command letter and value', () => {
+      expect(formatCommand(0, 0)).toBe('-00');
+      expect(formatCommand(COMMAND_TYPES.TABLE, 0x05)).toBe('A05');
+      expect(formatCommand(COMMAND_TYPES.GROOVE, 0x1f)).toBe('G1F');
+      expect(formatCommand(COMMAND_TYPES.KILL, 0x02)).toBe('K02');
+      expect(formatCommand(18, 0xff)).toBe('ZFF');
+      expect(formatCommand(19, 0)).toBe('?00');
+    });
+  });
+
+  describe('empty entries', () => {
+    it('should show empty (0xff) entries as dashes', () => {
+      expect(toHexOrEmpty(SONG_CONSTANTS.EMPTY_VALUE)).toBe('--');
+      expect(toHexOrEmpty(0xfe)).toBe('FE');
+      expect(toHexOrEmpty(0)).toBe('00');
+    });
+
+    it('should show empty chain and phrase steps as dashes', () => {
+      const song = createEmptySong();
+      song.chains[1].phrases[0] = 0x0a;
+      song.chains[1].transposes[0] = 0x0c;
+      song.phrases[2].notes[0] = 13;
+      song.phrases[2].instruments[0] = 0x03;
+      song.phrases[2].commands[0] = COMMAND_TYPES.KILL;
+      song.phrases[2].commandValues[0] = 0x02;
+
+      const chain = formatChainScreen(song, 1);
+      expect(chain[0]).toBe('CHAIN 01');
+      expect(chain[1]).toBe('0 0A 0C');
+      expect(chain[2]).toBe('1 -- 00');
+
+      const phrase = formatPhraseScreen(song, 2);
+      expect(phrase[0]).toBe('PHRASE 02');
+      expect(phrase[1]).toBe('0 C-4 I03 K02');
+      expect(phrase[16]).toBe('F --- --- -00');
+    });
+
+    it('should end a groove at its first zero step', () => {
+      const song = createEmptySong();
+      song.grooves[0].fill(0);
+      song.grooves[0][0] = 6;
+      song.grooves[0][1] = 5;
+
+      expect(formatGrooveScreen(song, 0).slice(1, 4)).toEqual(['0 06', '1 05', '2 --']);
+    });
+  });
+
+  describe('formatSongScreen', () => {
+    it('should hide the trailing empty rows', () => {
+      const song = createEmptySong();
+      song.sequence[0][0] = 0x00;
+      song.sequence[2][3] = 0x1f;
+
+      expect(formatSongScreen(song)).toEqual([
+        '   PU1 PU2 WAV NOI',
+        '00  00  --  --  --',
+        '01  --  --  --  --',
+        '02  --  --  --  1F',
+      ]);
+    });
+
+    it('should keep the first row of an empty song', () => {
+      expect(formatSongScreen(createEmptySong())).toEqual([
+        '   PU1 PU2 WAV NOI',
+        '00  --  --  --  --',
+      ]);
+    });
+  });
+});
@@ -2,6 +2,8 @@
  * Utility functions for working with audio samples
  */
 
+import { LSDJ_KIT_NAME_CHARACTERS, LsdjCharset } from '../services/binary/LsdjCharset';
+
 /**
  * Converts sample data from Int16Array to Uint8Array of packed nibbles for waveform visualization
  * 
@@ -45,11 +47,11 @@ export function calculateSampleDuration(sampleLength: number, isHalfSpeed: boole
 }
 
 /**
- * Sanitizes input for LSDj compatibility
+ * Sanitizes kit and sample names for LSDj compatibility, dropping characters they can't hold
  * 
  * @param input - The input string to sanitize
  * @returns The sanitized string
  */
 export function sanitizeLSDJInput(input: string): string {
-  return input.toUpperCase().replace(/[^A-Z0-9 -]/g, '');
+  return LsdjCharset.sanitize(input, LSDJ_KIT_NAME_CHARACTERS);
 }
@@ -0,0 +1,27 @@
+import {SongProcessor} from '../services/binary/SongProcessor';
+import {SONG_CONSTANTS, SongModel} from '../types/song';
+
+/**
+ * Write the 'rb' markers LSDj leaves in initialized song memory, which parseSong checks for
+ * @param raw - The song memory
+ * @returns The same song memory
+ */
+export function writeMemoryCheck(raw: Uint8Array): Uint8Array {
+  for (const offset of SONG_CONSTANTS.MEMORY_CHECK_PTRS) {
+    raw[offset] = 'r'.charCodeAt(0);
+    raw[offset + 1] = 'b'.charCodeAt(0);
+  }
+  return raw;
+}
+
+/**
+ * Create a song with nothing in the sequence, chains or phrases
+ * @returns The song model
+ */
+export function createEmptySong(): SongModel {
+  const song = SongProcessor.parseSong(writeMemoryCheck(new Uint8Array(SONG_CONSTANTS.SONG_SIZE)));
+  song.sequence.forEach(row => row.fill(SONG_CONSTANTS.EMPTY_VALUE));
+  song.chains.forEach(chain => chain.phrases.fill(SONG_CONSTANTS.EMPTY_VALUE));
+  song.phrases.forEach(phrase => phrase.instruments.fill(SONG_CONSTANTS.EMPTY_VALUE));
+  return song;
+}
@@ -0,0 +1,198 @@
+/**
+ * Utility functions for formatting song data the way LSDj displays it
+ */
+
+import { SongModel, SONG_CONSTANTS, INSTRUMENT_TYPES } from '../types/song';
+import { SongProcessor } from '../services/binary/SongProcessor';
+import { LsdjCharset } from '../services/binary/LsdjCharset';
+
+const NOTE_NAMES = ['C-', 'C#', 'D-', 'D#', 'E-', 'F-', 'F#', 'G-', 'G#', 'A-', 'A#', 'B-'];
+
+// Command letters in command number order, 0 being no command
+const COMMAND_LETTERS = '-ACDEFGHKLMOPRSTVWZ';
+
+const INSTRUMENT_TYPE_NAMES: Record<number, string> = {
+  [INSTRUMENT_TYPES.PULSE]: 'PULSE',
+  [INSTRUMENT_TYPES.WAVE]: 'WAVE',
+  [INSTRUMENT_TYPES.KIT]: 'KIT',
+  [INSTRUMENT_TYPES.NOISE]: 'NOISE',
+};
+
+/**
+ * Formats a byte as two upper case hex digits
+ *
+ * @param value - The byte to format
+ * @returns The hex string
+ */
+export function toHex(value: number): string {
+  return value.toString(16).toUpperCase().padStart(2, '0');
+}
+
+/**
+ * Formats a byte as two hex digits, or dashes for an empty (0xff) entry
+ *
+ * @param value - The byte to format
+ * @returns The hex string or '--'
+ */
+export function toHexOrEmpty(value: number): string {
+  return value === SONG_CONSTANTS.EMPTY_VALUE ? '--' : toHex(value);
+}
+
+/**
+ * Formats a phrase note. Note 1 is C-3 and octaves are shown as a hex digit.
+ *
+ * @param note - The note value, 0 for no note
+ * @returns The note name, e.g. 'C#4', or '---'
+ */
+export function formatNote(note: number): string {
+  if (note === 0) {
+    return '---';
+  }
+  const octave = Math.floor((note - 1) / 12) + 3;
+  return NOTE_NAMES[(note - 1) % 12] + octave.toString(16).toUpperCase();
+}
+
+/**
+ * Formats a command and its value
+ *
+ * @param command - The command number
+ * @param value - The command value
+ * @returns The command, e.g. 'K02', or '-00' when there is no command
+ */
+export function formatCommand(command: number, value: number): string {
+  const letter = command < COMMAND_LETTERS.length ? COMMAND_LETTERS[command] : '?';
+  return letter + toHex(value);
+}
+
+/**
+ * Decodes a name stored in LSDj characters
+ *
+ * @param name - The LSDj characters
+ * @returns The name, cut at the first zero
+ */
+export function formatName(name: number[]): string {
+  return LsdjCharset.decode(name);
+}
+
+/**
+ * Formats the song screen: one row per sequence row with a chain per channel
+ *
+ * @param song - The song
+ * @returns The lines of the screen
+ */
+export function formatSongScreen(song: SongModel): string[] {
+  // Hide the trailing empty rows
+  let lastRow = song.sequence.length - 1;
+  while (lastRow > 0 && song.sequence[lastRow].every(chain => chain === SONG_CONSTANTS.EMPTY_VALUE)) {
+    lastRow--;
+  }
+
+  const lines = ['   PU1 PU2 WAV NOI'];
+  for (let row = 0; row <= lastRow; row++) {
+    lines.push(`${toHex(row)}  ${song.sequence[row].map(toHexOrEmpty).join('  ')}`);
+  }
+  return lines;
+}
+
+/**
+ * Formats a chain screen: one row per step with the phrase and transpose
+ *
+ * @param song - The song
+ * @param chain - The chain number
+ * @returns The lines of the screen
+ */
+export function formatChainScreen(song: SongModel, chain: number): string[] {
+  const { phrases, transposes } = song.chains[chain];
+  const lines = [`CHAIN ${toHex(chain)}`];
+  for (let step = 0; step < SONG_CONSTANTS.STEP_COUNT; step++) {
+    lines.push(`${step.toString(16).toUpperCase()} ${toHexOrEmpty(phrases[step])} ${toHex(transposes[step])}`);
+  }
+  return lines;
+}
+
+/**
+ * Formats a phrase screen: one row per step with the note, instrument and command
+ *
+ * @param song - The song
+ * @param phrase - The phrase number
+ * @returns The lines of the screen
+ */
+export function formatPhraseScreen(song: SongModel, phrase: number): string[] {
+  const { notes, instruments, commands, commandValues } = song.phrases[phrase];
+  const lines = [`PHRASE ${toHex(phrase)}`];
+  for (let step = 0; step < SONG_CONSTANTS.STEP_COUNT; step++) {
+    const instrument = instruments[step] === SONG_CONSTANTS.EMPTY_VALUE ? '---' : `I${toHex(instruments[step])}`;
+    lines.push(
+      `${step.toString(16).toUpperCase()} ${formatNote(notes[step])} ${instrument} ${formatCommand(commands[step], commandValues[step])}`
+    );
+  }
+  return lines;
+}
+
+/**
+ * Formats an instrument screen: the name, type, table and raw parameters
+ *
+ * @param song - The song
+ * @param instrument - The instrument number
+ * @returns The lines of the screen
+ */
+export function formatInstrumentScreen(song: SongModel, instrument: number): string[] {
+  const data = song.instruments[instrument];
+  const table = SongProcessor.getInstrumentTable(data);
+  const synth = SongProcessor.getInstrumentSynth(data);
+
+  const lines = [
+    `INSTR ${toHex(instrument)}`,
+    `NAME  ${formatName(data.name)}`,
+    `TYPE  ${INSTRUMENT_TYPE_NAMES[data.type] ?? toHex(data.type)}`,
+    `TABLE ${table === null ? 'OFF' : toHex(table)}`,
+  ];
+  if (synth !== null) {
+    lines.push(`SYNTH ${synth.toString(16).toUpperCase()}`);
+  }
+
+  // The parameter layout depends on the type and format version, so show the raw bytes
+  for (let i = 0; i < data.params.length; i += 8) {
+    lines.push(`${toHex(i + 1)}  ${data.params.slice(i, i + 8).map(toHex).join(' ')}`);
+  }
+  return lines;
+}
+
+/**
+ * Formats a table screen: one row per step with the envelope, transpose and both commands
+ *
+ * @param song - The song
+ * @param table - The table number
+ * @returns The lines of the screen
+ */
+export function formatTableScreen(song: SongModel, table: number): string[] {
+  const data = song.tables[table];
+  const lines = [`TABLE ${toHex(table)}`];
+  for (let step = 0; step < SONG_CONSTANTS.STEP_COUNT; step++) {
+    lines.push([
+      step.toString(16).toUpperCase(),
+      toHex(data.volumes[step]),
+      toHex(data.transposes[step]),
+      formatCommand(data.commands1[step], data.commandValues1[step]),
+      formatCommand(data.commands2[step], data.commandValues2[step]),
+    ].join(' '));
+  }
+  return lines;
+}
+
+/**
+ * Formats a groove screen: the ticks of each step, empty after the end of the groove
+ *
+ * @param song - The song
+ * @param groove - The groove number
+ * @returns The lines of the screen
+ */
+export function formatGrooveScreen(song: SongModel, groove: number): string[] {
+  const steps = song.grooves[groove];
+  const end = steps.indexOf(0);
+  const lines = [`GROOVE ${toHex(groove)}`];
+  for (let step = 0; step < SONG_CONSTANTS.STEP_COUNT; step++) {
+    lines.push(`${step.toString(16).toUpperCase()} ${end !== -1 && step >= end ? '--' : toHex(steps[step])}`);
+  }
+  return lines;
+}